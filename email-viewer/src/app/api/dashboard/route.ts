@@ -628,6 +628,8 @@ export async function GET(request: NextRequest) {
             cargo_weight,
             weight_unit,
             service_type,
+            total_distance_miles,
+            distance_source,
             initial_quote_amount,
             final_agreed_price,
             quote_status,
@@ -647,6 +649,8 @@ export async function GET(request: NextRequest) {
             cargo_weight,
             weight_unit,
             service_type,
+            total_distance_miles,
+            distance_source,
             initial_quote_amount,
             final_agreed_price,
             quote_status,
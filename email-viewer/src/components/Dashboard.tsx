@@ -461,6 +461,12 @@ function QuoteCard({ quote }: { quote: DashboardQuote }) {
               {quote.origin_city || '?'}, {quote.origin_country || '?'} → {quote.destination_city || '?'},{' '}
               {quote.destination_country || '?'}
             </span>
+            {quote.total_distance_miles != null && (
+              <span className="text-gray-400">
+                · {quote.distance_source === 'straight_line' ? '~' : ''}
+                {Math.round(Number(quote.total_distance_miles)).toLocaleString()} mi
+              </span>
+            )}
           </div>
         </div>
         <div className="text-right space-y-0.5">
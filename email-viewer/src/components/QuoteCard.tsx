@@ -1,11 +1,65 @@
 'use client';
 
-import { useState } from 'react';
-import { QuoteWithMatches } from '@/types';
+import { useState, type ReactNode } from 'react';
+import { FieldConfidence, QuoteWithMatches } from '@/types';
 import { MapPin, Package, Truck, DollarSign, ThumbsUp, ThumbsDown, Eye, AlertTriangle } from 'lucide-react';
 import MatchesDialog from './MatchesDialog';
 import FeedbackDialog from './FeedbackDialog';
 
+// Fields extracted below this confidence are highlighted for review
+const LOW_CONFIDENCE = 0.7;
+
+/**
+ * Lowest-confidence entry among the given fields, if it is below LOW_CONFIDENCE
+ */
+function lowConfidenceField(
+  fieldConfidence: Record<string, FieldConfidence> | null,
+  fields: string[]
+): FieldConfidence | null {
+  const entries = fields
+    .map((field) => fieldConfidence?.[field])
+    .filter((entry): entry is FieldConfidence => !!entry);
+  const lowest = entries.sort((a, b) => a.confidence - b.confidence)[0];
+  return lowest && lowest.confidence < LOW_CONFIDENCE ? lowest : null;
+}
+
+function describeSource(entry: FieldConfidence): string {
+  const source =
+    entry.source === 'attachment'
+      ? `attachment ${entry.attachmentName || ''}`.trim()
+      : entry.source === 'inferred'
+        ? 'inferred (not stated in the email)'
+        : entry.source;
+  const position = entry.offset !== null && entry.offset !== undefined ? ` at char ${entry.offset}` : '';
+  const excerpt = entry.excerpt ? `: "${entry.excerpt}"` : '';
+  return `Low confidence (${Math.round(entry.confidence * 100)}%) - from ${source}${position}${excerpt}`;
+}
+
+/**
+ * Field value, highlighted with its source as a tooltip when extracted with low confidence
+ */
+function ConfidenceValue({
+  quote,
+  fields,
+  children,
+}: {
+  quote: QuoteWithMatches;
+  fields: string[];
+  children: ReactNode;
+}) {
+  const low = lowConfidenceField(quote.field_confidence, fields);
+  if (!low) return <>{children}</>;
+
+  return (
+    <span
+      className="bg-amber-50 border-b border-dashed border-amber-500 cursor-help"
+      title={describeSource(low)}
+    >
+      {children}
+    </span>
+  );
+}
+
 interface QuoteCardProps {
   quote: QuoteWithMatches;
   onFeedbackSubmit: (quoteId: number, data: {
@@ -22,6 +76,10 @@ export default function QuoteCard({ quote, onFeedbackSubmit }: QuoteCardProps) {
   const [feedbackRating, setFeedbackRating] = useState<1 | -1>(1);
   const [selectedSuggestedPrice, setSelectedSuggestedPrice] = useState<number | null>(null);
 
+  const lowConfidenceCount = Object.values(quote.field_confidence || {}).filter(
+    (entry) => entry.confidence < LOW_CONFIDENCE
+  ).length;
+
   const topMatch = quote.matches?.[0];
   const suggestedPrice = quote.ai_recommended_price || quote.top_suggested_price || topMatch?.suggested_price;
 
@@ -66,6 +124,15 @@ export default function QuoteCard({ quote, onFeedbackSubmit }: QuoteCardProps) {
                 {quote.quote_status}
               </span>
             )}
+            {lowConfidenceCount > 0 && (
+              <span
+                className="flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800"
+                title="Highlighted fields were guessed or unclear in the email - hover to see the source"
+              >
+                <AlertTriangle className="w-3 h-3" />
+                {lowConfidenceCount} low-confidence field{lowConfidenceCount > 1 ? 's' : ''}
+              </span>
+            )}
           </div>
           {quote.client_company_name && (
             <span className="text-sm text-outlook-textLight">{quote.client_company_name}</span>
@@ -80,9 +147,11 @@ export default function QuoteCard({ quote, onFeedbackSubmit }: QuoteCardProps) {
               <div>
                 <span className="text-xs text-outlook-textLight block">Origin</span>
                 <span className="text-sm text-outlook-text">
-                  {[quote.origin_city, quote.origin_state_province, quote.origin_country]
-                    .filter(Boolean)
-                    .join(', ') || 'Not specified'}
+                  <ConfidenceValue quote={quote} fields={['origin_city', 'origin_state_province', 'origin_country']}>
+                    {[quote.origin_city, quote.origin_state_province, quote.origin_country]
+                      .filter(Boolean)
+                      .join(', ') || 'Not specified'}
+                  </ConfidenceValue>
                 </span>
               </div>
             </div>
@@ -91,9 +160,11 @@ export default function QuoteCard({ quote, onFeedbackSubmit }: QuoteCardProps) {
               <div>
                 <span className="text-xs text-outlook-textLight block">Destination</span>
                 <span className="text-sm text-outlook-text">
-                  {[quote.destination_city, quote.destination_state_province, quote.destination_country]
-                    .filter(Boolean)
-                    .join(', ') || 'Not specified'}
+                  <ConfidenceValue quote={quote} fields={['destination_city', 'destination_state_province', 'destination_country']}>
+                    {[quote.destination_city, quote.destination_state_province, quote.destination_country]
+                      .filter(Boolean)
+                      .join(', ') || 'Not specified'}
+                  </ConfidenceValue>
                 </span>
               </div>
             </div>
@@ -106,10 +177,15 @@ export default function QuoteCard({ quote, onFeedbackSubmit }: QuoteCardProps) {
               <div>
                 <span className="text-xs text-outlook-textLight block">Cargo</span>
                 <span className="text-sm text-outlook-text">
-                  {quote.cargo_description || 'Not specified'}
+                  <ConfidenceValue quote={quote} fields={['cargo_description']}>
+                    {quote.cargo_description || 'Not specified'}
+                  </ConfidenceValue>
                   {quote.cargo_weight && (
                     <span className="text-outlook-textLight">
-                      {' '}({quote.cargo_weight} {quote.weight_unit || 'kg'})
+                      {' '}
+                      <ConfidenceValue quote={quote} fields={['cargo_weight', 'weight_unit']}>
+                        ({quote.cargo_weight} {quote.weight_unit || 'kg'})
+                      </ConfidenceValue>
                     </span>
                   )}
                 </span>
@@ -120,7 +196,9 @@ export default function QuoteCard({ quote, onFeedbackSubmit }: QuoteCardProps) {
               <div>
                 <span className="text-xs text-outlook-textLight block">Service</span>
                 <span className="text-sm text-outlook-text">
-                  {quote.service_type || 'Not specified'}
+                  <ConfidenceValue quote={quote} fields={['service_type']}>
+                    {quote.service_type || 'Not specified'}
+                  </ConfidenceValue>
                 </span>
               </div>
             </div>
@@ -14,6 +14,16 @@ export interface ShippingEmail {
   ai_confidence_score: number | null;
 }
 
+/** Extraction confidence and source span of one quote field */
+export interface FieldConfidence {
+  /** 0-1 */
+  confidence: number;
+  source: 'subject' | 'body' | 'attachment' | 'inferred';
+  attachmentName?: string | null;
+  offset?: number | null;
+  excerpt?: string | null;
+}
+
 export interface ShippingQuote {
   quote_id: number;
   email_id: number;
@@ -40,6 +50,8 @@ export interface ShippingQuote {
   quote_status: string | null;
   initial_quote_amount: number | null;
   final_agreed_price: number | null;
+  /** Per-field extraction confidence; null for quotes extracted before it was recorded */
+  field_confidence: Record<string, FieldConfidence> | null;
   created_at: string;
 }
 
@@ -169,6 +181,9 @@ export interface DashboardQuote {
   cargo_weight: number | null;
   weight_unit: string | null;
   service_type: string | null;
+  total_distance_miles: number | null;
+  /** google, cache or straight_line (estimate) */
+  distance_source: string | null;
   initial_quote_amount: number | null;
   final_agreed_price: number | null;
   quote_status: string | null;
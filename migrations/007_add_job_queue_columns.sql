@@ -0,0 +1,48 @@
+-- Migration: Add durable queue columns to processing_jobs
+-- Description: Leasing, heartbeats and retry scheduling so jobs survive restarts
+-- Created: 2024
+
+-- =====================================================
+-- Step 1: Job type and retry bookkeeping
+-- =====================================================
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS job_type VARCHAR(50) NOT NULL DEFAULT 'email_processing';
+
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3;
+
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS run_at TIMESTAMP NOT NULL DEFAULT NOW();
+
+-- =====================================================
+-- Step 2: Lease columns (which worker owns the job and until when)
+-- =====================================================
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS locked_by VARCHAR(255);
+
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+
+ALTER TABLE processing_jobs
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP;
+
+-- =====================================================
+-- Step 3: Indexes for claiming and reclaiming
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queue
+  ON processing_jobs(run_at, created_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_lease
+  ON processing_jobs(locked_until)
+  WHERE status = 'processing';
+
+-- =====================================================
+-- Step 4: Column comments
+-- =====================================================
+COMMENT ON COLUMN processing_jobs.job_type IS 'Handler key: email_processing, extract_and_match, run_all_matching';
+COMMENT ON COLUMN processing_jobs.run_at IS 'Earliest time a worker may claim the job (used for retry backoff)';
+COMMENT ON COLUMN processing_jobs.locked_until IS 'Lease expiry; extended by worker heartbeats';
@@ -0,0 +1,34 @@
+-- Migration: Create job_schedules table
+-- Description: Cron-like schedules for recurring jobs (email ingestion, staff replies, matching)
+-- Created: 2024
+
+-- =====================================================
+-- Table: job_schedules
+-- One row per schedule; next_run_at is claimed atomically so only one
+-- server instance enqueues a given run
+-- =====================================================
+CREATE TABLE IF NOT EXISTS job_schedules (
+  schedule_name VARCHAR(100) PRIMARY KEY,
+  job_type VARCHAR(50) NOT NULL,
+  cron_expression VARCHAR(100) NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+
+  -- Run tracking
+  last_run_at TIMESTAMP,
+  -- Claim time of the last run that enqueued a job; the next run covers what arrived after it
+  last_enqueued_window_end TIMESTAMP,
+  next_run_at TIMESTAMP,
+  last_job_id VARCHAR(255),
+  last_outcome VARCHAR(50),  -- 'enqueued', 'skipped_overlap', 'skipped_empty', 'error'
+  last_error TEXT,
+
+  -- Metadata
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- =====================================================
+-- Indexes for performance
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_job_schedules_next_run ON job_schedules(next_run_at) WHERE enabled = TRUE;
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_type_status ON processing_jobs(job_type, status);
@@ -0,0 +1,37 @@
+-- Migration: Create Microsoft Graph sync tables
+-- Description: Per-folder delta tokens and change-notification subscriptions
+-- Created: 2024
+
+-- =====================================================
+-- Table: mail_delta_tokens
+-- Resume point for Graph delta queries, one row per mail folder
+-- =====================================================
+CREATE TABLE IF NOT EXISTS mail_delta_tokens (
+  folder_id VARCHAR(255) PRIMARY KEY,
+  delta_link TEXT,  -- @odata.deltaLink, or @odata.nextLink when a round was capped
+  messages_synced INTEGER NOT NULL DEFAULT 0,
+  last_synced_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- =====================================================
+-- Table: graph_subscriptions
+-- Active change-notification subscriptions and their client state secret
+-- =====================================================
+CREATE TABLE IF NOT EXISTS graph_subscriptions (
+  subscription_id VARCHAR(255) PRIMARY KEY,
+  resource TEXT NOT NULL,
+  change_type VARCHAR(100) NOT NULL,
+  notification_url TEXT NOT NULL,
+  client_state VARCHAR(255) NOT NULL,
+  expiration_datetime TIMESTAMP NOT NULL,
+  last_notification_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- =====================================================
+-- Indexes for performance
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_graph_subscriptions_expiration ON graph_subscriptions(expiration_datetime);
+CREATE INDEX IF NOT EXISTS idx_graph_subscriptions_resource ON graph_subscriptions(resource);
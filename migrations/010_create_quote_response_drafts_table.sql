@@ -0,0 +1,39 @@
+-- Migration: Create quote_response_drafts table
+-- Description: Versioned AI-drafted quote response / follow-up emails that reps edit before sending
+-- Created: 2024
+
+-- =====================================================
+-- Table: quote_response_drafts
+-- Every generation or edit adds a new version; only the latest is status 'draft'
+-- =====================================================
+CREATE TABLE IF NOT EXISTS quote_response_drafts (
+  draft_id SERIAL PRIMARY KEY,
+  quote_id INTEGER NOT NULL REFERENCES shipping_quotes(quote_id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  draft_type VARCHAR(20) NOT NULL DEFAULT 'response',  -- 'response', 'followup'
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',         -- 'draft', 'superseded'
+
+  -- Content
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  quoted_price DECIMAL(12,2),
+  ai_provider VARCHAR(50),
+
+  -- Reply draft saved in the original conversation via Graph createReply
+  graph_draft_id VARCHAR(512),
+  graph_web_link TEXT,
+
+  -- Metadata
+  created_by VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT uq_quote_draft_version UNIQUE(quote_id, version)
+);
+
+-- =====================================================
+-- Indexes for performance
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_quote_drafts_quote ON quote_response_drafts(quote_id, version DESC);
+CREATE INDEX IF NOT EXISTS idx_quote_drafts_status ON quote_response_drafts(status);
+
+COMMENT ON TABLE quote_response_drafts IS 'Versioned quote response drafts generated from AI pricing recommendations';
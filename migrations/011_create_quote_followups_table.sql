@@ -0,0 +1,27 @@
+-- Migration: Create quote_followups table
+-- Description: Rep actions on the follow-up worklist (snooze / dismiss) for unanswered quotes
+-- Created: 2024
+
+-- =====================================================
+-- Table: quote_followups
+-- One row per quote a rep has acted on; quotes without a row are open
+-- =====================================================
+CREATE TABLE IF NOT EXISTS quote_followups (
+  quote_id INTEGER PRIMARY KEY REFERENCES shipping_quotes(quote_id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL,  -- 'snoozed', 'dismissed'
+  snoozed_until TIMESTAMP,
+  note TEXT,
+  updated_by VARCHAR(255),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- =====================================================
+-- Indexes for performance
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_quote_followups_status ON quote_followups(status, snoozed_until);
+
+-- Follow-up candidates look up staff and customer messages by conversation
+CREATE INDEX IF NOT EXISTS idx_staff_replies_conversation ON staff_replies(conversation_id, received_date);
+CREATE INDEX IF NOT EXISTS idx_shipping_emails_conversation ON shipping_emails(conversation_id, email_received_date);
+
+COMMENT ON TABLE quote_followups IS 'Snoozed and dismissed entries on the quote follow-up worklist';
@@ -0,0 +1,72 @@
+-- Migration: Quote lifecycle status and status history
+-- Description: Explicit quote lifecycle (requested -> priced -> sent -> revised -> won/lost/expired)
+--              with an append-only audit trail of every transition
+-- Created: 2024
+
+-- =====================================================
+-- Lifecycle columns on shipping_quotes
+-- =====================================================
+ALTER TABLE shipping_quotes
+  ADD COLUMN IF NOT EXISTS lifecycle_status VARCHAR(20) NOT NULL DEFAULT 'requested',
+  ADD COLUMN IF NOT EXISTS lifecycle_updated_at TIMESTAMP;
+
+ALTER TABLE shipping_quotes DROP CONSTRAINT IF EXISTS chk_quote_lifecycle_status;
+ALTER TABLE shipping_quotes ADD CONSTRAINT chk_quote_lifecycle_status
+  CHECK (lifecycle_status IN ('requested', 'priced', 'sent', 'revised', 'won', 'lost', 'expired'));
+
+-- Backfill from the free-form fields set at extraction (mail received before this point is not re-inferred)
+UPDATE shipping_quotes q SET lifecycle_status = CASE
+    WHEN q.job_won = true THEN 'won'
+    WHEN q.job_won = false THEN 'lost'
+    WHEN EXISTS (
+      SELECT 1 FROM staff_quotes_replies sqr
+      WHERE sqr.related_quote_id = q.quote_id AND sqr.is_pricing_email = true
+    ) THEN 'sent'
+    WHEN EXISTS (SELECT 1 FROM ai_pricing_recommendations r WHERE r.quote_id = q.quote_id) THEN 'priced'
+    ELSE 'requested'
+  END,
+  lifecycle_updated_at = NOW()
+WHERE q.lifecycle_updated_at IS NULL;
+
+-- =====================================================
+-- Table: quote_status_history
+-- One row per transition; rows are never updated
+-- =====================================================
+CREATE TABLE IF NOT EXISTS quote_status_history (
+  id SERIAL PRIMARY KEY,
+  quote_id INTEGER NOT NULL REFERENCES shipping_quotes(quote_id) ON DELETE CASCADE,
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  source VARCHAR(20) NOT NULL,  -- 'api', 'pricing', 'staff_reply', 'customer_reply', 'expiry'
+  actor VARCHAR(255) NOT NULL,
+  reason TEXT,
+
+  -- Evidence for inferred transitions
+  staff_reply_id INTEGER,
+  email_id INTEGER,
+
+  occurred_at TIMESTAMP NOT NULL,  -- when the underlying event happened
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION prevent_quote_status_history_update() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'quote_status_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_quote_status_history_append_only ON quote_status_history;
+CREATE TRIGGER trg_quote_status_history_append_only
+  BEFORE UPDATE ON quote_status_history
+  FOR EACH ROW EXECUTE FUNCTION prevent_quote_status_history_update();
+
+-- =====================================================
+-- Indexes for performance
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_quote_status_history_quote ON quote_status_history(quote_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_quote_status_history_staff_reply ON quote_status_history(staff_reply_id) WHERE staff_reply_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_quote_status_history_email ON quote_status_history(email_id) WHERE email_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_shipping_quotes_lifecycle ON shipping_quotes(lifecycle_status);
+
+COMMENT ON TABLE quote_status_history IS 'Append-only audit trail of quote lifecycle transitions';
+COMMENT ON COLUMN shipping_quotes.lifecycle_status IS 'Lifecycle state, changed only through recorded transitions';
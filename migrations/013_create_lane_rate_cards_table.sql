@@ -0,0 +1,68 @@
+-- Migration: Create lane_rate_cards table
+-- Description: Negotiated per-customer and global lane rates used ahead of similarity-based pricing
+-- Created: 2024
+
+-- =====================================================
+-- Table: lane_rate_cards
+-- A NULL client applies to every customer; NULL lane, service or equipment fields match anything
+-- =====================================================
+CREATE TABLE IF NOT EXISTS lane_rate_cards (
+  rate_card_id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  client_company_name VARCHAR(255),
+
+  -- Lane (region codes as used by matching, e.g. 'NORTHEAST', 'EUROPE'; or city/state/country)
+  origin_region VARCHAR(50),
+  origin_city VARCHAR(255),
+  origin_state_province VARCHAR(100),
+  origin_country VARCHAR(100),
+  destination_region VARCHAR(50),
+  destination_city VARCHAR(255),
+  destination_state_province VARCHAR(100),
+  destination_country VARCHAR(100),
+
+  -- Normalized service type (e.g. 'GROUND', 'DRAYAGE') and equipment (e.g. 'FLATBED')
+  service_type VARCHAR(50),
+  equipment_type VARCHAR(50),
+
+  -- Rate
+  rate_type VARCHAR(20) NOT NULL DEFAULT 'flat',  -- 'flat', 'per_mile'
+  rate_amount DECIMAL(12,2) NOT NULL,
+  minimum_charge DECIMAL(12,2),
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+
+  -- Validity
+  valid_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_until DATE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+  notes TEXT,
+  created_by VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT chk_rate_card_rate_type CHECK (rate_type IN ('flat', 'per_mile')),
+  CONSTRAINT chk_rate_card_amount CHECK (rate_amount > 0),
+  CONSTRAINT chk_rate_card_validity CHECK (valid_until IS NULL OR valid_until >= valid_from)
+);
+
+-- =====================================================
+-- Indexes for performance
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_rate_cards_client ON lane_rate_cards(LOWER(client_company_name));
+CREATE INDEX IF NOT EXISTS idx_rate_cards_validity ON lane_rate_cards(is_active, valid_from, valid_until);
+
+-- =====================================================
+-- Rate card used for an AI pricing recommendation
+-- =====================================================
+ALTER TABLE ai_pricing_recommendations
+  ADD COLUMN IF NOT EXISTS rate_card_id INTEGER REFERENCES lane_rate_cards(rate_card_id) ON DELETE SET NULL;
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON TABLE lane_rate_cards IS 'Contract lane rates applied before similarity-based pricing';
+COMMENT ON COLUMN lane_rate_cards.client_company_name IS 'Customer the rate was negotiated with (NULL = global rate)';
+COMMENT ON COLUMN lane_rate_cards.rate_type IS 'flat: rate_amount per shipment; per_mile: rate_amount times route miles';
+COMMENT ON COLUMN lane_rate_cards.minimum_charge IS 'Lowest price the card produces';
+COMMENT ON COLUMN ai_pricing_recommendations.rate_card_id IS 'Rate card the recommendation was taken from (NULL = similarity/AI pricing)';
@@ -0,0 +1,24 @@
+-- Migration: Create fuel_price_index table
+-- Description: Weekly diesel averages used to normalize historical prices to current fuel levels
+-- Created: 2024
+
+-- =====================================================
+-- Table: fuel_price_index
+-- One row per week (e.g. EIA weekly U.S. No 2 diesel retail price)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS fuel_price_index (
+  week_of DATE PRIMARY KEY,
+  diesel_price DECIMAL(6,3) NOT NULL,  -- USD per gallon
+  source VARCHAR(100),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT chk_fuel_price_positive CHECK (diesel_price > 0)
+);
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON TABLE fuel_price_index IS 'Weekly diesel price averages for fuel-adjusting historical quote prices';
+COMMENT ON COLUMN fuel_price_index.week_of IS 'Start date of the week the average covers';
+COMMENT ON COLUMN fuel_price_index.diesel_price IS 'Average diesel price in USD per gallon';
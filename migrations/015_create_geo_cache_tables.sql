@@ -0,0 +1,46 @@
+-- Migration: Create geocode_cache and route_distance_cache tables
+-- Description: Persistent geocoding and driving-distance results so repeated lanes do not call the Maps API
+-- Created: 2024
+
+-- =====================================================
+-- Table: geocode_cache
+-- One row per normalized location key (e.g. 'waukesha, wi, usa' or '53186, us')
+-- =====================================================
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  location_key VARCHAR(500) PRIMARY KEY,
+  latitude DECIMAL(9,6) NOT NULL,
+  longitude DECIMAL(9,6) NOT NULL,
+  formatted_address TEXT,
+  precision VARCHAR(20),  -- address, postal, city, region
+  provider VARCHAR(50) NOT NULL,
+  hit_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  last_used_at TIMESTAMP DEFAULT NOW()
+);
+
+-- =====================================================
+-- Table: route_distance_cache
+-- Driving distance between two points, keyed by coordinates rounded to 3 decimals (~100 m)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS route_distance_cache (
+  origin_key VARCHAR(50) NOT NULL,
+  destination_key VARCHAR(50) NOT NULL,
+  distance_miles DECIMAL(10,1) NOT NULL,
+  duration_minutes INTEGER,
+  straight_line_miles DECIMAL(10,1),  -- Great-circle distance, used to calibrate the road-distance factor
+  provider VARCHAR(50) NOT NULL,
+  hit_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  last_used_at TIMESTAMP DEFAULT NOW(),
+
+  PRIMARY KEY (origin_key, destination_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_route_distance_cache_provider ON route_distance_cache(provider);
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON TABLE geocode_cache IS 'Geocoding results from remote providers, reused instead of repeat API calls';
+COMMENT ON TABLE route_distance_cache IS 'Driving distances from remote providers, reused instead of repeat API calls';
+COMMENT ON COLUMN route_distance_cache.straight_line_miles IS 'Great-circle distance between the points; distance_miles / straight_line_miles calibrates offline estimates';
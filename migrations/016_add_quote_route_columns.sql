@@ -0,0 +1,43 @@
+-- Migration: Add route metadata columns to shipping_quotes
+-- Description: Store the computed distance, duration, distance source and geocoded coordinates on each quote
+-- Created: 2024
+
+-- =====================================================
+-- Step 1: Route metadata (total_distance_miles already exists)
+-- =====================================================
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS estimated_duration_minutes INTEGER;
+
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS distance_source VARCHAR(20);  -- google, cache, straight_line
+
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS distance_calculated_at TIMESTAMP;
+
+-- =====================================================
+-- Step 2: Geocoded coordinates
+-- =====================================================
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS origin_latitude DECIMAL(9,6);
+
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS origin_longitude DECIMAL(9,6);
+
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS destination_latitude DECIMAL(9,6);
+
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS destination_longitude DECIMAL(9,6);
+
+-- =====================================================
+-- Step 3: Index for the distance backfill
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_shipping_quotes_distance_pending
+ON shipping_quotes(quote_id)
+WHERE distance_calculated_at IS NULL;
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON COLUMN shipping_quotes.distance_source IS 'How total_distance_miles was computed: google (Distance Matrix), cache (stored route) or straight_line (estimate)';
+COMMENT ON COLUMN shipping_quotes.distance_calculated_at IS 'When the distance was computed; set without a distance when the route could not be resolved';
@@ -0,0 +1,29 @@
+-- Migration: Add terminal columns to shipping_quotes
+-- Description: Store the port / rail ramp / CFS (or port complex) resolved from each quote's pickup and delivery addresses
+-- Created: 2024
+
+-- =====================================================
+-- Step 1: Resolved terminal ids (see src/config/terminals.json)
+-- =====================================================
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS origin_terminal_id VARCHAR(50);
+
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS destination_terminal_id VARCHAR(50);
+
+-- =====================================================
+-- Step 2: Indexes for terminal lookups
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_shipping_quotes_origin_terminal
+ON shipping_quotes(origin_terminal_id)
+WHERE origin_terminal_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shipping_quotes_destination_terminal
+ON shipping_quotes(destination_terminal_id)
+WHERE destination_terminal_id IS NOT NULL;
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON COLUMN shipping_quotes.origin_terminal_id IS 'Terminal id, or port complex id when no specific terminal was named, resolved from the origin address';
+COMMENT ON COLUMN shipping_quotes.destination_terminal_id IS 'Terminal id, or port complex id when no specific terminal was named, resolved from the destination address';
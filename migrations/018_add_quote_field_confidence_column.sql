@@ -0,0 +1,15 @@
+-- Migration: Add field-level confidence to shipping_quotes
+-- Description: Store the extraction confidence and source span (subject, body or attachment + offset) of each extracted field
+-- Created: 2024
+
+-- =====================================================
+-- Step 1: Field confidence map
+-- Shape: {"origin_city": {"confidence": 0.95, "source": "attachment", "attachmentName": "rfq.pdf", "offset": 412, "excerpt": "..."}, ...}
+-- =====================================================
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS field_confidence JSONB;
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON COLUMN shipping_quotes.field_confidence IS 'Per-field extraction confidence (0-1) and source span; null for quotes extracted before field-level confidence';
@@ -0,0 +1,43 @@
+-- Migration: Quote field corrections
+-- Description: Append-only log of human corrections to AI-extracted quote fields; each row is
+--              the diff of one field, so the original extraction can be rebuilt for evaluation
+--              and few-shot prompting
+-- Created: 2024
+
+-- =====================================================
+-- Table: quote_field_corrections
+-- One row per corrected field; rows are never updated
+-- =====================================================
+CREATE TABLE IF NOT EXISTS quote_field_corrections (
+  id SERIAL PRIMARY KEY,
+  quote_id INTEGER NOT NULL REFERENCES shipping_quotes(quote_id) ON DELETE CASCADE,
+  email_id INTEGER,
+  field_name VARCHAR(64) NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  old_confidence DECIMAL(4,3),  -- extraction confidence of the replaced value, when recorded
+  corrected_by VARCHAR(255) NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION prevent_quote_field_corrections_update() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'quote_field_corrections is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_quote_field_corrections_append_only ON quote_field_corrections;
+CREATE TRIGGER trg_quote_field_corrections_append_only
+  BEFORE UPDATE ON quote_field_corrections
+  FOR EACH ROW EXECUTE FUNCTION prevent_quote_field_corrections_update();
+
+-- =====================================================
+-- Indexes for performance
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_quote_field_corrections_quote ON quote_field_corrections(quote_id, id);
+CREATE INDEX IF NOT EXISTS idx_quote_field_corrections_created ON quote_field_corrections(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quote_field_corrections_field ON quote_field_corrections(field_name);
+
+COMMENT ON TABLE quote_field_corrections IS 'Append-only log of human corrections to extracted quote fields';
+COMMENT ON COLUMN quote_field_corrections.old_value IS 'Value before the correction (the AI extraction for the first correction of a field)';
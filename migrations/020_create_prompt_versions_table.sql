@@ -0,0 +1,58 @@
+-- Migration: Prompt versions
+-- Description: Registry of extraction and pricing prompt versions with traffic weights for A/B
+--              experiments; the version used is recorded on each quote and pricing recommendation
+-- Created: 2024
+
+-- =====================================================
+-- Table: prompt_versions
+-- A NULL template means the prompt built into the code ('builtin')
+-- =====================================================
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id SERIAL PRIMARY KEY,
+  task VARCHAR(20) NOT NULL,           -- 'extraction', 'pricing'
+  version VARCHAR(64) NOT NULL,
+  template TEXT,
+  description TEXT,
+
+  -- Share of requests assigned to this version, relative to the other active versions of the task
+  traffic_weight INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+  created_by VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+
+  CONSTRAINT uq_prompt_version UNIQUE(task, version),
+  CONSTRAINT chk_prompt_version_task CHECK (task IN ('extraction', 'pricing')),
+  CONSTRAINT chk_prompt_version_weight CHECK (traffic_weight >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_versions_active ON prompt_versions(task, is_active);
+
+-- The built-in prompts take all traffic until another version is given a weight
+INSERT INTO prompt_versions (task, version, template, description, traffic_weight)
+VALUES
+  ('extraction', 'builtin', NULL, 'Extraction prompt built into BaseAIService', 100),
+  ('pricing', 'builtin', NULL, 'PRICING_RECOMMENDATION_PROMPT from shippingQuotePrompts', 100)
+ON CONFLICT (task, version) DO NOTHING;
+
+-- =====================================================
+-- Prompt version used for each quote and pricing recommendation
+-- =====================================================
+ALTER TABLE shipping_quotes
+  ADD COLUMN IF NOT EXISTS extraction_prompt_version VARCHAR(64);
+
+ALTER TABLE ai_pricing_recommendations
+  ADD COLUMN IF NOT EXISTS prompt_version VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_quotes_prompt_version ON shipping_quotes(extraction_prompt_version);
+CREATE INDEX IF NOT EXISTS idx_ai_pricing_prompt_version ON ai_pricing_recommendations(prompt_version);
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON TABLE prompt_versions IS 'Versioned extraction and pricing prompts with A/B traffic weights';
+COMMENT ON COLUMN prompt_versions.template IS 'Prompt text; extraction templates use {{EMAIL_CONTENT}}, {{EXAMPLES}} and {{TODAY}} placeholders (NULL = builtin)';
+COMMENT ON COLUMN prompt_versions.traffic_weight IS 'Relative share of requests; 0 keeps the version registered without traffic';
+COMMENT ON COLUMN shipping_quotes.extraction_prompt_version IS 'Prompt version the quote was extracted with (NULL = before prompt versioning)';
+COMMENT ON COLUMN ai_pricing_recommendations.prompt_version IS 'Pricing prompt version of the run that produced the recommendation (NULL = rate card or before prompt versioning)';
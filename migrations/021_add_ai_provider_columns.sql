@@ -0,0 +1,22 @@
+-- Migration: Record the AI provider behind extractions and pricing recommendations
+-- Description: With a provider fallback chain (AI_PROVIDER_CHAIN) the provider that answered can
+--              differ from the configured one, so it is stored with each result
+-- Created: 2024
+
+-- =====================================================
+-- Step 1: Provider that extracted each quote
+-- =====================================================
+ALTER TABLE shipping_quotes
+ADD COLUMN IF NOT EXISTS extraction_provider VARCHAR(20);
+
+-- =====================================================
+-- Step 2: Provider whose response shaped each AI price
+-- =====================================================
+ALTER TABLE ai_pricing_recommendations
+ADD COLUMN IF NOT EXISTS ai_provider VARCHAR(20);
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON COLUMN shipping_quotes.extraction_provider IS 'AI provider that produced the extraction (gemini, claude, chatgpt); NULL before provider tracking';
+COMMENT ON COLUMN ai_pricing_recommendations.ai_provider IS 'AI provider whose response shaped the price; NULL for rate card or algorithmic prices';
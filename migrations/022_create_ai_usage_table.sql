@@ -0,0 +1,44 @@
+-- Migration: AI usage
+-- Description: Input/output tokens and cost of every AI provider call, attributed to the job,
+--              email and quote it was made for, with the prices it was costed at
+-- Created: 2024
+
+-- =====================================================
+-- Table: ai_usage
+-- One row per provider SDK call (retries and fallback attempts each get their own row)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id BIGSERIAL PRIMARY KEY,
+  provider VARCHAR(20) NOT NULL,       -- 'gemini', 'chatgpt', 'claude'
+  model VARCHAR(100) NOT NULL,
+  operation VARCHAR(30) NOT NULL,      -- 'extraction', 'pricing', 'drafting', 'validation', ...
+
+  -- What the call was made for (all optional; calls outside a job have no job_id)
+  job_id VARCHAR(255),
+  email_id VARCHAR(255),
+  quote_id INTEGER,
+
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+
+  -- Price table entry the call was costed with, in USD per million tokens
+  input_price_per_mtok DECIMAL(10, 4),
+  output_price_per_mtok DECIMAL(10, 4),
+  cost_usd DECIMAL(12, 6) NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_provider ON ai_usage(provider, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_job_id ON ai_usage(job_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_email_id ON ai_usage(email_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_quote_id ON ai_usage(quote_id);
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON TABLE ai_usage IS 'Token usage and cost of each AI provider call';
+COMMENT ON COLUMN ai_usage.operation IS 'What the call did: extraction, pricing, drafting, reply parsing or key validation';
+COMMENT ON COLUMN ai_usage.input_price_per_mtok IS 'USD per million input tokens at the time of the call (NULL = model missing from the price table)';
+COMMENT ON COLUMN ai_usage.cost_usd IS 'input_tokens and output_tokens costed with the recorded prices';
@@ -0,0 +1,55 @@
+-- Migration: AI response cache
+-- Description: Content-addressed cache of AI extraction and pricing responses, so reprocessing
+--              identical content (duplicate deliveries, re-runs after a failure) does not pay again,
+--              and daily cache hit and miss counts
+-- Created: 2024
+
+-- =====================================================
+-- Table: ai_response_cache
+-- One row per cache key: a SHA-256 of the normalized email content and attachment hashes
+-- (extraction) or the pricing prompt (pricing), with the prompt version, provider and model
+-- =====================================================
+CREATE TABLE IF NOT EXISTS ai_response_cache (
+  cache_key CHAR(64) PRIMARY KEY,
+  kind VARCHAR(20) NOT NULL,             -- 'extraction', 'pricing'
+  provider VARCHAR(20) NOT NULL,         -- Provider that produced the response
+  model VARCHAR(200) NOT NULL,           -- Model(s) the key was computed for
+  prompt_version VARCHAR(100) NOT NULL,
+  response JSONB NOT NULL,
+
+  -- Emails the response was produced for or reused by, and the quote it was first produced for
+  -- (used for invalidation)
+  email_ids TEXT[] NOT NULL DEFAULT '{}',
+  quote_id INTEGER,
+
+  hit_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  last_used_at TIMESTAMP DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_kind ON ai_response_cache(kind);
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_expires_at ON ai_response_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_email_ids ON ai_response_cache USING GIN (email_ids);
+CREATE INDEX IF NOT EXISTS idx_ai_response_cache_quote_id ON ai_response_cache(quote_id);
+
+-- =====================================================
+-- Table: ai_response_cache_stats
+-- Cache lookups per day and kind, for hit-rate metrics
+-- =====================================================
+CREATE TABLE IF NOT EXISTS ai_response_cache_stats (
+  date DATE NOT NULL,
+  kind VARCHAR(20) NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  misses INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (date, kind)
+);
+
+-- =====================================================
+-- Comments for documentation
+-- =====================================================
+COMMENT ON TABLE ai_response_cache IS 'AI extraction and pricing responses reused for identical content';
+COMMENT ON COLUMN ai_response_cache.cache_key IS 'SHA-256 of the normalized content, attachment hashes, prompt version, provider and model';
+COMMENT ON COLUMN ai_response_cache.expires_at IS 'Entries past this time are ignored and replaced on the next miss';
+COMMENT ON TABLE ai_response_cache_stats IS 'Daily AI response cache hits and misses per kind';
@@ -0,0 +1,642 @@
+/**
+ * Extraction benchmark: runs an AI provider over a golden set of emails and scores the
+ * extracted quotes field by field
+ *
+ * Usage:
+ *   npx tsx scripts/evaluate_extraction.ts [--provider gemini|claude|chatgpt|local|mock] [--fixtures dir]
+ *     [--case name] [--tolerance 0.02] [--retries 1] [--prompt-file prompt.txt] [--label name]
+ *     [--out report.json] [--compare baseline.json]
+ *   npx tsx scripts/evaluate_extraction.ts --diff baseline.json candidate.json
+ *
+ * Each fixture is an anonymized <name>.eml (attachments included) next to <name>.expected.json
+ * holding the expected quotes. Only the fields listed in an expected quote are scored; list a
+ * field as null to assert that nothing should be extracted for it.
+ *
+ * --prompt-file replaces the extraction prompt with a template in the prompt registry format
+ * ({{EMAIL_CONTENT}}, {{EXAMPLES}}, {{TODAY}}), so a candidate prompt version can be run with --out
+ * and compared with --diff or --compare before it is registered.
+ * Tokens are the counts reported by the provider, costed with the AI usage price table
+ * (AI_PRICE_TABLE); evaluation calls are not recorded in ai_usage.
+ */
+
+import { createHash } from 'crypto';
+import { readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { performance } from 'perf_hooks';
+import dotenv from 'dotenv';
+import gazetteer from '../src/config/gazetteer.json' with { type: 'json' };
+import attachmentProcessor from '../src/services/attachmentProcessor.js';
+import offlineGeoProvider from '../src/services/geo/offlineGeoProvider.js';
+import { parseRawEmail } from '../src/services/mail/sources/mimeEmail.js';
+import { EXTRACTED_QUOTE_SCHEMA } from '../src/prompts/outputSchemas.js';
+import type { Email, Quote } from '../src/types/index.js';
+
+dotenv.config();
+
+const DEFAULT_FIXTURES = 'scripts/fixtures/extraction';
+// Expected-text tokens that must appear in free-text fields for a match
+const FREE_TEXT_RECALL = 0.6;
+
+const FREE_TEXT_FIELDS = new Set([
+  'origin_full_address',
+  'destination_full_address',
+  'cargo_description',
+  'special_requirements',
+]);
+
+const UNIT_ALIASES: Record<string, string> = {
+  lb: 'lbs',
+  pound: 'lbs',
+  pounds: 'lbs',
+  kgs: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  tonne: 'tonnes',
+  metric_tons: 'tonnes',
+  ton: 'tons',
+  feet: 'ft',
+  foot: 'ft',
+  inch: 'in',
+  inches: 'in',
+  meter: 'm',
+  meters: 'm',
+  metre: 'm',
+  metres: 'm',
+};
+
+const US_STATE_CODES = new Map(
+  Object.entries(gazetteer.usStates as Record<string, string>).map(([code, name]) => [name, code])
+);
+
+type FieldValue = string | number | boolean | null;
+
+interface Fixture {
+  name: string;
+  description: string | null;
+  email: Email;
+  attachmentText: string;
+  expected: Record<string, FieldValue>[];
+}
+
+interface FieldCounts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+interface FieldMismatch {
+  quote: number;
+  field: string;
+  expected: FieldValue;
+  actual: FieldValue;
+}
+
+interface CaseResult {
+  name: string;
+  success: boolean;
+  error: string | null;
+  latencyMs: number;
+  tokens: { input: number; output: number };
+  estimatedCostUsd: number | null;
+  quotes: { expected: number; extracted: number };
+  fields: Record<string, FieldCounts>;
+  mismatches: FieldMismatch[];
+}
+
+interface Report {
+  label: string;
+  provider: string;
+  model: string;
+  promptHash: string;
+  createdAt: string;
+  tolerance: number;
+  cases: CaseResult[];
+  summary: {
+    cases: number;
+    failures: number;
+    precision: number;
+    recall: number;
+    f1: number;
+    perField: Record<string, FieldCounts & { precision: number; recall: number }>;
+    latencyMs: { avg: number; p50: number; p95: number };
+    estimatedCostUsd: { total: number | null; perEmail: number | null };
+  };
+}
+
+// Simple CLI args parser
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const getVal = (key: string, def?: string) => {
+    const found = args.find((a) => a.startsWith(`--${key}=`));
+    if (found) return found.split('=')[1];
+    const idx = args.indexOf(`--${key}`);
+    if (idx !== -1 && args[idx + 1] && !args[idx + 1]!.startsWith('--')) return args[idx + 1];
+    return def;
+  };
+  const diffIdx = args.indexOf('--diff');
+
+  return {
+    provider: getVal('provider', process.env.AI_PROVIDER || 'gemini')!.toLowerCase(),
+    fixtures: getVal('fixtures', DEFAULT_FIXTURES)!,
+    caseName: getVal('case'),
+    tolerance: parseFloat(getVal('tolerance', '0.02')!),
+    retries: parseInt(getVal('retries', '1')!, 10),
+    promptFile: getVal('prompt-file'),
+    label: getVal('label'),
+    out: getVal('out'),
+    compare: getVal('compare'),
+    diff: diffIdx !== -1 ? args.slice(diffIdx + 1, diffIdx + 3) : null,
+  };
+}
+
+// =====================================================
+// Fixtures
+// =====================================================
+
+/**
+ * Load every <name>.eml with a <name>.expected.json, extracting attachment text the same way
+ * the mail pipeline does
+ */
+async function loadFixtures(directory: string, only?: string): Promise<Fixture[]> {
+  const entries = (await readdir(directory)).filter((entry) => entry.endsWith('.eml')).sort();
+  const fixtures: Fixture[] = [];
+
+  for (const entry of entries) {
+    const name = path.basename(entry, '.eml');
+    if (only && name !== only) continue;
+
+    const expectedFile = path.join(directory, `${name}.expected.json`);
+    const expected = JSON.parse(await readFile(expectedFile, 'utf8').catch(() => 'null'));
+    if (!expected?.quotes) {
+      console.warn(`Skipping ${entry}: no ${name}.expected.json with a quotes array`);
+      continue;
+    }
+
+    const { email, attachments } = await parseRawEmail(await readFile(path.join(directory, entry)));
+    const attachmentText = attachments.length
+      ? (await attachmentProcessor.processEmailAttachments(email.id, attachments)).extractedText
+      : '';
+
+    fixtures.push({
+      name,
+      description: expected.description ?? null,
+      email,
+      attachmentText,
+      expected: expected.quotes,
+    });
+  }
+
+  return fixtures;
+}
+
+// =====================================================
+// Scoring
+// =====================================================
+
+function isNumericField(field: string): boolean {
+  const type = EXTRACTED_QUOTE_SCHEMA.properties?.[field]?.type;
+  const types = Array.isArray(type) ? type : [type];
+  return types.includes('number') || types.includes('integer');
+}
+
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Field value in comparable form (numbers as numbers, canonical units, countries and states)
+ */
+function normalizeValue(field: string, value: unknown): FieldValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'boolean') return value;
+  if (isNumericField(field)) {
+    const number = Number(value);
+    return isNaN(number) ? String(value) : number;
+  }
+
+  const text = String(value).trim();
+  if (field.endsWith('_country'))
+    return offlineGeoProvider.countryCode(text) ?? normalizeText(text);
+  if (field.endsWith('_state_province')) {
+    const normalized = normalizeText(text);
+    return US_STATE_CODES.get(normalized) ?? normalized.toUpperCase();
+  }
+  if (field.endsWith('_unit')) {
+    const unit = normalizeText(text).replace(/ /g, '_');
+    return UNIT_ALIASES[unit] ?? unit;
+  }
+  return normalizeText(text);
+}
+
+function fieldMatches(
+  field: string,
+  expected: FieldValue,
+  actual: FieldValue,
+  tolerance: number
+): boolean {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return Math.abs(actual - expected) <= Math.max(Math.abs(expected) * tolerance, 0.01);
+  }
+  if (FREE_TEXT_FIELDS.has(field) && typeof expected === 'string' && typeof actual === 'string') {
+    const actualTokens = new Set(actual.split(' '));
+    const expectedTokens = expected.split(' ');
+    const found = expectedTokens.filter((token) => actualTokens.has(token)).length;
+    return found / expectedTokens.length >= FREE_TEXT_RECALL;
+  }
+  return expected === actual;
+}
+
+/**
+ * Score one expected quote against one extracted quote (either may be missing)
+ */
+function scoreQuote(
+  index: number,
+  fields: string[],
+  expected: Record<string, FieldValue> | undefined,
+  actual: Quote | undefined,
+  tolerance: number,
+  result: CaseResult
+): number {
+  let matched = 0;
+
+  for (const field of fields) {
+    const counts = (result.fields[field] ??= { tp: 0, fp: 0, fn: 0 });
+    const expectedValue = normalizeValue(field, expected?.[field]);
+    const actualValue = normalizeValue(field, actual?.[field as keyof Quote]);
+    if (expectedValue === null && actualValue === null) continue;
+
+    if (
+      expectedValue !== null &&
+      actualValue !== null &&
+      fieldMatches(field, expectedValue, actualValue, tolerance)
+    ) {
+      counts.tp++;
+      matched++;
+      continue;
+    }
+    if (actualValue !== null) counts.fp++;
+    if (expectedValue !== null) counts.fn++;
+    result.mismatches.push({
+      quote: index + 1,
+      field,
+      expected: (expected?.[field] as FieldValue) ?? null,
+      actual: (actual?.[field as keyof Quote] as FieldValue) ?? null,
+    });
+  }
+
+  return matched;
+}
+
+/**
+ * Pair each expected quote with the unclaimed extracted quote that agrees on the most fields,
+ * then score leftovers on either side as missed or spurious quotes
+ */
+function scoreCase(
+  result: CaseResult,
+  expected: Record<string, FieldValue>[],
+  actual: Quote[],
+  tolerance: number
+): void {
+  const fields = [...new Set(expected.flatMap((quote) => Object.keys(quote)))];
+  const unclaimed = [...actual];
+
+  expected.forEach((expectedQuote, i) => {
+    let best = -1;
+    let bestScore = -1;
+    unclaimed.forEach((candidate, j) => {
+      const probe: CaseResult = { ...result, fields: {}, mismatches: [] };
+      const score = scoreQuote(i, fields, expectedQuote, candidate, tolerance, probe);
+      if (score > bestScore) {
+        best = j;
+        bestScore = score;
+      }
+    });
+    const [match] = best >= 0 ? unclaimed.splice(best, 1) : [undefined];
+    scoreQuote(i, fields, expectedQuote, match, tolerance, result);
+  });
+
+  unclaimed.forEach((extra, i) => {
+    scoreQuote(expected.length + i, fields, undefined, extra, tolerance, result);
+  });
+}
+
+/**
+ * Rounded ratio; with nothing to count (no values extracted or expected) the score is perfect
+ */
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : 1;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))]!;
+}
+
+function summarize(cases: CaseResult[]): Report['summary'] {
+  const perField: Report['summary']['perField'] = {};
+  const total: FieldCounts = { tp: 0, fp: 0, fn: 0 };
+
+  for (const result of cases) {
+    for (const [field, counts] of Object.entries(result.fields)) {
+      const entry = (perField[field] ??= { tp: 0, fp: 0, fn: 0, precision: 0, recall: 0 });
+      entry.tp += counts.tp;
+      entry.fp += counts.fp;
+      entry.fn += counts.fn;
+      total.tp += counts.tp;
+      total.fp += counts.fp;
+      total.fn += counts.fn;
+    }
+  }
+  for (const entry of Object.values(perField)) {
+    entry.precision = ratio(entry.tp, entry.tp + entry.fp);
+    entry.recall = ratio(entry.tp, entry.tp + entry.fn);
+  }
+
+  const precision = ratio(total.tp, total.tp + total.fp);
+  const recall = ratio(total.tp, total.tp + total.fn);
+  const latencies = cases.map((c) => c.latencyMs).sort((a, b) => a - b);
+  const costs = cases.map((c) => c.estimatedCostUsd);
+  const totalCost = costs.includes(null) ? null : costs.reduce((sum, c) => sum! + c!, 0)!;
+
+  return {
+    cases: cases.length,
+    failures: cases.filter((c) => !c.success).length,
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    perField,
+    latencyMs: {
+      avg: Math.round(latencies.reduce((sum, l) => sum + l, 0) / (latencies.length || 1)),
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+    },
+    estimatedCostUsd: {
+      total: totalCost !== null ? Math.round(totalCost * 1e6) / 1e6 : null,
+      perEmail:
+        totalCost !== null ? Math.round((totalCost / (cases.length || 1)) * 1e6) / 1e6 : null,
+    },
+  };
+}
+
+// =====================================================
+// Reporting
+// =====================================================
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number, format: (v: number) => string) =>
+  `${value > 0 ? '+' : value < 0 ? '-' : ' '}${format(Math.abs(value))}`;
+
+function printReport(report: Report): void {
+  const { summary } = report;
+
+  console.log('\n' + '='.repeat(70));
+  console.log(`EXTRACTION EVALUATION: ${report.label}`);
+  console.log('='.repeat(70));
+  console.log(`Provider: ${report.provider} (${report.model}), prompt ${report.promptHash}`);
+  console.log(
+    `Cases: ${summary.cases} (${summary.failures} failed), numeric tolerance ${pct(report.tolerance)}`
+  );
+  console.log(
+    `\nPrecision: ${pct(summary.precision)}  Recall: ${pct(summary.recall)}  F1: ${pct(summary.f1)}`
+  );
+  console.log(
+    `Latency: avg ${summary.latencyMs.avg} ms, p50 ${summary.latencyMs.p50} ms, p95 ${summary.latencyMs.p95} ms`
+  );
+  console.log(
+    summary.estimatedCostUsd.total !== null
+      ? `Cost: $${summary.estimatedCostUsd.total.toFixed(4)} ($${summary.estimatedCostUsd.perEmail!.toFixed(5)}/email)`
+      : `Cost: unknown (no price for ${report.model}; add it to AI_PRICE_TABLE)`
+  );
+
+  console.log('\nPer field:');
+  console.log(
+    `  ${'field'.padEnd(28)} ${'precision'.padStart(9)} ${'recall'.padStart(9)}   tp  fp  fn`
+  );
+  for (const [field, entry] of Object.entries(summary.perField).sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    console.log(
+      `  ${field.padEnd(28)} ${pct(entry.precision).padStart(9)} ${pct(entry.recall).padStart(9)} ${String(entry.tp).padStart(4)}${String(entry.fp).padStart(4)}${String(entry.fn).padStart(4)}`
+    );
+  }
+
+  const withMistakes = report.cases.filter((c) => !c.success || c.mismatches.length > 0);
+  if (withMistakes.length > 0) {
+    console.log('\nMismatches:');
+    for (const result of withMistakes) {
+      if (!result.success) {
+        console.log(`  ${result.name}: failed (${result.error})`);
+        continue;
+      }
+      console.log(`  ${result.name}:`);
+      for (const m of result.mismatches) {
+        console.log(
+          `    quote ${m.quote} ${m.field}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Print how a candidate run differs from a baseline run: overall and per-field metrics, and the
+ * field mismatches fixed or introduced per case
+ */
+function printComparison(baseline: Report, candidate: Report): void {
+  console.log('\n' + '='.repeat(70));
+  console.log(`COMPARISON: ${baseline.label} -> ${candidate.label}`);
+  console.log('='.repeat(70));
+  console.log(`Prompt: ${baseline.promptHash} -> ${candidate.promptHash}`);
+
+  const b = baseline.summary;
+  const c = candidate.summary;
+  console.log(
+    `Precision: ${pct(b.precision)} -> ${pct(c.precision)} (${signed(c.precision - b.precision, pct)})`
+  );
+  console.log(
+    `Recall:    ${pct(b.recall)} -> ${pct(c.recall)} (${signed(c.recall - b.recall, pct)})`
+  );
+  console.log(`F1:        ${pct(b.f1)} -> ${pct(c.f1)} (${signed(c.f1 - b.f1, pct)})`);
+  console.log(`Latency:   ${b.latencyMs.avg} ms -> ${c.latencyMs.avg} ms avg`);
+  if (b.estimatedCostUsd.perEmail !== null && c.estimatedCostUsd.perEmail !== null) {
+    console.log(
+      `Cost:      $${b.estimatedCostUsd.perEmail.toFixed(5)} -> $${c.estimatedCostUsd.perEmail.toFixed(5)} per email`
+    );
+  }
+
+  const fields = [...new Set([...Object.keys(b.perField), ...Object.keys(c.perField)])].sort();
+  const changed = fields.filter((field) => {
+    const before = b.perField[field];
+    const after = c.perField[field];
+    return before?.precision !== after?.precision || before?.recall !== after?.recall;
+  });
+  if (changed.length > 0) {
+    console.log('\nFields that changed (precision / recall):');
+    for (const field of changed) {
+      const before = b.perField[field] ?? { precision: 0, recall: 0 };
+      const after = c.perField[field] ?? { precision: 0, recall: 0 };
+      console.log(
+        `  ${field.padEnd(28)} ${pct(before.precision)} -> ${pct(after.precision)}   ${pct(before.recall)} -> ${pct(after.recall)}`
+      );
+    }
+  }
+
+  const key = (m: FieldMismatch) => `quote ${m.quote} ${m.field}`;
+  const baselineCases = new Map(baseline.cases.map((result) => [result.name, result]));
+  console.log('\nPer case:');
+  for (const result of candidate.cases) {
+    const before = baselineCases.get(result.name);
+    if (!before) {
+      console.log(`  ${result.name}: not in baseline`);
+      continue;
+    }
+    const beforeKeys = new Set(before.mismatches.map(key));
+    const afterKeys = new Set(result.mismatches.map(key));
+    const fixed = [...beforeKeys].filter((k) => !afterKeys.has(k));
+    const broken = result.mismatches.filter((m) => !beforeKeys.has(key(m)));
+    if (fixed.length === 0 && broken.length === 0) continue;
+
+    console.log(`  ${result.name}:`);
+    for (const k of fixed) console.log(`    fixed      ${k}`);
+    for (const m of broken) {
+      console.log(
+        `    regressed  ${key(m)}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)}`
+      );
+    }
+  }
+}
+
+// =====================================================
+// Main
+// =====================================================
+
+async function readReport(file: string): Promise<Report> {
+  return JSON.parse(await readFile(file, 'utf8')) as Report;
+}
+
+async function evaluate(): Promise<void> {
+  const cli = parseArgs();
+
+  if (cli.diff) {
+    if (cli.diff.length !== 2) {
+      throw new Error('Usage: --diff <baseline.json> <candidate.json>');
+    }
+    printComparison(await readReport(cli.diff[0]!), await readReport(cli.diff[1]!));
+    return;
+  }
+
+  // Loaded here so --diff runs without loading the AI providers
+  const { getAIService, getProviderInfo } = await import('../src/services/ai/aiServiceFactory.js');
+  const { default: aiUsageService } = await import('../src/services/aiUsageService.js');
+  aiUsageService.disablePersistence();
+  // Every case must reach the model, or the scores would measure the cache
+  const { default: aiCacheService } = await import('../src/services/aiCacheService.js');
+  aiCacheService.disable();
+  const service = getAIService(cli.provider);
+  const providerInfo = getProviderInfo();
+  const model =
+    providerInfo.models[cli.provider as keyof typeof providerInfo.models] ?? cli.provider;
+
+  const template = cli.promptFile ? await readFile(cli.promptFile, 'utf8') : null;
+  const promptSource =
+    template ??
+    service.getExtractionPrompt('{{EMAIL_CONTENT}}').replace(/\d{4}-\d{2}-\d{2}/g, '{{TODAY}}');
+  const promptHash = createHash('sha256').update(promptSource).digest('hex').slice(0, 12);
+  const priced = aiUsageService.getPrice(model) !== null;
+
+  const fixtures = await loadFixtures(cli.fixtures, cli.caseName);
+  if (fixtures.length === 0) {
+    throw new Error(`No fixtures found in ${cli.fixtures}`);
+  }
+  console.log(`Evaluating ${fixtures.length} fixture(s) with ${cli.provider} (${model})...`);
+
+  const cases: CaseResult[] = [];
+  for (const fixture of fixtures) {
+    console.log(
+      `\n${'-'.repeat(70)}\n${fixture.name}${fixture.description ? ` - ${fixture.description}` : ''}`
+    );
+
+    const result: CaseResult = {
+      name: fixture.name,
+      success: false,
+      error: null,
+      latencyMs: 0,
+      tokens: { input: 0, output: 0 },
+      estimatedCostUsd: null,
+      quotes: { expected: fixture.expected.length, extracted: 0 },
+      fields: {},
+      mismatches: [],
+    };
+
+    const started = performance.now();
+    let quotes: Quote[] = [];
+    // Tokens of every attempt count, including failed ones and repair retries
+    const { usage } = await aiUsageService.measure({ operation: 'extraction' }, async () => {
+      try {
+        const parsed = await service.parseEmail(
+          fixture.email,
+          cli.retries,
+          fixture.attachmentText,
+          template
+        );
+        if (parsed) {
+          result.success = true;
+          quotes = parsed.quotes || [];
+        } else {
+          result.error = 'no result';
+        }
+      } catch (error) {
+        result.error = (error as Error).message;
+      }
+    });
+    result.latencyMs = Math.round(performance.now() - started);
+    result.tokens = { input: usage.inputTokens, output: usage.outputTokens };
+    result.quotes.extracted = quotes.length;
+    if (priced) {
+      result.estimatedCostUsd = usage.costUsd;
+    }
+
+    scoreCase(result, fixture.expected, quotes, cli.tolerance);
+    const counts = Object.values(result.fields).reduce(
+      (sum, c) => ({ tp: sum.tp + c.tp, fp: sum.fp + c.fp, fn: sum.fn + c.fn }),
+      { tp: 0, fp: 0, fn: 0 }
+    );
+    console.log(
+      `  ${result.success ? 'OK' : 'FAILED'} in ${result.latencyMs} ms: ${result.quotes.extracted}/${result.quotes.expected} quotes, ${counts.tp} fields correct, ${counts.fp} wrong or spurious, ${counts.fn} missed`
+    );
+    cases.push(result);
+  }
+
+  const report: Report = {
+    label: cli.label || `${cli.provider}-${promptHash}`,
+    provider: cli.provider,
+    model,
+    promptHash,
+    createdAt: new Date().toISOString(),
+    tolerance: cli.tolerance,
+    cases,
+    summary: summarize(cases),
+  };
+
+  printReport(report);
+
+  if (cli.out) {
+    await writeFile(cli.out, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${cli.out}`);
+  }
+  if (cli.compare) {
+    printComparison(await readReport(cli.compare), report);
+  }
+}
+
+evaluate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Extraction evaluation failed:', (error as Error).message);
+    process.exit(1);
+  });
@@ -0,0 +1,243 @@
+/**
+ * Local Microsoft Graph stub for exercising delta sync and change-notification webhooks
+ *
+ * Usage:
+ *   GRAPH_STUB_PORT=4001 npx tsx scripts/graph_stub_server.ts
+ *
+ * Point the API at it with:
+ *   MS_GRAPH_BASE_URL=http://localhost:4001/v1.0
+ *   MS_AUTH_BASE_URL=http://localhost:4001
+ *   MS_GRAPH_NOTIFICATION_URL=http://localhost:3000/api/webhooks/graph
+ *   MS_GRAPH_CLIENT_STATE=<any secret>
+ *
+ * Then POST /_stub/messages with { subject, from, bodyPreview } to add a message;
+ * the stub notifies every active subscription the way Graph does.
+ */
+
+import express, { type Request, type Response } from 'express';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+
+const PORT = parseInt(process.env.GRAPH_STUB_PORT || '4001');
+const BASE_URL = `http://localhost:${PORT}/v1.0`;
+
+interface StubMessage {
+  id: string;
+  conversationId: string;
+  subject: string;
+  from: { emailAddress: { name: string; address: string } };
+  receivedDateTime: string;
+  bodyPreview: string;
+  hasAttachments: boolean;
+  body: { contentType: string; content: string };
+  folderId: string;
+  sequence: number;
+}
+
+interface StubSubscription {
+  id: string;
+  resource: string;
+  changeType: string;
+  notificationUrl: string;
+  lifecycleNotificationUrl?: string;
+  clientState: string;
+  expirationDateTime: string;
+}
+
+const messages: StubMessage[] = [];
+const subscriptions = new Map<string, StubSubscription>();
+let sequence = 0;
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+
+/**
+ * Strip stub-only fields from a message
+ */
+function toGraphMessage({ folderId: _folderId, sequence: _sequence, ...message }: StubMessage) {
+  return message;
+}
+
+/**
+ * Notify subscriptions watching a folder about a new message
+ */
+async function notifySubscribers(message: StubMessage): Promise<void> {
+  for (const subscription of subscriptions.values()) {
+    if (!subscription.resource.includes(`mailFolders('${message.folderId}')`)) continue;
+
+    const notification = {
+      subscriptionId: subscription.id,
+      subscriptionExpirationDateTime: subscription.expirationDateTime,
+      clientState: subscription.clientState,
+      changeType: 'created',
+      resource: `Users/stub/Messages/${message.id}`,
+      resourceData: { '@odata.type': '#Microsoft.Graph.Message', id: message.id },
+    };
+
+    try {
+      const response = await axios.post(subscription.notificationUrl, { value: [notification] });
+      console.log(`Notified ${subscription.id}: ${response.status}`);
+    } catch (error) {
+      console.error(
+        `Notification to ${subscription.notificationUrl} failed:`,
+        (error as Error).message
+      );
+    }
+  }
+}
+
+// OAuth client credentials token
+app.post('/:tenant/oauth2/v2.0/token', (_req: Request, res: Response) => {
+  res.json({ token_type: 'Bearer', expires_in: 3600, access_token: `stub-${uuidv4()}` });
+});
+
+// Search / list messages
+app.get('/v1.0/users/:user/messages', (req: Request, res: Response) => {
+  const top = parseInt(String(req.query.$top || '100'));
+  res.json({ value: messages.slice(0, top).map(toGraphMessage) });
+});
+
+// Single message
+app.get('/v1.0/users/:user/messages/:id', (req: Request, res: Response) => {
+  const message = messages.find((m) => m.id === req.params.id);
+  if (!message) {
+    res.status(404).json({ error: { code: 'ErrorItemNotFound', message: 'Not found' } });
+    return;
+  }
+  res.json(toGraphMessage(message));
+});
+
+app.get('/v1.0/users/:user/messages/:id/attachments', (_req: Request, res: Response) => {
+  res.json({ value: [] });
+});
+
+// Delta query: $deltatoken is the last sequence number seen, $skiptoken pages within a round
+app.get('/v1.0/users/:user/mailFolders/:folder/messages/delta', (req: Request, res: Response) => {
+  const { user, folder } = req.params;
+  const since = parseInt(String(req.query.$deltatoken ?? req.query.since ?? '0'));
+  const skip = parseInt(String(req.query.$skiptoken || '0'));
+  const pageSize = parseInt(
+    String(req.headers.prefer || '').match(/maxpagesize=(\d+)/)?.[1] || '50'
+  );
+
+  if (since > sequence) {
+    res.status(410).json({ error: { code: 'SyncStateNotFound', message: 'Delta token expired' } });
+    return;
+  }
+
+  const changed = messages.filter((m) => m.folderId === folder && m.sequence > since);
+  const page = changed.slice(skip, skip + pageSize);
+  const deltaUrl = `${BASE_URL}/users/${user}/mailFolders/${folder}/messages/delta`;
+
+  res.json({
+    value: page.map(toGraphMessage),
+    ...(skip + pageSize < changed.length
+      ? { '@odata.nextLink': `${deltaUrl}?since=${since}&$skiptoken=${skip + pageSize}` }
+      : { '@odata.deltaLink': `${deltaUrl}?$deltatoken=${sequence}` }),
+  });
+});
+
+// Subscriptions, validated with the same handshake Graph performs
+app.post('/v1.0/subscriptions', async (req: Request, res: Response) => {
+  const subscription: StubSubscription = { id: uuidv4(), ...req.body };
+  const validationToken = uuidv4();
+
+  try {
+    const response = await axios.post(
+      `${subscription.notificationUrl}?validationToken=${encodeURIComponent(validationToken)}`,
+      null,
+      { responseType: 'text', timeout: 10000 }
+    );
+    if (response.data !== validationToken) {
+      throw new Error('validation token was not echoed');
+    }
+  } catch (error) {
+    res.status(400).json({
+      error: {
+        code: 'ValidationError',
+        message: `Subscription validation failed: ${(error as Error).message}`,
+      },
+    });
+    return;
+  }
+
+  subscriptions.set(subscription.id, subscription);
+  console.log(`Subscription ${subscription.id} created for ${subscription.resource}`);
+  res.status(201).json(subscription);
+});
+
+app.patch('/v1.0/subscriptions/:id', (req: Request, res: Response) => {
+  const subscription = subscriptions.get(req.params.id);
+  if (!subscription) {
+    res.status(404).json({ error: { code: 'ResourceNotFound', message: 'Not found' } });
+    return;
+  }
+  subscription.expirationDateTime = req.body.expirationDateTime;
+  res.json(subscription);
+});
+
+app.delete('/v1.0/subscriptions/:id', (req: Request, res: Response) => {
+  if (!subscriptions.delete(req.params.id)) {
+    res.status(404).json({ error: { code: 'ResourceNotFound', message: 'Not found' } });
+    return;
+  }
+  res.status(204).end();
+});
+
+// Stub control: add a message and fire notifications
+app.post('/_stub/messages', async (req: Request, res: Response) => {
+  const message: StubMessage = {
+    id: uuidv4(),
+    conversationId: req.body.conversationId || uuidv4(),
+    subject: req.body.subject || 'Quote request',
+    from: {
+      emailAddress: {
+        name: req.body.fromName || 'Stub Sender',
+        address: req.body.from || 'sender@example.com',
+      },
+    },
+    receivedDateTime: new Date().toISOString(),
+    bodyPreview: req.body.bodyPreview || '',
+    hasAttachments: false,
+    body: { contentType: 'text', content: req.body.body || req.body.bodyPreview || '' },
+    folderId: req.body.folder || 'inbox',
+    sequence: ++sequence,
+  };
+  messages.push(message);
+
+  await notifySubscribers(message);
+  res.status(201).json(toGraphMessage(message));
+});
+
+// Stub control: send a lifecycle notification to a subscription
+app.post('/_stub/subscriptions/:id/lifecycle', async (req: Request, res: Response) => {
+  const subscription = subscriptions.get(req.params.id);
+  if (!subscription) {
+    res.status(404).json({ error: 'Subscription not found' });
+    return;
+  }
+
+  await axios.post(subscription.lifecycleNotificationUrl || subscription.notificationUrl, {
+    value: [
+      {
+        subscriptionId: subscription.id,
+        clientState: subscription.clientState,
+        lifecycleEvent: req.body.lifecycleEvent || 'reauthorizationRequired',
+      },
+    ],
+  });
+  res.status(202).json({ sent: true });
+});
+
+app.get('/_stub/state', (_req: Request, res: Response) => {
+  res.json({
+    sequence,
+    messages: messages.length,
+    subscriptions: Array.from(subscriptions.values()),
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Graph stub listening on http://localhost:${PORT} (Graph base ${BASE_URL})`);
+});
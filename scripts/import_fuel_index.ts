@@ -0,0 +1,41 @@
+/**
+ * Load a CSV of weekly diesel averages into the fuel price index
+ *
+ * Usage:
+ *   npx tsx scripts/import_fuel_index.ts path/to/diesel.csv [source]
+ *
+ * The first column is the week (2024-01-08, 01/08/2024 or "Jan 08, 2024") and the second the
+ * average price per gallon, e.g. the EIA weekly U.S. No 2 diesel retail price download.
+ * Header and note lines are skipped; re-importing a week overwrites its price.
+ */
+
+import { readFile } from 'fs/promises';
+import dotenv from 'dotenv';
+import * as db from '../src/config/db.js';
+import fuelIndexService from '../src/services/fuelIndexService.js';
+
+dotenv.config();
+
+async function main(): Promise<void> {
+  const [file, source] = process.argv.slice(2);
+  if (!file) {
+    console.error('Usage: npx tsx scripts/import_fuel_index.ts <file.csv> [source]');
+    process.exit(1);
+  }
+
+  const csv = await readFile(file, 'utf8');
+  const result = await fuelIndexService.importCsv(csv, source || file);
+
+  console.log(`Imported ${result.imported} week(s) (${result.firstWeek} to ${result.lastWeek})`);
+  console.log(`Skipped ${result.skipped} non-data line(s)`);
+  for (const error of result.errors) {
+    console.log(`  Line ${error.line}: ${error.error}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Fuel index import failed:', (error as Error).message);
+    process.exitCode = 1;
+  })
+  .finally(() => db.pool.end());
@@ -11,6 +11,7 @@ export const API_INFO = {
 
 export const ENDPOINTS = {
   health: 'GET /api/health',
+  aiProviderStatus: 'GET /api/health/ai-providers',
   processEmails: 'POST /api/emails/process (Rate Limited: 1/min)',
   previewEmails: 'POST /api/emails/preview',
   fetchEmails: 'POST /api/emails/fetch',
@@ -19,12 +20,53 @@ export const ENDPOINTS = {
   getJobResult: 'GET /api/jobs/:id/result',
   getJobStatistics: 'GET /api/jobs/statistics',
   getAllJobs: 'GET /api/jobs',
+  getJobSchedules: 'GET /api/jobs/schedules',
   cancelJob: 'DELETE /api/jobs/:id',
   getStats: 'GET /api/stats',
   getQuotes: 'GET /api/quotes',
   getQuoteById: 'GET /api/quotes/:id',
   searchQuotes: 'POST /api/quotes/search',
   deleteQuote: 'DELETE /api/quotes/:id',
+  correctQuote: 'PATCH /api/quotes/:id',
+  getQuoteCorrections: 'GET /api/quotes/:id/corrections',
+  exportCorrections: 'GET /api/quotes/corrections/export',
+  draftQuoteResponse: 'POST /api/quotes/:id/draft-response',
+  getQuoteDrafts: 'GET /api/quotes/:id/drafts',
+  reviseQuoteDraft: 'PATCH /api/quotes/:id/drafts/:version',
+  getFollowUps: 'GET /api/quotes/follow-ups',
+  draftFollowUps: 'POST /api/quotes/follow-ups/draft',
+  snoozeFollowUp: 'POST /api/quotes/follow-ups/:id/snooze',
+  dismissFollowUp: 'POST /api/quotes/follow-ups/:id/dismiss',
+  reopenFollowUp: 'DELETE /api/quotes/follow-ups/:id',
+  backfillQuoteDistances: 'POST /api/quotes/distances/backfill',
+  updateQuoteStatus: 'PATCH /api/quotes/:id/status',
+  getQuoteStatusHistory: 'GET /api/quotes/:id/status-history',
+  getAccessorialCatalog: 'GET /api/quotes/accessorials',
+  buildItemizedPrice: 'POST /api/quotes/:id/itemized-price',
+  graphWebhook: 'POST /api/webhooks/graph',
+  getGraphSubscriptions: 'GET /api/webhooks/graph/subscriptions',
+  ensureGraphSubscription: 'POST /api/webhooks/graph/subscriptions',
+  deleteGraphSubscription: 'DELETE /api/webhooks/graph/subscriptions/:id',
+  getWinRate: 'GET /api/analytics/win-rate',
+  getWinProbability: 'GET /api/analytics/win-rate/probability',
+  getWinRateByDimension: 'GET /api/analytics/win-rate/:dimension',
+  getPromptVersionComparison: 'GET /api/analytics/prompt-versions',
+  getAICosts: 'GET /api/analytics/ai-costs',
+  getAICacheStats: 'GET /api/analytics/ai-cache',
+  getRateCards: 'GET /api/rate-cards',
+  getRateCardForQuote: 'GET /api/rate-cards/quote/:quoteId',
+  createRateCard: 'POST /api/rate-cards',
+  getRateCardById: 'GET /api/rate-cards/:id',
+  updateRateCard: 'PATCH /api/rate-cards/:id',
+  deleteRateCard: 'DELETE /api/rate-cards/:id',
+  getFuelIndex: 'GET /api/fuel-index',
+  importFuelIndex: 'POST /api/fuel-index/import',
+  getPromptVersions: 'GET /api/prompts',
+  createPromptVersion: 'POST /api/prompts',
+  getPromptVersionById: 'GET /api/prompts/:id',
+  updatePromptVersion: 'PATCH /api/prompts/:id',
+  invalidateAICache: 'DELETE /api/ai-cache',
+  invalidateAICacheEntry: 'DELETE /api/ai-cache/:key',
   testGraph: 'GET /api/test/graph',
   testClaude: 'GET /api/test/claude',
   testDatabase: 'GET /api/test/database',
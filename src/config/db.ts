@@ -12,7 +12,36 @@ import type {
   Quote,
   QuoteWithEmail,
   Job,
+  JobType,
+  JobSchedule,
+  JobScheduleClaim,
+  JobScheduleOutcome,
   JobStatistics,
+  GraphSubscription,
+  MailDeltaState,
+  QuoteDraftType,
+  QuoteResponseDraft,
+  FollowUpCandidate,
+  FollowUpStatus,
+  QuoteLifecycleStatus,
+  QuoteStatusSource,
+  QuoteStatusTransition,
+  QuoteCorrectionData,
+  QuoteFieldCorrection,
+  PromptVersion,
+  PromptVersionData,
+  PromptVersionTask,
+  PromptVersionUpdate,
+  AIUsageRecord,
+  AICacheEntry,
+  AICacheKind,
+  LaneRateCard,
+  FuelIndexEntry,
+  GeoLocation,
+  GeoProviderName,
+  CachedRouteDistance,
+  DistanceSource,
+  RouteDistance,
   ProcessingStats,
   ShippingEmail,
   QuoteMatch,
@@ -150,7 +179,8 @@ async function saveQuoteToDatabase(
         discount_given, discount_reason, final_agreed_price,
         quote_status, job_won, rejection_reason,
         sales_representative, lead_source, special_requirements,
-        urgency_level
+        urgency_level, origin_terminal_id, destination_terminal_id, field_confidence,
+        extraction_prompt_version, extraction_provider
       ) VALUES (
         $1, $2, $3, $4, $5, $6, $7, $8,
         $9, $10, $11, $12, $13, $14, $15,
@@ -159,7 +189,8 @@ async function saveQuoteToDatabase(
         $34, $35, $36, $37, $38, $39,
         $40, $41, $42, $43, $44, $45, $46,
         $47, $48, $49,
-        $50, $51, $52, $53
+        $50, $51, $52, $53, $54, $55, $56,
+        $57, $58
       ) RETURNING quote_id
     `;
 
@@ -224,6 +255,11 @@ async function saveQuoteToDatabase(
         quote.lead_source,
         quote.special_requirements,
         quote.urgency_level,
+        quote.origin_terminal_id ?? null,
+        quote.destination_terminal_id ?? null,
+        quote.field_confidence ? JSON.stringify(quote.field_confidence) : null,
+        parsedData.prompt_version ?? null,
+        parsedData.ai_provider ?? null,
       ];
 
       const quoteResult = await client.query(quoteQuery, quoteValues);
@@ -295,6 +331,32 @@ async function getLatestLastReceivedDateTime(): Promise<string | null> {
   }
 }
 
+/**
+ * Map a processing_jobs row to a Job
+ */
+function mapJobRow(row): Job {
+  return {
+    id: row.job_id,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    data: row.job_data,
+    result: row.result,
+    error: row.error,
+    progress: row.progress,
+    lastReceivedDateTime: row.last_received_datetime,
+    type: row.job_type,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    lockedBy: row.locked_by,
+    lockedUntil: row.locked_until,
+    heartbeatAt: row.heartbeat_at,
+  };
+}
+
 /**
  * Save job to database
  */
@@ -305,8 +367,9 @@ async function saveJobToDatabase(job: Job): Promise<void> {
       `
       INSERT INTO processing_jobs (
         job_id, status, created_at, updated_at, started_at,
-        completed_at, job_data, result, error, progress, last_received_datetime
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        completed_at, job_data, result, error, progress, last_received_datetime,
+        job_type, max_attempts, run_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, COALESCE($14, NOW()))
     `,
       [
         job.id,
@@ -320,6 +383,9 @@ async function saveJobToDatabase(job: Job): Promise<void> {
         JSON.stringify(job.error),
         JSON.stringify(job.progress),
         job.lastReceivedDateTime,
+        job.type || 'email_processing',
+        job.maxAttempts || 3,
+        job.runAt || null,
       ]
     );
   } finally {
@@ -339,20 +405,7 @@ async function getJobFromDatabase(jobId: string): Promise<Job | null> {
       return null;
     }
 
-    const row = result.rows[0];
-    return {
-      id: row.job_id,
-      status: row.status,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-      startedAt: row.started_at,
-      completedAt: row.completed_at,
-      data: row.job_data,
-      result: row.result,
-      error: row.error,
-      progress: row.progress,
-      lastReceivedDateTime: row.last_received_datetime,
-    };
+    return mapJobRow(result.rows[0]);
   } finally {
     client.release();
   }
@@ -360,6 +413,7 @@ async function getJobFromDatabase(jobId: string): Promise<Job | null> {
 
 /**
  * Update job in database
+ * Terminal statuses also release the worker lease
  */
 async function updateJobInDatabase(job: Job): Promise<void> {
   const client = await pool.connect();
@@ -368,7 +422,9 @@ async function updateJobInDatabase(job: Job): Promise<void> {
       `
       UPDATE processing_jobs
       SET status = $2, updated_at = $3, started_at = $4,
-          completed_at = $5, result = $6, error = $7, progress = $8, last_received_datetime = $9
+          completed_at = $5, result = $6, error = $7, progress = $8, last_received_datetime = $9,
+          locked_by = CASE WHEN $2 IN ('completed', 'failed') THEN NULL ELSE locked_by END,
+          locked_until = CASE WHEN $2 IN ('completed', 'failed') THEN NULL ELSE locked_until END
       WHERE job_id = $1
     `,
       [
@@ -388,6 +444,240 @@ async function updateJobInDatabase(job: Job): Promise<void> {
   }
 }
 
+/**
+ * Complete or fail a job and release its lease
+ * Returns false if the worker no longer owns the job (lease expired and reclaimed, or cancelled)
+ */
+async function finishJobInDatabase(job: Job, workerId: string): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      UPDATE processing_jobs
+      SET status = $3, updated_at = $4, completed_at = $5, result = $6, error = $7,
+          progress = $8, last_received_datetime = $9,
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE job_id = $1 AND locked_by = $2 AND status = 'processing'
+    `,
+      [
+        job.id,
+        workerId,
+        job.status,
+        job.updatedAt,
+        job.completedAt,
+        JSON.stringify(job.result),
+        JSON.stringify(job.error),
+        JSON.stringify(job.progress),
+        job.lastReceivedDateTime,
+      ]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Claim the next runnable job for a worker
+ * Uses SKIP LOCKED so concurrent workers never claim the same row
+ * Jobs of excludeTypes stay queued (e.g. AI jobs while the monthly AI budget is exceeded)
+ */
+async function claimNextJob(
+  workerId: string,
+  leaseMs: number,
+  excludeTypes: JobType[] = []
+): Promise<Job | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      UPDATE processing_jobs
+      SET status = 'processing',
+          locked_by = $1,
+          locked_until = NOW() + ($2 || ' milliseconds')::interval,
+          heartbeat_at = NOW(),
+          attempts = attempts + 1,
+          started_at = COALESCE(started_at, NOW()),
+          updated_at = NOW()
+      WHERE job_id = (
+        SELECT job_id FROM processing_jobs
+        WHERE status = 'pending' AND run_at <= NOW()
+          AND NOT (job_type = ANY($3::text[]))
+        ORDER BY run_at, created_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING *
+    `,
+      [workerId, String(leaseMs), excludeTypes]
+    );
+
+    return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Extend a job lease. Returns false if the worker no longer owns the job.
+ */
+async function heartbeatJob(jobId: string, workerId: string, leaseMs: number): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      UPDATE processing_jobs
+      SET locked_until = NOW() + ($3 || ' milliseconds')::interval,
+          heartbeat_at = NOW()
+      WHERE job_id = $1 AND locked_by = $2 AND status = 'processing'
+    `,
+      [jobId, workerId, String(leaseMs)]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Put a failed job back in the queue to run after a delay
+ * Returns false if the worker no longer owns the job (lease expired and reclaimed)
+ */
+async function scheduleJobRetry(
+  jobId: string,
+  workerId: string,
+  error: { message: string; stack?: string },
+  delayMs: number
+): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      UPDATE processing_jobs
+      SET status = 'pending',
+          error = $3,
+          run_at = NOW() + ($4 || ' milliseconds')::interval,
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = NOW()
+      WHERE job_id = $1 AND locked_by = $2 AND status = 'processing'
+    `,
+      [jobId, workerId, JSON.stringify(error), String(delayMs)]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Reclaim jobs whose lease expired (worker crashed or server restarted)
+ * Jobs with attempts left go back to pending, the rest are failed
+ */
+async function reclaimOrphanedJobs(): Promise<{ requeued: string[]; failed: string[] }> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(`
+      UPDATE processing_jobs
+      SET status = CASE WHEN attempts < max_attempts THEN 'pending' ELSE 'failed' END,
+          completed_at = CASE WHEN attempts < max_attempts THEN NULL ELSE NOW() END,
+          error = CASE
+            WHEN attempts < max_attempts THEN error
+            ELSE '{"message": "Job lease expired after final attempt"}'::jsonb
+          END,
+          run_at = NOW(),
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = NOW()
+      WHERE status = 'processing'
+        AND (locked_until IS NULL OR locked_until < NOW())
+      RETURNING job_id, status
+    `);
+
+    return {
+      requeued: result.rows.filter((r) => r.status === 'pending').map((r) => r.job_id),
+      failed: result.rows.filter((r) => r.status === 'failed').map((r) => r.job_id),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Release all leases held by a worker so another worker can pick the jobs up
+ */
+async function releaseWorkerJobs(workerId: string): Promise<number> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      UPDATE processing_jobs
+      SET status = 'pending',
+          attempts = GREATEST(attempts - 1, 0),
+          locked_by = NULL,
+          locked_until = NULL,
+          run_at = NOW(),
+          updated_at = NOW()
+      WHERE locked_by = $1 AND status = 'processing'
+    `,
+      [workerId]
+    );
+
+    return result.rowCount ?? 0;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Put a claimed job back in the queue without using up an attempt (e.g. paused by the AI budget)
+ */
+async function requeueJob(jobId: string, reason: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `
+      UPDATE processing_jobs
+      SET status = 'pending',
+          attempts = GREATEST(attempts - 1, 0),
+          error = $2,
+          locked_by = NULL,
+          locked_until = NULL,
+          run_at = NOW(),
+          updated_at = NOW()
+      WHERE job_id = $1
+    `,
+      [jobId, JSON.stringify({ message: reason })]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Check whether a job of the given type is queued or running
+ */
+async function hasActiveJobOfType(jobType: JobType): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM processing_jobs
+         WHERE job_type = $1 AND status IN ('pending', 'processing')
+       ) AS active`,
+      [jobType]
+    );
+
+    return result.rows[0].active;
+  } finally {
+    client.release();
+  }
+}
+
 interface JobStatisticsFilters {
   startDate?: string;
   endDate?: string;
@@ -1122,7 +1412,13 @@ async function getHistoricalQuotesForMatching(
         NULL as service_level,
         q.packaging_type,
         q.hazardous_material,
+        q.total_distance_miles,
+        q.origin_full_address,
+        q.destination_full_address,
+        q.origin_terminal_id,
+        q.destination_terminal_id,
         sqr.quoted_price as initial_quote_amount,
+        sqr.currency as initial_quote_currency,
         sqr.quoted_price as final_agreed_price,
         NULL as job_won,
         NULL as quote_status,
@@ -1334,6 +1630,21 @@ async function getQuoteForMatching(quoteId: number): Promise<Quote | null> {
         q.destination_city,
         q.destination_state_province,
         q.destination_country,
+        q.origin_full_address,
+        q.origin_postal_code,
+        q.destination_full_address,
+        q.destination_postal_code,
+        q.origin_terminal_id,
+        q.destination_terminal_id,
+        q.field_confidence,
+        q.total_distance_miles,
+        q.estimated_duration_minutes,
+        q.distance_source,
+        q.distance_calculated_at,
+        q.origin_latitude,
+        q.origin_longitude,
+        q.destination_latitude,
+        q.destination_longitude,
         q.cargo_description,
         q.cargo_weight,
         q.weight_unit,
@@ -1947,8 +2258,9 @@ async function saveAIPricingRecommendation(
     const result = await client.query<AIPricingRecommendation>(
       `INSERT INTO ai_pricing_recommendations (
         quote_id, email_id, ai_recommended_price, ai_reasoning, confidence_percentage,
-        floor_price, ceiling_price, target_price, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+        floor_price, ceiling_price, target_price, rate_card_id, prompt_version, ai_provider,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW(), NOW())
       ON CONFLICT (quote_id)
       DO UPDATE SET
         email_id = COALESCE($2, ai_pricing_recommendations.email_id),
@@ -1958,6 +2270,9 @@ async function saveAIPricingRecommendation(
         floor_price = $6,
         ceiling_price = $7,
         target_price = $8,
+        rate_card_id = $9,
+        prompt_version = $10,
+        ai_provider = $11,
         updated_at = NOW()
       RETURNING *`,
       [
@@ -1969,6 +2284,9 @@ async function saveAIPricingRecommendation(
         aiPricing.floor_price ?? null,
         aiPricing.ceiling_price ?? null,
         aiPricing.target_price ?? null,
+        aiPricing.rate_card?.rateCardId ?? null,
+        aiPricing.prompt_version ?? null,
+        aiPricing.ai_provider ?? null,
       ]
     );
 
@@ -1997,6 +2315,2211 @@ async function getAIPricingRecommendation(quoteId: number): Promise<AIPricingRec
   }
 }
 
+// =====================================================
+// Job Schedule Functions
+// =====================================================
+
+/**
+ * Map a job_schedules row to a JobSchedule
+ */
+function mapJobScheduleRow(row): JobSchedule {
+  return {
+    name: row.schedule_name,
+    jobType: row.job_type,
+    cronExpression: row.cron_expression,
+    enabled: row.enabled,
+    lastRunAt: row.last_run_at,
+    lastEnqueuedWindowEnd: row.last_enqueued_window_end,
+    nextRunAt: row.next_run_at,
+    lastJobId: row.last_job_id,
+    lastJobStatus: row.last_job_status ?? null,
+    lastOutcome: row.last_outcome,
+    lastError: row.last_error,
+  };
+}
+
+/**
+ * Create or update a schedule definition
+ * next_run_at is only reset when the cron expression changes or it was never set
+ */
+async function upsertJobSchedule(
+  name: string,
+  jobType: JobType,
+  cronExpression: string,
+  enabled: boolean,
+  nextRunAt: Date
+): Promise<JobSchedule> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      INSERT INTO job_schedules (schedule_name, job_type, cron_expression, enabled, next_run_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (schedule_name) DO UPDATE SET
+        job_type = EXCLUDED.job_type,
+        enabled = EXCLUDED.enabled,
+        next_run_at = CASE
+          WHEN job_schedules.cron_expression <> EXCLUDED.cron_expression
+            OR job_schedules.next_run_at IS NULL
+          THEN EXCLUDED.next_run_at
+          ELSE job_schedules.next_run_at
+        END,
+        cron_expression = EXCLUDED.cron_expression,
+        updated_at = NOW()
+      RETURNING *
+    `,
+      [name, jobType, cronExpression, enabled, nextRunAt]
+    );
+
+    return mapJobScheduleRow(result.rows[0]);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Atomically claim a due schedule run and advance next_run_at
+ * The run covers the window from the end of the last enqueued run's window to the claim time.
+ * Returns null if the schedule is not due or another instance claimed it first
+ */
+async function claimDueSchedule(
+  name: string,
+  nextRunAt: Date
+): Promise<JobScheduleClaim | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      WITH due AS (
+        SELECT schedule_name, last_enqueued_window_end
+        FROM job_schedules
+        WHERE schedule_name = $1 AND enabled = TRUE AND next_run_at <= NOW()
+        FOR UPDATE SKIP LOCKED
+      )
+      UPDATE job_schedules s
+      SET last_run_at = NOW(), next_run_at = $2, updated_at = NOW()
+      FROM due
+      WHERE s.schedule_name = due.schedule_name
+      RETURNING due.last_enqueued_window_end AS window_start, s.last_run_at AS window_end
+    `,
+      [name, nextRunAt]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return { windowStart: result.rows[0].window_start, windowEnd: result.rows[0].window_end };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record the outcome of a schedule run
+ * windowEnd is passed for enqueued runs only, so skipped or failed runs leave their window to
+ * the next run
+ */
+async function recordScheduleRun(
+  name: string,
+  outcome: JobScheduleOutcome,
+  jobId: string | null = null,
+  error: string | null = null,
+  windowEnd: string | null = null
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `
+      UPDATE job_schedules
+      SET last_outcome = $2,
+          last_job_id = COALESCE($3, last_job_id),
+          last_error = $4,
+          last_enqueued_window_end = COALESCE($5, last_enqueued_window_end),
+          updated_at = NOW()
+      WHERE schedule_name = $1
+    `,
+      [name, outcome, jobId, error, windowEnd]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get all schedules with the status of their most recent job
+ */
+async function getJobSchedules(): Promise<JobSchedule[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(`
+      SELECT s.*, j.status AS last_job_status
+      FROM job_schedules s
+      LEFT JOIN processing_jobs j ON j.job_id::text = s.last_job_id
+      ORDER BY s.schedule_name
+    `);
+
+    return result.rows.map(mapJobScheduleRow);
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Microsoft Graph Sync Functions
+// =====================================================
+
+/**
+ * Get the stored delta state for a mail folder
+ */
+async function getMailDeltaState(folderId: string): Promise<MailDeltaState | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query('SELECT * FROM mail_delta_tokens WHERE folder_id = $1', [
+      folderId,
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      folderId: row.folder_id,
+      deltaLink: row.delta_link,
+      lastSyncedAt: row.last_synced_at,
+      messagesSynced: row.messages_synced,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Save the delta resume link for a mail folder
+ */
+async function saveMailDeltaLink(
+  folderId: string,
+  deltaLink: string | null,
+  messagesSynced: number
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `
+      INSERT INTO mail_delta_tokens (folder_id, delta_link, messages_synced, last_synced_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (folder_id) DO UPDATE SET
+        delta_link = EXCLUDED.delta_link,
+        messages_synced = mail_delta_tokens.messages_synced + EXCLUDED.messages_synced,
+        last_synced_at = NOW()
+    `,
+      [folderId, deltaLink, messagesSynced]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Map a graph_subscriptions row to a GraphSubscription
+ */
+function mapGraphSubscriptionRow(row): GraphSubscription {
+  return {
+    id: row.subscription_id,
+    resource: row.resource,
+    changeType: row.change_type,
+    notificationUrl: row.notification_url,
+    expirationDateTime: row.expiration_datetime,
+    clientState: row.client_state,
+  };
+}
+
+/**
+ * Insert or update a Graph subscription
+ */
+async function saveGraphSubscription(subscription: GraphSubscription): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `
+      INSERT INTO graph_subscriptions (
+        subscription_id, resource, change_type, notification_url, client_state, expiration_datetime
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (subscription_id) DO UPDATE SET
+        expiration_datetime = EXCLUDED.expiration_datetime,
+        updated_at = NOW()
+    `,
+      [
+        subscription.id,
+        subscription.resource,
+        subscription.changeType,
+        subscription.notificationUrl,
+        subscription.clientState,
+        subscription.expirationDateTime,
+      ]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a Graph subscription by ID
+ */
+async function getGraphSubscription(subscriptionId: string): Promise<GraphSubscription | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM graph_subscriptions WHERE subscription_id = $1',
+      [subscriptionId]
+    );
+    return result.rows.length > 0 ? mapGraphSubscriptionRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get all Graph subscriptions, soonest expiring first
+ */
+async function getGraphSubscriptions(): Promise<GraphSubscription[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM graph_subscriptions ORDER BY expiration_datetime ASC'
+    );
+    return result.rows.map(mapGraphSubscriptionRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Record that a notification arrived for a subscription
+ */
+async function touchGraphSubscription(subscriptionId: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      'UPDATE graph_subscriptions SET last_notification_at = NOW() WHERE subscription_id = $1',
+      [subscriptionId]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delete a Graph subscription record
+ */
+async function deleteGraphSubscription(subscriptionId: string): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'DELETE FROM graph_subscriptions WHERE subscription_id = $1',
+      [subscriptionId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Quote Response Draft Functions
+// =====================================================
+
+interface SaveQuoteDraftData {
+  quoteId: number;
+  draftType: QuoteDraftType;
+  subject: string;
+  body: string;
+  quotedPrice?: number | null;
+  aiProvider?: string | null;
+  graphDraftId?: string | null;
+  graphWebLink?: string | null;
+  createdBy?: string | null;
+}
+
+/**
+ * Map a quote_response_drafts row to a QuoteResponseDraft
+ */
+function mapQuoteDraftRow(row): QuoteResponseDraft {
+  return {
+    id: row.draft_id,
+    quoteId: row.quote_id,
+    version: row.version,
+    draftType: row.draft_type,
+    status: row.status,
+    subject: row.subject,
+    body: row.body,
+    quotedPrice: row.quoted_price !== null ? parseFloat(row.quoted_price) : null,
+    aiProvider: row.ai_provider,
+    graphDraftId: row.graph_draft_id,
+    graphWebLink: row.graph_web_link,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Save a new draft version for a quote and supersede the previous ones
+ */
+async function saveQuoteDraft(draft: SaveQuoteDraftData): Promise<QuoteResponseDraft> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Serialize version numbering per quote
+    await client.query('SELECT quote_id FROM shipping_quotes WHERE quote_id = $1 FOR UPDATE', [
+      draft.quoteId,
+    ]);
+
+    await client.query(
+      `UPDATE quote_response_drafts SET status = 'superseded'
+       WHERE quote_id = $1 AND status = 'draft'`,
+      [draft.quoteId]
+    );
+
+    const result = await client.query(
+      `
+      INSERT INTO quote_response_drafts (
+        quote_id, version, draft_type, status, subject, body, quoted_price,
+        ai_provider, graph_draft_id, graph_web_link, created_by
+      )
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, 'draft', $3, $4, $5, $6, $7, $8, $9
+      FROM quote_response_drafts WHERE quote_id = $1
+      RETURNING *
+    `,
+      [
+        draft.quoteId,
+        draft.draftType,
+        draft.subject,
+        draft.body,
+        draft.quotedPrice ?? null,
+        draft.aiProvider ?? null,
+        draft.graphDraftId ?? null,
+        draft.graphWebLink ?? null,
+        draft.createdBy ?? null,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return mapQuoteDraftRow(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get all draft versions for a quote, newest first
+ */
+async function getQuoteDrafts(quoteId: number): Promise<QuoteResponseDraft[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM quote_response_drafts WHERE quote_id = $1 ORDER BY version DESC',
+      [quoteId]
+    );
+    return result.rows.map(mapQuoteDraftRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a single draft version
+ */
+async function getQuoteDraft(quoteId: number, version: number): Promise<QuoteResponseDraft | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM quote_response_drafts WHERE quote_id = $1 AND version = $2',
+      [quoteId, version]
+    );
+    return result.rows.length > 0 ? mapQuoteDraftRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the current (latest) draft for a quote
+ */
+async function getCurrentQuoteDraft(quoteId: number): Promise<QuoteResponseDraft | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT * FROM quote_response_drafts WHERE quote_id = $1 AND status = 'draft'
+       ORDER BY version DESC LIMIT 1`,
+      [quoteId]
+    );
+    return result.rows.length > 0 ? mapQuoteDraftRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Quote Follow-up Functions
+// =====================================================
+
+interface FollowUpCandidateFilters {
+  /** Calendar days since the last staff contact (callers refine to business days) */
+  minIdleDays: number;
+  /** Include quotes whose validity ends within this many days */
+  expiryWithinDays: number;
+  includeSnoozed?: boolean;
+  includeDismissed?: boolean;
+  limit?: number;
+}
+
+/** Quote statuses that no longer need chasing */
+const CLOSED_QUOTE_STATUSES = [
+  'accepted',
+  'approved',
+  'booked',
+  'won',
+  'rejected',
+  'lost',
+  'expired',
+  'cancelled',
+];
+
+/**
+ * Map a follow-up candidate row to a FollowUpCandidate
+ */
+function mapFollowUpRow(row): FollowUpCandidate {
+  return {
+    quoteId: row.quote_id,
+    clientCompanyName: row.client_company_name,
+    contactEmail: row.email_sender_email,
+    subject: row.email_subject,
+    origin: row.origin || null,
+    destination: row.destination || null,
+    quoteStatus: row.quote_status,
+    quotedPrice: row.quoted_price !== null ? parseFloat(row.quoted_price) : null,
+    quotedAt: row.quoted_at,
+    lastContactAt: row.last_contact_at,
+    lastCustomerReplyAt: row.last_customer_reply_at,
+    followupsSent: parseInt(row.followups_sent || '0'),
+    validUntil: row.valid_until_iso,
+    followUpRequired: row.follow_up_required === true,
+    followUpReason: row.follow_up_reason,
+    status: row.followup_status || 'open',
+    snoozedUntil: row.snoozed_until,
+    note: row.note,
+    currentDraft:
+      row.draft_version !== null
+        ? {
+            version: row.draft_version,
+            draftType: row.draft_type,
+            createdAt: row.draft_created_at,
+            graphWebLink: row.draft_graph_web_link,
+          }
+        : null,
+  };
+}
+
+/**
+ * Get open quotes that may need a follow-up: quoted with no customer reply since the last
+ * staff contact, flagged for follow-up during extraction, or about to expire
+ */
+async function getFollowUpCandidates(filters: FollowUpCandidateFilters): Promise<FollowUpCandidate[]> {
+  const {
+    minIdleDays,
+    expiryWithinDays,
+    includeSnoozed = false,
+    includeDismissed = false,
+    limit = 200,
+  } = filters;
+
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      WITH quoted AS (
+        SELECT
+          sqr.related_quote_id AS quote_id,
+          MIN(sr.received_date) AS first_quoted_at,
+          MAX(sr.received_date) AS quoted_at,
+          (ARRAY_AGG(sqr.quoted_price ORDER BY sr.received_date DESC))[1] AS quoted_price,
+          (ARRAY_AGG(sqr.quote_valid_until::text ORDER BY sr.received_date DESC))[1] AS reply_valid_until
+        FROM staff_quotes_replies sqr
+        INNER JOIN staff_replies sr ON sqr.staff_reply_id = sr.reply_id
+        WHERE sqr.related_quote_id IS NOT NULL AND sqr.is_pricing_email = true
+        GROUP BY sqr.related_quote_id
+      ),
+      candidates AS (
+        SELECT
+          q.quote_id,
+          q.client_company_name,
+          q.quote_status,
+          q.follow_up_required,
+          q.follow_up_reason,
+          CONCAT_WS(', ', q.origin_city, q.origin_state_province, q.origin_country) AS origin,
+          CONCAT_WS(', ', q.destination_city, q.destination_state_province, q.destination_country) AS destination,
+          COALESCE(q.quote_valid_until::text, qt.reply_valid_until) AS valid_until_text,
+          e.email_id,
+          e.conversation_id,
+          e.email_sender_email,
+          e.email_subject,
+          qt.quoted_price,
+          qt.quoted_at,
+          qt.first_quoted_at,
+          f.status AS followup_status,
+          f.snoozed_until,
+          f.note,
+          f.updated_at AS followup_updated_at
+        FROM shipping_quotes q
+        INNER JOIN shipping_emails e ON q.email_id = e.email_id
+        LEFT JOIN quoted qt ON qt.quote_id = q.quote_id
+        LEFT JOIN quote_followups f ON f.quote_id = q.quote_id
+        WHERE q.job_won IS NULL
+          AND q.lifecycle_status NOT IN ('won', 'lost', 'expired')
+          AND LOWER(COALESCE(q.quote_status, '')) <> ALL($1::text[])
+          AND (qt.quote_id IS NOT NULL OR q.follow_up_required = true OR q.quote_valid_until IS NOT NULL)
+      ),
+      enriched AS (
+        SELECT
+          c.*,
+          CASE WHEN c.valid_until_text ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}'
+               THEN LEFT(c.valid_until_text, 10)::date END AS valid_until,
+          GREATEST(contact.last_staff_message_at, c.quoted_at) AS last_contact_at,
+          COALESCE(contact.followups_sent, 0) AS followups_sent,
+          reply.last_customer_reply_at,
+          d.version AS draft_version,
+          d.draft_type,
+          d.created_at AS draft_created_at,
+          d.graph_web_link AS draft_graph_web_link
+        FROM candidates c
+        LEFT JOIN LATERAL (
+          SELECT
+            MAX(sr.received_date) AS last_staff_message_at,
+            COUNT(*) FILTER (WHERE sr.received_date > c.first_quoted_at) AS followups_sent
+          FROM staff_replies sr
+          WHERE sr.conversation_id = c.conversation_id
+        ) contact ON true
+        LEFT JOIN LATERAL (
+          SELECT MAX(e2.email_received_date) AS last_customer_reply_at
+          FROM shipping_emails e2
+          WHERE e2.conversation_id = c.conversation_id AND e2.email_id <> c.email_id
+        ) reply ON true
+        LEFT JOIN LATERAL (
+          SELECT version, draft_type, created_at, graph_web_link
+          FROM quote_response_drafts
+          WHERE quote_id = c.quote_id AND status = 'draft'
+          ORDER BY version DESC
+          LIMIT 1
+        ) d ON true
+      )
+      SELECT *, TO_CHAR(valid_until, 'YYYY-MM-DD') AS valid_until_iso
+      FROM enriched
+      WHERE (
+          (quoted_at IS NOT NULL
+            AND last_contact_at <= NOW() - ($2 || ' days')::interval
+            AND (last_customer_reply_at IS NULL OR last_customer_reply_at < last_contact_at))
+          OR follow_up_required = true
+          OR valid_until BETWEEN CURRENT_DATE AND CURRENT_DATE + $3::integer
+        )
+        AND ($4 OR followup_status IS DISTINCT FROM 'snoozed' OR snoozed_until <= NOW())
+        -- A dismissal only lasts until staff send something new in the conversation
+        AND ($5 OR followup_status IS DISTINCT FROM 'dismissed' OR last_contact_at > followup_updated_at)
+      ORDER BY last_contact_at ASC NULLS LAST, quote_id ASC
+      LIMIT $6
+    `,
+      [CLOSED_QUOTE_STATUSES, minIdleDays, expiryWithinDays, includeSnoozed, includeDismissed, limit]
+    );
+
+    return result.rows.map(mapFollowUpRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Snooze or dismiss a quote on the follow-up worklist
+ */
+async function setQuoteFollowUpStatus(
+  quoteId: number,
+  status: Exclude<FollowUpStatus, 'open'>,
+  options: { snoozedUntil?: Date | null; note?: string | null; updatedBy?: string | null } = {}
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `
+      INSERT INTO quote_followups (quote_id, status, snoozed_until, note, updated_by, updated_at)
+      VALUES ($1, $2, $3, $4, $5, NOW())
+      ON CONFLICT (quote_id) DO UPDATE SET
+        status = EXCLUDED.status,
+        snoozed_until = EXCLUDED.snoozed_until,
+        note = EXCLUDED.note,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = NOW()
+    `,
+      [quoteId, status, options.snoozedUntil ?? null, options.note ?? null, options.updatedBy ?? null]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Put a snoozed or dismissed quote back on the worklist
+ */
+async function clearQuoteFollowUpStatus(quoteId: number): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query('DELETE FROM quote_followups WHERE quote_id = $1', [quoteId]);
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Quote Lifecycle Functions
+// =====================================================
+
+interface QuoteTransitionData {
+  toStatus: QuoteLifecycleStatus;
+  /** States the quote must currently be in; anything else leaves it untouched */
+  allowedFrom: QuoteLifecycleStatus[];
+  source: QuoteStatusSource;
+  actor: string;
+  reason?: string | null;
+  staffReplyId?: number | null;
+  emailId?: number | null;
+  occurredAt?: Date | string;
+  jobWon?: boolean | null;
+  rejectionReason?: string | null;
+  finalAgreedPrice?: number | null;
+}
+
+interface StaffPricingEvent {
+  quote_id: number;
+  lifecycle_status: QuoteLifecycleStatus;
+  staff_reply_id: number;
+  quoted_price: string | null;
+  received_date: string;
+}
+
+interface CustomerReplyEvent {
+  quote_id: number;
+  lifecycle_status: QuoteLifecycleStatus;
+  email_id: number;
+  email_received_date: string;
+  email_subject: string | null;
+  body: string | null;
+}
+
+interface ExpiredQuote {
+  quote_id: number;
+  lifecycle_status: QuoteLifecycleStatus;
+  valid_until: string;
+}
+
+/**
+ * Map a quote_status_history row to a QuoteStatusTransition
+ */
+function mapStatusHistoryRow(row): QuoteStatusTransition {
+  return {
+    id: row.id,
+    quoteId: row.quote_id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    source: row.source,
+    actor: row.actor,
+    reason: row.reason,
+    staffReplyId: row.staff_reply_id,
+    emailId: row.email_id,
+    occurredAt: row.occurred_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Move a quote to a new lifecycle status and append the transition to its history
+ * Returns null when the quote does not exist or is not in one of the allowed states
+ */
+async function applyQuoteTransition(
+  quoteId: number,
+  transition: QuoteTransitionData
+): Promise<QuoteStatusTransition | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const current = await client.query(
+      'SELECT lifecycle_status FROM shipping_quotes WHERE quote_id = $1 FOR UPDATE',
+      [quoteId]
+    );
+    const fromStatus: QuoteLifecycleStatus | undefined = current.rows[0]?.lifecycle_status;
+
+    if (!fromStatus || !transition.allowedFrom.includes(fromStatus)) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const occurredAt = transition.occurredAt ? new Date(transition.occurredAt) : new Date();
+
+    await client.query(
+      `
+      UPDATE shipping_quotes SET
+        lifecycle_status = $2,
+        lifecycle_updated_at = $3,
+        job_won = COALESCE($4, job_won),
+        acceptance_date = COALESCE($5, acceptance_date),
+        rejection_reason = COALESCE($6, rejection_reason),
+        final_agreed_price = COALESCE($7, final_agreed_price)
+      WHERE quote_id = $1
+    `,
+      [
+        quoteId,
+        transition.toStatus,
+        occurredAt,
+        transition.jobWon ?? null,
+        transition.toStatus === 'won' ? occurredAt.toISOString().slice(0, 10) : null,
+        transition.rejectionReason ?? null,
+        transition.finalAgreedPrice ?? null,
+      ]
+    );
+
+    const result = await client.query(
+      `
+      INSERT INTO quote_status_history (
+        quote_id, from_status, to_status, source, actor, reason,
+        staff_reply_id, email_id, occurred_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `,
+      [
+        quoteId,
+        fromStatus,
+        transition.toStatus,
+        transition.source,
+        transition.actor,
+        transition.reason ?? null,
+        transition.staffReplyId ?? null,
+        transition.emailId ?? null,
+        occurredAt,
+      ]
+    );
+
+    await client.query('COMMIT');
+    return mapStatusHistoryRow(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the lifecycle history for a quote, oldest first
+ */
+async function getQuoteStatusHistory(quoteId: number): Promise<QuoteStatusTransition[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM quote_status_history WHERE quote_id = $1 ORDER BY occurred_at ASC, id ASC',
+      [quoteId]
+    );
+    return result.rows.map(mapStatusHistoryRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get requested quotes that already have an AI pricing recommendation
+ */
+async function getPricedRequestedQuotes(limit = 500): Promise<{ quote_id: number; priced_at: string }[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT q.quote_id, r.created_at AS priced_at
+       FROM shipping_quotes q
+       INNER JOIN ai_pricing_recommendations r ON r.quote_id = q.quote_id
+       WHERE q.lifecycle_status = 'requested'
+       ORDER BY r.created_at ASC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get staff pricing replies not yet reflected in their quote's lifecycle, oldest first
+ */
+async function getPendingStaffPricingEvents(limit = 500): Promise<StaffPricingEvent[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT sqr.related_quote_id AS quote_id, q.lifecycle_status, sqr.staff_reply_id,
+              sqr.quoted_price, sr.received_date
+       FROM staff_quotes_replies sqr
+       INNER JOIN staff_replies sr ON sqr.staff_reply_id = sr.reply_id
+       INNER JOIN shipping_quotes q ON q.quote_id = sqr.related_quote_id
+       WHERE sqr.is_pricing_email = true
+         AND q.lifecycle_status IN ('requested', 'priced', 'sent', 'revised', 'expired')
+         AND (q.lifecycle_status IN ('requested', 'priced') OR sr.received_date > q.lifecycle_updated_at)
+         AND NOT EXISTS (
+           SELECT 1 FROM quote_status_history h
+           WHERE h.quote_id = sqr.related_quote_id AND h.staff_reply_id = sqr.staff_reply_id
+         )
+       ORDER BY sr.received_date ASC, sqr.id ASC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get customer messages received in a quoted conversation since the quote was last sent
+ */
+async function getPendingCustomerReplies(limit = 500): Promise<CustomerReplyEvent[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT q.quote_id, q.lifecycle_status, e2.email_id, e2.email_received_date,
+              e2.email_subject, COALESCE(e2.raw_email_body, e2.email_body_preview) AS body
+       FROM shipping_quotes q
+       INNER JOIN shipping_emails e ON q.email_id = e.email_id
+       INNER JOIN shipping_emails e2
+         ON e2.conversation_id = e.conversation_id AND e2.email_id <> e.email_id
+       WHERE e.conversation_id IS NOT NULL
+         AND q.lifecycle_status IN ('sent', 'revised')
+         AND e2.email_received_date > q.lifecycle_updated_at
+         AND NOT EXISTS (
+           SELECT 1 FROM quote_status_history h
+           WHERE h.quote_id = q.quote_id AND h.email_id = e2.email_id
+         )
+       ORDER BY e2.email_received_date ASC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get sent or revised quotes whose validity date has passed
+ */
+async function getExpiredOpenQuotes(limit = 500): Promise<ExpiredQuote[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `
+      SELECT quote_id, lifecycle_status, TO_CHAR(valid_until, 'YYYY-MM-DD') AS valid_until
+      FROM (
+        SELECT
+          q.quote_id,
+          q.lifecycle_status,
+          CASE WHEN v.valid_until_text ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}'
+               THEN LEFT(v.valid_until_text, 10)::date END AS valid_until
+        FROM shipping_quotes q
+        LEFT JOIN LATERAL (
+          SELECT COALESCE(
+            q.quote_valid_until::text,
+            (SELECT sqr.quote_valid_until::text
+             FROM staff_quotes_replies sqr
+             INNER JOIN staff_replies sr ON sqr.staff_reply_id = sr.reply_id
+             WHERE sqr.related_quote_id = q.quote_id AND sqr.is_pricing_email = true
+             ORDER BY sr.received_date DESC
+             LIMIT 1)
+          ) AS valid_until_text
+        ) v ON true
+        WHERE q.lifecycle_status IN ('sent', 'revised')
+      ) open_quotes
+      WHERE valid_until < CURRENT_DATE
+      ORDER BY valid_until ASC
+      LIMIT $1
+    `,
+      [limit]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Win-Rate Analytics Functions
+// =====================================================
+
+interface PricingOutcomeFilters {
+  startDate?: string;
+  endDate?: string;
+  quoteIds?: number[];
+}
+
+interface PricingOutcomeRow {
+  quote_id: number;
+  job_won: boolean;
+  quoted_price: string | null;
+  recommended_price: string | null;
+  origin_region: string | null;
+  destination_region: string | null;
+  normalized_service_type: string | null;
+  cargo_category: string | null;
+  origin_city: string | null;
+  origin_state_province: string | null;
+  origin_country: string | null;
+  destination_city: string | null;
+  destination_state_province: string | null;
+  destination_country: string | null;
+  service_type: string | null;
+  cargo_description: string | null;
+  quoted_at: string | null;
+}
+
+/**
+ * Get quotes with a known win/loss outcome, with the price sent and the AI recommendation
+ * Outcomes come from pricing_history (recordPricingOutcome) or the quote itself
+ */
+async function getPricingOutcomes(filters: PricingOutcomeFilters = {}): Promise<PricingOutcomeRow[]> {
+  const client = await pool.connect();
+  try {
+    const { startDate, endDate, quoteIds } = filters;
+
+    let whereClause = 'WHERE COALESCE(ph.job_won, q.job_won) IS NOT NULL';
+    const params: (string | number[])[] = [];
+    let paramIndex = 1;
+
+    if (startDate) {
+      whereClause += ` AND q.created_at >= $${paramIndex}`;
+      params.push(startDate);
+      paramIndex++;
+    }
+
+    if (endDate) {
+      whereClause += ` AND q.created_at <= $${paramIndex}`;
+      params.push(endDate);
+      paramIndex++;
+    }
+
+    if (quoteIds && quoteIds.length > 0) {
+      whereClause += ` AND q.quote_id = ANY($${paramIndex}::int[])`;
+      params.push(quoteIds);
+      paramIndex++;
+    }
+
+    const result = await client.query(
+      `SELECT
+        q.quote_id,
+        COALESCE(ph.job_won, q.job_won) AS job_won,
+        COALESCE(ph.actual_price_quoted, sent.quoted_price, q.initial_quote_amount) AS quoted_price,
+        COALESCE(r.ai_recommended_price, r.target_price, ph.suggested_price) AS recommended_price,
+        ph.origin_region,
+        ph.destination_region,
+        ph.normalized_service_type,
+        ph.cargo_category,
+        q.origin_city, q.origin_state_province, q.origin_country,
+        q.destination_city, q.destination_state_province, q.destination_country,
+        q.service_type,
+        q.cargo_description,
+        COALESCE(sent.received_date, q.created_at) AS quoted_at
+      FROM shipping_quotes q
+      LEFT JOIN pricing_history ph ON ph.quote_id = q.quote_id
+      LEFT JOIN ai_pricing_recommendations r ON r.quote_id = q.quote_id
+      LEFT JOIN LATERAL (
+        SELECT sqr.quoted_price, sr.received_date
+        FROM staff_quotes_replies sqr
+        INNER JOIN staff_replies sr ON sqr.staff_reply_id = sr.reply_id
+        WHERE sqr.related_quote_id = q.quote_id AND sqr.is_pricing_email = true
+          AND sqr.quoted_price IS NOT NULL
+        ORDER BY sr.received_date DESC
+        LIMIT 1
+      ) sent ON true
+      ${whereClause}
+      ORDER BY q.quote_id`,
+      params
+    );
+
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Lane Rate Card Functions
+// =====================================================
+
+type RateCardData = Partial<Omit<LaneRateCard, 'rate_card_id' | 'created_at' | 'updated_at'>>;
+
+interface RateCardFilters {
+  clientCompanyName?: string;
+  /** Only cards active and valid on this date (YYYY-MM-DD) */
+  activeOn?: string;
+}
+
+// Columns a caller may set; everything else is managed by the database
+const RATE_CARD_COLUMNS: (keyof RateCardData)[] = [
+  'name',
+  'client_company_name',
+  'origin_region',
+  'origin_city',
+  'origin_state_province',
+  'origin_country',
+  'destination_region',
+  'destination_city',
+  'destination_state_province',
+  'destination_country',
+  'service_type',
+  'equipment_type',
+  'rate_type',
+  'rate_amount',
+  'minimum_charge',
+  'currency',
+  'valid_from',
+  'valid_until',
+  'is_active',
+  'notes',
+  'created_by',
+];
+
+const RATE_CARD_FIELDS = `*,
+  TO_CHAR(valid_from, 'YYYY-MM-DD') AS valid_from_iso,
+  TO_CHAR(valid_until, 'YYYY-MM-DD') AS valid_until_iso`;
+
+/**
+ * Map a lane_rate_cards row to a LaneRateCard
+ */
+function mapRateCardRow(row): LaneRateCard {
+  const { valid_from_iso, valid_until_iso, ...card } = row;
+  return {
+    ...card,
+    rate_amount: parseFloat(row.rate_amount),
+    minimum_charge: row.minimum_charge !== null ? parseFloat(row.minimum_charge) : null,
+    valid_from: valid_from_iso,
+    valid_until: valid_until_iso,
+  };
+}
+
+/**
+ * Get rate cards, optionally for one customer (plus global cards) or valid on a date
+ */
+async function getRateCards(filters: RateCardFilters = {}): Promise<LaneRateCard[]> {
+  const client = await pool.connect();
+  try {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.clientCompanyName) {
+      params.push(filters.clientCompanyName);
+      conditions.push(
+        `(client_company_name IS NULL OR LOWER(client_company_name) = LOWER($${params.length}))`
+      );
+    }
+    if (filters.activeOn) {
+      params.push(filters.activeOn);
+      conditions.push(
+        `is_active = TRUE AND valid_from <= $${params.length}::date
+         AND (valid_until IS NULL OR valid_until >= $${params.length}::date)`
+      );
+    }
+
+    const result = await client.query(
+      `SELECT ${RATE_CARD_FIELDS}
+      FROM lane_rate_cards
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY client_company_name NULLS LAST, name, rate_card_id`,
+      params
+    );
+
+    return result.rows.map(mapRateCardRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a rate card by ID
+ */
+async function getRateCardById(rateCardId: number): Promise<LaneRateCard | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT ${RATE_CARD_FIELDS} FROM lane_rate_cards WHERE rate_card_id = $1`,
+      [rateCardId]
+    );
+    return result.rows.length > 0 ? mapRateCardRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Create a rate card
+ */
+async function createRateCard(data: RateCardData): Promise<LaneRateCard> {
+  const client = await pool.connect();
+  try {
+    const columns = RATE_CARD_COLUMNS.filter((column) => data[column] !== undefined);
+    const result = await client.query(
+      `INSERT INTO lane_rate_cards (${columns.join(', ')})
+      VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+      RETURNING ${RATE_CARD_FIELDS}`,
+      columns.map((column) => data[column])
+    );
+
+    return mapRateCardRow(result.rows[0]);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Update the given fields of a rate card
+ * Returns null if the rate card does not exist
+ */
+async function updateRateCard(rateCardId: number, data: RateCardData): Promise<LaneRateCard | null> {
+  const columns = RATE_CARD_COLUMNS.filter((column) => data[column] !== undefined);
+  if (columns.length === 0) {
+    return getRateCardById(rateCardId);
+  }
+
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE lane_rate_cards
+      SET ${columns.map((column, i) => `${column} = $${i + 2}`).join(', ')}, updated_at = NOW()
+      WHERE rate_card_id = $1
+      RETURNING ${RATE_CARD_FIELDS}`,
+      [rateCardId, ...columns.map((column) => data[column])]
+    );
+
+    return result.rows.length > 0 ? mapRateCardRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delete a rate card
+ */
+async function deleteRateCard(rateCardId: number): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query('DELETE FROM lane_rate_cards WHERE rate_card_id = $1', [
+      rateCardId,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Fuel Price Index Functions
+// =====================================================
+
+/**
+ * Insert or update weekly diesel prices
+ */
+async function upsertFuelIndexEntries(
+  entries: FuelIndexEntry[],
+  source: string | null = null
+): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    for (const entry of entries) {
+      await client.query(
+        `INSERT INTO fuel_price_index (week_of, diesel_price, source)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (week_of) DO UPDATE SET
+          diesel_price = EXCLUDED.diesel_price,
+          source = COALESCE(EXCLUDED.source, fuel_price_index.source),
+          updated_at = NOW()`,
+        [entry.weekOf, entry.dieselPrice, source]
+      );
+    }
+
+    await client.query('COMMIT');
+    return entries.length;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the weekly diesel index, oldest week first
+ */
+async function getFuelIndex(): Promise<FuelIndexEntry[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(`
+      SELECT TO_CHAR(week_of, 'YYYY-MM-DD') AS week_of, diesel_price
+      FROM fuel_price_index
+      ORDER BY week_of
+    `);
+
+    return result.rows.map((row) => ({
+      weekOf: row.week_of,
+      dieselPrice: parseFloat(row.diesel_price),
+    }));
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Geo Cache Functions
+// =====================================================
+
+/**
+ * Get a cached geocoding result and record the hit
+ */
+async function getCachedGeocode(locationKey: string): Promise<GeoLocation | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE geocode_cache
+      SET hit_count = hit_count + 1, last_used_at = NOW()
+      WHERE location_key = $1
+      RETURNING latitude, longitude, formatted_address, precision`,
+      [locationKey]
+    );
+
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      lat: parseFloat(row.latitude),
+      lng: parseFloat(row.longitude),
+      formattedAddress: row.formatted_address ?? undefined,
+      precision: row.precision ?? undefined,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store a geocoding result
+ */
+async function saveCachedGeocode(
+  locationKey: string,
+  location: GeoLocation,
+  provider: GeoProviderName
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO geocode_cache (location_key, latitude, longitude, formatted_address, precision, provider)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (location_key) DO UPDATE SET
+        latitude = EXCLUDED.latitude,
+        longitude = EXCLUDED.longitude,
+        formatted_address = EXCLUDED.formatted_address,
+        precision = EXCLUDED.precision,
+        provider = EXCLUDED.provider,
+        last_used_at = NOW()`,
+      [
+        locationKey,
+        location.lat,
+        location.lng,
+        location.formattedAddress ?? null,
+        location.precision ?? null,
+        provider,
+      ]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a cached driving distance between two coordinate keys and record the hit
+ */
+async function getCachedRouteDistance(
+  originKey: string,
+  destinationKey: string
+): Promise<CachedRouteDistance | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE route_distance_cache
+      SET hit_count = hit_count + 1, last_used_at = NOW()
+      WHERE origin_key = $1 AND destination_key = $2
+      RETURNING distance_miles, duration_minutes, straight_line_miles, provider`,
+      [originKey, destinationKey]
+    );
+
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      distanceMiles: parseFloat(row.distance_miles),
+      durationMinutes: row.duration_minutes,
+      straightLineMiles: row.straight_line_miles !== null ? parseFloat(row.straight_line_miles) : null,
+      provider: row.provider,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store a driving distance between two coordinate keys
+ */
+async function saveCachedRouteDistance(
+  originKey: string,
+  destinationKey: string,
+  route: CachedRouteDistance
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO route_distance_cache (
+        origin_key, destination_key, distance_miles, duration_minutes, straight_line_miles, provider
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (origin_key, destination_key) DO UPDATE SET
+        distance_miles = EXCLUDED.distance_miles,
+        duration_minutes = EXCLUDED.duration_minutes,
+        straight_line_miles = EXCLUDED.straight_line_miles,
+        provider = EXCLUDED.provider,
+        last_used_at = NOW()`,
+      [
+        originKey,
+        destinationKey,
+        route.distanceMiles,
+        route.durationMinutes,
+        route.straightLineMiles,
+        route.provider,
+      ]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Ratios of driving to straight-line distance from cached provider routes
+ * Short hops are excluded: their ratio is dominated by the local street grid
+ */
+async function getRouteDistanceRatios(
+  provider: GeoProviderName,
+  minStraightLineMiles: number
+): Promise<number[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT distance_miles / straight_line_miles AS ratio
+      FROM route_distance_cache
+      WHERE provider = $1 AND straight_line_miles >= $2
+      ORDER BY last_used_at DESC
+      LIMIT 5000`,
+      [provider, minStraightLineMiles]
+    );
+
+    return result.rows.map((row) => parseFloat(row.ratio));
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Quote Route Functions
+// =====================================================
+
+/**
+ * Store a quote's computed route; a null route records an unresolved attempt
+ */
+async function saveQuoteRoute(
+  quoteId: number,
+  route: RouteDistance | null,
+  source: DistanceSource | null
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    if (!route) {
+      await client.query(
+        `UPDATE shipping_quotes SET distance_calculated_at = NOW() WHERE quote_id = $1`,
+        [quoteId]
+      );
+      return;
+    }
+
+    await client.query(
+      `UPDATE shipping_quotes SET
+        total_distance_miles = $2,
+        estimated_duration_minutes = $3,
+        distance_source = $4,
+        origin_latitude = $5,
+        origin_longitude = $6,
+        destination_latitude = $7,
+        destination_longitude = $8,
+        distance_calculated_at = NOW()
+      WHERE quote_id = $1`,
+      [
+        quoteId,
+        route.distanceMiles,
+        route.durationMinutes,
+        source,
+        route.origin.lat,
+        route.origin.lng,
+        route.destination.lat,
+        route.destination.lng,
+      ]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Quotes whose distance has not been computed yet, newest first
+ */
+async function getQuotesMissingDistance(limit: number = 200, quoteIds?: number[]): Promise<Quote[]> {
+  const client = await pool.connect();
+  try {
+    const hasIds = quoteIds && quoteIds.length > 0;
+    const result = await client.query(
+      `SELECT
+        quote_id,
+        origin_full_address, origin_city, origin_state_province, origin_country, origin_postal_code,
+        destination_full_address, destination_city, destination_state_province, destination_country,
+        destination_postal_code
+      FROM shipping_quotes
+      WHERE ${hasIds ? 'quote_id = ANY($2::int[])' : 'distance_calculated_at IS NULL'}
+      ORDER BY created_at DESC
+      LIMIT $1`,
+      hasIds ? [limit, quoteIds] : [limit]
+    );
+
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Quote Correction Functions
+// =====================================================
+
+// Extracted quote columns a reviewer may correct
+const CORRECTABLE_QUOTE_COLUMNS = [
+  'origin_full_address',
+  'origin_city',
+  'origin_state_province',
+  'origin_country',
+  'origin_postal_code',
+  'destination_full_address',
+  'destination_city',
+  'destination_state_province',
+  'destination_country',
+  'destination_postal_code',
+  'cargo_length',
+  'cargo_width',
+  'cargo_height',
+  'dimension_unit',
+  'cargo_weight',
+  'weight_unit',
+  'number_of_pieces',
+  'cargo_description',
+  'hazardous_material',
+  'service_type',
+  'service_level',
+  'quote_status',
+  'initial_quote_amount',
+  'final_agreed_price',
+  'urgency_level',
+  'special_requirements',
+];
+
+interface ExtractionDatasetOptions {
+  limit?: number;
+  /** Only quotes corrected on or after this date */
+  since?: string | null;
+}
+
+/** A corrected quote with its email and every correction, oldest first */
+interface ExtractionDatasetRow extends Quote {
+  email_subject: string | null;
+  email_received_date: string | null;
+  email_body: string | null;
+  corrections: { field: string; oldValue: unknown; newValue: unknown }[];
+  last_corrected_at: string;
+}
+
+/**
+ * Map a quote_field_corrections row to a QuoteFieldCorrection
+ */
+function mapCorrectionRow(row): QuoteFieldCorrection {
+  return {
+    id: row.id,
+    quoteId: row.quote_id,
+    emailId: row.email_id,
+    field: row.field_name,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    oldConfidence: row.old_confidence !== null ? parseFloat(row.old_confidence) : null,
+    correctedBy: row.corrected_by,
+    reason: row.reason,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Write corrected fields to a quote and append one correction row per changed field
+ * Corrected fields lose their extraction confidence; returns null when the quote does not exist
+ */
+async function applyQuoteCorrections(
+  quoteId: number,
+  data: QuoteCorrectionData
+): Promise<QuoteFieldCorrection[] | null> {
+  const changes = data.changes.filter((change) =>
+    CORRECTABLE_QUOTE_COLUMNS.includes(change.field)
+  );
+  if (changes.length === 0) return [];
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const assignments = changes.map((change, i) => `${change.field} = $${i + 3}`);
+    const params: unknown[] = [
+      quoteId,
+      changes.map((change) => change.field),
+      ...changes.map((change) => change.newValue),
+    ];
+    if (data.terminalIds) {
+      params.push(data.terminalIds.origin, data.terminalIds.destination);
+      assignments.push(
+        `origin_terminal_id = $${params.length - 1}`,
+        `destination_terminal_id = $${params.length}`
+      );
+    }
+    if (data.clearRoute) {
+      assignments.push('total_distance_miles = NULL', 'distance_calculated_at = NULL');
+    }
+
+    const updated = await client.query(
+      `UPDATE shipping_quotes SET
+        ${assignments.join(',\n        ')},
+        field_confidence = field_confidence - $2::text[]
+      WHERE quote_id = $1
+      RETURNING quote_id`,
+      params
+    );
+    if (updated.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const corrections: QuoteFieldCorrection[] = [];
+    for (const change of changes) {
+      const result = await client.query(
+        `
+        INSERT INTO quote_field_corrections (
+          quote_id, email_id, field_name, old_value, new_value, old_confidence, corrected_by, reason
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *
+      `,
+        [
+          quoteId,
+          data.emailId,
+          change.field,
+          JSON.stringify(change.oldValue),
+          JSON.stringify(change.newValue),
+          change.oldConfidence,
+          data.correctedBy,
+          data.reason ?? null,
+        ]
+      );
+      corrections.push(mapCorrectionRow(result.rows[0]));
+    }
+
+    await client.query('COMMIT');
+    return corrections;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the correction log for a quote, oldest first
+ */
+async function getQuoteCorrections(quoteId: number): Promise<QuoteFieldCorrection[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM quote_field_corrections WHERE quote_id = $1 ORDER BY id ASC',
+      [quoteId]
+    );
+    return result.rows.map(mapCorrectionRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Corrected quotes with their source email and corrections, most recently corrected first
+ */
+async function getExtractionDataset(
+  options: ExtractionDatasetOptions = {}
+): Promise<ExtractionDatasetRow[]> {
+  const { limit = 500, since = null } = options;
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT
+         q.*,
+         e.email_subject,
+         e.email_received_date,
+         COALESCE(e.raw_email_body, e.email_body_preview) AS email_body,
+         c.corrections,
+         c.last_corrected_at
+       FROM (
+         SELECT
+           quote_id,
+           json_agg(
+             json_build_object('field', field_name, 'oldValue', old_value, 'newValue', new_value)
+             ORDER BY id
+           ) AS corrections,
+           MAX(created_at) AS last_corrected_at
+         FROM quote_field_corrections
+         GROUP BY quote_id
+         HAVING $2::timestamp IS NULL OR MAX(created_at) >= $2::timestamp
+       ) c
+       INNER JOIN shipping_quotes q ON q.quote_id = c.quote_id
+       INNER JOIN shipping_emails e ON e.email_id = q.email_id
+       ORDER BY c.last_corrected_at DESC
+       LIMIT $1`,
+      [limit, since]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// Prompt Version Functions
+// =====================================================
+
+/**
+ * Map a prompt_versions row to a PromptVersion
+ */
+function mapPromptVersionRow(row): PromptVersion {
+  return {
+    id: row.id,
+    task: row.task,
+    version: row.version,
+    template: row.template,
+    description: row.description,
+    trafficWeight: row.traffic_weight,
+    isActive: row.is_active,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+interface PromptVersionFilters {
+  task?: PromptVersionTask;
+  activeOnly?: boolean;
+}
+
+/**
+ * Get prompt versions, optionally for one task or only the active ones
+ */
+async function getPromptVersions(filters: PromptVersionFilters = {}): Promise<PromptVersion[]> {
+  const client = await pool.connect();
+  try {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.task) {
+      params.push(filters.task);
+      conditions.push(`task = $${params.length}`);
+    }
+    if (filters.activeOnly) {
+      conditions.push('is_active = TRUE');
+    }
+
+    const result = await client.query(
+      `SELECT * FROM prompt_versions
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY task, id`,
+      params
+    );
+    return result.rows.map(mapPromptVersionRow);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get a prompt version by ID
+ */
+async function getPromptVersionById(id: number): Promise<PromptVersion | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query('SELECT * FROM prompt_versions WHERE id = $1', [id]);
+    return result.rows.length > 0 ? mapPromptVersionRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Register a prompt version
+ */
+async function createPromptVersion(data: PromptVersionData): Promise<PromptVersion> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `INSERT INTO prompt_versions (task, version, template, description, traffic_weight, is_active, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        data.task,
+        data.version,
+        data.template,
+        data.description ?? null,
+        data.trafficWeight ?? 0,
+        data.isActive ?? true,
+        data.createdBy ?? null,
+      ]
+    );
+    return mapPromptVersionRow(result.rows[0]);
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Update the traffic weight, active flag or description of a prompt version
+ * Returns null if the version does not exist
+ */
+async function updatePromptVersion(id: number, data: PromptVersionUpdate): Promise<PromptVersion | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE prompt_versions
+      SET traffic_weight = COALESCE($2, traffic_weight),
+          is_active = COALESCE($3, is_active),
+          description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+          updated_at = NOW()
+      WHERE id = $1
+      RETURNING *`,
+      [
+        id,
+        data.trafficWeight ?? null,
+        data.isActive ?? null,
+        data.description !== undefined,
+        data.description ?? null,
+      ]
+    );
+    return result.rows.length > 0 ? mapPromptVersionRow(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+interface PromptVersionOutcomeFilters {
+  startDate?: string;
+  endDate?: string;
+}
+
+interface PromptVersionOutcomeRow {
+  quote_id: number;
+  prompt_version: string;
+  job_won: boolean | null;
+  reference_price: string | null;
+  recommended_price: string | null;
+  correction_count: number;
+}
+
+/**
+ * Get every quote extracted (or priced) with a recorded prompt version, with its outcome, the
+ * price it was agreed or quoted at, the AI recommendation and its number of field corrections
+ */
+async function getPromptVersionOutcomes(
+  task: PromptVersionTask,
+  filters: PromptVersionOutcomeFilters = {}
+): Promise<PromptVersionOutcomeRow[]> {
+  const client = await pool.connect();
+  try {
+    const versionColumn = task === 'extraction' ? 'q.extraction_prompt_version' : 'r.prompt_version';
+    const params: string[] = [];
+    let whereClause = `WHERE ${versionColumn} IS NOT NULL`;
+
+    if (filters.startDate) {
+      params.push(filters.startDate);
+      whereClause += ` AND q.created_at >= $${params.length}`;
+    }
+    if (filters.endDate) {
+      params.push(filters.endDate);
+      whereClause += ` AND q.created_at <= $${params.length}`;
+    }
+
+    const result = await client.query(
+      `SELECT
+        q.quote_id,
+        ${versionColumn} AS prompt_version,
+        COALESCE(ph.job_won, q.job_won) AS job_won,
+        COALESCE(q.final_agreed_price, ph.actual_price_quoted, sent.quoted_price, q.initial_quote_amount) AS reference_price,
+        r.ai_recommended_price AS recommended_price,
+        (SELECT COUNT(*)::int FROM quote_field_corrections c WHERE c.quote_id = q.quote_id) AS correction_count
+      FROM shipping_quotes q
+      LEFT JOIN pricing_history ph ON ph.quote_id = q.quote_id
+      LEFT JOIN ai_pricing_recommendations r ON r.quote_id = q.quote_id
+      LEFT JOIN LATERAL (
+        SELECT sqr.quoted_price
+        FROM staff_quotes_replies sqr
+        INNER JOIN staff_replies sr ON sqr.staff_reply_id = sr.reply_id
+        WHERE sqr.related_quote_id = q.quote_id AND sqr.is_pricing_email = true
+          AND sqr.quoted_price IS NOT NULL
+        ORDER BY sr.received_date DESC
+        LIMIT 1
+      ) sent ON true
+      ${whereClause}
+      ORDER BY q.quote_id`,
+      params
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// AI Usage Functions
+// =====================================================
+
+/**
+ * Record the tokens and cost of one AI provider call
+ */
+async function saveAIUsage(usage: AIUsageRecord): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO ai_usage (
+        provider, model, operation, job_id, email_id, quote_id,
+        input_tokens, output_tokens, input_price_per_mtok, output_price_per_mtok, cost_usd
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        usage.provider,
+        usage.model,
+        usage.operation,
+        usage.jobId,
+        usage.emailId,
+        usage.quoteId,
+        usage.inputTokens,
+        usage.outputTokens,
+        usage.price?.input ?? null,
+        usage.price?.output ?? null,
+        usage.costUsd,
+      ]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+interface AIUsageFilters {
+  startDate?: string;
+  endDate?: string;
+  provider?: string;
+}
+
+interface AIUsageSummaryRow {
+  date: string;
+  provider: string;
+  model: string;
+  operation: string;
+  calls: number;
+  input_tokens: string;
+  output_tokens: string;
+  cost_usd: string;
+}
+
+/**
+ * Get AI calls, tokens and cost per day, provider, model and operation
+ */
+async function getAIUsageSummary(filters: AIUsageFilters = {}): Promise<AIUsageSummaryRow[]> {
+  const client = await pool.connect();
+  try {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.startDate) {
+      params.push(filters.startDate);
+      conditions.push(`created_at >= $${params.length}`);
+    }
+    if (filters.endDate) {
+      params.push(filters.endDate);
+      conditions.push(`created_at <= $${params.length}`);
+    }
+    if (filters.provider) {
+      params.push(filters.provider);
+      conditions.push(`provider = $${params.length}`);
+    }
+
+    const result = await client.query(
+      `SELECT
+        TO_CHAR(created_at::date, 'YYYY-MM-DD') AS date,
+        provider,
+        model,
+        operation,
+        COUNT(*)::int AS calls,
+        SUM(input_tokens) AS input_tokens,
+        SUM(output_tokens) AS output_tokens,
+        SUM(cost_usd) AS cost_usd
+      FROM ai_usage
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      GROUP BY created_at::date, provider, model, operation
+      ORDER BY created_at::date, provider, model, operation`,
+      params
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the AI spend of the current calendar month in USD
+ */
+async function getAIMonthToDateCost(): Promise<number> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT COALESCE(SUM(cost_usd), 0) AS cost_usd
+      FROM ai_usage
+      WHERE created_at >= date_trunc('month', NOW())`
+    );
+    return parseFloat(result.rows[0].cost_usd);
+  } finally {
+    client.release();
+  }
+}
+
+// =====================================================
+// AI Response Cache Functions
+// =====================================================
+
+/**
+ * Get an unexpired cached AI response and record the hit, and the email that reused it
+ */
+async function getAIResponseCacheEntry(
+  cacheKey: string,
+  emailId: string | null = null
+): Promise<unknown | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE ai_response_cache
+      SET hit_count = hit_count + 1, last_used_at = NOW(),
+          email_ids = CASE
+            WHEN $2::text IS NULL OR $2::text = ANY(email_ids) THEN email_ids
+            ELSE array_append(email_ids, $2::text)
+          END
+      WHERE cache_key = $1 AND expires_at > NOW()
+      RETURNING response`,
+      [cacheKey, emailId]
+    );
+    return result.rows[0]?.response ?? null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store an AI response, replacing an expired entry with the same key
+ */
+async function saveAIResponseCacheEntry(entry: AICacheEntry, ttlHours: number): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO ai_response_cache (
+        cache_key, kind, provider, model, prompt_version, response, email_ids, quote_id, expires_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6,
+        CASE WHEN $7::text IS NULL THEN '{}'::text[] ELSE ARRAY[$7::text] END,
+        $8, NOW() + $9::numeric * INTERVAL '1 hour'
+      )
+      ON CONFLICT (cache_key) DO UPDATE SET
+        provider = EXCLUDED.provider,
+        response = EXCLUDED.response,
+        email_ids = EXCLUDED.email_ids,
+        quote_id = EXCLUDED.quote_id,
+        hit_count = 0,
+        created_at = NOW(),
+        last_used_at = NOW(),
+        expires_at = EXCLUDED.expires_at`,
+      [
+        entry.cacheKey,
+        entry.kind,
+        entry.provider,
+        entry.model,
+        entry.promptVersion,
+        JSON.stringify(entry.response),
+        entry.emailId ?? null,
+        entry.quoteId ?? null,
+        ttlHours,
+      ]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Count a cache lookup in today's hit/miss totals
+ */
+async function recordAIResponseCacheLookup(kind: AICacheKind, hit: boolean): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO ai_response_cache_stats (date, kind, hits, misses)
+      VALUES (CURRENT_DATE, $1, $2, $3)
+      ON CONFLICT (date, kind) DO UPDATE SET
+        hits = ai_response_cache_stats.hits + EXCLUDED.hits,
+        misses = ai_response_cache_stats.misses + EXCLUDED.misses`,
+      [kind, hit ? 1 : 0, hit ? 0 : 1]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+interface AIResponseCacheFilters {
+  cacheKey?: string;
+  kind?: AICacheKind;
+  provider?: string;
+  model?: string;
+  promptVersion?: string;
+  /** Entries produced for or reused by this email */
+  emailId?: string;
+  quoteId?: number;
+  /** Only entries past their expiry */
+  expiredOnly?: boolean;
+}
+
+/**
+ * Delete cached AI responses matching every given filter (all entries without filters)
+ * Returns the number of entries deleted
+ */
+async function deleteAIResponseCacheEntries(filters: AIResponseCacheFilters = {}): Promise<number> {
+  const client = await pool.connect();
+  try {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const columns: [keyof AIResponseCacheFilters, string][] = [
+      ['cacheKey', 'cache_key'],
+      ['kind', 'kind'],
+      ['provider', 'provider'],
+      ['model', 'model'],
+      ['promptVersion', 'prompt_version'],
+      ['quoteId', 'quote_id'],
+    ];
+
+    for (const [filter, column] of columns) {
+      const value = filters[filter];
+      if (value !== undefined && value !== null && typeof value !== 'boolean') {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+    if (filters.emailId) {
+      params.push(filters.emailId);
+      conditions.push(`$${params.length} = ANY(email_ids)`);
+    }
+    if (filters.expiredOnly) {
+      conditions.push('expires_at <= NOW()');
+    }
+
+    const result = await client.query(
+      `DELETE FROM ai_response_cache
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}`,
+      params
+    );
+    return result.rowCount ?? 0;
+  } finally {
+    client.release();
+  }
+}
+
+interface AIResponseCacheStatsRow {
+  date: string;
+  kind: AICacheKind;
+  hits: number;
+  misses: number;
+}
+
+interface AIResponseCacheSizeRow {
+  kind: AICacheKind;
+  entries: number;
+  active_entries: number;
+}
+
+/**
+ * Get cache hits and misses per day and kind, and the number of cached entries per kind
+ */
+async function getAIResponseCacheStats(
+  filters: { startDate?: string; endDate?: string } = {}
+): Promise<{ days: AIResponseCacheStatsRow[]; sizes: AIResponseCacheSizeRow[] }> {
+  const client = await pool.connect();
+  try {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.startDate) {
+      params.push(filters.startDate);
+      conditions.push(`date >= $${params.length}`);
+    }
+    if (filters.endDate) {
+      params.push(filters.endDate);
+      conditions.push(`date <= $${params.length}`);
+    }
+
+    const days = await client.query(
+      `SELECT TO_CHAR(date, 'YYYY-MM-DD') AS date, kind, hits, misses
+      FROM ai_response_cache_stats
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY date, kind`,
+      params
+    );
+    const sizes = await client.query(
+      `SELECT
+        kind,
+        COUNT(*)::int AS entries,
+        COUNT(*) FILTER (WHERE expires_at > NOW())::int AS active_entries
+      FROM ai_response_cache
+      GROUP BY kind
+      ORDER BY kind`
+    );
+    return { days: days.rows, sizes: sizes.rows };
+  } finally {
+    client.release();
+  }
+}
+
 export {
   pool,
   checkEmailExists,
@@ -2006,7 +4529,15 @@ export {
   saveJobToDatabase,
   getJobFromDatabase,
   updateJobInDatabase,
+  finishJobInDatabase,
   getJobStatistics,
+  claimNextJob,
+  heartbeatJob,
+  scheduleJobRetry,
+  reclaimOrphanedJobs,
+  releaseWorkerJobs,
+  requeueJob,
+  hasActiveJobOfType,
   getEmailsByJobId,
   getQuotesByEmailId,
   getEmailByMessageId,
@@ -2056,6 +4587,76 @@ export {
   getStaffQuoteRepliesByOriginalEmailId,
   getStaffQuoteRepliesByQuoteId,
   getQuoteIdsByEmailId,
+  // Job Schedules
+  upsertJobSchedule,
+  claimDueSchedule,
+  recordScheduleRun,
+  getJobSchedules,
+  // Microsoft Graph sync
+  getMailDeltaState,
+  saveMailDeltaLink,
+  saveGraphSubscription,
+  getGraphSubscription,
+  getGraphSubscriptions,
+  touchGraphSubscription,
+  deleteGraphSubscription,
+  // Quote response drafts
+  saveQuoteDraft,
+  getQuoteDrafts,
+  getQuoteDraft,
+  getCurrentQuoteDraft,
+  // Quote follow-ups
+  getFollowUpCandidates,
+  setQuoteFollowUpStatus,
+  clearQuoteFollowUpStatus,
+  // Quote lifecycle
+  applyQuoteTransition,
+  getQuoteStatusHistory,
+  getPricedRequestedQuotes,
+  getPendingStaffPricingEvents,
+  getPendingCustomerReplies,
+  getExpiredOpenQuotes,
+  // Win-rate analytics
+  getPricingOutcomes,
+  // Lane rate cards
+  getRateCards,
+  getRateCardById,
+  createRateCard,
+  updateRateCard,
+  deleteRateCard,
+  // Fuel price index
+  upsertFuelIndexEntries,
+  getFuelIndex,
+  // Geo cache
+  getCachedGeocode,
+  saveCachedGeocode,
+  getCachedRouteDistance,
+  saveCachedRouteDistance,
+  getRouteDistanceRatios,
+  // Quote routes
+  saveQuoteRoute,
+  getQuotesMissingDistance,
+  // Quote corrections
+  CORRECTABLE_QUOTE_COLUMNS,
+  applyQuoteCorrections,
+  getQuoteCorrections,
+  getExtractionDataset,
+  // Prompt versions
+  getPromptVersions,
+  getPromptVersionById,
+  createPromptVersion,
+  updatePromptVersion,
+  getPromptVersionOutcomes,
+  // AI usage
+  saveAIUsage,
+  getAIUsageSummary,
+  getAIMonthToDateCost,
+  // AI response cache
+  getAIResponseCacheEntry,
+  saveAIResponseCacheEntry,
+  recordAIResponseCacheLookup,
+  deleteAIResponseCacheEntries,
+  getAIResponseCacheStats,
 };
 
 export type {
@@ -2068,4 +4669,24 @@ export type {
   FeedbackFilters,
   HistoricalQuotesOptions,
   QuoteFeedbackData,
+  SaveQuoteDraftData,
+  FollowUpCandidateFilters,
+  QuoteTransitionData,
+  StaffPricingEvent,
+  CustomerReplyEvent,
+  ExpiredQuote,
+  PricingOutcomeFilters,
+  PricingOutcomeRow,
+  RateCardData,
+  RateCardFilters,
+  ExtractionDatasetOptions,
+  ExtractionDatasetRow,
+  PromptVersionFilters,
+  PromptVersionOutcomeFilters,
+  PromptVersionOutcomeRow,
+  AIUsageFilters,
+  AIUsageSummaryRow,
+  AIResponseCacheFilters,
+  AIResponseCacheStatsRow,
+  AIResponseCacheSizeRow,
 };
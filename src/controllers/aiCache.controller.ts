@@ -0,0 +1,76 @@
+/**
+ * AI Cache Controller
+ * Handles invalidation of cached AI extraction and pricing responses
+ */
+
+import type { Request, Response } from 'express';
+import aiCacheService from '../services/aiCacheService.js';
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import type { AICacheKind } from '../types/index.js';
+
+const CACHE_KINDS: AICacheKind[] = ['extraction', 'pricing'];
+
+interface InvalidateQuery {
+  kind?: string;
+  provider?: string;
+  model?: string;
+  promptVersion?: string;
+  emailId?: string;
+  quoteId?: string;
+  expired?: string;
+}
+
+/**
+ * Invalidate cached AI responses matching the query filters (every entry without filters)
+ * DELETE /api/ai-cache?kind=extraction&promptVersion=v2-terse
+ */
+export const invalidateAICache = asyncHandler(async (req: Request, res: Response) => {
+  const query = req.query as InvalidateQuery;
+
+  if (query.kind && !CACHE_KINDS.includes(query.kind as AICacheKind)) {
+    throw new ValidationError(`kind must be one of: ${CACHE_KINDS.join(', ')}`);
+  }
+  const quoteId = query.quoteId ? parseInt(query.quoteId) : undefined;
+  if (quoteId !== undefined && isNaN(quoteId)) {
+    throw new ValidationError('quoteId must be a valid integer');
+  }
+
+  const filters = {
+    kind: (query.kind as AICacheKind) || undefined,
+    provider: query.provider || undefined,
+    model: query.model || undefined,
+    promptVersion: query.promptVersion || undefined,
+    emailId: query.emailId || undefined,
+    quoteId,
+    expiredOnly: query.expired === 'true',
+  };
+  const deleted = await aiCacheService.invalidate(filters);
+
+  res.json({
+    success: true,
+    filters,
+    deleted,
+  });
+});
+
+/**
+ * Invalidate one cached AI response by its cache key
+ * DELETE /api/ai-cache/:key
+ */
+export const invalidateAICacheEntry = asyncHandler(async (req: Request, res: Response) => {
+  const cacheKey = req.params.key!;
+  if (!/^[0-9a-f]{64}$/.test(cacheKey)) {
+    throw new ValidationError('Cache key must be a 64-character SHA-256 hex digest');
+  }
+
+  const deleted = await aiCacheService.invalidate({ cacheKey });
+  if (deleted === 0) {
+    throw new NotFoundError(`Cache entry with key: ${cacheKey}`);
+  }
+
+  res.json({
+    success: true,
+    message: 'Cache entry invalidated',
+    cacheKey,
+  });
+});
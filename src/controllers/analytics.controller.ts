@@ -0,0 +1,185 @@
+/**
+ * Analytics Controller
+ * Handles win-rate, price elasticity, prompt experiment, AI cost and AI cache analytics
+ */
+
+import type { Request, Response } from 'express';
+import winRateAnalyticsService from '../services/winRateAnalyticsService.js';
+import promptRegistryService, { PROMPT_VERSION_TASKS } from '../services/promptRegistryService.js';
+import aiUsageService from '../services/aiUsageService.js';
+import aiCacheService from '../services/aiCacheService.js';
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import type { PromptVersionTask, WinRateDimension } from '../types/index.js';
+
+const WIN_RATE_DIMENSIONS: WinRateDimension[] = [
+  'lane',
+  'service_type',
+  'cargo_category',
+  'price_delta',
+];
+
+interface DateRangeQuery {
+  startDate?: string;
+  endDate?: string;
+}
+
+interface PromptVersionQuery extends DateRangeQuery {
+  task?: string;
+}
+
+interface AICostQuery extends DateRangeQuery {
+  provider?: string;
+}
+
+interface ProbabilityQuery {
+  quoteId?: string;
+  price?: string;
+}
+
+/**
+ * Validate optional ISO date range query params
+ */
+function parseDateRange(query: DateRangeQuery): DateRangeQuery {
+  const { startDate, endDate } = query;
+  for (const [name, value] of Object.entries({ startDate, endDate })) {
+    if (value && isNaN(new Date(value).getTime())) {
+      throw new ValidationError(`${name} must be a valid date`);
+    }
+  }
+  return { startDate, endDate };
+}
+
+/**
+ * Overall win rate with breakdowns by lane, service type, cargo category and price delta
+ * GET /api/analytics/win-rate
+ */
+export const getWinRate = asyncHandler(async (req: Request, res: Response) => {
+  const filters = parseDateRange(req.query as DateRangeQuery);
+  const summary = await winRateAnalyticsService.getSummary(filters);
+
+  res.json({
+    success: true,
+    filters,
+    ...summary,
+  });
+});
+
+/**
+ * Win probability of a price for a quote, from its segment's curve
+ * GET /api/analytics/win-rate/probability?quoteId=123&price=2500
+ */
+export const getWinProbability = asyncHandler(async (req: Request, res: Response) => {
+  const { quoteId, price } = req.query as ProbabilityQuery;
+  const quoteIdInt = parseInt(quoteId || '');
+  const priceNum = parseFloat(price || '');
+
+  if (isNaN(quoteIdInt)) {
+    throw new ValidationError('quoteId must be a valid integer');
+  }
+  if (isNaN(priceNum) || priceNum <= 0) {
+    throw new ValidationError('price must be a positive number');
+  }
+
+  const estimate = await winRateAnalyticsService.estimateWinProbability(quoteIdInt, priceNum);
+  if (!estimate) {
+    throw new NotFoundError(
+      `Win probability for quote ${quoteIdInt} (needs an AI pricing recommendation and enough outcomes)`
+    );
+  }
+
+  res.json({
+    success: true,
+    estimate,
+  });
+});
+
+/**
+ * Win rate and win-probability curves per segment of one dimension
+ * GET /api/analytics/win-rate/:dimension
+ */
+export const getWinRateByDimension = asyncHandler(async (req: Request, res: Response) => {
+  const dimension = req.params.dimension as WinRateDimension;
+  if (!WIN_RATE_DIMENSIONS.includes(dimension)) {
+    throw new ValidationError(`dimension must be one of: ${WIN_RATE_DIMENSIONS.join(', ')}`);
+  }
+
+  const filters = parseDateRange(req.query as DateRangeQuery);
+  const records = await winRateAnalyticsService.getOutcomes(filters);
+
+  res.json({
+    success: true,
+    dimension,
+    filters,
+    totalQuotes: records.length,
+    segments: winRateAnalyticsService.breakdown(records, dimension),
+    // Price-delta buckets are slices of the curve's own axis, so they get no curve of their own
+    curves: dimension === 'price_delta' ? [] : winRateAnalyticsService.curves(records, dimension),
+  });
+});
+
+/**
+ * Acceptance rate, price error and correction rate per prompt version of a task
+ * GET /api/analytics/prompt-versions?task=pricing
+ */
+export const getPromptVersionComparison = asyncHandler(async (req: Request, res: Response) => {
+  const query = req.query as PromptVersionQuery;
+  const task = (query.task || 'pricing') as PromptVersionTask;
+  if (!PROMPT_VERSION_TASKS.includes(task)) {
+    throw new ValidationError(`task must be one of: ${PROMPT_VERSION_TASKS.join(', ')}`);
+  }
+
+  const filters = parseDateRange(query);
+  const comparison = await promptRegistryService.compare(task, filters);
+
+  res.json({
+    success: true,
+    filters,
+    ...comparison,
+  });
+});
+
+/**
+ * AI token usage and daily spend per provider, with the monthly budget status
+ * GET /api/analytics/ai-costs?startDate=2024-06-01&provider=gemini
+ */
+export const getAICosts = asyncHandler(async (req: Request, res: Response) => {
+  const query = req.query as AICostQuery;
+  const { startDate, endDate } = parseDateRange(query);
+  const filters = {
+    // Defaults to the last 30 days
+    startDate:
+      startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+    endDate,
+    provider: query.provider || undefined,
+  };
+
+  const report = await aiUsageService.getCostReport(filters);
+
+  res.json({
+    success: true,
+    filters,
+    ...report,
+  });
+});
+
+/**
+ * AI response cache hit rate per day and kind, with the number of cached entries
+ * GET /api/analytics/ai-cache?startDate=2024-06-01
+ */
+export const getAICacheStats = asyncHandler(async (req: Request, res: Response) => {
+  const { startDate, endDate } = parseDateRange(req.query as DateRangeQuery);
+  const filters = {
+    // Defaults to the last 30 days
+    startDate:
+      startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+    endDate,
+  };
+
+  const stats = await aiCacheService.getStats(filters);
+
+  res.json({
+    success: true,
+    filters,
+    ...stats,
+  });
+});
@@ -7,9 +7,9 @@ import type { Request, Response } from 'express';
 import * as emailExtractor from '../services/mail/emailExtractor.js';
 import * as microsoftGraphService from '../services/mail/microsoftGraphService.js';
 import claudeService from '../services/ai/claudeService.js';
-import jobProcessor from '../services/jobProcessor.js';
+import jobProcessor, { type JobHandlerResult } from '../services/jobProcessor.js';
+import { buildNewEmailsJobData } from '../services/jobScheduler.js';
 import {
-  getLatestLastReceivedDateTime,
   getConversationIds,
   saveStaffRepliesBulk,
   getOriginalEmailIdByConversation,
@@ -22,9 +22,11 @@ import {
   getStaffQuoteRepliesByQuoteId,
 } from '../config/db.js';
 import { getAIService } from '../services/ai/aiServiceFactory.js';
+import { MAIL_SOURCES } from '../services/mail/mailSourceFactory.js';
 import attachmentProcessor from '../services/attachmentProcessor.js';
+import aiUsageService from '../services/aiUsageService.js';
 import { asyncHandler, ValidationError } from '../middleware/errorHandler.js';
-import type { Email, JobData, StaffReply } from '../types/index.js';
+import type { Email, Job, JobData, MailSourceName, StaffReply } from '../types/index.js';
 
 interface ProcessEmailsBody {
   searchQuery?: string;
@@ -33,6 +35,7 @@ interface ProcessEmailsBody {
   scoreThreshold?: number;
   previewMode?: boolean;
   async?: boolean;
+  source?: MailSourceName;
 }
 
 interface CreateJobOptions {
@@ -40,6 +43,19 @@ interface CreateJobOptions {
   additionalData?: Record<string, unknown>;
 }
 
+/**
+ * Validate an optional mail source name from a request body
+ */
+export const validateMailSource = (source: unknown): MailSourceName | undefined => {
+  if (source === undefined || source === null) return undefined;
+
+  const valid = Object.values(MAIL_SOURCES) as string[];
+  if (typeof source !== 'string' || !valid.includes(source)) {
+    throw new ValidationError(`source must be one of: ${valid.join(', ')}`);
+  }
+  return source as MailSourceName;
+};
+
 /**
  * Helper function to create and start an email processing job
  */
@@ -81,6 +97,7 @@ export const processEmails = asyncHandler(async (req: Request, res: Response): P
     scoreThreshold = 30,
     previewMode = false,
     async = true, // Default to async processing
+    source,
   } = req.body as ProcessEmailsBody;
 
   const jobData: JobData = {
@@ -89,6 +106,7 @@ export const processEmails = asyncHandler(async (req: Request, res: Response): P
     startDate,
     scoreThreshold,
     previewMode,
+    mailSource: validateMailSource(source),
   };
 
   // If async processing is enabled (default)
@@ -110,25 +128,15 @@ export const processEmails = asyncHandler(async (req: Request, res: Response): P
  * Automatically uses the lastReceivedDateTime from the most recent completed job
  */
 export const processNewEmails = asyncHandler(async (req: Request, res: Response) => {
-  // Get the latest lastReceivedDateTime from completed jobs
-  const startDate = await getLatestLastReceivedDateTime();
-
   // Build job data with incremental processing parameters
-  const jobData: JobData = {
-    maxEmails: 500,
-    startDate: startDate ?? new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-    scoreThreshold: 30,
-    previewMode: false,
-  };
+  const jobData = await buildNewEmailsJobData();
 
   return await createEmailProcessingJob(jobData, req, res, {
     message: 'Job accepted for processing new entries',
     additionalData: {
       incrementalProcessing: {
-        startDate: startDate,
-        description: startDate
-          ? `Processing emails received after ${startDate}`
-          : 'Processing all emails (no previous job found)',
+        startDate: jobData.startDate,
+        description: `Processing emails received after ${jobData.startDate}`,
       },
     },
   });
@@ -143,6 +151,7 @@ export const previewEmails = asyncHandler(async (req: Request, res: Response) =>
     maxEmails = 50,
     startDate = null,
     scoreThreshold = 30,
+    source,
   } = req.body as ProcessEmailsBody;
 
   const preview = await emailExtractor.previewEmails({
@@ -150,6 +159,7 @@ export const previewEmails = asyncHandler(async (req: Request, res: Response) =>
     maxEmails,
     startDate,
     scoreThreshold,
+    mailSource: validateMailSource(source),
   });
 
   res.json({
@@ -388,7 +398,7 @@ export const processStaffQuotes = asyncHandler(async (req: Request, res: Respons
         // Fetch the full email with body
         const token = await microsoftGraphService.default.getAccessToken();
         const response = await fetch(
-          `https://graph.microsoft.com/v1.0/users/${process.env.MS_USER_EMAIL}/messages/${staffReply.email_message_id}?$select=body`,
+          `${microsoftGraphService.getMailboxUrl()}/messages/${staffReply.email_message_id}?$select=body`,
           {
             headers: { Authorization: `Bearer ${token}` },
           }
@@ -428,7 +438,9 @@ export const processStaffQuotes = asyncHandler(async (req: Request, res: Respons
       }
 
       // Step 3: Use AI to analyze email for pricing
-      const pricingResult = await aiService.parsePricingReply(emailBody, attachmentText);
+      const pricingResult = await aiUsageService.run({ emailId: staffReply.email_message_id }, () =>
+        aiService.parsePricingReply(emailBody, attachmentText)
+      );
 
       if (!pricingResult) {
         console.log(`  Failed to parse with AI`);
@@ -711,7 +723,7 @@ export async function processStaffQuotesInternal(
         // Fetch the full email with body
         const token = await microsoftGraphService.default.getAccessToken();
         const response = await fetch(
-          `https://graph.microsoft.com/v1.0/users/${process.env.MS_USER_EMAIL}/messages/${staffReply.email_message_id}?$select=body`,
+          `${microsoftGraphService.getMailboxUrl()}/messages/${staffReply.email_message_id}?$select=body`,
           {
             headers: { Authorization: `Bearer ${token}` },
           }
@@ -751,7 +763,9 @@ export async function processStaffQuotesInternal(
       }
 
       // Step 3: Use AI to analyze email for pricing
-      const pricingResult = await aiService.parsePricingReply(emailBody, attachmentText);
+      const pricingResult = await aiUsageService.run({ emailId: staffReply.email_message_id }, () =>
+        aiService.parsePricingReply(emailBody, attachmentText)
+      );
 
       if (!pricingResult) {
         console.log(`  Failed to parse with AI`);
@@ -822,3 +836,25 @@ export async function processStaffQuotesInternal(
 
   return results;
 }
+
+/**
+ * Job handler for queued staff reply extraction jobs
+ */
+async function processStaffReplyExtractionJob(job: Job): Promise<JobHandlerResult> {
+  const staffReplies = await extractRepliesInternal({ startDate: job.data.startDate });
+  const staffQuotes = await processStaffQuotesInternal({});
+
+  return {
+    result: {
+      staffReplies,
+      staffQuotes,
+    },
+    progress: {
+      current: staffReplies.repliesFetched,
+      total: staffReplies.repliesFetched,
+      percentage: 100,
+    },
+  };
+}
+
+jobProcessor.registerHandler('staff_reply_extraction', processStaffReplyExtractionJob, { usesAI: true });
@@ -0,0 +1,53 @@
+/**
+ * Fuel Index Controller
+ * Handles the weekly diesel index used to fuel-adjust historical prices
+ */
+
+import type { Request, Response } from 'express';
+import fuelIndexService from '../services/fuelIndexService.js';
+import { asyncHandler, ValidationError } from '../middleware/errorHandler.js';
+
+interface ImportFuelIndexBody {
+  csv?: string;
+  source?: string;
+}
+
+/**
+ * Weekly diesel index with the current (latest) week
+ * GET /api/fuel-index
+ */
+export const getFuelIndex = asyncHandler(async (_req: Request, res: Response) => {
+  const weeks = await fuelIndexService.getIndex();
+
+  res.json({
+    success: true,
+    count: weeks.length,
+    current: weeks[weeks.length - 1] ?? null,
+    weeks,
+  });
+});
+
+/**
+ * Load weekly diesel averages from CSV text (week, price per gallon)
+ * POST /api/fuel-index/import
+ */
+export const importFuelIndex = asyncHandler(async (req: Request, res: Response) => {
+  const { csv, source } = req.body as ImportFuelIndexBody;
+
+  if (!csv || typeof csv !== 'string' || !csv.trim()) {
+    throw new ValidationError('csv is required (CSV text with week and diesel price columns)');
+  }
+
+  const result = await fuelIndexService.importCsv(csv, source || null);
+  if (result.imported === 0) {
+    const firstError = result.errors[0]
+      ? ` (line ${result.errors[0].line}: ${result.errors[0].error})`
+      : '';
+    throw new ValidationError(`No valid weekly diesel prices found in csv${firstError}`);
+  }
+
+  res.json({
+    success: true,
+    ...result,
+  });
+});
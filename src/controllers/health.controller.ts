@@ -8,6 +8,8 @@ import * as db from '../config/db.js';
 import microsoftGraphService from '../services/mail/microsoftGraphService.js';
 import claudeService from '../services/ai/claudeService.js';
 import geminiService from '../services/ai/geminiService.js';
+import { getProviderInfo } from '../services/ai/aiServiceFactory.js';
+import { getCircuitStatuses } from '../services/ai/compositeAIService.js';
 import emailExtractorService from '../services/mail/emailExtractor.js';
 import { asyncHandler, ExternalServiceError, DatabaseError } from '../middleware/errorHandler.js';
 
@@ -43,6 +45,19 @@ export const getStats = asyncHandler(async (_req: Request, res: Response) => {
   });
 });
 
+/**
+ * Configured AI providers, the fallback chain and each provider's circuit breaker state
+ */
+export const getAIProviderStatus = asyncHandler(async (_req: Request, res: Response) => {
+  const providerInfo = getProviderInfo();
+
+  res.json({
+    success: true,
+    ...providerInfo,
+    circuits: getCircuitStatuses(),
+  });
+});
+
 /**
  * Test Microsoft Graph connection
  */
@@ -5,14 +5,17 @@
 
 import type { Request, Response } from 'express';
 import jobProcessor from '../services/jobProcessor.js';
+import jobScheduler from '../services/jobScheduler.js';
 import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
-import type { JobStatus
- } from '../types/index.js';
+import type { JobStatus, JobType } from '../types/index.js';
 
 interface JobStatusResponse {
   success: boolean;
   jobId: string;
+  type?: JobType;
   status: JobStatus;
+  attempts?: number;
+  maxAttempts?: number;
   createdAt: string;
   updatedAt: string;
   progress: {
@@ -59,7 +62,10 @@ export const getJobStatus = asyncHandler(async (req: Request, res: Response) =>
   const response: JobStatusResponse = {
     success: true,
     jobId: job.id,
+    type: job.type,
     status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
     createdAt: job.createdAt,
     updatedAt: job.updatedAt,
     progress: job.progress,
@@ -93,6 +99,12 @@ export const getJobStatus = asyncHandler(async (req: Request, res: Response) =>
     response.message = 'Job is currently being processed. Check back in a few seconds.';
   }
 
+  // Pending jobs with a previous error are waiting for a retry
+  if (job.status === 'pending' && job.error) {
+    response.error = job.error;
+    response.message = `Attempt ${job.attempts} failed, retry scheduled for ${job.runAt}`;
+  }
+
   res.json(response);
 });
 
@@ -109,6 +121,7 @@ export const getAllJobs = asyncHandler(async (req: Request, res: Response) => {
   }
 
   let jobs = await jobProcessor.getAllJobs(filters);
+  const schedules = await jobScheduler.getSchedules().catch(() => []);
 
   // Sort by creation date (newest first)
   jobs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
@@ -126,13 +139,39 @@ export const getAllJobs = asyncHandler(async (req: Request, res: Response) => {
     offset: offsetNum,
     jobs: jobs.map((job) => ({
       jobId: job.id,
+      type: job.type,
       status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      runAt: job.runAt,
       createdAt: job.createdAt,
       updatedAt: job.updatedAt,
       startedAt: job.startedAt,
       completedAt: job.completedAt,
       progress: job.progress,
     })),
+    schedules: schedules.map((schedule) => ({
+      name: schedule.name,
+      jobType: schedule.jobType,
+      cronExpression: schedule.cronExpression,
+      lastRunAt: schedule.lastRunAt,
+      nextRunAt: schedule.nextRunAt,
+    })),
+  });
+});
+
+/**
+ * Get recurring job schedules with last and next run times
+ * GET /api/jobs/schedules
+ */
+export const getJobSchedules = asyncHandler(async (_req: Request, res: Response) => {
+  const schedules = await jobScheduler.getSchedules();
+
+  res.json({
+    success: true,
+    schedulerRunning: jobScheduler.isRunning(),
+    total: schedules.length,
+    schedules,
   });
 });
 
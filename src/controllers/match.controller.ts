@@ -24,15 +24,19 @@ import {
   suggestPriceWithFeedback,
 } from '../services/enhancedQuoteMatchingService.js';
 import { calculateQuoteDistance } from '../services/googleMapsService.js';
+import fuelIndexService from '../services/fuelIndexService.js';
+import currencyService from '../services/currencyService.js';
 import emailExtractorService from '../services/mail/emailExtractor.js';
-import jobProcessor from '../services/jobProcessor.js';
+import jobProcessor, { type JobHandlerResult } from '../services/jobProcessor.js';
 import { getLatestLastReceivedDateTime } from '../config/db.js';
 import type {
   FeedbackReason,
+  Job,
   MatchCriteria,
   Quote,
   MatchResult,
   MatchingOptions,
+  MailSourceName,
   LearningResult,
 } from '../types/index.js';
 import * as emailController from './email.controller.js';
@@ -93,6 +97,7 @@ interface ExtractAndMatchBody {
   maxMatches?: number;
   useAI?: boolean;
   async?: boolean;
+  source?: MailSourceName;
 }
 
 interface RunMatchingBody {
@@ -115,6 +120,7 @@ interface AnalyzeQuoteBody {
   weight_unit?: string;
   number_of_pieces?: number;
   hazardous_material?: boolean;
+  currency?: string;
 }
 
 interface PricingOutcomeBody {
@@ -436,7 +442,7 @@ export const getMatchCriteriaPerformance = asyncHandler(async (req: Request, res
 /**
  * Extract quotes from emails and run matching (async job)
  * POST /api/matches/extract-and-match
- * Body: { searchQuery?, maxEmails?, startDate?, scoreThreshold?, minScore?, maxMatches?, useAI?, async? }
+ * Body: { searchQuery?, maxEmails?, startDate?, scoreThreshold?, minScore?, maxMatches?, useAI?, source?, async? }
  */
 export const extractAndMatch = asyncHandler(async (req: Request, res: Response) => {
   const body = req.body as ExtractAndMatchBody;
@@ -456,12 +462,14 @@ export const extractAndMatch = asyncHandler(async (req: Request, res: Response)
   } = body;
 
   const startDate = body.startDate ?? lastProcessDate;
+  const mailSource = emailController.validateMailSource(body.source);
 
   const jobData = {
     searchQuery,
     maxEmails,
     startDate,
     scoreThreshold,
+    mailSource,
     matchingOptions: {
       minScore,
       maxMatches,
@@ -470,11 +478,8 @@ export const extractAndMatch = asyncHandler(async (req: Request, res: Response)
   };
 
   if (isAsync) {
-    const jobId = await jobProcessor.createJob(jobData);
-
-    processExtractAndMatchJob(jobId, jobData).catch((err) => {
-      console.error(`Unhandled error in extract-and-match job ${jobId}:`, err);
-    });
+    const jobId = await jobProcessor.createJob(jobData, { type: 'extract_and_match' });
+    jobProcessor.startJob(jobId);
 
     const statusUrl = `${req.protocol}://${req.get('host')}/api/jobs/${jobId}`;
 
@@ -494,6 +499,7 @@ export const extractAndMatch = asyncHandler(async (req: Request, res: Response)
       maxEmails,
       startDate,
       scoreThreshold,
+      mailSource,
     });
 
     // Extract staff replies and process staff quotes
@@ -590,7 +596,8 @@ export const runMatchingForQuotes = asyncHandler(async (req: Request, res: Respo
 /**
  * Analyze a quote request (for debugging/testing matching)
  * POST /api/matches/analyze
- * Body: { origin_city, destination_city, service_type, cargo_description, cargo_weight, ... }
+ * Body: { origin_city, destination_city, service_type, cargo_description, cargo_weight, ..., currency }
+ * Prices are returned in `currency` (defaults to the FX base currency)
  */
 export const analyzeQuoteRequest = asyncHandler(async (req: Request, res: Response) => {
   const {
@@ -606,8 +613,18 @@ export const analyzeQuoteRequest = asyncHandler(async (req: Request, res: Respon
     weight_unit = 'lbs',
     number_of_pieces = 1,
     hazardous_material = false,
+    currency: requestedCurrency,
   } = req.body as AnalyzeQuoteBody;
 
+  const currency = requestedCurrency
+    ? currencyService.normalizeCode(requestedCurrency)
+    : currencyService.baseCurrency;
+  if (!currency || !currencyService.isSupported(currency)) {
+    throw new ValidationError(
+      `Unsupported currency "${requestedCurrency}". Supported: ${currencyService.getSupportedCurrencies().join(', ')}`
+    );
+  }
+
   // Check if service type is ignored
   if (service_type && await isServiceIgnored(service_type)) {
     return res.json({
@@ -646,6 +663,7 @@ export const analyzeQuoteRequest = asyncHandler(async (req: Request, res: Respon
     // Get feedback data for historical quotes
     const historicalQuoteIds = historicalQuotes.map(q => q.quote_id!).filter(id => id != null);
     const feedbackData = await getFeedbackForHistoricalQuotes(historicalQuoteIds);
+    const fuelIndex = await fuelIndexService.getIndex();
 
     // Calculate route distance for the virtual quote
     const routeDistance = await calculateQuoteDistance(virtualQuote);
@@ -656,6 +674,8 @@ export const analyzeQuoteRequest = asyncHandler(async (req: Request, res: Respon
       minScore: 0.3,
       maxMatches: 10,
       feedbackData,
+      fuelIndex,
+      currency,
     }, sourceDistanceMiles);
 
     // Generate pricing prompt with route distance for AI context
@@ -671,6 +691,7 @@ export const analyzeQuoteRequest = asyncHandler(async (req: Request, res: Respon
         estimatedTransit: routeDistance?.durationText ?? null,
       },
       matchCount: matches.length,
+      currency,
       topMatches: matches.slice(0, 5).map((m) => ({
         matchedQuoteId: m.matched_quote_id,
         similarityScore: m.similarity_score,
@@ -679,6 +700,8 @@ export const analyzeQuoteRequest = asyncHandler(async (req: Request, res: Respon
         confidence: m.price_confidence,
         matchCriteria: m.match_criteria,
         matchedQuoteData: m.matchedQuoteData,
+        fuelAdjustment: m.fuelAdjustment,
+        currencyConversion: m.currencyConversion,
         feedbackBoost: m.feedbackBoost,
         hasFeedback: m.feedbackData ? m.feedbackData.total_feedback_count > 0 : false,
       })),
@@ -690,134 +713,105 @@ export const analyzeQuoteRequest = asyncHandler(async (req: Request, res: Respon
 });
 
 /**
- * Helper function to process extract-and-match job asynchronously
+ * Job handler for queued extract-and-match jobs
  */
-async function processExtractAndMatchJob(
-  jobId: string,
-  jobData: {
-    searchQuery?: string;
-    maxEmails?: number;
-    startDate?: string | null;
-    scoreThreshold?: number;
-    matchingOptions?: MatchingOptions;
-  }
-): Promise<void> {
-  try {
-    await jobProcessor.updateJob(jobId, {
-      status: 'processing',
-      startedAt: new Date().toISOString(),
-    });
+async function processExtractAndMatchJob(job: Job): Promise<JobHandlerResult> {
+  const jobData = job.data;
+  console.log(`\nStarting extract-and-match job ${job.id}...`);
+
+  const extractionResults = await emailExtractorService.processEmails({
+    searchQuery: jobData.searchQuery,
+    maxEmails: jobData.maxEmails,
+    startDate: jobData.startDate,
+    scoreThreshold: jobData.scoreThreshold,
+    mailSource: jobData.mailSource,
+  });
+
+  // Extract staff replies and process staff quotes
+  const extractRepliesResult = await emailController.extractRepliesInternal({
+    startDate: jobData.startDate,
+  });
+  const processStaffQuotesResult = await emailController.processStaffQuotesInternal({});
+
+  let matchingResults: MatchResult = {
+    processed: 0,
+    matchesCreated: 0,
+    errors: [],
+    matchDetails: [],
+  };
 
-    console.log(`\nStarting extract-and-match job ${jobId}...`);
+  if (extractionResults.newQuoteIds && extractionResults.newQuoteIds.length > 0) {
+    const { minScore = 0.45, maxMatches = 10, useAI = true } = jobData.matchingOptions || {};
 
-    const extractionResults = await emailExtractorService.processEmails({
-      searchQuery: jobData.searchQuery,
-      maxEmails: jobData.maxEmails,
-      startDate: jobData.startDate,
-      scoreThreshold: jobData.scoreThreshold,
-    });
-
-    // Extract staff replies and process staff quotes
-    const extractRepliesResult = await emailController.extractRepliesInternal({
-      startDate: jobData.startDate,
+    matchingResults = await processEnhancedMatches(extractionResults.newQuoteIds, {
+      minScore,
+      maxMatches,
+      useAI,
     });
-    const processStaffQuotesResult = await emailController.processStaffQuotesInternal({});
-
-    let matchingResults: MatchResult = {
-      processed: 0,
-      matchesCreated: 0,
-      errors: [],
-      matchDetails: [],
-    };
-
-    if (extractionResults.newQuoteIds && extractionResults.newQuoteIds.length > 0) {
-      const { minScore = 0.45, maxMatches = 10, useAI = true } = jobData.matchingOptions || {};
-
-      matchingResults = await processEnhancedMatches(extractionResults.newQuoteIds, {
-        minScore,
-        maxMatches,
-        useAI,
-      });
 
-      if (matchingResults.matchDetails && matchingResults.matchDetails.length > 0) {
-        for (const detail of matchingResults.matchDetails) {
-          try {
-            await recordPricingOutcome(detail.quoteId, {
-              suggestedPrice: detail.suggestedPrice ?? undefined,
-              priceConfidence: detail.aiPricing?.confidence_percentage
-                ? detail.aiPricing.confidence_percentage / 100
-                : detail.priceRange
-                  ? 0.7
-                  : 0.5,
-              matchCount: detail.matchCount,
-              topMatchScore: detail.bestScore,
-            });
-          } catch (err) {
-            console.log(
-              `  Note: Could not record pricing outcome for quote ${detail.quoteId}: ${(err as Error).message}`
-            );
-          }
+    if (matchingResults.matchDetails && matchingResults.matchDetails.length > 0) {
+      for (const detail of matchingResults.matchDetails) {
+        try {
+          await recordPricingOutcome(detail.quoteId, {
+            suggestedPrice: detail.suggestedPrice ?? undefined,
+            priceConfidence: detail.aiPricing?.confidence_percentage
+              ? detail.aiPricing.confidence_percentage / 100
+              : detail.priceRange
+                ? 0.7
+                : 0.5,
+            matchCount: detail.matchCount,
+            topMatchScore: detail.bestScore,
+          });
+        } catch (err) {
+          console.log(
+            `  Note: Could not record pricing outcome for quote ${detail.quoteId}: ${(err as Error).message}`
+          );
         }
       }
     }
+  }
 
-    // Periodically trigger learning from feedback
-    const shouldLearn =
-      extractionResults.newQuoteIds &&
-      extractionResults.newQuoteIds.length > 0 &&
-      Math.random() < 0.1;
-
-    let learningResults: LearningResult | null = null;
-    if (shouldLearn) {
-      try {
-        learningResults = await learnFromFeedback();
-      } catch (err) {
-        console.log(`  Note: Feedback learning skipped: ${(err as Error).message}`);
-      }
+  // Periodically trigger learning from feedback
+  const shouldLearn =
+    extractionResults.newQuoteIds &&
+    extractionResults.newQuoteIds.length > 0 &&
+    Math.random() < 0.1;
+
+  let learningResults: LearningResult | null = null;
+  if (shouldLearn) {
+    try {
+      learningResults = await learnFromFeedback();
+    } catch (err) {
+      console.log(`  Note: Feedback learning skipped: ${(err as Error).message}`);
     }
+  }
 
-    await jobProcessor.updateJob(jobId, {
-      status: 'completed',
-      completedAt: new Date().toISOString(),
-      result: {
-        extraction: {
-          fetched: extractionResults.fetched,
-          filtered: extractionResults.filtered,
-          processed: extractionResults.processed,
-          newQuoteIds: extractionResults.newQuoteIds,
-          lastReceivedDateTime: extractionResults.lastReceivedDateTime,
-        },
-        staffReplies: extractRepliesResult,
-        staffQuotes: processStaffQuotesResult,
-        matching: {
-          processed: matchingResults.processed,
-          quotesProcessed: matchingResults.processed,
-          matchesCreated: matchingResults.matchesCreated,
-          matchDetails: matchingResults.matchDetails,
-          errors: matchingResults.errors,
-        },
-        learning: learningResults,
+  return {
+    result: {
+      extraction: {
+        fetched: extractionResults.fetched,
+        filtered: extractionResults.filtered,
+        processed: extractionResults.processed,
+        newQuoteIds: extractionResults.newQuoteIds,
+        lastReceivedDateTime: extractionResults.lastReceivedDateTime,
       },
-      progress: {
-        current: extractionResults.fetched,
-        total: extractionResults.fetched,
-        percentage: 100,
+      staffReplies: extractRepliesResult,
+      staffQuotes: processStaffQuotesResult,
+      matching: {
+        processed: matchingResults.processed,
+        quotesProcessed: matchingResults.processed,
+        matchesCreated: matchingResults.matchesCreated,
+        matchDetails: matchingResults.matchDetails,
+        errors: matchingResults.errors,
       },
-    });
-
-    console.log(`Extract-and-match job ${jobId} completed successfully`);
-  } catch (error) {
-    console.error(`Extract-and-match job ${jobId} failed:`, error);
-
-    await jobProcessor.updateJob(jobId, {
-      status: 'failed',
-      completedAt: new Date().toISOString(),
-      error: {
-        message: (error as Error).message,
-        stack: (error as Error).stack,
-      },
-    });
-  }
+      learning: learningResults,
+    },
+    progress: {
+      current: extractionResults.fetched,
+      total: extractionResults.fetched,
+      percentage: 100,
+    },
+  };
 }
 
 // =====================================================
@@ -938,12 +932,8 @@ export const runAllMatching = asyncHandler(async (req: Request, res: Response) =
     };
 
     if (isAsync) {
-      const jobId = await jobProcessor.createJob(jobData);
-
-      // Run the job asynchronously
-      processRunAllMatchingJob(jobId, quoteIds, { minScore, maxMatches, useAI }).catch((err) => {
-        console.error(`Unhandled error in run-all matching job ${jobId}:`, err);
-      });
+      const jobId = await jobProcessor.createJob(jobData, { type: 'run_all_matching' });
+      jobProcessor.startJob(jobId);
 
       const statusUrl = `${req.protocol}://${req.get('host')}/api/jobs/${jobId}`;
 
@@ -981,81 +971,64 @@ export const runAllMatching = asyncHandler(async (req: Request, res: Response) =
 });
 
 /**
- * Helper function to process run-all matching job asynchronously
+ * Job handler for queued run-all matching jobs
  */
-async function processRunAllMatchingJob(
-  jobId: string,
-  quoteIds: number[],
-  options: MatchingOptions
-): Promise<void> {
-  try {
-    await jobProcessor.updateJob(jobId, {
-      status: 'processing',
-      startedAt: new Date().toISOString(),
-      progress: {
-        current: 0,
-        total: quoteIds.length,
-        percentage: 0,
-      },
-    });
+async function processRunAllMatchingJob(job: Job): Promise<JobHandlerResult> {
+  const quoteIds = job.data.quoteIds || [];
+  const options: MatchingOptions = job.data.matchingOptions || {};
 
-    console.log(`\nStarting run-all matching job ${jobId} for ${quoteIds.length} quotes...`);
+  await jobProcessor.updateJob(job.id, {
+    progress: {
+      current: 0,
+      total: quoteIds.length,
+      percentage: 0,
+    },
+  });
 
-    const results = await processEnhancedMatches(quoteIds, options);
+  console.log(`\nStarting run-all matching job ${job.id} for ${quoteIds.length} quotes...`);
 
-    // Record pricing outcomes for learning
-    if (results.matchDetails && results.matchDetails.length > 0) {
-      for (const detail of results.matchDetails) {
-        try {
-          await recordPricingOutcome(detail.quoteId, {
-            suggestedPrice: detail.suggestedPrice ?? undefined,
-            priceConfidence: detail.aiPricing?.confidence_percentage
-              ? detail.aiPricing.confidence_percentage / 100
-              : detail.priceRange
-                ? 0.7
-                : 0.5,
-            matchCount: detail.matchCount,
-            topMatchScore: detail.bestScore,
-          });
-        } catch (err) {
-          console.log(
-            `  Note: Could not record pricing outcome for quote ${detail.quoteId}: ${(err as Error).message}`
-          );
-        }
+  const results = await processEnhancedMatches(quoteIds, options);
+
+  // Record pricing outcomes for learning
+  if (results.matchDetails && results.matchDetails.length > 0) {
+    for (const detail of results.matchDetails) {
+      try {
+        await recordPricingOutcome(detail.quoteId, {
+          suggestedPrice: detail.suggestedPrice ?? undefined,
+          priceConfidence: detail.aiPricing?.confidence_percentage
+            ? detail.aiPricing.confidence_percentage / 100
+            : detail.priceRange
+              ? 0.7
+              : 0.5,
+          matchCount: detail.matchCount,
+          topMatchScore: detail.bestScore,
+        });
+      } catch (err) {
+        console.log(
+          `  Note: Could not record pricing outcome for quote ${detail.quoteId}: ${(err as Error).message}`
+        );
       }
     }
+  }
 
-    await jobProcessor.updateJob(jobId, {
-      status: 'completed',
-      completedAt: new Date().toISOString(),
-      result: {
-        matching: {
-          processed: results.processed,
-          quotesProcessed: results.processed,
-          matchesCreated: results.matchesCreated,
-          matchDetails: results.matchDetails,
-          errors: results.errors,
-        },
-        newQuoteIds: quoteIds,
-      },
-      progress: {
-        current: quoteIds.length,
-        total: quoteIds.length,
-        percentage: 100,
-      },
-    });
-
-    console.log(`Run-all matching job ${jobId} completed successfully`);
-  } catch (error) {
-    console.error(`Run-all matching job ${jobId} failed:`, error);
-
-    await jobProcessor.updateJob(jobId, {
-      status: 'failed',
-      completedAt: new Date().toISOString(),
-      error: {
-        message: (error as Error).message,
-        stack: (error as Error).stack,
+  return {
+    result: {
+      matching: {
+        processed: results.processed,
+        quotesProcessed: results.processed,
+        matchesCreated: results.matchesCreated,
+        matchDetails: results.matchDetails,
+        errors: results.errors,
       },
-    });
-  }
+      newQuoteIds: quoteIds,
+    },
+    progress: {
+      current: quoteIds.length,
+      total: quoteIds.length,
+      percentage: 100,
+    },
+  };
 }
+
+jobProcessor.registerHandler('extract_and_match', processExtractAndMatchJob, { usesAI: true });
+jobProcessor.registerHandler('run_all_matching', processRunAllMatchingJob, { usesAI: true });
@@ -0,0 +1,170 @@
+/**
+ * Prompt Controller
+ * Handles the registry of extraction and pricing prompt versions and their traffic splits
+ */
+
+import type { Request, Response } from 'express';
+import promptRegistryService, {
+  BUILTIN_PROMPT_VERSION,
+  PROMPT_VERSION_TASKS,
+} from '../services/promptRegistryService.js';
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import type { PromptVersionTask } from '../types/index.js';
+
+interface PromptVersionQuery {
+  task?: string;
+}
+
+interface PromptVersionBody {
+  task?: PromptVersionTask;
+  version?: string;
+  template?: string;
+  description?: string | null;
+  trafficWeight?: number;
+  isActive?: boolean;
+  createdBy?: string | null;
+}
+
+/**
+ * Parse a prompt version ID route param
+ */
+function parsePromptVersionId(id: string): number {
+  const promptVersionId = parseInt(id);
+  if (isNaN(promptVersionId)) {
+    throw new ValidationError('Prompt version ID must be a valid integer');
+  }
+  return promptVersionId;
+}
+
+/**
+ * Validate an optional task query param or body field
+ */
+function parseTask(task: unknown): PromptVersionTask | undefined {
+  if (task === undefined || task === '') return undefined;
+  if (!PROMPT_VERSION_TASKS.includes(task as PromptVersionTask)) {
+    throw new ValidationError(`task must be one of: ${PROMPT_VERSION_TASKS.join(', ')}`);
+  }
+  return task as PromptVersionTask;
+}
+
+/**
+ * Validate the traffic weight and active flag of a body
+ */
+function validateTrafficSettings(body: PromptVersionBody): void {
+  const { trafficWeight, isActive } = body;
+  if (
+    trafficWeight !== undefined &&
+    (typeof trafficWeight !== 'number' || !Number.isInteger(trafficWeight) || trafficWeight < 0)
+  ) {
+    throw new ValidationError('trafficWeight must be a non-negative integer');
+  }
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    throw new ValidationError('isActive must be a boolean');
+  }
+}
+
+/**
+ * List prompt versions with their traffic weights
+ * GET /api/prompts?task=extraction
+ */
+export const getPromptVersions = asyncHandler(async (req: Request, res: Response) => {
+  const task = parseTask((req.query as PromptVersionQuery).task);
+  const versions = await promptRegistryService.list(task);
+
+  res.json({
+    success: true,
+    count: versions.length,
+    versions,
+  });
+});
+
+/**
+ * Get a prompt version by ID, with its template
+ * GET /api/prompts/:id
+ */
+export const getPromptVersionById = asyncHandler(async (req: Request, res: Response) => {
+  const id = parsePromptVersionId(req.params.id!);
+  const version = await promptRegistryService.getById(id);
+
+  if (!version) {
+    throw new NotFoundError(`Prompt version with ID: ${id}`);
+  }
+
+  res.json({
+    success: true,
+    version,
+  });
+});
+
+/**
+ * Register a prompt version
+ * POST /api/prompts
+ */
+export const createPromptVersion = asyncHandler(async (req: Request, res: Response) => {
+  const body = req.body as PromptVersionBody;
+  const task = parseTask(body.task);
+
+  if (!task) {
+    throw new ValidationError('task is required');
+  }
+  if (!body.version || typeof body.version !== 'string' || !body.version.trim()) {
+    throw new ValidationError('version is required');
+  }
+  if (body.version.trim().length > 64) {
+    throw new ValidationError('version must be at most 64 characters');
+  }
+  if (body.version.trim() === BUILTIN_PROMPT_VERSION) {
+    throw new ValidationError(`"${BUILTIN_PROMPT_VERSION}" is reserved for the built-in prompt`);
+  }
+  if (typeof body.template !== 'string') {
+    throw new ValidationError('template is required');
+  }
+  const templateErrors = promptRegistryService.validateTemplate(task, body.template);
+  if (templateErrors.length > 0) {
+    throw new ValidationError(templateErrors.join('; '));
+  }
+  validateTrafficSettings(body);
+
+  const version = await promptRegistryService.create({
+    task,
+    version: body.version.trim(),
+    template: body.template,
+    description: body.description ?? null,
+    trafficWeight: body.trafficWeight ?? 0,
+    isActive: body.isActive ?? true,
+    createdBy: body.createdBy ?? null,
+  });
+
+  res.status(201).json({
+    success: true,
+    version,
+  });
+});
+
+/**
+ * Change the traffic weight, active flag or description of a prompt version
+ * PATCH /api/prompts/:id
+ */
+export const updatePromptVersion = asyncHandler(async (req: Request, res: Response) => {
+  const id = parsePromptVersionId(req.params.id!);
+  const body = req.body as PromptVersionBody;
+
+  if (body.template !== undefined) {
+    throw new ValidationError('template cannot be changed; register a new version instead');
+  }
+  validateTrafficSettings(body);
+
+  const version = await promptRegistryService.update(id, {
+    trafficWeight: body.trafficWeight,
+    isActive: body.isActive,
+    description: body.description,
+  });
+  if (!version) {
+    throw new NotFoundError(`Prompt version with ID: ${id}`);
+  }
+
+  res.json({
+    success: true,
+    version,
+  });
+});
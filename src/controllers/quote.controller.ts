@@ -5,7 +5,30 @@
 
 import type { Request, Response } from 'express';
 import * as db from '../config/db.js';
-import { asyncHandler, NotFoundError, DatabaseError } from '../middleware/errorHandler.js';
+import quoteDraftService from '../services/quoteDraftService.js';
+import followUpService, { addBusinessDays } from '../services/followUpService.js';
+import quoteLifecycleService, {
+  QUOTE_LIFECYCLE_STATUSES,
+} from '../services/quoteLifecycleService.js';
+import jobProcessor from '../services/jobProcessor.js';
+import priceBuilderService from '../services/priceBuilderService.js';
+import quoteCorrectionService from '../services/quoteCorrectionService.js';
+import {
+  asyncHandler,
+  NotFoundError,
+  DatabaseError,
+  ValidationError,
+  ConflictError,
+  ExternalServiceError,
+} from '../middleware/errorHandler.js';
+import type {
+  AccessorialCode,
+  AccessorialRequest,
+  FollowUpReason,
+  QuoteDraftType,
+  QuoteLifecycleStatus,
+  QuoteWithEmail,
+} from '../types/index.js';
 
 interface SearchQuotesBody {
   clientCompanyName?: string;
@@ -15,6 +38,66 @@ interface SearchQuotesBody {
   senderEmail?: string;
 }
 
+interface DraftResponseBody {
+  draftType?: QuoteDraftType;
+  price?: number;
+  followupNumber?: number;
+  instructions?: string;
+  aiProvider?: string;
+  saveToMailbox?: boolean;
+  createdBy?: string;
+}
+
+interface ReviseDraftBody {
+  subject?: string;
+  body?: string;
+  saveToMailbox?: boolean;
+  editedBy?: string;
+}
+
+interface FollowUpsQuery {
+  reason?: string;
+  includeSnoozed?: string;
+  includeDismissed?: string;
+  limit?: string;
+}
+
+interface FollowUpActionBody {
+  until?: string;
+  businessDays?: number;
+  note?: string;
+  updatedBy?: string;
+}
+
+interface UpdateStatusBody {
+  status?: QuoteLifecycleStatus;
+  actor?: string;
+  reason?: string;
+  rejectionReason?: string;
+  finalPrice?: number;
+}
+
+interface CorrectQuoteBody {
+  fields?: Record<string, unknown>;
+  correctedBy?: string;
+  reason?: string;
+  rematch?: boolean;
+}
+
+interface CorrectionExportQuery {
+  limit?: string;
+  since?: string;
+}
+
+interface ItemizedPriceBody {
+  linehaul?: number;
+  include?: AccessorialRequest[];
+  exclude?: AccessorialCode[];
+  distanceMiles?: number;
+}
+
+const FOLLOW_UP_REASONS: FollowUpReason[] = ['no_reply', 'expiring', 'flagged'];
+
 interface PaginationQuery {
   limit?: string;
   offset?: string;
@@ -117,3 +200,553 @@ export const deleteQuote = asyncHandler(async (req: Request, res: Response) => {
     throw new DatabaseError('deleting quote', error as Error);
   }
 });
+
+/**
+ * Load a quote or throw NotFoundError (ValidationError for a non-integer ID)
+ */
+const loadQuote = async (id: string): Promise<QuoteWithEmail> => {
+  if (!/^\d+$/.test(id)) {
+    throw new ValidationError('Quote ID must be a valid integer');
+  }
+  const quote = await db.getQuoteById(parseInt(id));
+  if (!quote) {
+    throw new NotFoundError(`Quote with ID: ${id}`);
+  }
+  return quote;
+};
+
+/**
+ * Parse a draft version route parameter or throw ValidationError
+ */
+const parseDraftVersion = (version: string): number => {
+  if (!/^\d+$/.test(version)) {
+    throw new ValidationError('Draft version must be a valid integer');
+  }
+  return parseInt(version);
+};
+
+/**
+ * Draft a quote response (or follow-up) email from the AI pricing recommendation
+ * POST /api/quotes/:id/draft-response
+ */
+export const draftQuoteResponse = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const {
+    draftType = 'response',
+    price,
+    followupNumber,
+    instructions,
+    aiProvider,
+    saveToMailbox = true,
+    createdBy,
+  } = req.body as DraftResponseBody;
+
+  if (draftType !== 'response' && draftType !== 'followup') {
+    throw new ValidationError("draftType must be 'response' or 'followup'");
+  }
+  if (price !== undefined && (typeof price !== 'number' || price <= 0)) {
+    throw new ValidationError('price must be a positive number');
+  }
+
+  const quote = await loadQuote(id);
+  const pricing = await db.getAIPricingRecommendation(quote.quote_id!);
+  const quotedPrice =
+    price ??
+    pricing?.ai_recommended_price ??
+    pricing?.target_price ??
+    quote.initial_quote_amount ??
+    null;
+
+  if (draftType === 'response' && !quotedPrice) {
+    throw new ValidationError(
+      'No AI pricing recommendation exists for this quote. Run matching first or provide a price.'
+    );
+  }
+
+  const result = await quoteDraftService.createDraft(quote, pricing, {
+    draftType,
+    quotedPrice: quotedPrice !== null ? Number(quotedPrice) : null,
+    followupNumber,
+    instructions,
+    aiProvider,
+    saveToMailbox,
+    createdBy,
+  });
+
+  if (!result) {
+    throw new ExternalServiceError('AI provider', 'Failed to generate draft');
+  }
+
+  res.status(201).json({
+    success: true,
+    draft: result.draft,
+    warnings: result.warnings,
+  });
+});
+
+/**
+ * List all draft versions for a quote
+ * GET /api/quotes/:id/drafts
+ */
+export const getQuoteDrafts = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quote = await loadQuote(id);
+
+  const drafts = await db.getQuoteDrafts(quote.quote_id!);
+
+  res.json({
+    success: true,
+    total: drafts.length,
+    drafts,
+  });
+});
+
+/**
+ * Get a single draft version
+ * GET /api/quotes/:id/drafts/:version
+ */
+export const getQuoteDraft = asyncHandler(async (req: Request, res: Response) => {
+  const { id, version } = req.params;
+  const draftVersion = parseDraftVersion(version);
+
+  const quote = await loadQuote(id);
+  const draft = await db.getQuoteDraft(quote.quote_id!, draftVersion);
+  if (!draft) {
+    throw new NotFoundError(`Draft version ${version} for quote ${id}`);
+  }
+
+  res.json({
+    success: true,
+    draft,
+  });
+});
+
+/**
+ * Save a rep's edits to the current draft as a new version
+ * PATCH /api/quotes/:id/drafts/:version
+ */
+export const reviseQuoteDraft = asyncHandler(async (req: Request, res: Response) => {
+  const { id, version } = req.params;
+  const { subject, body, saveToMailbox = true, editedBy } = req.body as ReviseDraftBody;
+
+  if (subject === undefined && body === undefined) {
+    throw new ValidationError('Provide a subject and/or body to revise');
+  }
+  if (
+    (subject !== undefined && !String(subject).trim()) ||
+    (body !== undefined && !String(body).trim())
+  ) {
+    throw new ValidationError('subject and body cannot be empty');
+  }
+
+  const draftVersion = parseDraftVersion(version);
+  const quote = await loadQuote(id);
+  const current = await db.getQuoteDraft(quote.quote_id!, draftVersion);
+
+  if (!current) {
+    throw new NotFoundError(`Draft version ${version} for quote ${id}`);
+  }
+  if (current.status !== 'draft') {
+    throw new ConflictError(
+      `Draft version ${version} has been superseded; edit the latest version`
+    );
+  }
+
+  const result = await quoteDraftService.reviseDraft(quote, current, {
+    subject,
+    body,
+    saveToMailbox,
+    createdBy: editedBy,
+  });
+
+  res.json({
+    success: true,
+    draft: result.draft,
+    warnings: result.warnings,
+  });
+});
+
+/**
+ * Follow-up worklist: quotes with no customer reply, about to expire, or flagged for follow-up
+ * GET /api/quotes/follow-ups
+ */
+export const getFollowUps = asyncHandler(async (req: Request, res: Response) => {
+  const { reason, includeSnoozed, includeDismissed, limit: limitStr } = req.query as FollowUpsQuery;
+  const limit = Math.min(parseInt(limitStr || '100'), 500);
+
+  const reasons = reason ? (reason.split(',') as FollowUpReason[]) : undefined;
+  if (reasons?.some((r) => !FOLLOW_UP_REASONS.includes(r))) {
+    throw new ValidationError(`reason must be one of: ${FOLLOW_UP_REASONS.join(', ')}`);
+  }
+
+  const items = await followUpService.getWorklist({
+    reasons,
+    includeSnoozed: includeSnoozed === 'true',
+    includeDismissed: includeDismissed === 'true',
+    limit,
+  });
+
+  res.json({
+    success: true,
+    count: items.length,
+    followUps: items,
+  });
+});
+
+/**
+ * Snooze a quote on the follow-up worklist
+ * POST /api/quotes/follow-ups/:id/snooze
+ */
+export const snoozeFollowUp = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { until, businessDays, note, updatedBy } = req.body as FollowUpActionBody;
+
+  let snoozedUntil: Date;
+  if (until) {
+    snoozedUntil = new Date(until);
+    if (isNaN(snoozedUntil.getTime()) || snoozedUntil.getTime() <= Date.now()) {
+      throw new ValidationError('until must be a future date');
+    }
+  } else {
+    const days = businessDays ?? 1;
+    if (!Number.isInteger(days) || days < 1) {
+      throw new ValidationError('businessDays must be a positive integer');
+    }
+    snoozedUntil = addBusinessDays(new Date(), days);
+  }
+
+  const quote = await loadQuote(id);
+  await followUpService.snooze(quote.quote_id!, snoozedUntil, { note, updatedBy });
+
+  res.json({
+    success: true,
+    quoteId: quote.quote_id,
+    status: 'snoozed',
+    snoozedUntil: snoozedUntil.toISOString(),
+  });
+});
+
+/**
+ * Dismiss a quote from the follow-up worklist
+ * POST /api/quotes/follow-ups/:id/dismiss
+ */
+export const dismissFollowUp = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { note, updatedBy } = req.body as FollowUpActionBody;
+
+  const quote = await loadQuote(id);
+  await followUpService.dismiss(quote.quote_id!, { note, updatedBy });
+
+  res.json({
+    success: true,
+    quoteId: quote.quote_id,
+    status: 'dismissed',
+  });
+});
+
+/**
+ * Put a snoozed or dismissed quote back on the worklist
+ * DELETE /api/quotes/follow-ups/:id
+ */
+export const reopenFollowUp = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const quote = await loadQuote(id);
+  const reopened = await followUpService.reopen(quote.quote_id!);
+
+  res.json({
+    success: true,
+    quoteId: quote.quote_id,
+    status: 'open',
+    changed: reopened,
+  });
+});
+
+/**
+ * Queue follow-up drafting for due quotes (optionally restricted to quoteIds)
+ * POST /api/quotes/follow-ups/draft
+ */
+export const draftFollowUps = asyncHandler(async (req: Request, res: Response) => {
+  const { quoteIds } = req.body as { quoteIds?: number[] };
+
+  if (quoteIds !== undefined && (!Array.isArray(quoteIds) || quoteIds.length === 0)) {
+    throw new ValidationError('quoteIds must be a non-empty array');
+  }
+
+  const jobId = await jobProcessor.createJob(quoteIds ? { quoteIds } : {}, {
+    type: 'follow_up_drafting',
+  });
+  jobProcessor.startJob(jobId);
+
+  const statusUrl = `${req.protocol}://${req.get('host')}/api/jobs/${jobId}`;
+
+  res.status(202).json({
+    success: true,
+    message: 'Follow-up drafting job accepted for processing',
+    jobId,
+    statusUrl,
+  });
+});
+
+/**
+ * Queue a distance backfill for quotes without a stored distance (or recompute quoteIds)
+ * POST /api/quotes/distances/backfill
+ */
+export const backfillQuoteDistances = asyncHandler(async (req: Request, res: Response) => {
+  const { quoteIds, limit } = req.body as { quoteIds?: number[]; limit?: number };
+
+  if (quoteIds !== undefined && (!Array.isArray(quoteIds) || quoteIds.length === 0)) {
+    throw new ValidationError('quoteIds must be a non-empty array');
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 5000)) {
+    throw new ValidationError('limit must be an integer between 1 and 5000');
+  }
+
+  const jobId = await jobProcessor.createJob(
+    { ...(quoteIds && { quoteIds }), ...(limit && { limit }) },
+    { type: 'distance_backfill' }
+  );
+  jobProcessor.startJob(jobId);
+
+  const statusUrl = `${req.protocol}://${req.get('host')}/api/jobs/${jobId}`;
+
+  res.status(202).json({
+    success: true,
+    message: 'Distance backfill job accepted for processing',
+    jobId,
+    statusUrl,
+  });
+});
+
+/**
+ * Move a quote through its lifecycle (requested -> priced -> sent -> revised -> won/lost/expired)
+ * PATCH /api/quotes/:id/status
+ */
+export const updateQuoteStatus = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { status, actor, reason, rejectionReason, finalPrice } = req.body as UpdateStatusBody;
+
+  if (!status || !QUOTE_LIFECYCLE_STATUSES.includes(status)) {
+    throw new ValidationError(`status must be one of: ${QUOTE_LIFECYCLE_STATUSES.join(', ')}`);
+  }
+  if (!actor || typeof actor !== 'string' || !actor.trim()) {
+    throw new ValidationError('actor is required');
+  }
+  if (finalPrice !== undefined && (typeof finalPrice !== 'number' || finalPrice <= 0)) {
+    throw new ValidationError('finalPrice must be a positive number');
+  }
+
+  const quote = await loadQuote(id);
+  const current = quote.lifecycle_status ?? 'requested';
+
+  if (!quoteLifecycleService.canTransition(current, status)) {
+    throw new ConflictError(
+      `Cannot move quote from '${current}' to '${status}'` +
+        ` (allowed: ${quoteLifecycleService.getAllowedTransitions(current).join(', ') || 'none'})`
+    );
+  }
+
+  const transition = await quoteLifecycleService.transition(quote.quote_id!, status, {
+    source: 'api',
+    actor: actor.trim(),
+    reason,
+    rejectionReason: status === 'lost' ? rejectionReason : null,
+    finalAgreedPrice: status === 'won' ? finalPrice : null,
+  });
+
+  if (!transition) {
+    throw new ConflictError('Quote status changed while updating; reload and try again');
+  }
+
+  res.json({
+    success: true,
+    transition,
+  });
+});
+
+/**
+ * Lifecycle history for a quote
+ * GET /api/quotes/:id/status-history
+ */
+export const getQuoteStatusHistory = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quote = await loadQuote(id);
+
+  const history = await db.getQuoteStatusHistory(quote.quote_id!);
+  const status = quote.lifecycle_status ?? 'requested';
+
+  res.json({
+    success: true,
+    status,
+    allowedTransitions: quoteLifecycleService.getAllowedTransitions(status),
+    history,
+  });
+});
+
+/**
+ * Accessorial charge catalog with current rates
+ * GET /api/quotes/accessorials
+ */
+export const getAccessorialCatalog = asyncHandler(async (_req: Request, res: Response) => {
+  const accessorials = await priceBuilderService.getCatalog();
+
+  res.json({
+    success: true,
+    accessorials,
+  });
+});
+
+/**
+ * Itemized price for a quote: linehaul plus accessorials attached from quote flags and OOG analysis
+ * POST /api/quotes/:id/itemized-price
+ */
+export const buildItemizedPrice = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { linehaul, include, exclude, distanceMiles } = req.body as ItemizedPriceBody;
+  const quoteId = parseInt(id!);
+
+  if (isNaN(quoteId)) {
+    throw new ValidationError('Quote ID must be a valid integer');
+  }
+  if (linehaul !== undefined && (typeof linehaul !== 'number' || linehaul < 0)) {
+    throw new ValidationError('linehaul must be a non-negative number');
+  }
+  if (distanceMiles !== undefined && (typeof distanceMiles !== 'number' || distanceMiles <= 0)) {
+    throw new ValidationError('distanceMiles must be a positive number');
+  }
+
+  const codes = (await priceBuilderService.getCatalog()).map((definition) => definition.code);
+  if (include !== undefined) {
+    if (!Array.isArray(include)) {
+      throw new ValidationError('include must be an array of { code, quantity? }');
+    }
+    for (const item of include) {
+      if (!codes.includes(item?.code)) {
+        throw new ValidationError(`include code must be one of: ${codes.join(', ')}`);
+      }
+      if (item.quantity !== undefined && (typeof item.quantity !== 'number' || item.quantity < 0)) {
+        throw new ValidationError(`quantity for ${item.code} must be a non-negative number`);
+      }
+    }
+  }
+  if (
+    exclude !== undefined &&
+    (!Array.isArray(exclude) || !exclude.every((c) => codes.includes(c)))
+  ) {
+    throw new ValidationError(`exclude must be an array of: ${codes.join(', ')}`);
+  }
+
+  const itemized = await priceBuilderService.buildItemizedQuote(quoteId, {
+    linehaul,
+    include,
+    exclude,
+    distanceMiles,
+  });
+  if (!itemized) {
+    throw new NotFoundError(`Quote with ID: ${id}`);
+  }
+
+  res.json({
+    success: true,
+    itemized,
+  });
+});
+
+/**
+ * Correct AI-extracted fields of a quote; each changed field is logged as a diff and
+ * matching is re-run for the quote in the background
+ * PATCH /api/quotes/:id
+ */
+export const correctQuote = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { fields, correctedBy, reason, rematch = true } = req.body as CorrectQuoteBody;
+
+  if (
+    !fields ||
+    typeof fields !== 'object' ||
+    Array.isArray(fields) ||
+    !Object.keys(fields).length
+  ) {
+    throw new ValidationError(
+      `fields must be an object of corrected values (${quoteCorrectionService.getCorrectableFields().join(', ')})`
+    );
+  }
+  if (!correctedBy || typeof correctedBy !== 'string' || !correctedBy.trim()) {
+    throw new ValidationError('correctedBy is required');
+  }
+  const errors = quoteCorrectionService.validate(fields);
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid corrections: ${errors.join('; ')}`);
+  }
+
+  const quote = await loadQuote(id);
+  const outcome = await quoteCorrectionService.correct(quote, fields, {
+    correctedBy: correctedBy.trim(),
+    reason,
+  });
+  if (!outcome) {
+    throw new NotFoundError(`Quote with ID: ${id}`);
+  }
+
+  let rematchJobId: string | null = null;
+  if (rematch && outcome.corrections.length > 0) {
+    rematchJobId = await jobProcessor.createJob(
+      { quoteIds: [quote.quote_id!] },
+      { type: 'run_all_matching' }
+    );
+    jobProcessor.startJob(rematchJobId);
+  }
+
+  res.json({
+    success: true,
+    quoteId: quote.quote_id,
+    corrections: outcome.corrections,
+    unchanged: outcome.unchanged,
+    rematchJobId,
+    ...(rematchJobId && {
+      statusUrl: `${req.protocol}://${req.get('host')}/api/jobs/${rematchJobId}`,
+    }),
+  });
+});
+
+/**
+ * Field correction log for a quote
+ * GET /api/quotes/:id/corrections
+ */
+export const getQuoteCorrections = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const quote = await loadQuote(id);
+
+  const corrections = await db.getQuoteCorrections(quote.quote_id!);
+
+  res.json({
+    success: true,
+    total: corrections.length,
+    corrections,
+  });
+});
+
+/**
+ * Corrected (email, extraction) pairs for extraction evaluation and few-shot prompting
+ * GET /api/quotes/corrections/export
+ */
+export const exportCorrections = asyncHandler(async (req: Request, res: Response) => {
+  const { limit: limitStr, since } = req.query as CorrectionExportQuery;
+  const limit = parseInt(limitStr || '500');
+
+  if (isNaN(limit) || limit < 1 || limit > 5000) {
+    throw new ValidationError('limit must be an integer between 1 and 5000');
+  }
+  if (since && isNaN(new Date(since).getTime())) {
+    throw new ValidationError('since must be a valid date (ISO format, e.g., 2024-01-01)');
+  }
+
+  const examples = await quoteCorrectionService.getDataset({ limit, since: since || null });
+
+  res.json({
+    success: true,
+    count: examples.length,
+    fields: quoteCorrectionService.getCorrectableFields(),
+    examples,
+  });
+});
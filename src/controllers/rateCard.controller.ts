@@ -0,0 +1,272 @@
+/**
+ * Rate Card Controller
+ * Handles CRUD for negotiated lane rates and rate card lookup for quotes
+ */
+
+import type { Request, Response } from 'express';
+import * as db from '../config/db.js';
+import rateCardService from '../services/rateCardService.js';
+import quoteDistanceService from '../services/quoteDistanceService.js';
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import type { LaneRateCard, RateCardRateType } from '../types/index.js';
+
+const RATE_TYPES: RateCardRateType[] = ['flat', 'per_mile'];
+
+interface RateCardQuery {
+  client?: string;
+  activeOn?: string;
+}
+
+interface RateCardBody {
+  name?: string;
+  clientCompanyName?: string | null;
+  originRegion?: string | null;
+  originCity?: string | null;
+  originState?: string | null;
+  originCountry?: string | null;
+  destinationRegion?: string | null;
+  destinationCity?: string | null;
+  destinationState?: string | null;
+  destinationCountry?: string | null;
+  serviceType?: string | null;
+  equipmentType?: string | null;
+  rateType?: RateCardRateType;
+  rateAmount?: number;
+  minimumCharge?: number | null;
+  currency?: string;
+  validFrom?: string;
+  validUntil?: string | null;
+  isActive?: boolean;
+  notes?: string | null;
+  createdBy?: string | null;
+}
+
+// Request body field -> lane_rate_cards column
+const BODY_FIELDS: [keyof RateCardBody, keyof db.RateCardData][] = [
+  ['name', 'name'],
+  ['clientCompanyName', 'client_company_name'],
+  ['originRegion', 'origin_region'],
+  ['originCity', 'origin_city'],
+  ['originState', 'origin_state_province'],
+  ['originCountry', 'origin_country'],
+  ['destinationRegion', 'destination_region'],
+  ['destinationCity', 'destination_city'],
+  ['destinationState', 'destination_state_province'],
+  ['destinationCountry', 'destination_country'],
+  ['serviceType', 'service_type'],
+  ['equipmentType', 'equipment_type'],
+  ['rateType', 'rate_type'],
+  ['rateAmount', 'rate_amount'],
+  ['minimumCharge', 'minimum_charge'],
+  ['currency', 'currency'],
+  ['validFrom', 'valid_from'],
+  ['validUntil', 'valid_until'],
+  ['isActive', 'is_active'],
+  ['notes', 'notes'],
+  ['createdBy', 'created_by'],
+];
+
+const isValidDate = (value: string): boolean =>
+  /^[0-9]{4}-[0-9]{2}-[0-9]{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+/**
+ * Parse a rate card ID route param
+ */
+function parseRateCardId(id: string): number {
+  const rateCardId = parseInt(id);
+  if (isNaN(rateCardId)) {
+    throw new ValidationError('Rate card ID must be a valid integer');
+  }
+  return rateCardId;
+}
+
+/**
+ * Map the provided body fields to columns; empty strings clear optional fields
+ */
+function toRateCardData(body: RateCardBody): db.RateCardData {
+  const data: Record<string, unknown> = {};
+  for (const [field, column] of BODY_FIELDS) {
+    if (body[field] !== undefined) {
+      data[column] = body[field] === '' ? null : body[field];
+    }
+  }
+  return data as db.RateCardData;
+}
+
+/**
+ * Validate a rate card as it will be stored (the new card, or the existing one with changes)
+ */
+function validateRateCard(card: db.RateCardData): void {
+  if (!card.name || typeof card.name !== 'string' || !card.name.trim()) {
+    throw new ValidationError('name is required');
+  }
+  if (!card.rate_type || !RATE_TYPES.includes(card.rate_type)) {
+    throw new ValidationError(`rateType must be one of: ${RATE_TYPES.join(', ')}`);
+  }
+  if (typeof card.rate_amount !== 'number' || card.rate_amount <= 0) {
+    throw new ValidationError('rateAmount must be a positive number');
+  }
+  if (
+    card.minimum_charge !== null &&
+    card.minimum_charge !== undefined &&
+    (typeof card.minimum_charge !== 'number' || card.minimum_charge < 0)
+  ) {
+    throw new ValidationError('minimumCharge must be a non-negative number');
+  }
+  if (card.currency !== undefined && !/^[A-Za-z]{3}$/.test(card.currency)) {
+    throw new ValidationError('currency must be a 3-letter currency code');
+  }
+
+  for (const side of ['origin', 'destination'] as const) {
+    const lane = [
+      card[`${side}_region`],
+      card[`${side}_city`],
+      card[`${side}_state_province`],
+      card[`${side}_country`],
+    ];
+    if (!lane.some((value) => typeof value === 'string' && value.trim())) {
+      throw new ValidationError(`${side} needs a region, city, state or country`);
+    }
+  }
+
+  for (const [name, value] of [
+    ['validFrom', card.valid_from],
+    ['validUntil', card.valid_until],
+  ] as const) {
+    if (value && !isValidDate(value)) {
+      throw new ValidationError(`${name} must be a date (YYYY-MM-DD)`);
+    }
+  }
+  if (card.valid_from && card.valid_until && card.valid_until < card.valid_from) {
+    throw new ValidationError('validUntil must not be before validFrom');
+  }
+}
+
+/**
+ * List rate cards
+ * GET /api/rate-cards?client=Acme&activeOn=2024-06-01
+ */
+export const getRateCards = asyncHandler(async (req: Request, res: Response) => {
+  const { client, activeOn } = req.query as RateCardQuery;
+
+  if (activeOn && !isValidDate(activeOn)) {
+    throw new ValidationError('activeOn must be a date (YYYY-MM-DD)');
+  }
+
+  const rateCards = await rateCardService.list({ clientCompanyName: client, activeOn });
+
+  res.json({
+    success: true,
+    count: rateCards.length,
+    rateCards,
+  });
+});
+
+/**
+ * Get a rate card by ID
+ * GET /api/rate-cards/:id
+ */
+export const getRateCardById = asyncHandler(async (req: Request, res: Response) => {
+  const rateCardId = parseRateCardId(req.params.id!);
+  const rateCard = await rateCardService.get(rateCardId);
+
+  if (!rateCard) {
+    throw new NotFoundError(`Rate card with ID: ${rateCardId}`);
+  }
+
+  res.json({
+    success: true,
+    rateCard,
+  });
+});
+
+/**
+ * Create a rate card
+ * POST /api/rate-cards
+ */
+export const createRateCard = asyncHandler(async (req: Request, res: Response) => {
+  const data = toRateCardData(req.body as RateCardBody);
+  validateRateCard({ rate_type: 'flat', ...data });
+
+  const rateCard = await rateCardService.create(data);
+
+  res.status(201).json({
+    success: true,
+    rateCard,
+  });
+});
+
+/**
+ * Update fields of a rate card
+ * PATCH /api/rate-cards/:id
+ */
+export const updateRateCard = asyncHandler(async (req: Request, res: Response) => {
+  const rateCardId = parseRateCardId(req.params.id!);
+  const existing = await rateCardService.get(rateCardId);
+
+  if (!existing) {
+    throw new NotFoundError(`Rate card with ID: ${rateCardId}`);
+  }
+
+  const changes = toRateCardData(req.body as RateCardBody);
+  validateRateCard({ ...existing, ...changes });
+
+  const rateCard = await rateCardService.update(rateCardId, changes);
+  if (!rateCard) {
+    throw new NotFoundError(`Rate card with ID: ${rateCardId}`);
+  }
+
+  res.json({
+    success: true,
+    rateCard,
+  });
+});
+
+/**
+ * Delete a rate card
+ * DELETE /api/rate-cards/:id
+ */
+export const deleteRateCard = asyncHandler(async (req: Request, res: Response) => {
+  const rateCardId = parseRateCardId(req.params.id!);
+  const deleted = await rateCardService.remove(rateCardId);
+
+  if (!deleted) {
+    throw new NotFoundError(`Rate card with ID: ${rateCardId}`);
+  }
+
+  res.json({
+    success: true,
+    message: 'Rate card deleted successfully',
+  });
+});
+
+/**
+ * Rate card that applies to a quote today, with the price it produces
+ * GET /api/rate-cards/quote/:quoteId
+ */
+export const getRateCardForQuote = asyncHandler(async (req: Request, res: Response) => {
+  const quoteId = parseInt(req.params.quoteId!);
+  if (isNaN(quoteId)) {
+    throw new ValidationError('Quote ID must be a valid integer');
+  }
+
+  const quote = await db.getQuoteById(quoteId);
+  if (!quote) {
+    throw new NotFoundError(`Quote with ID: ${quoteId}`);
+  }
+
+  const routeDistance = await quoteDistanceService.getQuoteDistance(quote);
+  const match = await rateCardService.findForQuote(quote, routeDistance?.distanceMiles ?? null);
+  let rateCard: LaneRateCard | null = null;
+  if (match) {
+    rateCard = await rateCardService.get(match.rateCardId);
+  }
+
+  res.json({
+    success: true,
+    quoteId,
+    applies: match !== null,
+    match,
+    rateCard,
+  });
+});
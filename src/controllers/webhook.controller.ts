@@ -0,0 +1,97 @@
+/**
+ * Webhook Controller
+ * Handles Microsoft Graph change notifications and subscription management
+ */
+
+import type { Request, Response } from 'express';
+import graphSyncService from '../services/mail/graphSyncService.js';
+import microsoftGraphService from '../services/mail/microsoftGraphService.js';
+import * as db from '../config/db.js';
+import { asyncHandler, NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import type { GraphChangeNotification } from '../types/index.js';
+
+interface GraphNotificationBody {
+  value?: GraphChangeNotification[];
+}
+
+/**
+ * Receive Graph change notifications
+ * POST /api/webhooks/graph
+ *
+ * Graph validates a new subscription by posting a validationToken query parameter,
+ * which must be echoed back as text/plain within 10 seconds.
+ */
+export const receiveGraphNotification = asyncHandler(async (req: Request, res: Response) => {
+  const validationToken = req.query.validationToken;
+  if (typeof validationToken === 'string') {
+    res.status(200).type('text/plain').send(validationToken);
+    return;
+  }
+
+  const { value } = (req.body || {}) as GraphNotificationBody;
+  if (!Array.isArray(value)) {
+    throw new ValidationError('Notification payload must contain a value array');
+  }
+
+  const result = await graphSyncService.handleNotifications(value);
+
+  res.status(202).json({
+    success: true,
+    ...result,
+  });
+});
+
+/**
+ * List stored Graph subscriptions
+ * GET /api/webhooks/graph/subscriptions
+ */
+export const getGraphSubscriptions = asyncHandler(async (_req: Request, res: Response) => {
+  const subscriptions = await db.getGraphSubscriptions();
+
+  res.json({
+    success: true,
+    configured: graphSyncService.isSubscriptionConfigured(),
+    total: subscriptions.length,
+    subscriptions: subscriptions.map(({ clientState: _clientState, ...rest }) => rest),
+  });
+});
+
+/**
+ * Create the mailbox subscription, or renew subscriptions close to expiry
+ * POST /api/webhooks/graph/subscriptions
+ */
+export const ensureGraphSubscription = asyncHandler(async (_req: Request, res: Response) => {
+  if (!graphSyncService.isSubscriptionConfigured()) {
+    throw new ValidationError(
+      'MS_GRAPH_NOTIFICATION_URL and MS_GRAPH_CLIENT_STATE must be configured'
+    );
+  }
+
+  const renewal = await graphSyncService.renewSubscriptions();
+
+  res.json({
+    success: true,
+    ...renewal,
+  });
+});
+
+/**
+ * Delete a Graph subscription
+ * DELETE /api/webhooks/graph/subscriptions/:id
+ */
+export const deleteGraphSubscription = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const subscription = await db.getGraphSubscription(id);
+  if (!subscription) {
+    throw new NotFoundError(`Subscription with ID: ${id}`);
+  }
+
+  await microsoftGraphService.deleteSubscription(id);
+  await db.deleteGraphSubscription(id);
+
+  res.json({
+    success: true,
+    message: `Subscription ${id} deleted`,
+  });
+});
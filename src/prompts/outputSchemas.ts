@@ -0,0 +1,156 @@
+/**
+ * Output Schemas
+ * JSON Schemas for the structured output of the extraction and pricing reply prompts,
+ * sent to each provider's native structured output and used to validate the result
+ */
+
+import type { JsonSchema, StructuredOutputSpec } from '../types/index.js';
+
+const nullableString: JsonSchema = { type: ['string', 'null'] };
+const nullableAmount: JsonSchema = { type: ['number', 'null'], minimum: 0 };
+const nullableCount: JsonSchema = { type: ['integer', 'null'], minimum: 0 };
+
+// =============================================================================
+// EMAIL EXTRACTION (ParsedEmailData)
+// =============================================================================
+
+export const EXTRACTED_QUOTE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    quote_identifier: nullableString,
+    quote_sequence_number: nullableCount,
+    origin_full_address: nullableString,
+    origin_city: nullableString,
+    origin_state_province: nullableString,
+    origin_country: nullableString,
+    origin_postal_code: nullableString,
+    destination_full_address: nullableString,
+    destination_city: nullableString,
+    destination_state_province: nullableString,
+    destination_country: nullableString,
+    destination_postal_code: nullableString,
+    cargo_length: nullableAmount,
+    cargo_width: nullableAmount,
+    cargo_height: nullableAmount,
+    dimension_unit: nullableString,
+    cargo_weight: nullableAmount,
+    weight_unit: nullableString,
+    number_of_pieces: nullableCount,
+    cargo_description: nullableString,
+    hazardous_material: { type: ['boolean', 'null'] },
+    service_type: nullableString,
+    service_level: nullableString,
+    quote_status: nullableString,
+    initial_quote_amount: nullableAmount,
+    final_agreed_price: nullableAmount,
+    urgency_level: nullableString,
+    special_requirements: nullableString,
+    field_provenance: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          source: { type: 'string', enum: ['subject', 'body', 'attachment', 'inferred'] },
+          excerpt: nullableString,
+        },
+        required: ['field', 'confidence', 'source'],
+      },
+    },
+  },
+  required: ['origin_city', 'destination_city', 'cargo_description', 'service_type'],
+};
+
+export const PARSED_EMAIL_OUTPUT: StructuredOutputSpec = {
+  name: 'parsed_email',
+  description: 'Shipping quote requests extracted from an email thread',
+  task: 'extraction',
+  schema: {
+    type: 'object',
+    properties: {
+      email_thread_summary: {
+        type: ['object', 'null'],
+        properties: {
+          thread_type: nullableString,
+          number_of_exchanges: nullableCount,
+          missing_information_requested: { type: ['array', 'null'], items: { type: 'string' } },
+          conversation_summary: nullableString,
+        },
+      },
+      client_info: {
+        type: ['object', 'null'],
+        properties: {
+          client_company_name: nullableString,
+          contact_person_name: nullableString,
+          contact_title: nullableString,
+          email_address: nullableString,
+          phone_number: nullableString,
+          company_address: nullableString,
+          client_type: nullableString,
+          industry_business_type: nullableString,
+          client_location_country: nullableString,
+        },
+      },
+      quotes: { type: 'array', items: EXTRACTED_QUOTE_SCHEMA },
+    },
+    required: ['client_info', 'quotes'],
+  },
+};
+
+// =============================================================================
+// PRICING REPLY EXTRACTION (PricingReplyResult)
+// =============================================================================
+
+const PRICING_DATA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    quoted_price: nullableAmount,
+    currency: nullableString,
+    price_type: { type: ['string', 'null'], enum: ['total', 'per_unit', 'per_container', null] },
+    price_breakdown: {
+      type: ['object', 'null'],
+      properties: {
+        linehaul: nullableAmount,
+        fuel_surcharge: nullableAmount,
+        accessorials: nullableAmount,
+        port_fees: nullableAmount,
+        other_charges: nullableAmount,
+      },
+    },
+    origin_city: nullableString,
+    origin_state: nullableString,
+    origin_country: nullableString,
+    destination_city: nullableString,
+    destination_state: nullableString,
+    destination_country: nullableString,
+    service_type: nullableString,
+    equipment_type: nullableString,
+    cargo_description: nullableString,
+    cargo_weight: nullableAmount,
+    weight_unit: nullableString,
+    container_size: nullableString,
+    number_of_pieces: nullableCount,
+    quote_valid_until: nullableString,
+    payment_terms: nullableString,
+    transit_time: nullableString,
+    notes: nullableString,
+  },
+  required: ['quoted_price', 'currency'],
+};
+
+export const PRICING_REPLY_OUTPUT: StructuredOutputSpec = {
+  name: 'pricing_reply',
+  description: 'Whether a staff reply email quotes prices, and the quotes it contains',
+  task: 'pricing',
+  schema: {
+    type: 'object',
+    properties: {
+      is_pricing_email: { type: 'boolean' },
+      confidence_score: { type: 'number', minimum: 0, maximum: 1 },
+      reason: nullableString,
+      quotes: { type: 'array', items: PRICING_DATA_SCHEMA },
+    },
+    required: ['is_pricing_email', 'confidence_score', 'quotes'],
+  },
+};
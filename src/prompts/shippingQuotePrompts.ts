@@ -472,6 +472,8 @@ interface PromptContext {
   historicalMatches?: unknown;
   quoteDetails?: unknown;
   followupNumber?: number;
+  /** Registered prompt version text used instead of the built-in prompt (extract_email, recommend_price) */
+  template?: string | null;
 }
 
 type PromptTask =
@@ -667,11 +669,11 @@ ${formattedMatches}
 export function getPromptForTask(task: PromptTask, context: PromptContext = {}): string {
   switch (task) {
     case 'extract_email':
-      return EMAIL_EXTRACTION_PROMPT;
+      return context.template || EMAIL_EXTRACTION_PROMPT;
 
     case 'recommend_price':
       return (
-        PRICING_RECOMMENDATION_PROMPT +
+        (context.template || PRICING_RECOMMENDATION_PROMPT) +
         (context.historicalMatches
           ? formatHistoricalMatches(context.historicalMatches as unknown[])
           : '')
@@ -691,7 +693,10 @@ export function getPromptForTask(task: PromptTask, context: PromptContext = {}):
     case 'draft_followup':
       return (
         QUOTE_FOLLOWUP_PROMPT +
-        (context.followupNumber ? `\n\n## THIS IS FOLLOW-UP #${context.followupNumber}` : '')
+        (context.followupNumber ? `\n\n## THIS IS FOLLOW-UP #${context.followupNumber}` : '') +
+        (context.quoteDetails
+          ? `\n\n## ORIGINAL QUOTE\n${JSON.stringify(context.quoteDetails, null, 2)}`
+          : '')
       );
 
     default:
@@ -699,6 +704,50 @@ export function getPromptForTask(task: PromptTask, context: PromptContext = {}):
   }
 }
 
+/**
+ * Fill {{NAME}} placeholders of a registered prompt template; unknown placeholders are left as-is
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{([A-Z_]+)\}\}/g, (placeholder, name: string) =>
+    name in values ? values[name]! : placeholder
+  );
+}
+
+/**
+ * Short extraction prompt for local models with small context windows (about 1k tokens, leaving
+ * room for the email); placeholders as in registered templates: {{EMAIL_CONTENT}}, {{TODAY}}
+ */
+export const COMPACT_EXTRACTION_PROMPT = `Extract shipping quote requests from the email below for a trucking, drayage and freight company. An email thread lists the newest message first; use the whole thread.
+
+The email may be one part of a longer email, marked "[Part N of M]". Extract only what this part states and use null for everything else.
+
+Email:
+{{EMAIL_CONTENT}}
+
+Return ONLY a JSON object, with no markdown and no explanation:
+{
+  "email_thread_summary": {"thread_type": "Initial Request/Follow-up/Quote Provided/Negotiation/Acceptance/Rejection", "number_of_exchanges": 1, "missing_information_requested": [], "conversation_summary": "One sentence"},
+  "client_info": {"client_company_name": null, "contact_person_name": null, "email_address": null, "phone_number": null},
+  "quotes": [
+    {
+      "origin_full_address": null, "origin_city": null, "origin_state_province": null, "origin_country": null, "origin_postal_code": null,
+      "destination_full_address": null, "destination_city": null, "destination_state_province": null, "destination_country": null, "destination_postal_code": null,
+      "cargo_length": null, "cargo_width": null, "cargo_height": null, "dimension_unit": "ft/in/m/cm",
+      "cargo_weight": null, "weight_unit": "lbs/kg/tons",
+      "number_of_pieces": null, "cargo_description": null, "hazardous_material": false,
+      "service_type": "Ground/Ocean/Air/Rail/Intermodal/Drayage/Transloading",
+      "equipment_type_requested": null, "urgency_level": "Rush/Hot/Standard/Flexible",
+      "initial_quote_amount": null, "final_agreed_price": null, "special_requirements": null
+    }
+  ]
+}
+
+Rules:
+- One entry in "quotes" per shipment (a different lane or cargo is a different shipment); an empty list if the email asks for no quote
+- Numbers are plain numbers without units or commas; units go in the unit fields
+- Use null for anything not stated; do not guess addresses, prices or dimensions
+- Today's date is {{TODAY}}; turn relative dates into actual dates`;
+
 export const PRICING_REPLY_EXTRACTION_PROMPT = `You are an experienced shipping and logistics coordinator reviewing email replies from your company's staff. Your job is to determine if an email contains pricing information (quotes) that were sent to customers.
 
 ## CONTEXT
@@ -871,6 +920,8 @@ export default {
   QUOTE_RESPONSE_EMAIL_PROMPT,
   QUOTE_FOLLOWUP_PROMPT,
   PRICING_REPLY_EXTRACTION_PROMPT,
+  COMPACT_EXTRACTION_PROMPT,
   getPromptForTask,
+  renderPromptTemplate,
   VALIDATION_RULES,
 };
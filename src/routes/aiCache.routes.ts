@@ -0,0 +1,26 @@
+/**
+ * AI Cache Routes
+ * Handles invalidation of cached AI extraction and pricing responses
+ * (hit-rate metrics: GET /api/analytics/ai-cache)
+ */
+
+import express, { Router } from 'express';
+import * as aiCacheController from '../controllers/aiCache.controller.js';
+
+const router: Router = express.Router();
+
+/**
+ * Invalidate cached AI responses; without query params every entry is deleted
+ * DELETE /api/ai-cache
+ * Query params: kind ('extraction' | 'pricing'), provider, model, promptVersion, emailId,
+ *               quoteId, expired ('true' deletes only expired entries)
+ */
+router.delete('/', aiCacheController.invalidateAICache);
+
+/**
+ * Invalidate one cached AI response
+ * DELETE /api/ai-cache/:key
+ */
+router.delete('/:key', aiCacheController.invalidateAICacheEntry);
+
+export default router;
@@ -0,0 +1,54 @@
+/**
+ * Analytics Routes
+ * Handles win-rate, price elasticity, prompt experiment, AI cost and AI cache endpoints
+ */
+
+import express, { Router } from 'express';
+import * as analyticsController from '../controllers/analytics.controller.js';
+
+const router: Router = express.Router();
+
+/**
+ * Overall win rate with all breakdowns
+ * GET /api/analytics/win-rate
+ * Query params: startDate, endDate
+ */
+router.get('/win-rate', analyticsController.getWinRate);
+
+/**
+ * Win probability of a price for a quote (must be before /win-rate/:dimension)
+ * GET /api/analytics/win-rate/probability
+ * Query params: quoteId, price
+ */
+router.get('/win-rate/probability', analyticsController.getWinProbability);
+
+/**
+ * Win rate and win-probability curves by lane, service_type, cargo_category or price_delta
+ * GET /api/analytics/win-rate/:dimension
+ * Query params: startDate, endDate
+ */
+router.get('/win-rate/:dimension', analyticsController.getWinRateByDimension);
+
+/**
+ * Acceptance rate, price error and correction rate per prompt version
+ * GET /api/analytics/prompt-versions
+ * Query params: task ('extraction' | 'pricing', default: 'pricing'), startDate, endDate
+ */
+router.get('/prompt-versions', analyticsController.getPromptVersionComparison);
+
+/**
+ * AI calls, tokens and cost per day and provider, with totals per model and operation
+ * and the monthly budget status (AI_MONTHLY_BUDGET_USD)
+ * GET /api/analytics/ai-costs
+ * Query params: startDate (default: 30 days ago), endDate, provider
+ */
+router.get('/ai-costs', analyticsController.getAICosts);
+
+/**
+ * AI response cache hits, misses and hit rate per day and kind, with cached entry counts
+ * GET /api/analytics/ai-cache
+ * Query params: startDate (default: 30 days ago), endDate
+ */
+router.get('/ai-cache', analyticsController.getAICacheStats);
+
+export default router;
@@ -0,0 +1,24 @@
+/**
+ * Fuel Index Routes
+ * Handles weekly diesel index endpoints
+ */
+
+import express, { Router } from 'express';
+import * as fuelIndexController from '../controllers/fuelIndex.controller.js';
+
+const router: Router = express.Router();
+
+/**
+ * Weekly diesel index
+ * GET /api/fuel-index
+ */
+router.get('/', fuelIndexController.getFuelIndex);
+
+/**
+ * Import weekly diesel averages from CSV
+ * POST /api/fuel-index/import
+ * Body: { csv: string, source?: string }   // e.g. EIA weekly U.S. No 2 diesel retail prices
+ */
+router.post('/import', fuelIndexController.importFuelIndex);
+
+export default router;
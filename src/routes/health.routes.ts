@@ -20,6 +20,12 @@ router.get('/', healthController.healthCheck);
  */
 router.get('/stats', healthController.getStats);
 
+/**
+ * AI provider configuration, fallback chain and circuit breaker states
+ * GET /api/health/ai-providers
+ */
+router.get('/ai-providers', healthController.getAIProviderStatus);
+
 /**
  * Test Microsoft Graph connection
  * GET /api/test/graph
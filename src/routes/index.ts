@@ -9,6 +9,12 @@ import quoteRoutes from './quote.routes.js';
 import healthRoutes from './health.routes.js';
 import jobRoutes from './job.routes.js';
 import matchRoutes from './match.routes.js';
+import webhookRoutes from './webhook.routes.js';
+import analyticsRoutes from './analytics.routes.js';
+import rateCardRoutes from './rateCard.routes.js';
+import fuelIndexRoutes from './fuelIndex.routes.js';
+import promptRoutes from './prompt.routes.js';
+import aiCacheRoutes from './aiCache.routes.js';
 
 const router: Router = express.Router();
 
@@ -18,5 +24,11 @@ router.use('/quotes', quoteRoutes);
 router.use('/health', healthRoutes);
 router.use('/jobs', jobRoutes);
 router.use('/matches', matchRoutes);
+router.use('/webhooks', webhookRoutes);
+router.use('/analytics', analyticsRoutes);
+router.use('/rate-cards', rateCardRoutes);
+router.use('/fuel-index', fuelIndexRoutes);
+router.use('/prompts', promptRoutes);
+router.use('/ai-cache', aiCacheRoutes);
 
 export default router;
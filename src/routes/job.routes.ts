@@ -15,6 +15,12 @@ const router: Router = express.Router();
  */
 router.get('/statistics', statusCheckLimiter, jobController.getJobStatistics);
 
+/**
+ * Get recurring job schedules
+ * GET /api/jobs/schedules
+ */
+router.get('/schedules', statusCheckLimiter, jobController.getJobSchedules);
+
 /**
  * Get all jobs
  * GET /api/jobs
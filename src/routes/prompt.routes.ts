@@ -0,0 +1,47 @@
+/**
+ * Prompt Routes
+ * Handles prompt version registry and traffic split endpoints
+ */
+
+import express, { Router } from 'express';
+import * as promptController from '../controllers/prompt.controller.js';
+
+const router: Router = express.Router();
+
+/**
+ * List prompt versions
+ * GET /api/prompts
+ * Query params: task ('extraction' | 'pricing')
+ */
+router.get('/', promptController.getPromptVersions);
+
+/**
+ * Register a prompt version
+ * POST /api/prompts
+ * Body: {
+ *   task: 'extraction' | 'pricing',
+ *   version: string,                    // e.g. 'v2-terse'; unique per task
+ *   template: string,                   // extraction: {{EMAIL_CONTENT}}, {{EXAMPLES}}, {{TODAY}}
+ *                                       // pricing: historical matches and the quote are appended
+ *   description?: string,
+ *   trafficWeight?: number,             // default: 0 (registered without traffic)
+ *   isActive?: boolean,                 // default: true
+ *   createdBy?: string
+ * }
+ */
+router.post('/', promptController.createPromptVersion);
+
+/**
+ * Get a prompt version by ID
+ * GET /api/prompts/:id
+ */
+router.get('/:id', promptController.getPromptVersionById);
+
+/**
+ * Change the traffic split of a prompt version (templates are immutable)
+ * PATCH /api/prompts/:id
+ * Body: { trafficWeight?: number, isActive?: boolean, description?: string }
+ */
+router.patch('/:id', promptController.updatePromptVersion);
+
+export default router;
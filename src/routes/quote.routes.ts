@@ -5,6 +5,7 @@
 
 import express, { Router } from 'express';
 import * as quoteController from '../controllers/quote.controller.js';
+import { generalApiLimiter } from '../middleware/rateLimiter.js';
 
 const router: Router = express.Router();
 
@@ -14,18 +15,122 @@ const router: Router = express.Router();
  */
 router.get('/', quoteController.getAllQuotes);
 
+/**
+ * Accessorial charge catalog
+ * GET /api/quotes/accessorials
+ */
+router.get('/accessorials', quoteController.getAccessorialCatalog);
+
+/**
+ * Follow-up worklist
+ * GET /api/quotes/follow-ups
+ */
+router.get('/follow-ups', quoteController.getFollowUps);
+
+/**
+ * Draft follow-up emails for due quotes (background job)
+ * POST /api/quotes/follow-ups/draft
+ */
+router.post('/follow-ups/draft', generalApiLimiter, quoteController.draftFollowUps);
+
+/**
+ * Snooze a quote on the follow-up worklist
+ * POST /api/quotes/follow-ups/:id/snooze
+ */
+router.post('/follow-ups/:id/snooze', quoteController.snoozeFollowUp);
+
+/**
+ * Dismiss a quote from the follow-up worklist
+ * POST /api/quotes/follow-ups/:id/dismiss
+ */
+router.post('/follow-ups/:id/dismiss', quoteController.dismissFollowUp);
+
+/**
+ * Reopen a snoozed or dismissed follow-up
+ * DELETE /api/quotes/follow-ups/:id
+ */
+router.delete('/follow-ups/:id', quoteController.reopenFollowUp);
+
+/**
+ * Compute and store route distances for quotes (background job)
+ * POST /api/quotes/distances/backfill
+ */
+router.post('/distances/backfill', generalApiLimiter, quoteController.backfillQuoteDistances);
+
+/**
+ * Corrected (email, extraction) pairs as an evaluation/few-shot dataset
+ * GET /api/quotes/corrections/export
+ */
+router.get('/corrections/export', quoteController.exportCorrections);
+
 /**
  * Get a single quote by ID
  * GET /api/quotes/:id
  */
 router.get('/:id', quoteController.getQuoteById);
 
+/**
+ * Correct AI-extracted fields and re-run matching
+ * PATCH /api/quotes/:id
+ * Body: { fields: { origin_city: 'Houston', cargo_weight: 42000 }, correctedBy, reason?, rematch? }
+ */
+router.patch('/:id', quoteController.correctQuote);
+
+/**
+ * Field correction log for a quote
+ * GET /api/quotes/:id/corrections
+ */
+router.get('/:id/corrections', quoteController.getQuoteCorrections);
+
 /**
  * Search quotes by criteria
  * POST /api/quotes/search
  */
 router.post('/search', quoteController.searchQuotes);
 
+/**
+ * Draft a quote response or follow-up email
+ * POST /api/quotes/:id/draft-response
+ */
+router.post('/:id/draft-response', generalApiLimiter, quoteController.draftQuoteResponse);
+
+/**
+ * List draft versions for a quote
+ * GET /api/quotes/:id/drafts
+ */
+router.get('/:id/drafts', quoteController.getQuoteDrafts);
+
+/**
+ * Get a single draft version
+ * GET /api/quotes/:id/drafts/:version
+ */
+router.get('/:id/drafts/:version', quoteController.getQuoteDraft);
+
+/**
+ * Save edits to the current draft as a new version
+ * PATCH /api/quotes/:id/drafts/:version
+ */
+router.patch('/:id/drafts/:version', quoteController.reviseQuoteDraft);
+
+/**
+ * Move a quote to a new lifecycle status
+ * PATCH /api/quotes/:id/status
+ */
+router.patch('/:id/status', quoteController.updateQuoteStatus);
+
+/**
+ * Lifecycle history for a quote
+ * GET /api/quotes/:id/status-history
+ */
+router.get('/:id/status-history', quoteController.getQuoteStatusHistory);
+
+/**
+ * Itemized price with accessorials attached from quote flags and OOG analysis
+ * POST /api/quotes/:id/itemized-price
+ * Body: { linehaul?, include?: [{ code, quantity? }], exclude?: [code], distanceMiles? }
+ */
+router.post('/:id/itemized-price', quoteController.buildItemizedPrice);
+
 /**
  * Delete a quote by ID
  * DELETE /api/quotes/:id
@@ -0,0 +1,66 @@
+/**
+ * Rate Card Routes
+ * Handles negotiated lane rate endpoints
+ */
+
+import express, { Router } from 'express';
+import * as rateCardController from '../controllers/rateCard.controller.js';
+
+const router: Router = express.Router();
+
+/**
+ * List rate cards
+ * GET /api/rate-cards
+ * Query params: client (that customer's cards plus global ones), activeOn (YYYY-MM-DD)
+ */
+router.get('/', rateCardController.getRateCards);
+
+/**
+ * Rate card that applies to a quote today (must be before /:id)
+ * GET /api/rate-cards/quote/:quoteId
+ */
+router.get('/quote/:quoteId', rateCardController.getRateCardForQuote);
+
+/**
+ * Create a rate card
+ * POST /api/rate-cards
+ * Body: {
+ *   name: string,
+ *   clientCompanyName?: string,         // Omit for a global rate
+ *   originRegion?, originCity?, originState?, originCountry?,
+ *   destinationRegion?, destinationCity?, destinationState?, destinationCountry?,
+ *   serviceType?: string,               // e.g. 'GROUND', 'DRAYAGE'
+ *   equipmentType?: string,             // e.g. 'FLATBED', 'DRY_VAN'
+ *   rateType?: 'flat' | 'per_mile',     // default: 'flat'
+ *   rateAmount: number,
+ *   minimumCharge?: number,
+ *   currency?: string,                  // default: 'USD'
+ *   validFrom?: string,                 // default: today
+ *   validUntil?: string,
+ *   isActive?: boolean,
+ *   notes?: string,
+ *   createdBy?: string
+ * }
+ */
+router.post('/', rateCardController.createRateCard);
+
+/**
+ * Get a rate card by ID
+ * GET /api/rate-cards/:id
+ */
+router.get('/:id', rateCardController.getRateCardById);
+
+/**
+ * Update fields of a rate card
+ * PATCH /api/rate-cards/:id
+ * Body: any of the create fields
+ */
+router.patch('/:id', rateCardController.updateRateCard);
+
+/**
+ * Delete a rate card
+ * DELETE /api/rate-cards/:id
+ */
+router.delete('/:id', rateCardController.deleteRateCard);
+
+export default router;
@@ -0,0 +1,40 @@
+/**
+ * Webhook Routes
+ * Handles Microsoft Graph change notifications and subscriptions
+ */
+
+import express, { Router } from 'express';
+import * as webhookController from '../controllers/webhook.controller.js';
+import { generalApiLimiter } from '../middleware/rateLimiter.js';
+
+const router: Router = express.Router();
+
+/**
+ * Graph change notifications (and subscription validation handshake)
+ * POST /api/webhooks/graph
+ */
+router.post('/graph', webhookController.receiveGraphNotification);
+
+/**
+ * List Graph subscriptions
+ * GET /api/webhooks/graph/subscriptions
+ */
+router.get('/graph/subscriptions', generalApiLimiter, webhookController.getGraphSubscriptions);
+
+/**
+ * Create or renew the mailbox subscription
+ * POST /api/webhooks/graph/subscriptions
+ */
+router.post('/graph/subscriptions', generalApiLimiter, webhookController.ensureGraphSubscription);
+
+/**
+ * Delete a Graph subscription
+ * DELETE /api/webhooks/graph/subscriptions/:id
+ */
+router.delete(
+  '/graph/subscriptions/:id',
+  generalApiLimiter,
+  webhookController.deleteGraphSubscription
+);
+
+export default router;
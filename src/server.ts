@@ -17,6 +17,8 @@ import {
 } from './middleware/errorHandler.js';
 import { API_INFO, ENDPOINTS, RATE_LIMITS } from './config/constants.js';
 import { logStartup } from './utils/logger.js';
+import jobProcessor from './services/jobProcessor.js';
+import jobScheduler from './services/jobScheduler.js';
 
 dotenv.config();
 
@@ -59,12 +61,24 @@ app.use(notFoundHandler);
 app.use(errorHandler);
 
 // Start server
-app.listen(PORT, () => logStartup(PORT));
+app.listen(PORT, () => {
+  logStartup(PORT);
+  jobProcessor.start().catch((err) => {
+    console.error('Failed to start job queue:', err);
+  });
+  jobScheduler.start().catch((err) => {
+    console.error('Failed to start job scheduler:', err);
+  });
+});
 
 // Graceful shutdown
 const shutdown = (signal: string): void => {
   console.log(`\n${signal} received. Shutting down gracefully...`);
-  process.exit(0);
+  jobScheduler.stop();
+  jobProcessor
+    .stop()
+    .catch((err) => console.error('Error stopping job queue:', err))
+    .finally(() => process.exit(0));
 };
 
 process.on('SIGTERM', () => shutdown('SIGTERM'));
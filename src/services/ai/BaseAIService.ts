@@ -4,9 +4,35 @@
  */
 
 import dotenv from 'dotenv';
-import type { Email, ParsedEmailData, Quote, QuoteMatch, AIPricingDetails, PricingReplyResult } from '../../types/index.js';
+import type {
+  Email,
+  ParsedEmailData,
+  Quote,
+  QuoteMatch,
+  AIPricingDetails,
+  PricingReplyResult,
+  QuoteDraftType,
+  GeneratedEmailDraft,
+  SchemaFieldError,
+  StructuredOutputSpec,
+  ExtractedFieldProvenance,
+  FieldConfidence,
+  FieldSourceType,
+  ExtractionExample,
+  AIUsageOperation,
+  AICacheKind,
+} from '../../types/index.js';
 import type { RouteDistance } from '../googleMapsService.js';
-import { PRICING_REPLY_EXTRACTION_PROMPT, getPromptForTask } from '../../prompts/shippingQuotePrompts.js';
+import aiUsageService from '../aiUsageService.js';
+import aiCacheService from '../aiCacheService.js';
+import { BUILTIN_PROMPT_VERSION } from '../promptRegistryService.js';
+import {
+  PRICING_REPLY_EXTRACTION_PROMPT,
+  getPromptForTask,
+  renderPromptTemplate,
+} from '../../prompts/shippingQuotePrompts.js';
+import { PRICING_REPLY_OUTPUT } from '../../prompts/outputSchemas.js';
+import { formatSchemaErrors, validateJsonSchema } from '../../utils/jsonSchema.js';
 dotenv.config();
 
 interface BatchParseResult {
@@ -27,17 +53,149 @@ export interface GenerationOptions {
   responseMimeType?: string;
 }
 
+// Cap on the invalid response echoed back in a repair prompt
+const MAX_REPAIR_ECHO_CHARS = 20000;
+// Smallest part prepareEmailContentChunks splits email text into
+const MIN_CHUNK_CHARS = 1000;
+
+const ATTACHMENT_SEPARATOR =
+  '\n\n========================================\nATTACHMENT CONTENT:\n========================================\n';
+
+/**
+ * Split text into pieces of at most maxChars, preferring paragraph, line, sentence and word breaks
+ */
+function splitText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const breakAt = ['\n\n', '\n', '. ', ' ']
+      .map((separator) => window.lastIndexOf(separator) + separator.length)
+      .find((index) => index > maxChars / 2);
+    const cut = breakAt ?? maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Structured output that still fails schema validation after the repair retry
+ */
+export class StructuredOutputError extends Error {
+  fieldErrors: SchemaFieldError[];
+
+  constructor(outputName: string, fieldErrors: SchemaFieldError[]) {
+    super(`${outputName} output failed schema validation (${fieldErrors.length} field error(s))`);
+    this.name = 'StructuredOutputError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
 export default abstract class BaseAIService {
   serviceName: string;
+  /** Provider key recorded with extraction and pricing results (e.g. 'claude') */
+  provider: string;
 
-  constructor(serviceName = 'BaseAI') {
+  constructor(serviceName = 'BaseAI', provider = serviceName.toLowerCase()) {
     this.serviceName = serviceName;
+    this.provider = provider;
+  }
+
+  /**
+   * Record the tokens reported by a provider SDK call against the current usage context
+   */
+  protected recordUsage(
+    model: string,
+    inputTokens: number | null | undefined,
+    outputTokens: number | null | undefined,
+    operation?: AIUsageOperation
+  ): void {
+    aiUsageService.record(this.provider, model, { inputTokens, outputTokens }, operation);
   }
 
   /**
    * Abstract method - must be implemented by child classes
+   * promptTemplate is a registered extraction prompt version used instead of the built-in prompt,
+   * examples are reviewed extractions shown to the model as few-shot examples
+   */
+  abstract extractEmail(
+    email: Email,
+    maxRetries?: number,
+    attachmentText?: string,
+    promptTemplate?: string | null,
+    examples?: ExtractionExample[]
+  ): Promise<ParsedEmailData | null>;
+
+  /**
+   * Model used for a task (extraction or pricing), part of the AI response cache key
+   * Providers override this; the default is the provider key
    */
-  abstract parseEmail(email: Email, maxRetries?: number, attachmentText?: string): Promise<ParsedEmailData | null>;
+  getModelName(task?: AICacheKind): string {
+    return this.provider;
+  }
+
+  /**
+   * Parse an email to extract shipping quote data
+   * The cached extraction of identical content (same sender and day, attachments, prompt, few-shot
+   * examples and model) is returned when there is one; otherwise the provider extracts it and the
+   * result is cached
+   */
+  async parseEmail(
+    email: Email,
+    maxRetries = 3,
+    attachmentText = '',
+    promptTemplate: string | null = null,
+    promptVersion: string = BUILTIN_PROMPT_VERSION,
+    examples: ExtractionExample[] = []
+  ): Promise<ParsedEmailData | null> {
+    const model = this.getModelName('extraction');
+    const cacheKey = aiCacheService.getExtractionKey({
+      senderAddress: email.from?.emailAddress?.address || '',
+      receivedDateTime: email.receivedDateTime || '',
+      subject: email.subject || '',
+      bodyText: this.getEmailBodyText(email),
+      attachmentHashes: aiCacheService.hashAttachments(attachmentText),
+      promptVersion,
+      prompt: this.getExtractionPrompt('', examples, promptTemplate).replace(
+        /\d{4}-\d{2}-\d{2}/g,
+        ''
+      ),
+      provider: this.provider,
+      model,
+    });
+
+    const cached = await aiCacheService.get<ParsedEmailData>(
+      'extraction',
+      cacheKey,
+      email.id || null
+    );
+    if (cached) {
+      console.log(`  Cache hit: reusing the extraction of identical content (${cacheKey.slice(0, 12)})`);
+      return cached;
+    }
+
+    const parsedData = await this.extractEmail(
+      email,
+      maxRetries,
+      attachmentText,
+      promptTemplate,
+      examples
+    );
+    if (parsedData) {
+      await aiCacheService.save({
+        cacheKey,
+        kind: 'extraction',
+        provider: parsedData.ai_provider || this.provider,
+        model,
+        promptVersion,
+        response: parsedData,
+        emailId: email.id || null,
+      });
+    }
+    return parsedData;
+  }
 
   /**
    * Abstract method - must be implemented by child classes
@@ -49,20 +207,128 @@ export default abstract class BaseAIService {
    */
   abstract generateResponse(prompt: string, options?: GenerationOptions): Promise<string>;
 
+  /**
+   * Generate a response and report the provider that produced it
+   * A fallback chain reports the provider that answered, not itself
+   */
+  async generateResponseWithProvider(
+    prompt: string,
+    options: GenerationOptions = {}
+  ): Promise<{ text: string; provider: string }> {
+    return { text: await this.generateResponse(prompt, options), provider: this.provider };
+  }
+
+  /**
+   * Abstract method - must be implemented by child classes
+   * Returns JSON text produced through the provider's native structured output for the schema
+   */
+  abstract generateStructuredResponse(
+    prompt: string,
+    spec: StructuredOutputSpec,
+    options?: GenerationOptions
+  ): Promise<string>;
+
+  /**
+   * Email body as plain text (HTML tags stripped)
+   */
+  getEmailBodyText(email: Email): string {
+    const bodyContent = email.body?.content || email.bodyPreview || '';
+    return email.body?.contentType === 'html'
+      ? bodyContent.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ')
+      : bodyContent;
+  }
+
   /**
    * Prepare email content for AI parsing
    */
   prepareEmailContent(email: Email, attachmentText = ''): string {
+    let content = `${this.formatEmailHeader(email)}Body:
+${this.getPromptBodyText(email)}
+`;
+
+    if (attachmentText && attachmentText.trim()) {
+      content += `${ATTACHMENT_SEPARATOR}${attachmentText}`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Prepare email content split into parts of at most maxChars, for models with small context
+   * windows. Every part repeats the email headers; the body and then the attachment text are
+   * split on paragraph, line or sentence boundaries. Content that fits is returned as one part.
+   */
+  prepareEmailContentChunks(email: Email, attachmentText = '', maxChars: number): string[] {
+    const content = this.prepareEmailContent(email, attachmentText);
+    if (content.length <= maxChars) {
+      return [content];
+    }
+
+    const header = this.formatEmailHeader(email);
+    // Room for text in one part, after the headers, separators and part marker
+    const room = Math.max(
+      MIN_CHUNK_CHARS,
+      maxChars - header.length - ATTACHMENT_SEPARATOR.length - 40
+    );
+    const pieces = [
+      ...splitText(this.getPromptBodyText(email), room).map((text) => ({ text, attachment: false })),
+      ...splitText(attachmentText, room).map((text) => ({ text, attachment: true })),
+    ];
+
+    const parts: { body: string; attachment: string }[] = [];
+    let current = { body: '', attachment: '' };
+    for (const piece of pieces) {
+      if (current.body.length + current.attachment.length + piece.text.length > room) {
+        parts.push(current);
+        current = { body: '', attachment: '' };
+      }
+      if (piece.attachment) {
+        current.attachment += (current.attachment ? '\n' : '') + piece.text;
+      } else {
+        current.body += (current.body ? '\n' : '') + piece.text;
+      }
+    }
+    parts.push(current);
+
+    const chunks = parts
+      .filter((part) => part.body || part.attachment)
+      .map((part, i, all) => {
+        let chunk = `${header}Body:
+[Part ${i + 1} of ${all.length}]
+${part.body || '(body in an earlier part)'}
+`;
+        if (part.attachment) {
+          chunk += `${ATTACHMENT_SEPARATOR}${part.attachment}`;
+        }
+        return chunk;
+      });
+
+    console.log(`  Email content (${content.length} chars) split into ${chunks.length} parts`);
+    return chunks;
+  }
+
+  /**
+   * Subject, sender and date lines that start the prepared email content
+   */
+  formatEmailHeader(email: Email): string {
     const subject = email.subject || '';
     const senderName = email.from?.emailAddress?.name || '';
     const senderAddress = email.from?.emailAddress?.address || '';
     const receivedDate = email.receivedDateTime || '';
 
-    let bodyContent = email.body?.content || email.bodyPreview || '';
+    return `
+Subject: ${subject}
+From: ${senderName} <${senderAddress}>
+Date: ${receivedDate}
 
-    if (email.body?.contentType === 'html') {
-      bodyContent = bodyContent.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ');
-    }
+`;
+  }
+
+  /**
+   * Email body text for a prompt, truncated to MAX_BODY_CHARS
+   */
+  getPromptBodyText(email: Email): string {
+    let bodyContent = this.getEmailBodyText(email);
 
     const MAX_BODY_CHARS = parseInt(process.env.MAX_BODY_CHARS || '15000');
     if (bodyContent.length > MAX_BODY_CHARS) {
@@ -71,27 +337,130 @@ export default abstract class BaseAIService {
         bodyContent.substring(0, MAX_BODY_CHARS) + '\n\n[... Email truncated due to length ...]';
     }
 
-    let content = `
-Subject: ${subject}
-From: ${senderName} <${senderAddress}>
-Date: ${receivedDate}
+    return bodyContent;
+  }
 
-Body:
-${bodyContent}
-`;
+  /**
+   * Combine the extractions of the parts of one email: client fields missing from the first
+   * part are taken from later parts, and a later part's quote completes the quote for the same
+   * lane (or the only quote, when it names no lane) instead of being added again
+   */
+  mergeChunkExtractions(results: ParsedEmailData[]): ParsedEmailData {
+    const [first, ...rest] = results;
+    if (!first) {
+      return { quotes: [] };
+    }
 
-    if (attachmentText && attachmentText.trim()) {
-      content += `\n\n========================================\nATTACHMENT CONTENT:\n========================================\n${attachmentText}`;
+    const merged: ParsedEmailData = {
+      ...first,
+      client_info: { ...first.client_info },
+      quotes: (first.quotes || []).map((quote) => ({ ...quote })),
+    };
+    const laneKey = (quote: Quote): string | null =>
+      quote.origin_city || quote.destination_city
+        ? `${quote.origin_city || ''}|${quote.destination_city || ''}`.toLowerCase()
+        : null;
+
+    for (const result of rest) {
+      const clientInfo = merged.client_info as Record<string, unknown>;
+      for (const [field, value] of Object.entries(result.client_info || {})) {
+        if ((clientInfo[field] === null || clientInfo[field] === undefined) && value !== null) {
+          clientInfo[field] = value;
+        }
+      }
+
+      for (const quote of result.quotes || []) {
+        const key = laneKey(quote);
+        const target = key
+          ? merged.quotes.find((existing) => laneKey(existing) === key) ??
+            merged.quotes.find((existing) => laneKey(existing) === null)
+          : merged.quotes.length === 1
+            ? merged.quotes[0]
+            : undefined;
+
+        if (!target) {
+          if (key) {
+            merged.quotes.push({ ...quote });
+          } else {
+            console.log('  Warning: Ignoring a quote without a lane from a later email part');
+          }
+          continue;
+        }
+
+        const fields = target as Record<string, unknown>;
+        for (const [field, value] of Object.entries(quote)) {
+          if (field === 'field_provenance') continue;
+          if ((fields[field] === null || fields[field] === undefined) && value !== null) {
+            fields[field] = value;
+          }
+        }
+        if (quote.field_provenance?.length) {
+          target.field_provenance = [...(target.field_provenance || []), ...quote.field_provenance];
+        }
+      }
     }
 
-    return content;
+    merged.quotes.forEach((quote, i) => {
+      quote.quote_sequence_number = i + 1;
+    });
+    return merged;
+  }
+
+  /**
+   * Prompt section with reviewed extractions of earlier emails, and the fields the model got wrong
+   */
+  formatExtractionExamples(examples: ExtractionExample[]): string {
+    if (examples.length === 0) return '';
+
+    const formatted = examples.map((example, i) => {
+      const fields = Object.fromEntries(
+        Object.entries(example.corrected).filter(([, value]) => value !== null)
+      );
+      const mistakes = example.correctedFields
+        .map((field) => `${field}: ${JSON.stringify(example.extracted[field])} -> ${JSON.stringify(example.corrected[field])}`)
+        .join('\n');
+
+      return `--- Example ${i + 1} ---
+Subject: ${example.email.subject || ''}
+Body:
+${example.email.body || ''}
+
+Correct quote fields:
+${JSON.stringify(fields, null, 2)}
+
+Previously extracted incorrectly (wrong -> correct):
+${mistakes}`;
+    });
+
+    return `
+
+========================================
+EXAMPLES FROM REVIEWED EMAILS
+========================================
+These quotes were extracted from earlier emails and corrected by staff. Use them to avoid the same mistakes.
+
+${formatted.join('\n\n')}
+`;
   }
 
   /**
-   * Get the standard extraction prompt
+   * Get the standard extraction prompt, with few-shot examples from reviewed emails when given
+   * A registered prompt template replaces the standard prompt ({{EMAIL_CONTENT}}, {{EXAMPLES}}, {{TODAY}})
    */
-  getExtractionPrompt(emailContent: string): string {
-    const today = new Date().toISOString().split('T')[0];
+  getExtractionPrompt(
+    emailContent: string,
+    examples: ExtractionExample[] = [],
+    template: string | null = null
+  ): string {
+    const today = new Date().toISOString().split('T')[0]!;
+    if (template) {
+      return renderPromptTemplate(template, {
+        EMAIL_CONTENT: emailContent,
+        EXAMPLES: this.formatExtractionExamples(examples),
+        TODAY: today,
+      });
+    }
+
     return `You are an expert data extraction assistant for Seahorse Express, a specialized shipping and 3PL logistics company focused on OVERWEIGHT and OVERSIZED cargo transport.
 
 CRITICAL CONTEXT - READ CAREFULLY:
@@ -155,7 +524,10 @@ Return a JSON object with this structure:
       "initial_quote_amount": 0.0,
       "final_agreed_price": null,
       "urgency_level": "Rush/Hot/Standard/Flexible",
-      "special_requirements": "All special notes and requirements"
+      "special_requirements": "All special notes and requirements",
+      "field_provenance": [
+        {"field": "origin_city", "confidence": 0.95, "source": "body", "excerpt": "pick up at our Houston, TX yard"}
+      ]
     }
   ]
 }
@@ -168,6 +540,12 @@ JSON FORMAT:
 - All field names must be in double quotes
 - Use null for missing fields (not "null" string, not empty string, but actual null)
 
+FIELD CONFIDENCE AND SOURCE:
+- For every non-null field of a quote, add a "field_provenance" entry with the field name, a confidence from 0 to 1 and the source: "subject", "body", "attachment" or "inferred"
+- "excerpt" is the shortest verbatim text (under 100 characters, copied exactly) the value was read from
+- Use "inferred" with confidence 0.5 or lower when the value was guessed or derived (e.g. a state from a city, a unit from context) and set excerpt to null
+- Use confidence 0.9 or higher only when the value is stated explicitly
+${this.formatExtractionExamples(examples)}
 Handle relative dates: "next Monday" → calculate actual date based on email date. Today's date is ${today}.
 
 Return complete, accurate JSON following this structure exactly.`;
@@ -191,6 +569,118 @@ Return complete, accurate JSON following this structure exactly.`;
     return JSON.parse(cleanedText) as ParsedEmailData;
   }
 
+  /**
+   * Parse a structured response and validate it against the output schema
+   * Unparseable JSON is reported as a single error on the root path
+   */
+  parseAndValidate(responseText: string, spec: StructuredOutputSpec): { value: unknown; errors: SchemaFieldError[] } {
+    let value: unknown;
+    try {
+      value = this.cleanAndParseResponse(responseText);
+    } catch (error) {
+      return { value: null, errors: [{ path: '$', message: `invalid JSON: ${(error as Error).message}` }] };
+    }
+    return { value, errors: validateJsonSchema(value, spec.schema) };
+  }
+
+  /**
+   * Prompt asking the model to correct its previous output
+   */
+  getRepairPrompt(prompt: string, responseText: string, errors: SchemaFieldError[]): string {
+    return `${prompt}
+
+========================================
+YOUR PREVIOUS RESPONSE FAILED VALIDATION
+========================================
+
+Previous response:
+${responseText.slice(0, MAX_REPAIR_ECHO_CHARS)}
+
+Field errors:
+${formatSchemaErrors(errors)}
+
+Return the complete corrected JSON. Fix only the fields listed above and keep every other value unchanged.`;
+  }
+
+  /**
+   * Generate output that conforms to a schema using the provider's native structured output
+   * Invalid output gets one automatic repair retry with its field errors; if that also fails,
+   * a StructuredOutputError is thrown
+   */
+  async generateStructured<T>(prompt: string, spec: StructuredOutputSpec, options: GenerationOptions = {}): Promise<T> {
+    const responseText = await this.generateStructuredResponse(prompt, spec, options);
+    const first = this.parseAndValidate(responseText, spec);
+    if (first.errors.length === 0) {
+      return first.value as T;
+    }
+
+    console.warn(
+      `  Warning: ${this.serviceName} ${spec.name} output failed validation, retrying with repair prompt:\n${formatSchemaErrors(first.errors)}`
+    );
+    const repairedText = await this.generateStructuredResponse(
+      this.getRepairPrompt(prompt, responseText, first.errors),
+      spec,
+      options
+    );
+    const repaired = this.parseAndValidate(repairedText, spec);
+    if (repaired.errors.length > 0) {
+      throw new StructuredOutputError(spec.name, repaired.errors);
+    }
+
+    console.log(`  Repaired ${spec.name} output with ${this.serviceName}`);
+    return repaired.value as T;
+  }
+
+  /**
+   * Turn each quote's field_provenance from the model into a stored field_confidence map,
+   * locating every excerpt in the subject, body or attachment text it came from
+   */
+  resolveFieldProvenance(parsedData: ParsedEmailData, email: Email, attachmentText = ''): ParsedEmailData {
+    const subject = email.subject || '';
+    const body = this.getEmailBodyText(email);
+    const attachmentHeaders = [...attachmentText.matchAll(/--- Content from (.+?) ---\n/g)];
+
+    const locate = (haystack: string, excerpt: string): number => {
+      const exact = haystack.indexOf(excerpt);
+      return exact >= 0 ? exact : haystack.toLowerCase().indexOf(excerpt.toLowerCase());
+    };
+
+    const resolve = (entry: ExtractedFieldProvenance): FieldConfidence => {
+      const confidence = Math.min(1, Math.max(0, Number(entry.confidence) || 0));
+      const excerpt = entry.excerpt?.trim() || null;
+      const unlocated: FieldConfidence = { confidence, source: entry.source, attachmentName: null, offset: null, excerpt };
+      if (!excerpt || entry.source === 'inferred') return unlocated;
+
+      // Search the source the model named first, then the others
+      const order: FieldSourceType[] = [entry.source, 'body', 'attachment', 'subject'];
+      for (const source of new Set(order)) {
+        const text = source === 'subject' ? subject : source === 'body' ? body : attachmentText;
+        const index = text ? locate(text, excerpt) : -1;
+        if (index < 0) continue;
+
+        if (source !== 'attachment') {
+          return { ...unlocated, source, offset: index };
+        }
+        const header = attachmentHeaders.filter((h) => (h.index ?? 0) <= index).pop();
+        const start = header ? header.index! + header[0].length : 0;
+        return { ...unlocated, source, attachmentName: header?.[1] ?? null, offset: index - start };
+      }
+      return unlocated;
+    };
+
+    for (const quote of parsedData.quotes || []) {
+      const provenance = Array.isArray(quote.field_provenance) ? quote.field_provenance : [];
+      delete quote.field_provenance;
+      if (provenance.length === 0) continue;
+
+      quote.field_confidence = Object.fromEntries(
+        provenance.filter((entry) => entry?.field).map((entry) => [entry.field, resolve(entry)])
+      );
+    }
+
+    return parsedData;
+  }
+
   /**
    * Calculate confidence score based on filled fields
    */
@@ -207,8 +697,10 @@ Return complete, accurate JSON following this structure exactly.`;
     ).length;
 
     for (const quote of parsedData.quotes) {
-      const quoteFields = Object.keys(quote).length;
-      const filledQuoteFields = Object.values(quote).filter(
+      // Provenance metadata is not an extracted field
+      const { field_confidence: _confidence, field_provenance: _provenance, ...fields } = quote;
+      const quoteFields = Object.keys(fields).length;
+      const filledQuoteFields = Object.values(fields).filter(
         (v) => v !== null && v !== '' && v !== 0
       ).length;
 
@@ -250,6 +742,11 @@ Return complete, accurate JSON following this structure exactly.`;
           return null;
         }
 
+        if (error instanceof StructuredOutputError) {
+          console.error(`  Error: ${this.serviceName} ${error.message}:\n${formatSchemaErrors(error.fieldErrors)}`);
+          return null;
+        }
+
         console.error(`  Error: ${this.serviceName} API error:`, err.message || String(error));
 
         if (attempt === maxRetries - 1) {
@@ -1296,14 +1793,47 @@ Return complete, accurate JSON following this structure exactly.`;
     const prompt = this.getPricingReplyPrompt(emailContent);
 
     return await this.withRetry(async () => {
-      const responseText = await this.generateResponse(prompt);
-      const parsedData = this.cleanAndParseResponse(responseText) as unknown as PricingReplyResult;
+      const parsedData = await aiUsageService.run({ operation: 'reply_parsing' }, () =>
+        this.generateStructured<PricingReplyResult>(prompt, PRICING_REPLY_OUTPUT)
+      );
 
       console.log(`  Success: Parsed pricing reply with ${this.serviceName} (is_pricing: ${parsedData.is_pricing_email}, confidence: ${parsedData.confidence_score})`);
       return parsedData;
     }, maxRetries);
   }
 
+  /**
+   * Draft a quote response or follow-up email from the quote details and recommended price
+   */
+  async draftQuoteEmail(
+    draftType: QuoteDraftType,
+    quoteDetails: Record<string, unknown>,
+    options: { followupNumber?: number; instructions?: string } = {},
+    maxRetries = 3
+  ): Promise<GeneratedEmailDraft | null> {
+    const task = draftType === 'followup' ? 'draft_followup' : 'draft_response';
+    const prompt = `${getPromptForTask(task, { quoteDetails, followupNumber: options.followupNumber })}
+${options.instructions ? `\n## ADDITIONAL INSTRUCTIONS FROM THE SALES REP\n${options.instructions}\n` : ''}
+Use only the facts in the details above; never invent prices, dates or services. Leave out sections that have no data.
+
+Return ONLY valid JSON (no markdown, no explanation) in this shape:
+{"subject": "email subject line", "body": "plain-text email body with blank lines between paragraphs"}`;
+
+    return await this.withRetry(async () => {
+      const responseText = await aiUsageService.run({ operation: 'drafting' }, () =>
+        this.generateResponse(prompt, { temperature: 0.4 })
+      );
+      const draft = this.cleanAndParseResponse(responseText) as unknown as GeneratedEmailDraft;
+
+      if (!draft || typeof draft.subject !== 'string' || typeof draft.body !== 'string' || !draft.body.trim()) {
+        throw new Error('AI response did not contain a subject and body');
+      }
+
+      console.log(`  Success: Drafted ${draftType} email with ${this.serviceName}`);
+      return { subject: draft.subject.trim(), body: draft.body.trim() };
+    }, maxRetries);
+  }
+
   /**
    * Prepare email content for pricing reply parsing
    */
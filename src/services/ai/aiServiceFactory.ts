@@ -6,6 +6,9 @@
 import geminiService from './geminiService.js';
 import claudeService from './claudeService.js';
 import chatgptService from './chatgptService.js';
+import localAIService from './localAIService.js';
+import mockAIService from './mockAIService.js';
+import CompositeAIService from './compositeAIService.js';
 import type BaseAIService from './BaseAIService.js';
 import type { AIProviderInfo, AIProviderValidation } from '../../types/index.js';
 import dotenv from 'dotenv';
@@ -19,19 +22,81 @@ export const AI_PROVIDERS = {
   CLAUDE: 'claude',
   CHATGPT: 'chatgpt',
   OPENAI: 'openai',
+  LOCAL: 'local',
+  MOCK: 'mock',
+  FALLBACK: 'fallback',
 } as const;
 
 export type AIProvider = (typeof AI_PROVIDERS)[keyof typeof AI_PROVIDERS];
 
+// Fallback chains by provider order, so breakers and few-shot examples stay on one instance
+const compositeServices = new Map<string, CompositeAIService>();
+
 /**
  * Get the configured AI service instance
+ * Without a provider, a fallback chain (AI_PROVIDER_CHAIN) takes precedence over AI_PROVIDER;
+ * 'fallback' requests the chain explicitly
  */
 export function getAIService(provider: string | null = null): BaseAIService {
-  const selectedProvider = (
-    provider ||
-    process.env.AI_PROVIDER ||
-    AI_PROVIDERS.GEMINI
-  ).toLowerCase();
+  if (!provider || provider.toLowerCase() === AI_PROVIDERS.FALLBACK) {
+    const chain = getFallbackChain();
+    if (chain.length > 1) {
+      return getCompositeService(chain);
+    }
+    if (chain.length === 1) {
+      return getProviderService(chain[0]!);
+    }
+    if (provider) {
+      throw new Error('AI_PROVIDER_CHAIN has no providers with a configured API key');
+    }
+  }
+
+  return getProviderService(provider || process.env.AI_PROVIDER || AI_PROVIDERS.GEMINI);
+}
+
+/**
+ * Providers tried in order when no provider is requested, from AI_PROVIDER_CHAIN
+ * (e.g. "claude,gemini,chatgpt"); providers without an API key are left out
+ */
+export function getFallbackChain(): string[] {
+  const chain = (process.env.AI_PROVIDER_CHAIN || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map((name) => (name === AI_PROVIDERS.OPENAI ? AI_PROVIDERS.CHATGPT : name));
+
+  const unknown = chain.filter(
+    (name) =>
+      !Object.values(AI_PROVIDERS).includes(name as AIProvider) || name === AI_PROVIDERS.FALLBACK
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown AI provider(s) in AI_PROVIDER_CHAIN: ${unknown.join(', ')}. Valid options: gemini, claude, chatgpt, local, mock`
+    );
+  }
+
+  const available = getAvailableProviders();
+  return [...new Set(chain)].filter((name) => available.includes(name));
+}
+
+/**
+ * Fallback chain service for an ordered list of providers
+ */
+function getCompositeService(chain: string[]): CompositeAIService {
+  const key = chain.join(',');
+  let service = compositeServices.get(key);
+  if (!service) {
+    service = new CompositeAIService(chain.map(getProviderService));
+    compositeServices.set(key, service);
+  }
+  return service;
+}
+
+/**
+ * Get a single provider's service
+ */
+function getProviderService(provider: string): BaseAIService {
+  const selectedProvider = provider.toLowerCase();
 
   switch (selectedProvider) {
     case AI_PROVIDERS.GEMINI:
@@ -53,9 +118,20 @@ export function getAIService(provider: string | null = null): BaseAIService {
       }
       return chatgptService;
 
+    // Self-hosted model behind an OpenAI-compatible endpoint (Ollama, vLLM, llama.cpp)
+    case AI_PROVIDERS.LOCAL:
+      if (!process.env.LOCAL_AI_BASE_URL) {
+        throw new Error('LOCAL_AI_BASE_URL not configured in environment variables');
+      }
+      return localAIService;
+
+    // Offline provider for development and tests; needs no API key
+    case AI_PROVIDERS.MOCK:
+      return mockAIService;
+
     default:
       throw new Error(
-        `Unknown AI provider: ${selectedProvider}. Valid options: gemini, claude, chatgpt`
+        `Unknown AI provider: ${selectedProvider}. Valid options: gemini, claude, chatgpt, local, mock`
       );
   }
 }
@@ -75,6 +151,10 @@ export function getAvailableProviders(): string[] {
   if (process.env.GPT_API_KEY) {
     available.push(AI_PROVIDERS.CHATGPT);
   }
+  if (process.env.LOCAL_AI_BASE_URL) {
+    available.push(AI_PROVIDERS.LOCAL);
+  }
+  available.push(AI_PROVIDERS.MOCK);
 
   return available;
 }
@@ -131,18 +211,24 @@ export function getProviderInfo(): AIProviderInfo {
       gemini: !!process.env.GEMINI_API_KEY,
       claude: !!process.env.ANTHROPIC_API_KEY,
       chatgpt: !!process.env.GPT_API_KEY,
+      local: !!process.env.LOCAL_AI_BASE_URL,
+      mock: true,
     },
     models: {
       gemini: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
       claude: process.env.CLAUDE_MODEL || 'claude-sonnet-4-20250514',
       chatgpt: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      local: process.env.LOCAL_AI_MODEL || 'llama3.1:8b',
+      mock: process.env.MOCK_AI_MODEL || 'mock-rules',
     },
+    fallbackChain: getFallbackChain(),
   };
 }
 
 export default {
   AI_PROVIDERS,
   getAIService,
+  getFallbackChain,
   getAvailableProviders,
   validateProvider,
   validateAllProviders,
@@ -5,7 +5,13 @@
 
 import OpenAI from 'openai';
 import BaseAIService, { type GenerationOptions } from './BaseAIService.js';
-import type { Email, ParsedEmailData } from '../../types/index.js';
+import type {
+  Email,
+  ExtractionExample,
+  ParsedEmailData,
+  StructuredOutputSpec,
+} from '../../types/index.js';
+import { PARSED_EMAIL_OUTPUT } from '../../prompts/outputSchemas.js';
 import dotenv from 'dotenv';
 dotenv.config();
 
@@ -22,43 +28,52 @@ interface SimplifiedModel {
 }
 
 class ChatGPTService extends BaseAIService {
-  private client: OpenAI;
+  private openai: OpenAI | null = null;
   private modelName: string;
 
   constructor() {
     super('ChatGPT');
-    const apiKey = process.env.GPT_API_KEY;
-    this.client = new OpenAI({ apiKey });
     this.modelName = process.env.OPENAI_MODEL || 'gpt-4o-mini';
   }
 
+  /**
+   * OpenAI client, created on first use: the SDK throws without an API key, and importing the
+   * service must not require one (e.g. when only the mock provider is used)
+   */
+  private get client(): OpenAI {
+    if (!this.openai) {
+      this.openai = new OpenAI({ apiKey: process.env.GPT_API_KEY });
+    }
+    return this.openai;
+  }
+
+  /**
+   * Model used for extraction and pricing
+   */
+  getModelName(): string {
+    return this.modelName;
+  }
+
   /**
    * Parse email with ChatGPT to extract shipping quote data
    */
-  async parseEmail(email: Email, maxRetries = 3, attachmentText = ''): Promise<ParsedEmailData | null> {
+  async extractEmail(
+    email: Email,
+    maxRetries = 3,
+    attachmentText = '',
+    promptTemplate: string | null = null,
+    examples: ExtractionExample[] = []
+  ): Promise<ParsedEmailData | null> {
     const emailContent = this.prepareEmailContent(email, attachmentText);
-    const prompt = this.getExtractionPrompt(emailContent);
+    const prompt = this.getExtractionPrompt(emailContent, examples, promptTemplate);
 
     return await this.withRetry(async () => {
-      const completion = await this.client.chat.completions.create({
-        model: this.modelName,
-        temperature: 0,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You extract structured JSON from emails for shipping quotes. Respond with only valid JSON.',
-          },
-          { role: 'user', content: prompt },
-        ],
-      });
-
-      const responseText = (completion.choices?.[0]?.message?.content || '').trim();
-
-      const parsedData = this.cleanAndParseResponse(responseText);
+      const parsedData = await this.generateStructured<ParsedEmailData>(prompt, PARSED_EMAIL_OUTPUT);
+      this.resolveFieldProvenance(parsedData, email, attachmentText);
       const confidence = this.calculateConfidence(parsedData);
 
       parsedData.ai_confidence_score = confidence;
+      parsedData.ai_provider = this.provider;
 
       console.log(`  Success: Parsed email with ${this.serviceName} (confidence: ${confidence})`);
       return parsedData;
@@ -91,6 +106,53 @@ class ChatGPTService extends BaseAIService {
         { role: 'user', content: prompt },
       ],
     });
+    this.recordUsage(
+      completion.model || this.modelName,
+      completion.usage?.prompt_tokens,
+      completion.usage?.completion_tokens
+    );
+    return (completion.choices?.[0]?.message?.content || '').trim();
+  }
+
+  /**
+   * Generate JSON for a schema using the json_schema response format
+   */
+  async generateStructuredResponse(
+    prompt: string,
+    spec: StructuredOutputSpec,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.modelName,
+      temperature: options.temperature ?? 0,
+      ...(typeof options.maxOutputTokens === 'number' ? { max_tokens: options.maxOutputTokens } : {}),
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: spec.name,
+          description: spec.description,
+          schema: spec.schema as Record<string, unknown>,
+          // Strict mode would require every property and forbid extra fields
+          strict: false,
+        },
+      },
+      messages: [
+        {
+          role: 'system',
+          content:
+            spec.task === 'extraction'
+              ? 'You extract structured JSON from emails for shipping quotes. Respond with only valid JSON.'
+              : 'You are a shipping pricing analyst. Respond with only valid JSON.',
+        },
+        { role: 'user', content: prompt },
+      ],
+    });
+    this.recordUsage(
+      completion.model || this.modelName,
+      completion.usage?.prompt_tokens,
+      completion.usage?.completion_tokens,
+      spec.task
+    );
     return (completion.choices?.[0]?.message?.content || '').trim();
   }
 
@@ -99,10 +161,16 @@ class ChatGPTService extends BaseAIService {
    */
   async validateApiKey(): Promise<boolean> {
     try {
-      await this.client.chat.completions.create({
+      const completion = await this.client.chat.completions.create({
         model: this.modelName,
         messages: [{ role: 'user', content: 'Hello' }],
       });
+      this.recordUsage(
+        completion.model || this.modelName,
+        completion.usage?.prompt_tokens,
+        completion.usage?.completion_tokens,
+        'validation'
+      );
       return true;
     } catch (error) {
       const err = error as Error;
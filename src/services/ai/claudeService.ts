@@ -5,10 +5,20 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import BaseAIService, { type GenerationOptions } from './BaseAIService.js';
-import type { Email, ParsedEmailData } from '../../types/index.js';
+import type {
+  Email,
+  ExtractionExample,
+  ParsedEmailData,
+  StructuredOutputSpec,
+} from '../../types/index.js';
+import { PARSED_EMAIL_OUTPUT } from '../../prompts/outputSchemas.js';
 import dotenv from 'dotenv';
 dotenv.config();
 
+// Structured extraction returns provenance and confidence for every field of every quote,
+// so emails with several quotes need far more than a plain completion
+const STRUCTURED_MAX_TOKENS = parseInt(process.env.CLAUDE_MAX_OUTPUT_TOKENS || '16000');
+
 class ClaudeService extends BaseAIService {
   private client: Anthropic;
   private modelName: string;
@@ -21,29 +31,33 @@ class ClaudeService extends BaseAIService {
     this.modelName = process.env.CLAUDE_MODEL || 'claude-sonnet-4-20250514';
   }
 
+  /**
+   * Model used for extraction and pricing
+   */
+  getModelName(): string {
+    return this.modelName;
+  }
+
   /**
    * Parse email with Claude AI to extract shipping quote data
    */
-  async parseEmail(email: Email, maxRetries = 3, attachmentText = ''): Promise<ParsedEmailData | null> {
+  async extractEmail(
+    email: Email,
+    maxRetries = 3,
+    attachmentText = '',
+    promptTemplate: string | null = null,
+    examples: ExtractionExample[] = []
+  ): Promise<ParsedEmailData | null> {
     const emailContent = this.prepareEmailContent(email, attachmentText);
-    const prompt = this.getExtractionPrompt(emailContent);
+    const prompt = this.getExtractionPrompt(emailContent, examples, promptTemplate);
 
     return await this.withRetry(async () => {
-      const message = await this.client.messages.create({
-        model: this.modelName,
-        max_tokens: 4000,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = message.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type from Claude');
-      }
-      const responseText = content.text.trim();
-      const parsedData = this.cleanAndParseResponse(responseText);
+      const parsedData = await this.generateStructured<ParsedEmailData>(prompt, PARSED_EMAIL_OUTPUT);
+      this.resolveFieldProvenance(parsedData, email, attachmentText);
       const confidence = this.calculateConfidence(parsedData);
 
       parsedData.ai_confidence_score = confidence;
+      parsedData.ai_provider = this.provider;
 
       console.log(`  Success: Parsed email with ${this.serviceName} (confidence: ${confidence})`);
       return parsedData;
@@ -67,6 +81,7 @@ class ClaudeService extends BaseAIService {
       ...(typeof options.temperature === 'number' ? { temperature: options.temperature } : {}),
       messages: [{ role: 'user', content: prompt }],
     });
+    this.recordUsage(message.model || this.modelName, message.usage?.input_tokens, message.usage?.output_tokens);
     const content = message.content[0];
     if (content.type !== 'text') {
       throw new Error('Unexpected response type from Claude');
@@ -74,16 +89,64 @@ class ClaudeService extends BaseAIService {
     return content.text.trim();
   }
 
+  /**
+   * Generate JSON for a schema by forcing a call to a tool whose input schema is the output schema
+   */
+  async generateStructuredResponse(
+    prompt: string,
+    spec: StructuredOutputSpec,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    const message = await this.client.messages.create({
+      model: this.modelName,
+      max_tokens: options.maxOutputTokens ?? STRUCTURED_MAX_TOKENS,
+      ...(typeof options.temperature === 'number' ? { temperature: options.temperature } : {}),
+      tools: [
+        {
+          name: spec.name,
+          description: spec.description,
+          input_schema: spec.schema as Anthropic.Tool.InputSchema,
+        },
+      ],
+      tool_choice: { type: 'tool', name: spec.name },
+      messages: [{ role: 'user', content: prompt }],
+    });
+    this.recordUsage(
+      message.model || this.modelName,
+      message.usage?.input_tokens,
+      message.usage?.output_tokens,
+      spec.task
+    );
+
+    if (message.stop_reason === 'max_tokens') {
+      throw new Error(
+        `Claude output for ${spec.name} was cut off at ${message.usage?.output_tokens} tokens (raise CLAUDE_MAX_OUTPUT_TOKENS)`
+      );
+    }
+
+    const toolUse = message.content.find((block) => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error(`Claude did not return ${spec.name} tool output`);
+    }
+    return JSON.stringify(toolUse.input);
+  }
+
   /**
    * Validate Claude API key
    */
   async validateApiKey(): Promise<boolean> {
     try {
-      await this.client.messages.create({
+      const message = await this.client.messages.create({
         model: this.modelName,
         max_tokens: 10,
         messages: [{ role: 'user', content: 'Hello' }],
       });
+      this.recordUsage(
+        message.model || this.modelName,
+        message.usage?.input_tokens,
+        message.usage?.output_tokens,
+        'validation'
+      );
       return true;
     } catch (error) {
       const err = error as Error;
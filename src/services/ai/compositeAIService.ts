@@ -0,0 +1,382 @@
+/**
+ * Composite AI Service
+ * Tries AI providers in a configured order (e.g. Claude -> Gemini -> ChatGPT), with a circuit
+ * breaker and timeout per provider, so one provider being rate-limited or down does not fail a batch
+ */
+
+import BaseAIService, { StructuredOutputError, type GenerationOptions } from './BaseAIService.js';
+import { PARSED_EMAIL_OUTPUT } from '../../prompts/outputSchemas.js';
+import type {
+  AICacheKind,
+  AIErrorClassification,
+  AIProviderAttempt,
+  CircuitState,
+  Email,
+  ExtractionExample,
+  ParsedEmailData,
+  ProviderCircuitStatus,
+  StructuredOutputSpec,
+} from '../../types/index.js';
+import dotenv from 'dotenv';
+dotenv.config();
+
+// Per-attempt time limit before moving on to the next provider
+const PROVIDER_TIMEOUT_MS = parseInt(process.env.AI_PROVIDER_TIMEOUT_MS || '120000');
+// Consecutive provider failures that open its circuit
+const BREAKER_FAILURE_THRESHOLD = parseInt(process.env.AI_BREAKER_FAILURE_THRESHOLD || '3');
+// How long an open circuit skips the provider before a single trial request is let through
+const BREAKER_COOLDOWN_MS = parseInt(process.env.AI_BREAKER_COOLDOWN_MS || '60000');
+// Wait before another pass over the chain when every provider failed
+const CHAIN_RETRY_DELAY_MS = parseInt(process.env.AI_CHAIN_RETRY_DELAY_MS || '10000');
+
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
+/**
+ * A provider call that exceeded AI_PROVIDER_TIMEOUT_MS
+ */
+export class AITimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs}ms`);
+    this.name = 'AITimeoutError';
+  }
+}
+
+/**
+ * Every provider of the chain failed (or was skipped) for one call, or one rejected it as fatal
+ */
+export class AIProviderChainError extends Error {
+  attempts: AIProviderAttempt[];
+  fatal: boolean;
+
+  constructor(attempts: AIProviderAttempt[], fatal = false) {
+    const summary = attempts
+      .map((a) => `${a.provider}: ${a.skipped ? 'circuit open' : a.error?.message}`)
+      .join('; ');
+    super(fatal ? `AI request rejected (${summary})` : `All AI providers failed (${summary})`);
+    this.name = 'AIProviderChainError';
+    this.attempts = attempts;
+    this.fatal = fatal;
+  }
+}
+
+/**
+ * Classify a provider error as retryable (another provider or a later attempt may succeed)
+ * or fatal (the request itself is rejected and would fail on every provider)
+ */
+export function classifyAIError(error: unknown): AIErrorClassification {
+  const err = error as {
+    status?: number;
+    statusCode?: number;
+    response?: { status?: number };
+    code?: string;
+    cause?: { code?: string };
+    name?: string;
+    message?: string;
+  };
+  const message = err?.message || String(error);
+  const status =
+    err?.status ??
+    err?.statusCode ??
+    err?.response?.status ??
+    // Gemini errors carry the status only in the message, e.g. "[429 Too Many Requests]"
+    (parseInt(message.match(/\[(\d{3})[ \]]/)?.[1] || '') || null);
+  const code = err?.code || err?.cause?.code;
+
+  const classify = (
+    kind: AIErrorClassification['kind'],
+    retryable: boolean,
+    tripsBreaker: boolean
+  ): AIErrorClassification => ({ kind, retryable, tripsBreaker, status, message });
+
+  if (error instanceof AITimeoutError || /timed? ?out/i.test(`${err?.name} ${message}`)) {
+    return classify('timeout', true, true);
+  }
+  if (error instanceof StructuredOutputError || error instanceof SyntaxError) {
+    // Another model may well produce valid output; the provider itself is healthy
+    return classify('invalid_output', true, false);
+  }
+  if (status === 429 || /rate.?limit|quota|resource.?exhausted/i.test(message)) {
+    return classify('rate_limit', true, true);
+  }
+  if (status === 401 || status === 403) {
+    // A missing or revoked key affects only this provider
+    return classify('auth', true, true);
+  }
+  if (status === 408 || status === 409 || (status !== null && status >= 500)) {
+    return classify('unavailable', true, true);
+  }
+  if (status === 400 || status === 404 || status === 413 || status === 422) {
+    return classify('bad_request', false, false);
+  }
+  if (
+    (code && NETWORK_ERROR_CODES.includes(code)) ||
+    /connection|network|socket|fetch failed|overloaded/i.test(message)
+  ) {
+    return classify('unavailable', true, true);
+  }
+  return classify('unknown', true, true);
+}
+
+/**
+ * Consecutive-failure circuit breaker for one provider
+ * Closed: requests pass. Open: requests are skipped until the cooldown ends. Half-open: one
+ * trial request decides between closing and re-opening the circuit
+ */
+export class CircuitBreaker {
+  state: CircuitState = 'closed';
+  consecutiveFailures = 0;
+  openedAt: number | null = null;
+  lastError: AIErrorClassification | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly provider: string,
+    private readonly failureThreshold = BREAKER_FAILURE_THRESHOLD,
+    private readonly cooldownMs = BREAKER_COOLDOWN_MS
+  ) {}
+
+  /**
+   * Whether a request may be sent now; moves an open circuit to half-open after the cooldown
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - (this.openedAt ?? 0) >= this.cooldownMs) {
+      this.state = 'half_open';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`  AI provider ${this.provider}: circuit closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed request; errors that do not trip the breaker mean the provider answered
+   */
+  recordFailure(error: AIErrorClassification): void {
+    if (!error.tripsBreaker) {
+      this.recordSuccess();
+      this.lastError = error;
+      return;
+    }
+
+    this.lastError = error;
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.warn(
+        `  AI provider ${this.provider}: circuit open for ${this.cooldownMs / 1000}s after ${this.consecutiveFailures} failure(s) (${error.kind})`
+      );
+    }
+  }
+
+  getStatus(): ProviderCircuitStatus {
+    return {
+      provider: this.provider,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      lastError: this.lastError,
+    };
+  }
+}
+
+/**
+ * Reject when a call takes longer than timeoutMs (the underlying request is left to finish)
+ */
+function withTimeout<T>(promise: Promise<T>, provider: string, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new AITimeoutError(provider, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Breakers are shared by every chain, so a provider tripped by one job is skipped by the others
+const breakers = new Map<string, CircuitBreaker>();
+
+function getBreaker(provider: string): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Circuit state of every provider that has been called through a chain
+ */
+export function getCircuitStatuses(): ProviderCircuitStatus[] {
+  return Array.from(breakers.values()).map((breaker) => breaker.getStatus());
+}
+
+class CompositeAIService extends BaseAIService {
+  readonly providers: BaseAIService[];
+
+  constructor(providers: BaseAIService[]) {
+    super(`Fallback(${providers.map((p) => p.serviceName).join(' -> ')})`, 'fallback');
+    if (providers.length === 0) {
+      throw new Error('A fallback chain needs at least one AI provider');
+    }
+    this.providers = providers;
+  }
+
+  /**
+   * Models of the chain in order, since any of them may answer
+   */
+  getModelName(task: AICacheKind = 'extraction'): string {
+    return this.providers.map((p) => `${p.provider}:${p.getModelName(task)}`).join(',');
+  }
+
+  /**
+   * Run a call against each provider in order until one succeeds
+   * Skips providers with an open circuit; a fatal error stops the chain immediately
+   */
+  async runChain<T>(
+    call: (provider: BaseAIService) => Promise<T>
+  ): Promise<{ result: T; provider: string; attempts: AIProviderAttempt[] }> {
+    const attempts: AIProviderAttempt[] = [];
+
+    for (const provider of this.providers) {
+      const breaker = getBreaker(provider.provider);
+      if (!breaker.allowRequest()) {
+        attempts.push({ provider: provider.provider, durationMs: 0, error: null, skipped: true });
+        continue;
+      }
+
+      const startedAt = Date.now();
+      try {
+        const result = await withTimeout(call(provider), provider.serviceName, PROVIDER_TIMEOUT_MS);
+        breaker.recordSuccess();
+        if (attempts.length > 0) {
+          console.log(
+            `  AI fallback: ${provider.serviceName} answered after ${attempts.map((a) => a.provider).join(', ')} failed`
+          );
+        }
+        return { result, provider: provider.provider, attempts };
+      } catch (error) {
+        const classification = classifyAIError(error);
+        breaker.recordFailure(classification);
+        attempts.push({
+          provider: provider.provider,
+          durationMs: Date.now() - startedAt,
+          error: classification,
+          skipped: false,
+        });
+        console.warn(
+          `  Warning: ${provider.serviceName} failed (${classification.kind}${classification.status ? ` ${classification.status}` : ''}): ${classification.message}`
+        );
+
+        if (!classification.retryable) {
+          throw new AIProviderChainError(attempts, true);
+        }
+      }
+    }
+
+    throw new AIProviderChainError(attempts);
+  }
+
+  /**
+   * Parse an email with the first provider that returns valid output
+   * maxRetries is the number of passes over the chain; returns null when every pass fails
+   */
+  async extractEmail(
+    email: Email,
+    maxRetries = 3,
+    attachmentText = '',
+    promptTemplate: string | null = null,
+    examples: ExtractionExample[] = []
+  ): Promise<ParsedEmailData | null> {
+    const emailContent = this.prepareEmailContent(email, attachmentText);
+    const prompt = this.getExtractionPrompt(emailContent, examples, promptTemplate);
+
+    for (let pass = 0; pass < maxRetries; pass++) {
+      if (pass > 0) {
+        await this.sleep(CHAIN_RETRY_DELAY_MS * pass);
+      }
+
+      try {
+        const { result: parsedData, provider } = await this.runChain((service) =>
+          service.generateStructured<ParsedEmailData>(prompt, PARSED_EMAIL_OUTPUT)
+        );
+        this.resolveFieldProvenance(parsedData, email, attachmentText);
+        const confidence = this.calculateConfidence(parsedData);
+
+        parsedData.ai_confidence_score = confidence;
+        parsedData.ai_provider = provider;
+
+        console.log(`  Success: Parsed email with ${provider} (confidence: ${confidence})`);
+        return parsedData;
+      } catch (error) {
+        console.error(`  Error: ${(error as Error).message}`);
+        if (error instanceof AIProviderChainError && error.fatal) {
+          return null;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Valid when at least one provider of the chain accepts its key
+   */
+  async validateApiKey(): Promise<boolean> {
+    for (const provider of this.providers) {
+      if (await provider.validateApiKey().catch(() => false)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async generateResponse(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    return (await this.generateResponseWithProvider(prompt, options)).text;
+  }
+
+  async generateResponseWithProvider(
+    prompt: string,
+    options: GenerationOptions = {}
+  ): Promise<{ text: string; provider: string }> {
+    const { result, provider } = await this.runChain((service) =>
+      service.generateResponse(prompt, options)
+    );
+    return { text: result, provider };
+  }
+
+  async generateStructuredResponse(
+    prompt: string,
+    spec: StructuredOutputSpec,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    const { result } = await this.runChain((service) =>
+      service.generateStructuredResponse(prompt, spec, options)
+    );
+    return result;
+  }
+}
+
+export default CompositeAIService;
@@ -3,9 +3,17 @@
  * Handles email parsing using Google's Gemini API
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, type UsageMetadata } from '@google/generative-ai';
 import BaseAIService, { type GenerationOptions } from './BaseAIService.js';
-import type { Email, ParsedEmailData } from '../../types/index.js';
+import type {
+  AICacheKind,
+  Email,
+  ExtractionExample,
+  JsonSchema,
+  ParsedEmailData,
+  StructuredOutputSpec,
+} from '../../types/index.js';
+import { PARSED_EMAIL_OUTPUT } from '../../prompts/outputSchemas.js';
 import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
@@ -48,6 +56,39 @@ function logAIRequest(entry: AILogEntry): void {
   }
 }
 
+/**
+ * Billed output tokens of a response; thinking tokens only show up in totalTokenCount
+ */
+function outputTokenCount(usage?: UsageMetadata): number {
+  if (!usage) return 0;
+  return Math.max(usage.candidatesTokenCount || 0, (usage.totalTokenCount || 0) - (usage.promptTokenCount || 0));
+}
+
+/**
+ * Convert a JSON Schema to Gemini's responseSchema dialect
+ * (single type plus nullable, string enums marked with format "enum")
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const enumValues = schema.enum?.filter((v) => v !== null).map(String);
+
+  return {
+    type: types.find((t) => t !== 'null') ?? 'string',
+    ...(types.includes('null') ? { nullable: true } : {}),
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(enumValues?.length ? { format: 'enum', enum: enumValues } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+          ),
+        }
+      : {}),
+    ...(schema.required?.length ? { required: schema.required } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  };
+}
+
 interface GeminiModel {
   name?: string;
   displayName?: string;
@@ -96,50 +137,36 @@ class GeminiService extends BaseAIService {
     console.log(`  Gemini models: extraction=${this.extractionModelName}, pricing=${this.pricingModelName}`);
   }
 
+  /**
+   * Model used for a task (extraction and pricing can use different models)
+   */
+  getModelName(task: AICacheKind = 'extraction'): string {
+    return task === 'pricing' ? this.pricingModelName : this.extractionModelName;
+  }
+
   /**
    * Parse email with Gemini AI to extract shipping quote data
    */
-  async parseEmail(email: Email, maxRetries = 3, attachmentText = ''): Promise<ParsedEmailData | null> {
+  async extractEmail(
+    email: Email,
+    maxRetries = 3,
+    attachmentText = '',
+    promptTemplate: string | null = null,
+    examples: ExtractionExample[] = []
+  ): Promise<ParsedEmailData | null> {
     const emailContent = this.prepareEmailContent(email, attachmentText);
-    const prompt = this.getExtractionPrompt(emailContent);
+    const prompt = this.getExtractionPrompt(emailContent, examples, promptTemplate);
 
     return await this.withRetry(async () => {
-      const startTime = Date.now();
-      let responseText = '';
-      let success = false;
-      let errorMsg: string | undefined;
+      const parsedData = await this.generateStructured<ParsedEmailData>(prompt, PARSED_EMAIL_OUTPUT);
+      this.resolveFieldProvenance(parsedData, email, attachmentText);
+      const confidence = this.calculateConfidence(parsedData);
 
-      try {
-        const result = await this.extractionModel.generateContent({
-          contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        });
+      parsedData.ai_confidence_score = confidence;
+      parsedData.ai_provider = this.provider;
 
-        responseText = (await result.response.text()).trim();
-        const parsedData = this.cleanAndParseResponse(responseText);
-        const confidence = this.calculateConfidence(parsedData);
-
-        parsedData.ai_confidence_score = confidence;
-        success = true;
-
-        console.log(`  Success: Parsed email with ${this.serviceName} (confidence: ${confidence})`);
-        return parsedData;
-      } catch (err) {
-        errorMsg = (err as Error).message;
-        throw err;
-      } finally {
-        logAIRequest({
-          timestamp: new Date().toISOString(),
-          model: this.extractionModelName,
-          task: 'extraction',
-          promptLength: prompt.length,
-          responseLength: responseText.length,
-          durationMs: Date.now() - startTime,
-          success,
-          error: errorMsg,
-          promptPreview: prompt.slice(0, 200),
-          responsePreview: responseText.slice(0, 500),
-        });
-      }
+      console.log(`  Success: Parsed email with ${this.serviceName} (confidence: ${confidence})`);
+      return parsedData;
     }, maxRetries);
   }
 
@@ -172,6 +199,8 @@ class GeminiService extends BaseAIService {
         contents: [{ role: 'user', parts: [{ text: prompt }] }],
         generationConfig,
       } as any);
+      const usage = result.response.usageMetadata;
+      this.recordUsage(this.pricingModelName, usage?.promptTokenCount, outputTokenCount(usage));
 
       const primaryText = (await result.response.text()).trim();
       if (primaryText) {
@@ -220,14 +249,74 @@ class GeminiService extends BaseAIService {
     }
   }
 
+  /**
+   * Generate JSON for a schema using responseSchema (extraction or pricing model per spec.task)
+   */
+  async generateStructuredResponse(
+    prompt: string,
+    spec: StructuredOutputSpec,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    const isExtraction = spec.task === 'extraction';
+    const model = isExtraction ? this.extractionModel : this.pricingModel;
+    const startTime = Date.now();
+    let responseText = '';
+    let success = false;
+    let errorMsg: string | undefined;
+
+    try {
+      const result = await model.generateContent({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          ...(typeof options.temperature === 'number' ? { temperature: options.temperature } : {}),
+          ...(typeof options.maxOutputTokens === 'number' ? { maxOutputTokens: options.maxOutputTokens } : {}),
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(spec.schema),
+        },
+      } as any);
+      const usage = result.response.usageMetadata;
+      this.recordUsage(
+        isExtraction ? this.extractionModelName : this.pricingModelName,
+        usage?.promptTokenCount,
+        outputTokenCount(usage),
+        spec.task
+      );
+
+      responseText = (await result.response.text()).trim();
+      if (!responseText) {
+        throw new Error(`Gemini returned empty ${spec.name} response`);
+      }
+      success = true;
+      return responseText;
+    } catch (err) {
+      errorMsg = (err as Error).message;
+      throw err;
+    } finally {
+      logAIRequest({
+        timestamp: new Date().toISOString(),
+        model: isExtraction ? this.extractionModelName : this.pricingModelName,
+        task: spec.task,
+        promptLength: prompt.length,
+        responseLength: responseText.length,
+        durationMs: Date.now() - startTime,
+        success,
+        error: errorMsg,
+        promptPreview: prompt.slice(0, 200),
+        responsePreview: responseText.slice(0, 500),
+      });
+    }
+  }
+
   /**
    * Validate Gemini API key
    */
   async validateApiKey(): Promise<boolean> {
     try {
-      await this.extractionModel.generateContent({
+      const result = await this.extractionModel.generateContent({
         contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
       });
+      const usage = result.response.usageMetadata;
+      this.recordUsage(this.extractionModelName, usage?.promptTokenCount, outputTokenCount(usage), 'validation');
       return true;
     } catch (error) {
       const err = error as Error;
@@ -0,0 +1,215 @@
+/**
+ * Local AI Service
+ * Handles email parsing with a self-hosted model behind an OpenAI-compatible endpoint
+ * (Ollama, vLLM, llama.cpp server), so email content never leaves our own hardware
+ *
+ * Small context windows are handled with a compact extraction prompt, and emails whose content
+ * does not fit are split into parts that are extracted separately and merged
+ */
+
+import OpenAI from 'openai';
+import BaseAIService, { type GenerationOptions } from './BaseAIService.js';
+import type { Email, ParsedEmailData, StructuredOutputSpec } from '../../types/index.js';
+import { PARSED_EMAIL_OUTPUT } from '../../prompts/outputSchemas.js';
+import {
+  COMPACT_EXTRACTION_PROMPT,
+  renderPromptTemplate,
+} from '../../prompts/shippingQuotePrompts.js';
+import dotenv from 'dotenv';
+dotenv.config();
+
+// e.g. http://localhost:11434/v1 (Ollama), http://localhost:8000/v1 (vLLM), http://localhost:8080/v1 (llama.cpp)
+const BASE_URL = process.env.LOCAL_AI_BASE_URL || '';
+const CONTEXT_TOKENS = parseInt(process.env.LOCAL_AI_CONTEXT_TOKENS || '8192');
+// Tokens kept free for the model's answer
+const MAX_OUTPUT_TOKENS = parseInt(process.env.LOCAL_AI_MAX_OUTPUT_TOKENS || '2048');
+const TIMEOUT_MS = parseInt(process.env.LOCAL_AI_TIMEOUT_MS || '300000');
+// 'json_object', 'json_schema' (vLLM, llama.cpp, recent Ollama) or 'none' for servers without response_format
+const RESPONSE_FORMAT = process.env.LOCAL_AI_RESPONSE_FORMAT || 'json_object';
+// Conservative, so prompts estimated to fit are not cut off by the server
+const CHARS_PER_TOKEN = 3;
+
+class LocalAIService extends BaseAIService {
+  private client: OpenAI;
+  private modelName: string;
+
+  constructor() {
+    super('Local');
+    this.client = new OpenAI({
+      baseURL: BASE_URL || undefined,
+      // Most local servers ignore the key, but the client requires one
+      apiKey: process.env.LOCAL_AI_API_KEY || 'local',
+      timeout: TIMEOUT_MS,
+    });
+    this.modelName = process.env.LOCAL_AI_MODEL || 'llama3.1:8b';
+  }
+
+  /**
+   * Model used for extraction and pricing
+   */
+  getModelName(): string {
+    return this.modelName;
+  }
+
+  /**
+   * Parse email with the local model, one part at a time when it exceeds the context window
+   * Few-shot examples are left out: they do not fit a small context window
+   */
+  async extractEmail(
+    email: Email,
+    maxRetries = 3,
+    attachmentText = '',
+    promptTemplate: string | null = null
+  ): Promise<ParsedEmailData | null> {
+    const promptFor = (emailContent: string) =>
+      renderPromptTemplate(promptTemplate || COMPACT_EXTRACTION_PROMPT, {
+        EMAIL_CONTENT: emailContent,
+        EXAMPLES: '',
+        TODAY: new Date().toISOString().split('T')[0]!,
+      });
+    const maxContentChars = this.getPromptBudgetChars() - promptFor('').length;
+    const chunks = this.prepareEmailContentChunks(email, attachmentText, maxContentChars);
+
+    return await this.withRetry(async () => {
+      const results: ParsedEmailData[] = [];
+      for (const chunk of chunks) {
+        results.push(
+          await this.generateStructured<ParsedEmailData>(promptFor(chunk), PARSED_EMAIL_OUTPUT)
+        );
+      }
+
+      const parsedData = this.mergeChunkExtractions(results);
+      this.resolveFieldProvenance(parsedData, email, attachmentText);
+      const confidence = this.calculateConfidence(parsedData);
+
+      parsedData.ai_confidence_score = confidence;
+      parsedData.ai_provider = this.provider;
+
+      console.log(`  Success: Parsed email with ${this.serviceName} (confidence: ${confidence})`);
+      return parsedData;
+    }, maxRetries);
+  }
+
+  /**
+   * Generate a response from a prompt
+   */
+  async generateResponse(prompt: string, options: GenerationOptions = {}): Promise<string> {
+    this.warnIfTooLong(prompt);
+    const completion = await this.client.chat.completions.create({
+      model: this.modelName,
+      temperature: options.temperature ?? 0,
+      max_tokens: options.maxOutputTokens ?? MAX_OUTPUT_TOKENS,
+      ...(options.responseMimeType === 'application/json' && RESPONSE_FORMAT !== 'none'
+        ? ({ response_format: { type: 'json_object' } } as any)
+        : {}),
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a shipping pricing analyst. Respond with only valid JSON.',
+        },
+        { role: 'user', content: prompt },
+      ],
+    });
+    this.recordUsage(
+      completion.model || this.modelName,
+      completion.usage?.prompt_tokens,
+      completion.usage?.completion_tokens
+    );
+    return (completion.choices?.[0]?.message?.content || '').trim();
+  }
+
+  /**
+   * Generate JSON for a schema with the response format the server supports
+   */
+  async generateStructuredResponse(
+    prompt: string,
+    spec: StructuredOutputSpec,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    this.warnIfTooLong(prompt);
+    const responseFormat =
+      RESPONSE_FORMAT === 'json_schema'
+        ? {
+            response_format: {
+              type: 'json_schema' as const,
+              json_schema: {
+                name: spec.name,
+                description: spec.description,
+                schema: spec.schema as Record<string, unknown>,
+                strict: false,
+              },
+            },
+          }
+        : RESPONSE_FORMAT === 'json_object'
+          ? { response_format: { type: 'json_object' as const } }
+          : {};
+
+    const completion = await this.client.chat.completions.create({
+      model: this.modelName,
+      temperature: options.temperature ?? 0,
+      max_tokens: options.maxOutputTokens ?? MAX_OUTPUT_TOKENS,
+      ...responseFormat,
+      messages: [
+        {
+          role: 'system',
+          content:
+            spec.task === 'extraction'
+              ? 'You extract structured JSON from emails for shipping quotes. Respond with only valid JSON.'
+              : 'You are a shipping pricing analyst. Respond with only valid JSON.',
+        },
+        { role: 'user', content: prompt },
+      ],
+    });
+    this.recordUsage(
+      completion.model || this.modelName,
+      completion.usage?.prompt_tokens,
+      completion.usage?.completion_tokens,
+      spec.task
+    );
+    return (completion.choices?.[0]?.message?.content || '').trim();
+  }
+
+  /**
+   * Check that the server is reachable and serves the configured model
+   */
+  async validateApiKey(): Promise<boolean> {
+    try {
+      const res = await this.client.models.list();
+      const models = (res.data || []).map((m) => m.id);
+      if (models.length > 0 && !models.includes(this.modelName)) {
+        console.error(
+          `Error: Local AI model ${this.modelName} not found at ${BASE_URL} (available: ${models.join(', ')})`
+        );
+        return false;
+      }
+      return true;
+    } catch (error) {
+      const err = error as Error;
+      console.error('Error: Local AI server not reachable:', err.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Characters of prompt that fit the context window next to the reserved output tokens
+   */
+  private getPromptBudgetChars(): number {
+    return (CONTEXT_TOKENS - MAX_OUTPUT_TOKENS) * CHARS_PER_TOKEN;
+  }
+
+  /**
+   * Prompts built elsewhere (pricing, a fallback chain's extraction prompt) are sent as they are;
+   * the server truncates them when they exceed the context window
+   */
+  private warnIfTooLong(prompt: string): void {
+    if (prompt.length > this.getPromptBudgetChars()) {
+      console.warn(
+        `  Warning: Prompt (~${Math.ceil(prompt.length / CHARS_PER_TOKEN)} tokens) may exceed the ${CONTEXT_TOKENS}-token context of ${this.modelName}`
+      );
+    }
+  }
+}
+
+const localAIService = new LocalAIService();
+
+export default localAIService;
@@ -0,0 +1,536 @@
+/**
+ * Mock AI Service
+ * Offline provider for development and deterministic tests: answers from fixture files keyed by
+ * an email hash, or from a rule-based parser, with simulated latency, errors and malformed JSON
+ *
+ * Fixtures are <hash>.json files in MOCK_AI_FIXTURES_DIR; the hash is logged whenever a call has
+ * no fixture. A fixture holds any of:
+ *   extraction    ParsedEmailData returned for the email (key: mockEmailHash)
+ *   pricingReply  PricingReplyResult returned for a staff reply (key: hash of the reply body)
+ *   pricing       pricing response JSON returned for a quote (key: hash of the NEW QUOTE REQUEST section)
+ *   simulate      { latencyMs?, error?, malformed?, failCalls? } for this key only
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import BaseAIService from './BaseAIService.js';
+import type {
+  AIErrorKind,
+  Email,
+  ExtractedFieldProvenance,
+  ExtractionExample,
+  ParsedEmailData,
+  PricingReplyResult,
+  Quote,
+  StructuredOutputSpec,
+} from '../../types/index.js';
+import { PARSED_EMAIL_OUTPUT } from '../../prompts/outputSchemas.js';
+import dotenv from 'dotenv';
+dotenv.config();
+
+const FIXTURES_DIR = process.env.MOCK_AI_FIXTURES_DIR || 'tests/fixtures/mock-ai';
+const LATENCY_MS = parseInt(process.env.MOCK_AI_LATENCY_MS || '0');
+// Share of calls (0-1) that fail with MOCK_AI_ERROR_KIND or return truncated JSON
+const ERROR_RATE = parseFloat(process.env.MOCK_AI_ERROR_RATE || '0');
+const ERROR_KIND = (process.env.MOCK_AI_ERROR_KIND || 'unavailable') as MockErrorKind;
+const MALFORMED_RATE = parseFloat(process.env.MOCK_AI_MALFORMED_RATE || '0');
+// Changes which calls the error and malformed rates hit, while keeping runs reproducible
+const SEED = process.env.MOCK_AI_SEED || 'mock';
+
+type MockErrorKind = Extract<
+  AIErrorKind,
+  'rate_limit' | 'timeout' | 'unavailable' | 'auth' | 'bad_request'
+>;
+
+interface MockSimulation {
+  latencyMs?: number;
+  error?: MockErrorKind;
+  malformed?: boolean;
+  /** Only the first N calls for the key fail (e.g. 1 to exercise a retry); default: every call */
+  failCalls?: number;
+}
+
+interface MockFixture {
+  extraction?: ParsedEmailData;
+  pricingReply?: PricingReplyResult;
+  pricing?: Record<string, unknown>;
+  simulate?: MockSimulation;
+}
+
+const ERROR_STATUS: Record<MockErrorKind, number> = {
+  rate_limit: 429,
+  timeout: 408,
+  unavailable: 503,
+  auth: 401,
+  bad_request: 400,
+};
+
+/**
+ * Error thrown for a simulated failure; the status lets the fallback chain classify it
+ */
+export class MockAIError extends Error {
+  status: number;
+
+  constructor(kind: MockErrorKind) {
+    super(kind === 'timeout' ? 'Mock AI request timed out' : `Mock AI simulated ${kind} error`);
+    this.name = 'MockAIError';
+    this.status = ERROR_STATUS[kind];
+  }
+}
+
+const normalize = (text: string | null | undefined): string =>
+  (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+const hashKey = (...parts: string[]): string =>
+  createHash('sha256').update(parts.map(normalize).join('\n')).digest('hex').slice(0, 16);
+
+/**
+ * Fixture key of an email: subject, sender address and received date (as in the extraction prompt)
+ */
+export function mockEmailHash(email: Email): string {
+  return hashKey(
+    email.subject || '',
+    email.from?.emailAddress?.address || '',
+    email.receivedDateTime || ''
+  );
+}
+
+/**
+ * Email headers and text embedded in an extraction prompt by prepareEmailContent
+ */
+function readPromptEmail(
+  prompt: string
+): { subject: string; fromName: string; fromAddress: string; date: string; body: string } | null {
+  const header = prompt.match(/Subject: (.*)\nFrom: (.*?) <(.*?)>\nDate: (.*)\n\nBody:\n/);
+  if (!header || header.index === undefined) return null;
+
+  const rest = prompt.slice(header.index + header[0].length);
+  const end = rest.search(
+    /\n\nReturn a JSON object|\n={40}\nEXAMPLES FROM REVIEWED EMAILS|\n={40}\nYOUR PREVIOUS RESPONSE/
+  );
+  return {
+    subject: header[1]!,
+    fromName: header[2]!,
+    fromAddress: header[3]!,
+    date: header[4]!,
+    body: end >= 0 ? rest.slice(0, end) : rest,
+  };
+}
+
+const toNumber = (value: string): number => parseFloat(value.replace(/,/g, ''));
+
+/**
+ * "City, ST" (optionally after a street address and followed by a postal code) anywhere in a text,
+ * else a capitalized place name at its start; surrounding words ("our customer in") are ignored
+ */
+export function parsePlace(
+  text: string
+): { city: string; state: string | null; postal: string | null; address: string } | null {
+  const match = text.match(
+    /(?:(\d+[A-Za-z0-9 .'-]*),\s*)?\b([A-Z][A-Za-z.'-]*(?: [A-Z][A-Za-z.'-]*){0,2}),?\s+([A-Z]{2})\b(?:\s+(\d{5}))?/
+  );
+  if (match) {
+    return { city: match[2]!, state: match[3]!, postal: match[4] || null, address: match[0] };
+  }
+  const cityOnly = text.trim().match(/^([A-Z][A-Za-z.'-]+(?: [A-Z][A-Za-z.'-]+){0,2})\b/);
+  return cityOnly ? { city: cityOnly[1]!, state: null, postal: null, address: cityOnly[1]! } : null;
+}
+
+/**
+ * Hazardous material from the text: a hazmat mention or UN number means true, unless negated
+ * ("not hazmat", "non-hazardous", "no dangerous goods")
+ */
+export function detectHazmat(text: string): { hazardous: boolean; excerpt: string | null } {
+  const negations = [
+    ...text.matchAll(
+      /\b(?:not|no|non|nothing)[\s-]+(?:a\s+)?(?:hazmat|hazardous|dangerous goods)\b/gi
+    ),
+  ];
+  const negatedEnds = new Set(negations.map((m) => m.index! + m[0].length));
+  const mention = [...text.matchAll(/\b(?:hazmat|hazardous|dangerous goods|UN\s?\d{4})\b/gi)].find(
+    (m) => !negatedEnds.has(m.index! + m[0].length)
+  );
+
+  if (mention) return { hazardous: true, excerpt: mention[0] };
+  return { hazardous: false, excerpt: negations[0]?.[0] ?? null };
+}
+
+/**
+ * Rule-based extraction of one quote from an email: route, cargo, weight, dimensions and service
+ */
+function extractByRules(email: NonNullable<ReturnType<typeof readPromptEmail>>): ParsedEmailData {
+  const subject = email.subject.replace(/^\s*((re|fw|fwd):\s*)+/i, '');
+  const text = `${subject}\n${email.body}`;
+  const provenance: ExtractedFieldProvenance[] = [];
+  const note = (field: string, excerpt: string) =>
+    provenance.push({
+      field,
+      confidence: 0.6,
+      source: email.subject.includes(excerpt) ? 'subject' : 'body',
+      excerpt,
+    });
+
+  const quote: Quote = {
+    origin_city: null,
+    destination_city: null,
+    cargo_description: null,
+    service_type: null,
+  };
+
+  const route =
+    text.match(/\bfrom\s+([A-Za-z][^\n]*?)\s+to\s+([A-Za-z][^\n.;]*)/i) ||
+    text.match(
+      /([A-Z][A-Za-z .'-]+,\s*[A-Z]{2}(?:\s+\d{5})?)\s*(?:->|→|–| - |\s+to\s+)\s*([A-Z][A-Za-z .'-]+,\s*[A-Z]{2})/
+    ) ||
+    text.match(
+      /\b([A-Z][A-Za-z.'-]*(?: [A-Z][A-Za-z.'-]*)* [A-Z]{2}) to ([A-Z][A-Za-z.'-]*(?: [A-Z][A-Za-z.'-]*)* [A-Z]{2})\b/
+    );
+  const originText =
+    text.match(/\b(?:origin|pick ?up(?: location)?|ship from)\s*:\s*([^\n]+)/i)?.[1] ?? route?.[1];
+  const destinationText =
+    text.match(/\b(?:destination|deliver(?:y)?(?: location)?|ship to)\s*:\s*([^\n]+)/i)?.[1] ??
+    route?.[2];
+
+  const origin = originText ? parsePlace(originText) : null;
+  if (origin) {
+    quote.origin_city = origin.city;
+    quote.origin_state_province = origin.state;
+    quote.origin_postal_code = origin.postal;
+    quote.origin_full_address = origin.address;
+    note('origin_city', origin.city);
+  }
+  const destination = destinationText ? parsePlace(destinationText) : null;
+  if (destination) {
+    quote.destination_city = destination.city;
+    quote.destination_state_province = destination.state;
+    quote.destination_postal_code = destination.postal;
+    quote.destination_full_address = destination.address;
+    note('destination_city', destination.city);
+  }
+
+  const weight = text.match(
+    /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(lbs?|pounds|kgs?|kilograms|tons?)\b/i
+  );
+  if (weight) {
+    quote.cargo_weight = toNumber(weight[1]!);
+    const unit = weight[2]!.toLowerCase();
+    quote.weight_unit = unit.startsWith('k') ? 'kg' : unit.startsWith('t') ? 'tons' : 'lbs';
+    note('cargo_weight', weight[0]);
+  }
+
+  // 14 x 8 x 9 ft, 14' x 8' x 9', 14 ft L x 8 ft W x 9 ft H
+  const dimensions = text.match(
+    /(\d+(?:\.\d+)?)\s*(?:'|"|ft|in)?\s*[LWH]?\s*[x×*]\s*(\d+(?:\.\d+)?)\s*(?:'|"|ft|in)?\s*[LWH]?\s*[x×*]\s*(\d+(?:\.\d+)?)\s*('|"|ft|feet|in|inches|cm|m)?/
+  );
+  if (dimensions) {
+    quote.cargo_length = toNumber(dimensions[1]!);
+    quote.cargo_width = toNumber(dimensions[2]!);
+    quote.cargo_height = toNumber(dimensions[3]!);
+    const unit = (dimensions[4] || 'ft').toLowerCase();
+    quote.dimension_unit =
+      unit === "'" || unit.startsWith('f')
+        ? 'ft'
+        : unit === '"' || unit.startsWith('in')
+          ? 'in'
+          : unit;
+    note('cargo_length', dimensions[0]);
+  }
+
+  const pieces =
+    text.match(/\b(?:qty|quantity)\s*:\s*(\d+)/i) ||
+    text.match(/(\d+)\s*(?:pieces?|pcs|pallets?|skids?|crates?|drums?|units?|containers?)\b/i);
+  if (pieces) {
+    quote.number_of_pieces = parseInt(pieces[1]!);
+    note('number_of_pieces', pieces[0]);
+  }
+
+  const hazmat = detectHazmat(text);
+  quote.hazardous_material = hazmat.hazardous;
+  if (hazmat.excerpt) note('hazardous_material', hazmat.excerpt);
+
+  const services: [RegExp, string][] = [
+    [/\b(drayage|container pick ?up|port delivery)\b/i, 'Drayage'],
+    [/\bintermodal\b/i, 'Intermodal'],
+    [/\b(ocean|fcl|lcl|vessel)\b/i, 'Ocean'],
+    [/\bair ?freight\b/i, 'Air'],
+    [/\btransload/i, 'Transloading'],
+  ];
+  quote.service_type = services.find(([pattern]) => pattern.test(text))?.[1] ?? 'Ground';
+
+  const equipment = text.match(
+    /\b(flatbed|step ?deck|rgn|lowboy|double drop|dry van|reefer|conestoga)\b/i
+  );
+  if (equipment) {
+    quote.equipment_type_requested = equipment[1]!;
+    note('equipment_type_requested', equipment[0]);
+  }
+
+  const description = text.match(/\b(?:commodity|cargo|description|item)\s*:\s*([^\n]+)/i);
+  quote.cargo_description = (description?.[1] ?? subject).trim() || null;
+  if (description) note('cargo_description', description[1]!.trim());
+
+  quote.field_provenance = provenance;
+
+  return {
+    email_thread_summary: {
+      thread_type: 'Initial Request',
+      number_of_exchanges: 1,
+      missing_information_requested: [],
+      conversation_summary: 'Extracted by the mock AI provider (rule-based)',
+    },
+    client_info: {
+      contact_person_name: email.fromName || null,
+      email_address: email.fromAddress || null,
+      client_company_name: null,
+    },
+    // Without a route there is nothing to quote
+    quotes: quote.origin_city || quote.destination_city ? [quote] : [],
+  };
+}
+
+/**
+ * Rule-based pricing: the algorithmic baseline from the prompt, else a per-mile rate
+ */
+function priceByRules(prompt: string): Record<string, unknown> {
+  const baseline = prompt.match(/recommended_price: \$([\d,]+(?:\.\d+)?)/);
+  const miles = prompt.match(
+    /Route Distance\*\*: ([\d,.]+) miles|route distance of \*\*([\d,.]+) miles/
+  );
+  const distance = miles ? toNumber(miles[1] || miles[2]!) : null;
+  const amount = Math.round(
+    baseline ? toNumber(baseline[1]!) : distance ? 350 + distance * 3 : 2500
+  );
+
+  return {
+    recommended_quote: {
+      initial_amount: amount,
+      floor_price: Math.round(amount * 0.9),
+      target_price: amount,
+      stretch_price: Math.round(amount * 1.15),
+    },
+    confidence_percentage: baseline ? 70 : 45,
+    price_breakdown: {
+      linehaul: Math.round(amount * 0.8),
+      fuel_surcharge: Math.round(amount * 0.15),
+      accessorials: 0,
+      port_fees: 0,
+      handling: 0,
+      margin: Math.round(amount * 0.05),
+    },
+    market_factors: [
+      baseline
+        ? 'Mock AI: algorithmic baseline'
+        : distance
+          ? `Mock AI: ${distance} miles at $3/mile plus $350`
+          : 'Mock AI: flat default price',
+    ],
+    negotiation_notes: 'Generated by the mock AI provider',
+    expiration_recommendation: '7 days',
+  };
+}
+
+/**
+ * Rule-based staff reply parsing: a reply quoting a dollar amount is a pricing email
+ */
+function parseReplyByRules(body: string): PricingReplyResult {
+  const price = body.match(/\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{2})?/);
+  return {
+    is_pricing_email: !!price,
+    confidence_score: price ? 0.7 : 0.6,
+    reason: price ? `Mock AI: found ${price[0]}` : 'Mock AI: no price found',
+    quotes: price
+      ? [{ quoted_price: toNumber(price[1]!), currency: 'USD', price_type: 'total' }]
+      : [],
+  };
+}
+
+class MockAIService extends BaseAIService {
+  private modelName: string;
+  private fixtures: Map<string, MockFixture> | null;
+  private callCounts: Map<string, number>;
+
+  constructor() {
+    super('Mock');
+    this.modelName = process.env.MOCK_AI_MODEL || 'mock-rules';
+    this.fixtures = null;
+    this.callCounts = new Map();
+  }
+
+  /**
+   * Model used for extraction and pricing
+   */
+  getModelName(): string {
+    return this.modelName;
+  }
+
+  /**
+   * Parse email from its fixture, else with the rule-based parser
+   */
+  async extractEmail(
+    email: Email,
+    maxRetries = 3,
+    attachmentText = '',
+    promptTemplate: string | null = null,
+    examples: ExtractionExample[] = []
+  ): Promise<ParsedEmailData | null> {
+    const emailContent = this.prepareEmailContent(email, attachmentText);
+    const prompt = this.getExtractionPrompt(emailContent, examples, promptTemplate);
+
+    return await this.withRetry(async () => {
+      const parsedData = await this.generateStructured<ParsedEmailData>(
+        prompt,
+        PARSED_EMAIL_OUTPUT
+      );
+      this.resolveFieldProvenance(parsedData, email, attachmentText);
+      const confidence = this.calculateConfidence(parsedData);
+
+      parsedData.ai_confidence_score = confidence;
+      parsedData.ai_provider = this.provider;
+
+      console.log(`  Success: Parsed email with ${this.serviceName} (confidence: ${confidence})`);
+      return parsedData;
+    }, maxRetries);
+  }
+
+  /**
+   * Pricing recommendation or email draft, depending on what the prompt asks for
+   */
+  async generateResponse(prompt: string): Promise<string> {
+    if (prompt.includes('recommended_quote')) {
+      const section = prompt.match(/## NEW QUOTE REQUEST\n([\s\S]*?)\n\n/)?.[1] ?? prompt;
+      const key = hashKey(section);
+      return this.respond(key, 'pricing', prompt, () =>
+        JSON.stringify(this.getFixture(key)?.pricing ?? priceByRules(prompt))
+      );
+    }
+
+    if (prompt.includes('"subject"') && prompt.includes('"body"')) {
+      return this.respond(hashKey(prompt), 'drafting', prompt, () =>
+        JSON.stringify({
+          subject: 'Your shipping quote',
+          body: 'Hello,\n\nThank you for your request. Please find our quote details below.\n\nBest regards',
+        })
+      );
+    }
+
+    return this.respond(hashKey(prompt), 'generation', prompt, () => '{}');
+  }
+
+  /**
+   * Structured output for the extraction and pricing reply schemas
+   */
+  async generateStructuredResponse(prompt: string, spec: StructuredOutputSpec): Promise<string> {
+    if (spec.name === PARSED_EMAIL_OUTPUT.name) {
+      const email = readPromptEmail(prompt);
+      if (!email) {
+        throw new MockAIError('bad_request');
+      }
+      const key = hashKey(email.subject, email.fromAddress, email.date);
+      return this.respond(key, 'extraction', prompt, () =>
+        JSON.stringify(this.getFixture(key)?.extraction ?? extractByRules(email))
+      );
+    }
+
+    const body =
+      prompt.match(
+        /Email Body:\n([\s\S]*?)(?:\n\n={40}\n(?:ATTACHMENT CONTENT|\nAnalyze)|$)/
+      )?.[1] ?? prompt;
+    const key = hashKey(body);
+    return this.respond(key, 'reply_parsing', prompt, () =>
+      JSON.stringify(this.getFixture(key)?.pricingReply ?? parseReplyByRules(body))
+    );
+  }
+
+  /**
+   * The mock needs no API key
+   */
+  async validateApiKey(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Forget loaded fixtures and call counts (fixtures are re-read on the next call)
+   */
+  reset(): void {
+    this.fixtures = null;
+    this.callCounts.clear();
+  }
+
+  /**
+   * Apply the simulated latency, errors and malformed output for a call, then answer it
+   */
+  private async respond(
+    key: string,
+    operation: 'extraction' | 'pricing' | 'reply_parsing' | 'drafting' | 'generation',
+    prompt: string,
+    answer: () => string
+  ): Promise<string> {
+    const call = (this.callCounts.get(key) || 0) + 1;
+    this.callCounts.set(key, call);
+
+    const fixture = this.getFixture(key);
+    if (!fixture && operation !== 'drafting' && operation !== 'generation' && call === 1) {
+      console.log(`  Mock AI: no fixture ${key}.json for this ${operation} call, using rules`);
+    }
+
+    const simulate = fixture?.simulate;
+    const latencyMs = simulate?.latencyMs ?? LATENCY_MS;
+    if (latencyMs > 0) {
+      await this.sleep(latencyMs);
+    }
+
+    // Deterministic per key and call number, so a run can be reproduced exactly
+    const roll = (purpose: string) =>
+      parseInt(
+        createHash('sha256').update(`${SEED}:${purpose}:${key}:${call}`).digest('hex').slice(0, 8),
+        16
+      ) / 0x100000000;
+    // A fixture's own simulation replaces the MOCK_AI_*_RATE settings for its key
+    const failing = simulate ? call <= (simulate.failCalls ?? Infinity) : false;
+
+    if ((failing && simulate?.error) || (!simulate && roll('error') < ERROR_RATE)) {
+      throw new MockAIError(simulate?.error ?? ERROR_KIND);
+    }
+
+    let text = answer();
+    if ((failing && simulate?.malformed) || (!simulate && roll('malformed') < MALFORMED_RATE)) {
+      text = text.slice(0, Math.max(1, Math.floor(text.length / 2)));
+    }
+
+    // Roughly 4 characters per token, so usage and cost accounting see the calls
+    this.recordUsage(
+      this.modelName,
+      Math.ceil(prompt.length / 4),
+      Math.ceil(text.length / 4),
+      operation
+    );
+    return text;
+  }
+
+  /**
+   * Fixture for a key, loading the fixtures directory on first use
+   */
+  private getFixture(key: string): MockFixture | undefined {
+    if (!this.fixtures) {
+      this.fixtures = new Map();
+      const dir = path.resolve(process.cwd(), FIXTURES_DIR);
+      if (fs.existsSync(dir)) {
+        for (const file of fs.readdirSync(dir).filter((name) => name.endsWith('.json'))) {
+          try {
+            const fixture = JSON.parse(
+              fs.readFileSync(path.join(dir, file), 'utf8')
+            ) as MockFixture;
+            this.fixtures.set(path.basename(file, '.json'), fixture);
+          } catch (error) {
+            console.warn(`Mock AI: ignoring fixture ${file}:`, (error as Error).message);
+          }
+        }
+      }
+    }
+    return this.fixtures.get(key);
+  }
+}
+
+const mockAIService = new MockAIService();
+
+export default mockAIService;
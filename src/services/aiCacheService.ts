@@ -0,0 +1,214 @@
+/**
+ * AI Cache Service
+ * Content-addressed cache of AI extraction and pricing responses, so reprocessing identical
+ * content (duplicate deliveries, re-runs after a failure, parse tests) does not pay for the AI again
+ *
+ * Extraction keys hash the sender address, the received day, the normalized subject and body, the
+ * hashes of the attachment texts, the prompt version, the rendered prompt with its few-shot
+ * examples, and the provider and model;
+ * pricing keys hash the pricing prompt, which already holds the quote, its historical matches and
+ * the algorithmic baseline
+ */
+
+import { createHash } from 'crypto';
+import * as db from '../config/db.js';
+import type { AICacheEntry, AICacheHitRate, AICacheKind, AICacheStats } from '../types/index.js';
+
+// 'false' turns the cache off (every call goes to the AI and nothing is stored)
+const CACHE_ENABLED = process.env.AI_CACHE_ENABLED !== 'false';
+const TTL_HOURS: Record<AICacheKind, number> = {
+  extraction: parseFloat(process.env.AI_CACHE_EXTRACTION_TTL_HOURS || '720'),
+  // Prices move with the market, so pricing responses are kept for a shorter time
+  pricing: parseFloat(process.env.AI_CACHE_PRICING_TTL_HOURS || '24'),
+};
+
+const sha256 = (text: string): string => createHash('sha256').update(text).digest('hex');
+
+/**
+ * Text in comparable form: forwarding and quoted-reply markers removed, whitespace collapsed,
+ * lower case
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/^-+\s*(forwarded|original) message\s*-+$/gim, '')
+    .replace(/^\s*>+ ?/gm, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+const hitRate = (hits: number, misses: number): AICacheHitRate => ({
+  hits,
+  misses,
+  hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : null,
+});
+
+class AICacheService {
+  private enabled = CACHE_ENABLED;
+
+  /**
+   * Turn the cache off for this process (benchmarks must call the AI every time)
+   */
+  disable(): void {
+    this.enabled = false;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Content hash of each attachment's extracted text, sorted (attachment order and file names do
+   * not change the key)
+   */
+  hashAttachments(attachmentText: string): string[] {
+    return attachmentText
+      .split(/^--- Content from .+? ---$/m)
+      .map(normalizeText)
+      .filter(Boolean)
+      .map(sha256)
+      .sort();
+  }
+
+  /**
+   * Cache key of an email extraction
+   * The sender and received day are part of the key: client_info comes from the sender and
+   * relative dates ("next Monday") are resolved against the email date
+   */
+  getExtractionKey(parts: {
+    senderAddress: string;
+    /** Received date and time; only the day is keyed */
+    receivedDateTime: string;
+    subject: string;
+    bodyText: string;
+    /** Content hashes of the attachments (hashAttachments) */
+    attachmentHashes: string[];
+    promptVersion: string;
+    /** Extraction prompt with its few-shot examples but without the email; changed examples get new keys */
+    prompt: string;
+    provider: string;
+    model: string;
+  }): string {
+    return sha256(
+      JSON.stringify({
+        kind: 'extraction',
+        sender: parts.senderAddress.trim().toLowerCase(),
+        receivedDay: parts.receivedDateTime.slice(0, 10),
+        subject: normalizeText(parts.subject).replace(/^((re|fw|fwd):\s*)+/, ''),
+        body: normalizeText(parts.bodyText),
+        attachments: [...parts.attachmentHashes].sort(),
+        promptVersion: parts.promptVersion,
+        prompt: sha256(parts.prompt),
+        provider: parts.provider,
+        model: parts.model,
+      })
+    );
+  }
+
+  /**
+   * Cache key of a pricing response
+   */
+  getPricingKey(parts: {
+    prompt: string;
+    promptVersion: string;
+    provider: string;
+    model: string;
+  }): string {
+    return sha256(
+      JSON.stringify({
+        kind: 'pricing',
+        prompt: sha256(normalizeText(parts.prompt)),
+        promptVersion: parts.promptVersion,
+        provider: parts.provider,
+        model: parts.model,
+      })
+    );
+  }
+
+  /**
+   * Cached response for a key, or null on a miss
+   * Lookups are counted for the hit rate; a cache that cannot be read counts as a miss.
+   * A hit for an email is recorded on the entry, so correcting any email that reused it
+   * invalidates it
+   */
+  async get<T>(
+    kind: AICacheKind,
+    cacheKey: string,
+    emailId: string | null = null
+  ): Promise<T | null> {
+    if (!this.enabled) return null;
+
+    const response = await db.getAIResponseCacheEntry(cacheKey, emailId).catch((error) => {
+      console.warn('AI cache: lookup failed:', (error as Error).message);
+      return null;
+    });
+    db.recordAIResponseCacheLookup(kind, response !== null).catch((error) =>
+      console.warn('AI cache: failed to count lookup:', (error as Error).message)
+    );
+    return response as T | null;
+  }
+
+  /**
+   * Store a response for its kind's TTL; a failed write is logged and never fails the caller
+   */
+  async save(entry: AICacheEntry): Promise<void> {
+    if (!this.enabled) return;
+
+    await db
+      .saveAIResponseCacheEntry(entry, TTL_HOURS[entry.kind])
+      .catch((error) =>
+        console.warn('AI cache: failed to store response:', (error as Error).message)
+      );
+  }
+
+  /**
+   * Delete cached responses matching the filters; returns the number deleted
+   */
+  async invalidate(filters: db.AIResponseCacheFilters = {}): Promise<number> {
+    const deleted = await db.deleteAIResponseCacheEntries(filters);
+    if (deleted > 0) {
+      console.log(`AI cache: invalidated ${deleted} entr${deleted === 1 ? 'y' : 'ies'}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Hit rate per day and kind, with the number of cached entries per kind
+   */
+  async getStats(filters: { startDate?: string; endDate?: string } = {}): Promise<AICacheStats> {
+    const { days, sizes } = await db.getAIResponseCacheStats(filters);
+
+    const kinds = (Object.keys(TTL_HOURS) as AICacheKind[]).map((kind) => {
+      const rows = days.filter((row) => row.kind === kind);
+      const size = sizes.find((row) => row.kind === kind);
+      return {
+        kind,
+        ...hitRate(
+          rows.reduce((sum, row) => sum + row.hits, 0),
+          rows.reduce((sum, row) => sum + row.misses, 0)
+        ),
+        entries: size?.entries ?? 0,
+        activeEntries: size?.active_entries ?? 0,
+      };
+    });
+
+    return {
+      enabled: this.enabled,
+      ttlHours: TTL_HOURS,
+      days: days.map((row) => ({
+        date: row.date,
+        kind: row.kind,
+        ...hitRate(row.hits, row.misses),
+      })),
+      kinds,
+      totals: hitRate(
+        kinds.reduce((sum, kind) => sum + kind.hits, 0),
+        kinds.reduce((sum, kind) => sum + kind.misses, 0)
+      ),
+    };
+  }
+}
+
+const aiCacheService = new AICacheService();
+
+export default aiCacheService;
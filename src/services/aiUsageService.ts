@@ -0,0 +1,313 @@
+/**
+ * AI Usage Service
+ * Records the tokens and cost of every AI provider call against the job, email and quote it was
+ * made for, reports daily spend per provider and enforces the optional monthly AI budget
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import * as db from '../config/db.js';
+import type {
+  AIBudgetStatus,
+  AICostReport,
+  AIUsageContext,
+  AIUsageOperation,
+  AIUsageRecord,
+  AIUsageTotals,
+  ModelPrice,
+} from '../types/index.js';
+
+// Monthly AI spend in USD above which AI jobs are paused (0 = no budget)
+const MONTHLY_BUDGET_USD = parseFloat(process.env.AI_MONTHLY_BUDGET_USD || '0');
+// How long the month-to-date spend is cached before re-reading it from ai_usage
+const BUDGET_CHECK_TTL_MS = parseInt(process.env.AI_BUDGET_CHECK_TTL_MS || '60000');
+
+/**
+ * USD per million tokens, matched by the longest model name prefix (dated snapshots such as
+ * claude-sonnet-4-20250514 use their family's price). AI_PRICE_TABLE adds or overrides entries,
+ * e.g. {"gpt-4o-mini": {"input": 0.15, "output": 0.6}}
+ */
+const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  // Offline mock provider (MOCK_AI_MODEL)
+  mock: { input: 0, output: 0 },
+};
+
+function loadPriceTable(): Record<string, ModelPrice> {
+  if (!process.env.AI_PRICE_TABLE) return { ...DEFAULT_PRICE_TABLE };
+  try {
+    return { ...DEFAULT_PRICE_TABLE, ...JSON.parse(process.env.AI_PRICE_TABLE) };
+  } catch (error) {
+    console.warn('Ignoring invalid AI_PRICE_TABLE:', (error as Error).message);
+    return { ...DEFAULT_PRICE_TABLE };
+  }
+}
+
+/**
+ * Thrown when AI work is attempted for a job while the monthly AI budget is exceeded
+ */
+export class AIBudgetExceededError extends Error {
+  constructor(status: AIBudgetStatus) {
+    super(
+      `Monthly AI budget exceeded ($${status.monthToDateUsd.toFixed(2)} of $${(status.monthlyBudgetUsd ?? 0).toFixed(2)})`
+    );
+    this.name = 'AIBudgetExceededError';
+  }
+}
+
+interface UsageScope {
+  context: AIUsageContext;
+  /** Totals of this scope and every enclosing scope; each call is added to all of them */
+  totals: AIUsageTotals[];
+}
+
+const emptyTotals = (): AIUsageTotals => ({
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+});
+const roundCost = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+function addToTotals(totals: AIUsageTotals, usage: AIUsageTotals): void {
+  totals.calls += usage.calls;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.costUsd = roundCost(totals.costUsd + usage.costUsd);
+}
+
+class AIUsageService {
+  private storage = new AsyncLocalStorage<UsageScope>();
+  private priceTable = loadPriceTable();
+  private unpricedModels = new Set<string>();
+  private persist = true;
+  private spendCache: { month: string; costUsd: number; expiresAt: number } | null = null;
+
+  /**
+   * Run fn with AI calls attributed to the context (merged into the enclosing context)
+   */
+  async run<T>(context: AIUsageContext, fn: () => Promise<T>): Promise<T> {
+    return (await this.measure(context, fn)).result;
+  }
+
+  /**
+   * Run fn with AI calls attributed to the context and return the tokens and cost it used
+   */
+  async measure<T>(
+    context: AIUsageContext,
+    fn: () => Promise<T>
+  ): Promise<{ result: T; usage: AIUsageTotals }> {
+    const parent = this.storage.getStore();
+    const usage = emptyTotals();
+    const scope: UsageScope = {
+      context: { ...parent?.context, ...context },
+      totals: [...(parent?.totals || []), usage],
+    };
+
+    const result = await this.storage.run(scope, fn);
+    return { result, usage };
+  }
+
+  /**
+   * Keep usage in memory only (offline scripts without a database)
+   */
+  disablePersistence(): void {
+    this.persist = false;
+  }
+
+  /**
+   * Sum of several usage totals
+   */
+  sumTotals(list: AIUsageTotals[]): AIUsageTotals {
+    const totals = emptyTotals();
+    for (const usage of list) addToTotals(totals, usage);
+    return totals;
+  }
+
+  /**
+   * Price of a model from the price table, by exact name or longest matching prefix
+   */
+  getPrice(model: string): ModelPrice | null {
+    const name = model.replace(/^models\//, '');
+    if (this.priceTable[name]) return this.priceTable[name];
+
+    const prefix = Object.keys(this.priceTable)
+      .filter((key) => name.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.priceTable[prefix]! : null;
+  }
+
+  /**
+   * Record one provider call with the tokens its SDK response reported
+   * Saved in the background; a failed write is logged and never fails the AI call
+   */
+  record(
+    provider: string,
+    model: string,
+    tokens: { inputTokens?: number | null; outputTokens?: number | null },
+    operation: AIUsageOperation = 'generation'
+  ): AIUsageRecord {
+    const scope = this.storage.getStore();
+    const context = scope?.context || {};
+    const inputTokens = tokens.inputTokens || 0;
+    const outputTokens = tokens.outputTokens || 0;
+    const price = this.getPrice(model);
+
+    if (!price && !this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model);
+      console.warn(
+        `AI usage: no price for model "${model}" (add it to AI_PRICE_TABLE); costed at $0`
+      );
+    }
+
+    const usage: AIUsageRecord = {
+      provider,
+      model,
+      operation: context.operation || operation,
+      jobId: context.jobId ?? null,
+      emailId: context.emailId ?? null,
+      quoteId: context.quoteId ?? null,
+      inputTokens,
+      outputTokens,
+      price,
+      costUsd: price
+        ? roundCost((inputTokens * price.input + outputTokens * price.output) / 1_000_000)
+        : 0,
+    };
+
+    const callTotals = { calls: 1, inputTokens, outputTokens, costUsd: usage.costUsd };
+    for (const totals of scope?.totals || []) addToTotals(totals, callTotals);
+    if (this.spendCache) {
+      this.spendCache.costUsd = roundCost(this.spendCache.costUsd + usage.costUsd);
+    }
+
+    if (this.persist) {
+      db.saveAIUsage(usage).catch((error) =>
+        console.error('AI usage: failed to record usage:', (error as Error).message)
+      );
+    }
+    return usage;
+  }
+
+  /**
+   * Month-to-date spend against AI_MONTHLY_BUDGET_USD
+   * When ai_usage cannot be read the last known spend is used
+   */
+  async getBudgetStatus(): Promise<AIBudgetStatus> {
+    const month = new Date().toISOString().slice(0, 7);
+    if (
+      !this.spendCache ||
+      this.spendCache.month !== month ||
+      this.spendCache.expiresAt <= Date.now()
+    ) {
+      const previous = this.spendCache?.month === month ? this.spendCache.costUsd : 0;
+      const costUsd = await db.getAIMonthToDateCost().catch((error) => {
+        console.warn('AI usage: could not read month-to-date spend:', (error as Error).message);
+        return previous;
+      });
+      this.spendCache = { month, costUsd, expiresAt: Date.now() + BUDGET_CHECK_TTL_MS };
+    }
+
+    const monthToDateUsd = roundCost(this.spendCache.costUsd);
+    const budget = MONTHLY_BUDGET_USD > 0 ? MONTHLY_BUDGET_USD : null;
+    return {
+      monthlyBudgetUsd: budget,
+      monthToDateUsd,
+      remainingUsd: budget !== null ? roundCost(Math.max(0, budget - monthToDateUsd)) : null,
+      exceeded: budget !== null && monthToDateUsd >= budget,
+    };
+  }
+
+  /**
+   * Whether the monthly AI budget is set and used up
+   */
+  async isBudgetExceeded(): Promise<boolean> {
+    return (await this.getBudgetStatus()).exceeded;
+  }
+
+  /**
+   * Throw AIBudgetExceededError when the monthly AI budget is used up
+   */
+  async assertWithinBudget(): Promise<void> {
+    const status = await this.getBudgetStatus();
+    if (status.exceeded) {
+      throw new AIBudgetExceededError(status);
+    }
+  }
+
+  /**
+   * Daily spend per provider with totals per provider, model and operation
+   */
+  async getCostReport(filters: db.AIUsageFilters = {}): Promise<AICostReport> {
+    const [rows, budget] = await Promise.all([
+      db.getAIUsageSummary(filters),
+      this.getBudgetStatus(),
+    ]);
+
+    const days = new Map<string, AICostReport['days'][number]>();
+    const providers = new Map<string, AICostReport['providers'][number]>();
+    const models = new Map<string, AICostReport['models'][number]>();
+    const operations = new Map<string, AICostReport['operations'][number]>();
+    const totals = emptyTotals();
+
+    for (const row of rows) {
+      const usage: AIUsageTotals = {
+        calls: row.calls,
+        inputTokens: parseInt(row.input_tokens),
+        outputTokens: parseInt(row.output_tokens),
+        costUsd: parseFloat(row.cost_usd),
+      };
+
+      const dayKey = `${row.date}:${row.provider}`;
+      if (!days.has(dayKey))
+        days.set(dayKey, { date: row.date, provider: row.provider, ...emptyTotals() });
+      addToTotals(days.get(dayKey)!, usage);
+
+      if (!providers.has(row.provider))
+        providers.set(row.provider, { provider: row.provider, ...emptyTotals() });
+      addToTotals(providers.get(row.provider)!, usage);
+
+      const modelKey = `${row.provider}:${row.model}`;
+      if (!models.has(modelKey)) {
+        models.set(modelKey, { provider: row.provider, model: row.model, ...emptyTotals() });
+      }
+      addToTotals(models.get(modelKey)!, usage);
+
+      if (!operations.has(row.operation)) {
+        operations.set(row.operation, { operation: row.operation, ...emptyTotals() });
+      }
+      addToTotals(operations.get(row.operation)!, usage);
+
+      addToTotals(totals, usage);
+    }
+
+    const byCost = (a: AIUsageTotals, b: AIUsageTotals) => b.costUsd - a.costUsd;
+    return {
+      days: Array.from(days.values()),
+      providers: Array.from(providers.values()).sort(byCost),
+      models: Array.from(models.values()).sort(byCost),
+      operations: Array.from(operations.values()).sort(byCost),
+      totals,
+      budget,
+      priceTable: this.priceTable,
+    };
+  }
+}
+
+const aiUsageService = new AIUsageService();
+
+export default aiUsageService;
@@ -7,7 +7,7 @@ import { createRequire } from 'module';
 import ExcelJS from 'exceljs';
 import Tesseract from 'tesseract.js';
 import * as microsoftGraphService from './mail/microsoftGraphService.js';
-import type { AttachmentMeta } from '../types/index.js';
+import type { Attachment, AttachmentMeta } from '../types/index.js';
 
 const require = createRequire(import.meta.url);
 const { PDFParse } = require('pdf-parse');
@@ -49,11 +49,15 @@ class AttachmentProcessor {
   }
 
   /**
-   * Process all attachments for an email
+   * Process all attachments for an email (fetched from Microsoft Graph unless already loaded)
    */
-  async processEmailAttachments(emailId: string): Promise<AttachmentProcessingResult> {
+  async processEmailAttachments(
+    emailId: string,
+    loadedAttachments?: Attachment[]
+  ): Promise<AttachmentProcessingResult> {
     try {
-      const attachments = await microsoftGraphService.default.fetchAttachments(emailId);
+      const attachments =
+        loadedAttachments ?? (await microsoftGraphService.default.fetchAttachments(emailId));
 
       if (!attachments || attachments.length === 0) {
         return { hasAttachments: false, extractedText: '', attachments: [] };
@@ -0,0 +1,188 @@
+/**
+ * Currency Service
+ * Converts amounts between currencies using a locally loaded, dated FX rate table,
+ * so historical prices quoted in different currencies can be compared
+ */
+
+import fs from 'fs';
+import fxRatesData from '../config/fxRates.json' with { type: 'json' };
+import type { CurrencyConversion, FxRateSnapshot, FxRateTable } from '../types/index.js';
+
+// Optional path to a JSON rate table with the same shape as config/fxRates.json
+const FX_RATES_FILE = process.env.FX_RATES_FILE;
+
+// Symbols and spellings seen in extracted quotes
+const CURRENCY_ALIASES: Record<string, string> = {
+  $: 'USD',
+  US$: 'USD',
+  USD$: 'USD',
+  DOLLAR: 'USD',
+  DOLLARS: 'USD',
+  'US DOLLAR': 'USD',
+  'US DOLLARS': 'USD',
+  C$: 'CAD',
+  CA$: 'CAD',
+  CAD$: 'CAD',
+  'CANADIAN DOLLAR': 'CAD',
+  'CANADIAN DOLLARS': 'CAD',
+  MX$: 'MXN',
+  MEX$: 'MXN',
+  PESO: 'MXN',
+  PESOS: 'MXN',
+  A$: 'AUD',
+  AU$: 'AUD',
+  '€': 'EUR',
+  EURO: 'EUR',
+  EUROS: 'EUR',
+  '£': 'GBP',
+  RMB: 'CNY',
+  '₹': 'INR',
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Load the rate table, preferring FX_RATES_FILE over the bundled snapshot
+ */
+function loadRateTable(): FxRateTable {
+  let table = fxRatesData as FxRateTable;
+  if (FX_RATES_FILE) {
+    try {
+      table = JSON.parse(fs.readFileSync(FX_RATES_FILE, 'utf8')) as FxRateTable;
+    } catch (error) {
+      console.warn(`Could not load FX rates from ${FX_RATES_FILE}:`, (error as Error).message);
+    }
+  }
+
+  return {
+    baseCurrency: table.baseCurrency.toUpperCase(),
+    snapshots: [...table.snapshots].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+class CurrencyService {
+  private table: FxRateTable = loadRateTable();
+  private unrecognized = new Set<string>();
+
+  /** Currency every rate in the table is expressed against */
+  get baseCurrency(): string {
+    return this.table.baseCurrency;
+  }
+
+  /**
+   * ISO code for a currency as extracted ("usd", "USD.", "US$", "US Dollars", "€"), or null if
+   * unrecognized
+   */
+  normalizeCode(currency: string | null | undefined): string | null {
+    if (!currency) return null;
+    const value = currency
+      .toUpperCase()
+      .replace(/[.,;:()]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (CURRENCY_ALIASES[value]) return CURRENCY_ALIASES[value]!;
+    if (/^[A-Z]{3}$/.test(value)) return value;
+    // A leading ISO code followed by its name ("USD DOLLARS", "EUR EURO")
+    const code = value.match(/^([A-Z]{3}) [A-Z ]+$/)?.[1];
+    return code && this.getSupportedCurrencies().includes(code) ? code : null;
+  }
+
+  /**
+   * Source currency of a conversion; an unrecognized value is taken as the base currency
+   * (logged once per value) so the amount is still used
+   */
+  private sourceCode(currency: string): string {
+    const code = this.normalizeCode(currency);
+    if (code) return code;
+
+    if (!this.unrecognized.has(currency)) {
+      this.unrecognized.add(currency);
+      console.warn(
+        `Currency: unrecognized currency "${currency}", treated as ${this.table.baseCurrency}`
+      );
+    }
+    return this.table.baseCurrency;
+  }
+
+  /**
+   * Currencies with rates in the table
+   */
+  getSupportedCurrencies(): string[] {
+    const codes = new Set<string>([this.table.baseCurrency]);
+    for (const snapshot of this.table.snapshots) {
+      Object.keys(snapshot.rates).forEach((code) => codes.add(code.toUpperCase()));
+    }
+    return Array.from(codes).sort();
+  }
+
+  isSupported(currency: string | null | undefined): boolean {
+    const code = this.normalizeCode(currency);
+    return code !== null && this.getSupportedCurrencies().includes(code);
+  }
+
+  /**
+   * Snapshot in effect on a date (the latest one on or before it)
+   * Dates before the table use its first snapshot; no date uses the latest
+   */
+  snapshotOn(date?: string | Date | null): FxRateSnapshot | null {
+    const { snapshots } = this.table;
+    if (snapshots.length === 0) return null;
+
+    const parsed = date ? new Date(date) : null;
+    if (!parsed || isNaN(parsed.getTime())) return snapshots[snapshots.length - 1]!;
+
+    const day = parsed.toISOString().slice(0, 10);
+    let found = snapshots[0]!;
+    for (const snapshot of snapshots) {
+      if (snapshot.date > day) break;
+      found = snapshot;
+    }
+    return found;
+  }
+
+  /**
+   * Units of a currency per one unit of the base currency on a date
+   */
+  rateOn(currency: string, snapshot: FxRateSnapshot | null): number | null {
+    if (currency === this.table.baseCurrency) return 1;
+    const rate = snapshot?.rates[currency];
+    return typeof rate === 'number' && rate > 0 ? rate : null;
+  }
+
+  /**
+   * Convert an amount at the rates in effect on a date
+   * A missing or unrecognized source currency is assumed to be the base currency; returns null
+   * when either currency has no rate
+   */
+  convert(
+    amount: number,
+    fromCurrency: string | null | undefined,
+    toCurrency: string | null | undefined,
+    date?: string | Date | null
+  ): CurrencyConversion | null {
+    const from = fromCurrency ? this.sourceCode(fromCurrency) : this.table.baseCurrency;
+    const to = toCurrency ? this.normalizeCode(toCurrency) : this.table.baseCurrency;
+    if (!from || !to) return null;
+
+    const snapshot = this.snapshotOn(date);
+    const fromRate = this.rateOn(from, snapshot);
+    const toRate = this.rateOn(to, snapshot);
+    if (fromRate === null || toRate === null) return null;
+
+    const rate = toRate / fromRate;
+    return {
+      fromCurrency: from,
+      toCurrency: to,
+      originalAmount: amount,
+      convertedAmount: round2(amount * rate),
+      rate: Math.round(rate * 1000000) / 1000000,
+      rateDate: snapshot?.date ?? '',
+    };
+  }
+}
+
+const currencyService = new CurrencyService();
+
+export default currencyService;
+export const convert = currencyService.convert.bind(currencyService);
+export const normalizeCode = currencyService.normalizeCode.bind(currencyService);
@@ -7,7 +7,15 @@ import * as db from '../config/db.js';
 import type { QuoteFeedbackData } from '../config/db.js';
 import { getAIService } from './ai/aiServiceFactory.js';
 import { calculateQuoteDistance, type RouteDistance } from './googleMapsService.js';
+import quoteDistanceService from './quoteDistanceService.js';
 import { getPromptForTask } from '../prompts/shippingQuotePrompts.js';
+import rateCardService from './rateCardService.js';
+import promptRegistryService from './promptRegistryService.js';
+import aiUsageService from './aiUsageService.js';
+import aiCacheService from './aiCacheService.js';
+import fuelIndexService from './fuelIndexService.js';
+import currencyService from './currencyService.js';
+import terminalRegistryService from './terminalRegistryService.js';
 import type {
   Quote,
   QuoteMatch,
@@ -20,6 +28,13 @@ import type {
   SmartPricing,
   PriceRange,
   MatchMetadata,
+  RateCardMatch,
+  FuelAdjustment,
+  FuelAdjustmentSummary,
+  FuelIndexEntry,
+  CurrencyConversion,
+  TerminalMatch,
+  CachedPricingResponse,
 } from '../types/index.js';
 import trailerConfigsData from '../config/trailerConfigs.json' with { type: 'json' };
 
@@ -177,8 +192,50 @@ const ENHANCED_WEIGHTS: Record<string, number> = {
   equipment_type: 0.04,       // NEW: equipment matching
   recency: 0.05,
   distance_similarity: 0.18,
+  terminal_complex: 0.06,     // Only counted when either quote starts/ends at a known terminal
 };
 
+// Extracted fields each criterion is computed from
+const CRITERIA_SOURCE_FIELDS: Record<string, (keyof Quote)[]> = {
+  origin_region: ['origin_city', 'origin_state_province', 'origin_country'],
+  origin_city: ['origin_city'],
+  destination_region: ['destination_city', 'destination_state_province', 'destination_country'],
+  destination_city: ['destination_city'],
+  service_type: ['service_type'],
+  service_compatibility: ['service_type'],
+  cargo_category: ['cargo_description'],
+  cargo_weight_range: ['cargo_weight', 'weight_unit'],
+  cargo_weight_actual: ['cargo_weight', 'weight_unit'],
+  number_of_pieces: ['number_of_pieces'],
+  hazmat: ['hazardous_material'],
+  container_type: ['cargo_description', 'service_type'],
+  equipment_type: ['cargo_description', 'service_type'],
+  terminal_complex: ['origin_full_address', 'destination_full_address'],
+};
+
+// Criteria whose source fields were extracted below this confidence get their weight scaled
+// by that confidence (never below the floor), so guessed fields drive matches less
+const LOW_FIELD_CONFIDENCE = 0.7;
+const MIN_FIELD_CONFIDENCE_FACTOR = 0.25;
+
+/**
+ * Weight multiplier for a criterion from the lowest extraction confidence of its source fields
+ * Returns 1 when no field confidence is stored or every field is confident
+ */
+function getFieldConfidenceFactor(criterion: string, quotes: Quote[]): number {
+  const fields = CRITERIA_SOURCE_FIELDS[criterion];
+  if (!fields) return 1;
+
+  let lowest = 1;
+  for (const quote of quotes) {
+    for (const field of fields) {
+      const confidence = quote.field_confidence?.[field]?.confidence;
+      if (typeof confidence === 'number' && confidence < lowest) lowest = confidence;
+    }
+  }
+  return lowest < LOW_FIELD_CONFIDENCE ? Math.max(MIN_FIELD_CONFIDENCE_FACTOR, lowest) : 1;
+}
+
 // =============================================================================
 // FALLBACK PRICING SYSTEM - Used when no historical matches are found
 // =============================================================================
@@ -1094,6 +1151,25 @@ function calculateCityMatchScore(
   return 0.0;
 }
 
+/**
+ * Score one end (origin or destination) of two quotes by terminal
+ * Same terminal = 1.0, same port complex / rail hub = 0.85, different complex or only one
+ * end at a terminal = 0; null when neither end is at a known terminal
+ * e.g., "APM Terminal Elizabeth" vs "Port Newark" are the same complex
+ */
+function calculateTerminalEndScore(
+  source: TerminalMatch | null,
+  historical: TerminalMatch | null
+): number | null {
+  if (!source && !historical) return null;
+  if (!source || !historical) return 0.0;
+
+  if (source.terminal && historical.terminal && source.terminal.id === historical.terminal.id) {
+    return 1.0;
+  }
+  return source.complex.id === historical.complex.id ? 0.85 : 0.0;
+}
+
 /**
  * Calculate similarity between two route distances
  * Returns 1.0 for identical distances, decaying toward 0 as difference grows
@@ -1148,6 +1224,14 @@ function calculateEnhancedSimilarity(
   let totalScore = 0;
   let totalWeight = 0;
 
+  // Criterion weight, scaled down when its source fields have low extraction confidence
+  const fieldConfidenceFactors: Record<string, number> = {};
+  const weightOf = (criterion: string): number => {
+    const factor = getFieldConfidenceFactor(criterion, [sourceQuote, historicalQuote]);
+    if (factor < 1) fieldConfidenceFactors[criterion] = Math.round(factor * 100) / 100;
+    return ENHANCED_WEIGHTS[criterion]! * factor;
+  };
+
   // Origin Matching
   const sourceOriginRegion = getUSRegion(sourceQuote.origin_city, sourceQuote.origin_state_province) ||
                              getIntlRegion(sourceQuote.origin_country);
@@ -1162,9 +1246,9 @@ function calculateEnhancedSimilarity(
     sourceQuote.origin_state_province, historicalQuote.origin_state_province
   );
 
-  totalScore += (criteria.origin_region || 0) * ENHANCED_WEIGHTS.origin_region!;
-  totalScore += (criteria.origin_city || 0) * ENHANCED_WEIGHTS.origin_city!;
-  totalWeight += ENHANCED_WEIGHTS.origin_region! + ENHANCED_WEIGHTS.origin_city!;
+  totalScore += (criteria.origin_region || 0) * weightOf('origin_region');
+  totalScore += (criteria.origin_city || 0) * weightOf('origin_city');
+  totalWeight += weightOf('origin_region') + weightOf('origin_city');
 
   // Destination Matching
   const sourceDestRegion = getUSRegion(sourceQuote.destination_city, sourceQuote.destination_state_province) ||
@@ -1179,9 +1263,9 @@ function calculateEnhancedSimilarity(
     sourceQuote.destination_state_province, historicalQuote.destination_state_province
   );
 
-  totalScore += (criteria.destination_region || 0) * ENHANCED_WEIGHTS.destination_region!;
-  totalScore += (criteria.destination_city || 0) * ENHANCED_WEIGHTS.destination_city!;
-  totalWeight += ENHANCED_WEIGHTS.destination_region! + ENHANCED_WEIGHTS.destination_city!;
+  totalScore += (criteria.destination_region || 0) * weightOf('destination_region');
+  totalScore += (criteria.destination_city || 0) * weightOf('destination_city');
+  totalWeight += weightOf('destination_region') + weightOf('destination_city');
 
   // Service Type Matching - apply distance-based correction first
   const rawSourceService = normalizeServiceType(sourceQuote.service_type);
@@ -1239,8 +1323,8 @@ function calculateEnhancedSimilarity(
   criteria.service_compatibility = serviceCompatScore;
 
   const serviceScore = Math.max(criteria.service_type || 0, criteria.service_compatibility || 0);
-  totalScore += serviceScore * (ENHANCED_WEIGHTS.service_type! + ENHANCED_WEIGHTS.service_compatibility!);
-  totalWeight += ENHANCED_WEIGHTS.service_type! + ENHANCED_WEIGHTS.service_compatibility!;
+  totalScore += serviceScore * (weightOf('service_type') + weightOf('service_compatibility'));
+  totalWeight += weightOf('service_type') + weightOf('service_compatibility');
 
   // Cargo Matching - stricter with explicit incompatibilities
   const sourceCargoCat = classifyCargo(sourceQuote.cargo_description);
@@ -1273,8 +1357,8 @@ function calculateEnhancedSimilarity(
   }
   criteria.cargo_category = cargoScore;
 
-  totalScore += (criteria.cargo_category || 0) * ENHANCED_WEIGHTS.cargo_category!;
-  totalWeight += ENHANCED_WEIGHTS.cargo_category!;
+  totalScore += (criteria.cargo_category || 0) * weightOf('cargo_category');
+  totalWeight += weightOf('cargo_category');
 
   // Weight Matching - stricter to avoid unrealistic matches
   const sourceWeightRange = getWeightRange(sourceQuote.cargo_weight, sourceQuote.weight_unit);
@@ -1292,8 +1376,8 @@ function calculateEnhancedSimilarity(
     criteria.cargo_weight_range = 0.35; // Lower default when weight unknown - risky assumption
   }
 
-  totalScore += (criteria.cargo_weight_range || 0) * ENHANCED_WEIGHTS.cargo_weight_range!;
-  totalWeight += ENHANCED_WEIGHTS.cargo_weight_range!;
+  totalScore += (criteria.cargo_weight_range || 0) * weightOf('cargo_weight_range');
+  totalWeight += weightOf('cargo_weight_range');
 
   // Actual Weight Comparison (more granular than weight range)
   const sourceWeightKg = parseFloat(String(sourceQuote.cargo_weight || 0));
@@ -1308,8 +1392,8 @@ function calculateEnhancedSimilarity(
   } else {
     criteria.cargo_weight_actual = 0.3; // Low score for unknown weights
   }
-  totalScore += (criteria.cargo_weight_actual || 0) * ENHANCED_WEIGHTS.cargo_weight_actual!;
-  totalWeight += ENHANCED_WEIGHTS.cargo_weight_actual!;
+  totalScore += (criteria.cargo_weight_actual || 0) * weightOf('cargo_weight_actual');
+  totalWeight += weightOf('cargo_weight_actual');
 
   // Equipment Type Matching
   const sourceEquipment = detectEquipmentType(
@@ -1335,8 +1419,8 @@ function calculateEnhancedSimilarity(
   const equipmentCompat = EQUIPMENT_COMPATIBLE[sourceEquipment] || [sourceEquipment];
   criteria.equipment_type = sourceEquipment === histEquipment ? 1.0 :
                             equipmentCompat.includes(histEquipment) ? 0.6 : 0.1;
-  totalScore += (criteria.equipment_type || 0) * ENHANCED_WEIGHTS.equipment_type!;
-  totalWeight += ENHANCED_WEIGHTS.equipment_type!;
+  totalScore += (criteria.equipment_type || 0) * weightOf('equipment_type');
+  totalWeight += weightOf('equipment_type');
 
   // Piece Count
   const sourcePieces = parseInt(String(sourceQuote.number_of_pieces)) || 0;
@@ -1349,16 +1433,16 @@ function calculateEnhancedSimilarity(
     criteria.number_of_pieces = 0.5;
   }
 
-  totalScore += (criteria.number_of_pieces || 0) * ENHANCED_WEIGHTS.number_of_pieces!;
-  totalWeight += ENHANCED_WEIGHTS.number_of_pieces!;
+  totalScore += (criteria.number_of_pieces || 0) * weightOf('number_of_pieces');
+  totalWeight += weightOf('number_of_pieces');
 
   // Hazmat Matching
   const sourceHazmat = sourceQuote.hazardous_material === true;
   const histHazmat = historicalQuote.hazardous_material === true;
 
   criteria.hazmat = sourceHazmat === histHazmat ? 1 : 0;
-  totalScore += (criteria.hazmat || 0) * ENHANCED_WEIGHTS.hazmat!;
-  totalWeight += ENHANCED_WEIGHTS.hazmat!;
+  totalScore += (criteria.hazmat || 0) * weightOf('hazmat');
+  totalWeight += weightOf('hazmat');
 
   // Container Type
   const sourceContainer = detectContainerType(sourceQuote.cargo_description, sourceQuote.service_type);
@@ -1370,8 +1454,8 @@ function calculateEnhancedSimilarity(
     criteria.container_type = 0.7;
   }
 
-  totalScore += (criteria.container_type || 0) * ENHANCED_WEIGHTS.container_type!;
-  totalWeight += ENHANCED_WEIGHTS.container_type!;
+  totalScore += (criteria.container_type || 0) * weightOf('container_type');
+  totalWeight += weightOf('container_type');
 
   // Recency - shipping rates change frequently (fuel, market conditions)
   // Use 75-day half-life so older quotes are appropriately discounted
@@ -1386,8 +1470,8 @@ function calculateEnhancedSimilarity(
     criteria.recency = 0.25; // Low default for unknown dates - risky to trust
   }
 
-  totalScore += (criteria.recency || 0) * ENHANCED_WEIGHTS.recency!;
-  totalWeight += ENHANCED_WEIGHTS.recency!;
+  totalScore += (criteria.recency || 0) * weightOf('recency');
+  totalWeight += weightOf('recency');
 
   // Distance Similarity
   // Use provided distances, or fall back to stored total_distance_miles
@@ -1395,8 +1479,29 @@ function calculateEnhancedSimilarity(
   const histDist = historicalDistance ?? historicalQuote.total_distance_miles;
   criteria.distance_similarity = calculateDistanceSimilarity(srcDist, histDist);
 
-  totalScore += (criteria.distance_similarity || 0) * ENHANCED_WEIGHTS.distance_similarity!;
-  totalWeight += ENHANCED_WEIGHTS.distance_similarity!;
+  totalScore += (criteria.distance_similarity || 0) * weightOf('distance_similarity');
+  totalWeight += weightOf('distance_similarity');
+
+  // Terminal Complex - drayage is priced per port complex / rail hub rather than per city,
+  // so only scored when either quote starts or ends at a known terminal
+  const sourceOriginTerminal = terminalRegistryService.resolveQuoteEnd(sourceQuote, 'origin');
+  const sourceDestTerminal = terminalRegistryService.resolveQuoteEnd(sourceQuote, 'destination');
+  const terminalEndScores = [
+    calculateTerminalEndScore(
+      sourceOriginTerminal,
+      terminalRegistryService.resolveQuoteEnd(historicalQuote, 'origin')
+    ),
+    calculateTerminalEndScore(
+      sourceDestTerminal,
+      terminalRegistryService.resolveQuoteEnd(historicalQuote, 'destination')
+    ),
+  ].filter((endScore): endScore is number => endScore !== null);
+
+  if (terminalEndScores.length > 0) {
+    criteria.terminal_complex = terminalEndScores.reduce((a, b) => a + b, 0) / terminalEndScores.length;
+    totalScore += criteria.terminal_complex * weightOf('terminal_complex');
+    totalWeight += weightOf('terminal_complex');
+  }
 
   let finalScore = totalWeight > 0 ? totalScore / totalWeight : 0;
 
@@ -1432,6 +1537,9 @@ function calculateEnhancedSimilarity(
       histCargoCat,
       sourceOriginRegion,
       sourceDestRegion,
+      sourceOriginComplex: sourceOriginTerminal?.complex.id ?? null,
+      sourceDestComplex: sourceDestTerminal?.complex.id ?? null,
+      ...(Object.keys(fieldConfidenceFactors).length > 0 && { fieldConfidenceFactors }),
     },
   };
 }
@@ -1442,9 +1550,17 @@ interface PriceSuggestion {
   priceRange: PriceRange | null;
   priceSource?: string;
   jobWon?: boolean | null;
+  fuelAdjustment?: FuelAdjustment | null;
+  currencyConversion?: CurrencyConversion | null;
 }
 
-function suggestPriceEnhanced(historicalQuote: Quote, similarityScore: number, sourceQuote: Quote): PriceSuggestion {
+function suggestPriceEnhanced(
+  historicalQuote: Quote,
+  similarityScore: number,
+  sourceQuote: Quote,
+  fuelIndex: FuelIndexEntry[] = [],
+  currency: string = currencyService.baseCurrency
+): PriceSuggestion {
   const price = historicalQuote.final_agreed_price || historicalQuote.initial_quote_amount;
   if (!price || price <= 0) return { suggestedPrice: null, priceConfidence: 0, priceRange: null };
 
@@ -1486,7 +1602,15 @@ function suggestPriceEnhanced(historicalQuote: Quote, similarityScore: number, s
   }
 
   const priceVariance = (1 - Math.min(1, baseConfidence)) * 0.25;
-  const basePrice = parseFloat(String(price));
+
+  // Express the historical price in the target currency at the rate on its quote date
+  const conversion = currencyService.convert(parseFloat(String(price)), historicalQuote.initial_quote_currency, currency, quoteDate);
+  if (!conversion) return { suggestedPrice: null, priceConfidence: 0, priceRange: null };
+  const currencyConversion = conversion.fromCurrency !== conversion.toCurrency ? conversion : null;
+
+  // Bring the historical price to current diesel levels before comparing
+  const fuelAdjustment = fuelIndexService.adjustPrice(fuelIndex, conversion.convertedAmount, quoteDate);
+  const basePrice = fuelAdjustment?.adjustedPrice ?? conversion.convertedAmount;
   const suggestedPrice = Math.round(basePrice * pricingMultiplier);
 
   return {
@@ -1498,6 +1622,8 @@ function suggestPriceEnhanced(historicalQuote: Quote, similarityScore: number, s
     },
     priceSource: historicalQuote.final_agreed_price ? 'FINAL_AGREED' : 'INITIAL_QUOTE',
     jobWon: historicalQuote.job_won,
+    fuelAdjustment,
+    currencyConversion,
   };
 }
 
@@ -1507,6 +1633,9 @@ interface MatchingOptions {
   useAI?: boolean;
   feedbackData?: Map<number, QuoteFeedbackData>;
   skipValidation?: boolean; // Set true to skip quality filters (for debugging)
+  rateCard?: RateCardMatch | null; // Applicable rate card; looked up when omitted
+  fuelIndex?: FuelIndexEntry[]; // Weekly diesel index for normalizing historical prices
+  currency?: string; // Currency historical prices are converted to (defaults to the FX base currency)
 }
 
 // Price bounds for sanity checking - quotes outside these ranges are likely errors
@@ -1533,13 +1662,22 @@ function validateHistoricalQuote(quote: Quote): QuoteValidationResult {
   const warnings: string[] = [];
   let qualityScore = 1.0;
 
-  const price = quote.final_agreed_price || quote.initial_quote_amount;
+  const quotedPrice = quote.final_agreed_price || quote.initial_quote_amount;
 
   // Check 1: Must have a price
-  if (!price || price <= 0) {
+  if (!quotedPrice || quotedPrice <= 0) {
     return { valid: false, quote, warnings: ['No valid price'], qualityScore: 0 };
   }
 
+  // Sanity bounds are in the FX base currency
+  const conversion = currencyService.convert(
+    parseFloat(String(quotedPrice)), quote.initial_quote_currency, null, quote.quote_date || quote.created_at
+  );
+  if (!conversion) {
+    return { valid: false, quote, warnings: [`Unsupported currency ${quote.initial_quote_currency}`], qualityScore: 0 };
+  }
+  const price = conversion.convertedAmount;
+
   // Check 2: Price sanity bounds
   if (price < PRICE_SANITY_BOUNDS.MIN_PRICE) {
     return { valid: false, quote, warnings: [`Price $${price} below minimum threshold`], qualityScore: 0 };
@@ -1765,7 +1903,7 @@ function detectAndRemoveOutliers(
 
 /**
  * Calculate statistically robust pricing from matches
- * Uses weighted median and trimmed mean for stability
+ * Uses weighted median and trimmed mean for stability; an applicable rate card takes precedence
  */
 interface StatisticalPricingResult {
   recommendedPrice: number;
@@ -1781,18 +1919,48 @@ interface StatisticalPricingResult {
     stdDev: number;
     coeffOfVariation: number;
   };
+  /** Rate card the price was taken from, when one applied */
+  rateCard?: RateCardMatch;
+  /** Currency of every price in the result */
+  currency: string;
+  /** Fuel normalization applied to the historical prices */
+  fuelAdjustment?: FuelAdjustmentSummary | null;
 }
 
 function calculateStatisticalPricing(
   matches: ExtendedQuoteMatch[],
-  sourceQuote: Quote
+  sourceQuote: Quote,
+  rateCard: RateCardMatch | null = null,
+  fuelIndex: FuelIndexEntry[] = [],
+  currency: string = currencyService.baseCurrency
 ): StatisticalPricingResult | null {
+  // Convert prices of matches that were not converted to the target currency when they were found
+  const convertedMatches = matches.map(m => {
+    if (m.currencyConversion !== undefined || typeof m.suggested_price !== 'number') return m;
+    const conversion = currencyService.convert(m.suggested_price, m.matchedQuoteData?.currency, currency, m.matchedQuoteData?.quoteDate);
+    if (!conversion) return { ...m, suggested_price: null, currencyConversion: null };
+    return conversion.fromCurrency !== conversion.toCurrency
+      ? { ...m, suggested_price: conversion.convertedAmount, currencyConversion: conversion }
+      : { ...m, currencyConversion: null };
+  });
+
+  // Normalize prices of matches that were not fuel-adjusted when they were found
+  const normalizedMatches = convertedMatches.map(m => {
+    if (m.fuelAdjustment !== undefined || typeof m.suggested_price !== 'number') return m;
+    const fuelAdjustment = fuelIndexService.adjustPrice(fuelIndex, m.suggested_price, m.matchedQuoteData?.quoteDate);
+    return fuelAdjustment
+      ? { ...m, suggested_price: fuelAdjustment.adjustedPrice, fuelAdjustment }
+      : { ...m, fuelAdjustment: null };
+  });
+
   // Get valid prices weighted by similarity score
-  const pricedMatches = matches.filter(m =>
+  const pricedMatches = normalizedMatches.filter(m =>
     typeof m.suggested_price === 'number' && m.suggested_price > 0
   );
+  const fuelAdjustment = fuelIndexService.summarize(pricedMatches.map(m => m.fuelAdjustment));
+  const convertedCount = pricedMatches.filter(m => m.currencyConversion).length;
 
-  if (pricedMatches.length === 0) {
+  if (pricedMatches.length === 0 && !rateCard) {
     return null;
   }
 
@@ -1865,19 +2033,46 @@ function calculateStatisticalPricing(
     priceRange.high = Math.round(Math.min(priceRange.high, calculatePercentile(prices, 85)));
   }
 
+  const stats = {
+    matchCount: pricedMatches.length,
+    mean: Math.round(mean),
+    median: Math.round(median),
+    trimmedMean: Math.round(trimmedMean),
+    stdDev: Math.round(stdDev),
+    coeffOfVariation: Math.round(coeffOfVariation * 100) / 100,
+  };
+
+  // Contract rate: the match statistics are kept only for comparison
+  if (rateCard) {
+    const conversion = currencyService.convert(rateCard.price, rateCard.currency, currency);
+    const cardPrice = conversion?.convertedAmount ?? rateCard.price;
+    const converted = conversion && conversion.fromCurrency !== conversion.toCurrency ? ` converted from ${conversion.fromCurrency}` : '';
+    return {
+      recommendedPrice: Math.round(cardPrice),
+      confidence_percentage: 95,
+      priceRange: { low: Math.round(cardPrice), high: Math.round(cardPrice) },
+      methodology: `Rate card "${rateCard.name}" (#${rateCard.rateCardId})${converted}`,
+      stats,
+      currency,
+      rateCard,
+    };
+  }
+
+  if (fuelAdjustment) {
+    methodology += ` (${fuelAdjustment.adjustedMatches} price(s) fuel-adjusted to $${fuelAdjustment.currentDiesel}/gal diesel)`;
+  }
+  if (convertedCount > 0) {
+    methodology += ` (${convertedCount} price(s) converted to ${currency})`;
+  }
+
   return {
     recommendedPrice: Math.round(recommendedPrice),
     confidence_percentage,
     priceRange,
     methodology,
-    stats: {
-      matchCount: pricedMatches.length,
-      mean: Math.round(mean),
-      median: Math.round(median),
-      trimmedMean: Math.round(trimmedMean),
-      stdDev: Math.round(stdDev),
-      coeffOfVariation: Math.round(coeffOfVariation * 100) / 100,
-    },
+    stats,
+    currency,
+    fuelAdjustment,
   };
 }
 
@@ -1942,7 +2137,10 @@ function findEnhancedMatches(
   options: MatchingOptions = {},
   sourceDistance?: number | null
 ): ExtendedQuoteMatch[] {
-  const { minScore = 0.55, maxMatches = 10, feedbackData, skipValidation = false } = options;
+  const {
+    minScore = 0.55, maxMatches = 10, feedbackData, skipValidation = false, fuelIndex = [],
+    currency = currencyService.baseCurrency,
+  } = options;
 
   // Per-service minimum similarity thresholds - raised for more realistic matches
   // A 0.55 match means only 55% confidence - pricing from such matches is unreliable
@@ -1983,7 +2181,7 @@ function findEnhancedMatches(
     const adjustedScore = Math.min(1.0, score + feedbackBoost);
 
     if (adjustedScore >= effectiveMinScore) {
-      const priceInfo = suggestPriceEnhanced(historical, adjustedScore, sourceQuote);
+      const priceInfo = suggestPriceEnhanced(historical, adjustedScore, sourceQuote, fuelIndex, currency);
 
       // Adjust price confidence based on feedback
       let adjustedPriceConfidence = priceInfo.priceConfidence;
@@ -2010,6 +2208,8 @@ function findEnhancedMatches(
         price_range: priceInfo.priceRange,
         priceSource: priceInfo.priceSource,
         jobWon: priceInfo.jobWon,
+        fuelAdjustment: priceInfo.fuelAdjustment ?? null,
+        currencyConversion: priceInfo.currencyConversion ?? null,
         metadata,
         feedbackData: quoteFeedback,
         feedbackBoost: feedbackBoost,
@@ -2029,6 +2229,7 @@ function findEnhancedMatches(
           initialPrice: historical.initial_quote_amount,
           quoteDate: historical.quote_date || historical.created_at,
           status: historical.quote_status || undefined,
+          currency: currencyService.normalizeCode(historical.initial_quote_currency) || currencyService.baseCurrency,
         },
       });
     }
@@ -2051,14 +2252,35 @@ async function getAIPricingRecommendation(
     return null;
   }
 
+  // Negotiated lane rates take precedence over market pricing
+  const rateCard = options.rateCard !== undefined
+    ? options.rateCard
+    : await rateCardService.findForQuote(sourceQuote, routeDistance?.distanceMiles ?? null);
+  if (rateCard) {
+    console.log(`      -> Rate card "${rateCard.name}" (#${rateCard.rateCardId}) applies: $${rateCard.price.toLocaleString()}`);
+    return rateCardService.toPricingDetails(rateCard, options.currency);
+  }
+
   try {
     const aiService = getAIService();
 
     // First get the algorithmic recommendation as a baseline
     const algorithmicRecommendation = await aiService.getPricingRecommendation(sourceQuote, matches, routeDistance);
 
+    // Whatever this run returns is attributed to the assigned prompt version, including fallbacks
+    const pricingPromptVersion = await promptRegistryService.assign('pricing', sourceQuote.quote_id);
+    if (algorithmicRecommendation) {
+      algorithmicRecommendation.prompt_version = pricingPromptVersion.version;
+    }
+
     // Generate the AI pricing prompt using centralized getPromptForTask
-    const pricingPrompt = generatePricingPrompt(sourceQuote, matches, routeDistance, algorithmicRecommendation);
+    const pricingPrompt = generatePricingPrompt(
+      sourceQuote,
+      matches,
+      routeDistance,
+      algorithmicRecommendation,
+      pricingPromptVersion.template
+    );
 
     const extractJsonObject = (text: string): string | null => {
       const start = text.indexOf('{');
@@ -2231,12 +2453,33 @@ async function getAIPricingRecommendation(
 
     // Try to get AI-enhanced recommendation
     try {
-      const aiResponseText = await aiService.generateResponse(pricingPrompt, {
-        temperature: 0.2,
-        topP: 0.9,
-        maxOutputTokens: 8192,
-        responseMimeType: 'application/json',
+      // An identical pricing prompt (same quote, matches and baseline) reuses the cached response
+      const pricingModel = aiService.getModelName('pricing');
+      const pricingCacheKey = aiCacheService.getPricingKey({
+        prompt: pricingPrompt,
+        promptVersion: pricingPromptVersion.version,
+        provider: aiService.provider,
+        model: pricingModel,
       });
+      const cachedResponse = await aiCacheService.get<CachedPricingResponse>('pricing', pricingCacheKey);
+      if (cachedResponse) {
+        console.log(`      -> Using cached AI pricing response (${pricingCacheKey.slice(0, 12)})`);
+      } else {
+        // Past the monthly AI budget the algorithmic recommendation is used without calling the AI
+        await aiUsageService.assertWithinBudget();
+      }
+      const usageContext = { quoteId: sourceQuote.quote_id ?? null, operation: 'pricing' as const };
+
+      // With a fallback chain the answering provider can differ from call to call
+      const { text: aiResponseText, provider: firstProvider } = cachedResponse ?? await aiUsageService.run(usageContext, () =>
+        aiService.generateResponseWithProvider(pricingPrompt, {
+          temperature: 0.2,
+          topP: 0.9,
+          maxOutputTokens: 8192,
+          responseMimeType: 'application/json',
+        })
+      );
+      let aiProvider = firstProvider;
 
       // Parse the AI response - capture full response for comprehensive reasoning
       if (!aiResponseText || !aiResponseText.trim()) {
@@ -2257,18 +2500,33 @@ Previous response (for repair):
 ${truncated}`;
 
           try {
-            const repaired = await aiService.generateResponse(repairPrompt, {
-              temperature: 0,
-              topP: 0.9,
-              maxOutputTokens: 4096,
-              responseMimeType: 'application/json',
-            });
-            parsedResult = repaired ? parseAiFullResponse(repaired) : { amount: null, error: 'Empty repair response' };
+            const repaired = await aiUsageService.run(usageContext, () =>
+              aiService.generateResponseWithProvider(repairPrompt, {
+                temperature: 0,
+                topP: 0.9,
+                maxOutputTokens: 4096,
+                responseMimeType: 'application/json',
+              })
+            );
+            aiProvider = repaired.provider;
+            parsedResult = repaired.text ? parseAiFullResponse(repaired.text) : { amount: null, error: 'Empty repair response' };
           } catch (repairErr) {
             console.log(`      -> AI JSON repair attempt failed: ${(repairErr as Error).message}`);
           }
         }
 
+        if (parsedResult.amount && parsedResult.fullResponse && !cachedResponse) {
+          await aiCacheService.save({
+            cacheKey: pricingCacheKey,
+            kind: 'pricing',
+            provider: aiProvider,
+            model: pricingModel,
+            promptVersion: pricingPromptVersion.version,
+            response: { text: JSON.stringify(parsedResult.fullResponse), provider: aiProvider },
+            quoteId: sourceQuote.quote_id ?? null,
+          });
+        }
+
         const aiSuggestedPrice = parsedResult.amount;
         const aiFullResponse = parsedResult.fullResponse;
         const aiConfidencePercentage = aiFullResponse?.confidence_percentage ?? 0;
@@ -2304,6 +2562,8 @@ ${truncated}`;
             negotiation_room_percent: aiBreakdown?.margin && finalPrice
               ? Math.round((aiBreakdown.margin / finalPrice) * 100)
               : algorithmicRecommendation?.negotiation_room_percent,
+            prompt_version: pricingPromptVersion.version,
+            ai_provider: aiProvider,
           };
         }
 
@@ -2394,6 +2654,7 @@ ${truncated}`;
             negotiation_room_percent: aiBreakdown?.margin && blendedPrice
               ? Math.round((aiBreakdown.margin / blendedPrice) * 100)
               : algorithmicRecommendation.negotiation_room_percent,
+            ai_provider: aiProvider,
           };
         }
         // Case 2: We have AI response but NO algorithmic recommendation (no historical matches)
@@ -2427,6 +2688,8 @@ ${truncated}`;
             negotiation_room_percent: aiBreakdown?.margin && aiSuggestedPrice
               ? Math.round((aiBreakdown.margin / aiSuggestedPrice) * 100)
               : 10, // Default 10% negotiation room for AI-only pricing
+            prompt_version: pricingPromptVersion.version,
+            ai_provider: aiProvider,
           };
         }
       }
@@ -2483,6 +2746,13 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
     const feedbackData = await db.getFeedbackForHistoricalQuotes(historicalQuoteIds);
     console.log(`Loaded feedback data for ${feedbackData.size} historical quotes`);
 
+    // Weekly diesel index for normalizing historical prices to current fuel levels
+    const fuelIndex = await fuelIndexService.getIndex();
+    if (fuelIndex.length > 0) {
+      const latest = fuelIndex[fuelIndex.length - 1]!;
+      console.log(`Fuel index: ${fuelIndex.length} weeks, current diesel $${latest.dieselPrice}/gal (week of ${latest.weekOf})`);
+    }
+
     for (const quoteId of newQuoteIds) {
       try {
         const sourceQuote = await db.getQuoteForMatching(quoteId);
@@ -2496,14 +2766,20 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
         console.log(`    Service: ${sourceQuote.service_type || 'Unknown'}`);
         console.log(`    Cargo: ${(sourceQuote.cargo_description || 'Unknown').substring(0, 50)}...`);
 
-        // Calculate route distance for the source quote
-        const routeDistance = await calculateQuoteDistance(sourceQuote);
+        // Route distance for the source quote (stored on the quote after the first calculation)
+        const routeDistance = await quoteDistanceService.getQuoteDistance(sourceQuote);
         const sourceDistanceMiles = routeDistance?.distanceMiles ?? null;
         if (routeDistance) {
           console.log(`    Distance: ${routeDistance.distanceMiles} miles (${routeDistance.durationText})`);
         }
 
-        let matches = findEnhancedMatches(sourceQuote, historicalQuotes, { minScore, maxMatches, feedbackData }, sourceDistanceMiles);
+        // A negotiated lane rate, when one applies, is used ahead of similarity-based pricing
+        const rateCard = await rateCardService.findForQuote(sourceQuote, sourceDistanceMiles);
+        if (rateCard) {
+          console.log(`    Rate card: "${rateCard.name}" (#${rateCard.rateCardId}) -> $${rateCard.price.toLocaleString()}`);
+        }
+
+        let matches = findEnhancedMatches(sourceQuote, historicalQuotes, { minScore, maxMatches, feedbackData, fuelIndex }, sourceDistanceMiles);
 
         // Apply outlier detection to remove price anomalies
         if (matches.length >= 4) {
@@ -2523,13 +2799,13 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
 
         if (matches.length > 0) {
           // Calculate statistical pricing from matches
-          const statPricing = calculateStatisticalPricing(matches, sourceQuote);
+          const statPricing = calculateStatisticalPricing(matches, sourceQuote, rateCard, fuelIndex);
 
           if (statPricing) {
             finalSuggestedPrice = statPricing.recommendedPrice;
             finalPriceConfidence = statPricing.confidence_percentage / 100;
             finalPriceRange = statPricing.priceRange;
-            pricingSource = `statistical (${statPricing.methodology})`;
+            pricingSource = statPricing.rateCard ? 'rate_card' : `statistical (${statPricing.methodology})`;
             console.log(`    Statistical Price: $${statPricing.recommendedPrice.toLocaleString()} (${statPricing.confidence_percentage}%, CV: ${statPricing.stats.coeffOfVariation})`);
           } else {
             // Fall back to best match price
@@ -2541,12 +2817,12 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
 
           // Try AI enhancement if enabled
           if (useAI) {
-            aiPricing = await getAIPricingRecommendation(sourceQuote, matches, { useAI }, routeDistance);
+            aiPricing = await getAIPricingRecommendation(sourceQuote, matches, { useAI, rateCard }, routeDistance);
             if (aiPricing && aiPricing.recommended_price) {
               finalSuggestedPrice = aiPricing.recommended_price;
               finalPriceConfidence = (aiPricing.confidence_percentage ?? 50) / 100;
               finalPriceRange = { low: aiPricing.floor_price!, high: aiPricing.ceiling_price! };
-              pricingSource = 'ai_enhanced';
+              pricingSource = aiPricing.rate_card ? 'rate_card' : 'ai_enhanced';
               console.log(`    AI Price: $${aiPricing.recommended_price.toLocaleString()} (${aiPricing.confidence_percentage ?? 50}%)`);
 
               // Save AI pricing recommendation to dedicated table
@@ -2554,6 +2830,19 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
             }
           }
 
+          // Without AI the rate card is still reported alongside the matches
+          if (!aiPricing && rateCard) {
+            aiPricing = rateCardService.toPricingDetails(rateCard);
+          }
+
+          // Show the fuel normalization behind market-based prices in the breakdown
+          if (aiPricing && !aiPricing.rate_card && statPricing?.fuelAdjustment) {
+            aiPricing.price_breakdown = {
+              ...aiPricing.price_breakdown,
+              fuel_adjustment: statPricing.fuelAdjustment,
+            };
+          }
+
           const matchesToInsert = matches.map((m, idx) => ({
             sourceQuoteId: m.sourceQuoteId,
             matchedQuoteId: m.matchedQuoteId,
@@ -2569,6 +2858,8 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
               ceiling_price: aiPricing.ceiling_price,
               confidence_percentage: aiPricing.confidence_percentage,
               reasoning: aiPricing.reasoning,
+              price_breakdown: aiPricing.price_breakdown,
+              rate_card: aiPricing.rate_card,
             } : null,
           }));
 
@@ -2585,6 +2876,8 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
             suggestedPrice: finalSuggestedPrice,
             priceRange: finalPriceRange,
             aiPricing: aiPricing || undefined,
+            fuelAdjustment: statPricing?.fuelAdjustment ?? null,
+            currency: statPricing?.currency,
           });
         } else {
           // NO MATCHES FOUND - Try AI pricing first, then fallback
@@ -2592,14 +2885,16 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
 
           // Try AI pricing even without matches - AI can use market knowledge
           if (useAI) {
-            aiPricing = await getAIPricingRecommendation(sourceQuote, [], { useAI }, routeDistance);
+            aiPricing = await getAIPricingRecommendation(sourceQuote, [], { useAI, rateCard }, routeDistance);
             if (aiPricing && aiPricing.recommended_price) {
               finalSuggestedPrice = aiPricing.recommended_price;
-              // For AI without history, use slightly lower confidence multipliers
+              // For AI without history, use slightly lower confidence multipliers (rate cards need no history)
               const aiConfPct = aiPricing.confidence_percentage ?? 50;
-              finalPriceConfidence = aiConfPct >= 80 ? 0.7 : aiConfPct >= 60 ? 0.5 : 0.4;
+              finalPriceConfidence = aiPricing.rate_card
+                ? aiConfPct / 100
+                : aiConfPct >= 80 ? 0.7 : aiConfPct >= 60 ? 0.5 : 0.4;
               finalPriceRange = { low: aiPricing.floor_price!, high: aiPricing.ceiling_price! };
-              pricingSource = 'ai_no_history';
+              pricingSource = aiPricing.rate_card ? 'rate_card' : 'ai_no_history';
               console.log(`    AI Price (no history): $${aiPricing.recommended_price.toLocaleString()} (${aiConfPct}%)`);
 
               // Save AI pricing recommendation to dedicated table
@@ -2616,6 +2911,25 @@ async function processEnhancedMatches(newQuoteIds: number[], options: MatchingOp
             }
           }
 
+          // Without AI, a rate card still takes precedence over the fallback estimate
+          if ((!aiPricing || !aiPricing.recommended_price) && rateCard) {
+            aiPricing = rateCardService.toPricingDetails(rateCard);
+            finalSuggestedPrice = aiPricing.recommended_price;
+            finalPriceConfidence = (aiPricing.confidence_percentage ?? 95) / 100;
+            finalPriceRange = { low: aiPricing.floor_price!, high: aiPricing.ceiling_price! };
+            pricingSource = 'rate_card';
+            console.log(`    Rate Card Price: $${aiPricing.recommended_price!.toLocaleString()}`);
+
+            results.matchDetails.push({
+              quoteId,
+              matchCount: 0,
+              bestScore: 0,
+              suggestedPrice: finalSuggestedPrice,
+              priceRange: finalPriceRange,
+              aiPricing,
+            });
+          }
+
           // If AI pricing failed or not enabled, use fallback
           if (!aiPricing || !aiPricing.recommended_price) {
             const fallbackPricing = calculateFallbackPricing(sourceQuote, sourceDistanceMiles);
@@ -2919,12 +3233,14 @@ function getDistanceCategory(distanceMiles: number): string {
  * @param sourceQuote - The new quote being priced
  * @param topMatches - Historical similar quotes for reference
  * @param routeDistance - Calculated route distance (optional)
+ * @param promptTemplate - Registered pricing prompt version used instead of the built-in prompt (optional)
  */
 function generatePricingPrompt(
   sourceQuote: Quote,
   topMatches: ExtendedQuoteMatch[],
   routeDistance?: RouteDistance | null,
-  algorithmicRecommendation?: AIPricingDetails | null
+  algorithmicRecommendation?: AIPricingDetails | null,
+  promptTemplate: string | null = null
 ): string {
   // Calculate feedback summary stats
   const matchesWithFeedback = topMatches.filter(m => m.feedbackData && m.feedbackData.total_feedback_count > 0);
@@ -3066,6 +3382,10 @@ STABILITY / ANTI-ANCHORING:
 `
     : '';
 
+  // Historical prices are shown in the currency the match prices were converted to
+  const inMatchCurrency = (m: ExtendedQuoteMatch, amount: number | null | undefined): number | null =>
+    amount != null ? Math.round(amount * (m.currencyConversion?.rate ?? 1)) : null;
+
   // Format historical matches for prompt context (aligned to formatHistoricalMatches expectations)
   const historicalMatchesForPrompt = topMatches.slice(0, 5).map((m) => ({
     score: m.similarity_score,
@@ -3082,8 +3402,8 @@ STABILITY / ANTI-ANCHORING:
       dimensionUnit: m.matchedQuoteData?.dimensionUnit ?? undefined,
       containerType: detectContainerType(m.matchedQuoteData?.cargo, m.matchedQuoteData?.service) || undefined,
       commodity: m.matchedQuoteData?.cargo || 'Not specified',
-      quotedPrice: m.matchedQuoteData?.initialPrice ?? null,
-      finalPrice: m.matchedQuoteData?.finalPrice ?? null,
+      quotedPrice: inMatchCurrency(m, m.matchedQuoteData?.initialPrice),
+      finalPrice: inMatchCurrency(m, m.matchedQuoteData?.finalPrice),
       specialRequirements: undefined,
     },
     feedback: m.feedbackData ? {
@@ -3104,6 +3424,7 @@ STABILITY / ANTI-ANCHORING:
   // Get the centralized pricing recommendation prompt with historical matches
   const basePrompt = getPromptForTask('recommend_price', {
     historicalMatches: historicalMatchesForPrompt,
+    template: promptTemplate,
   });
 
   // Build distance info string
@@ -3168,15 +3489,26 @@ CONSTRAINTS:
 - Return ONLY valid JSON exactly matching the OUTPUT FORMAT (no prose, no markdown, no $ signs in numeric fields).
 `;
 
+  const describeTerminal = (match: TerminalMatch | null): string =>
+    match
+      ? match.terminal
+        ? `${match.terminal.name} (${match.terminal.type}, ${match.complex.name})`
+        : match.complex.name
+      : 'Not a known port/rail terminal';
+  const originTerminal = terminalRegistryService.resolveQuoteEnd(sourceQuote, 'origin');
+  const destinationTerminal = terminalRegistryService.resolveQuoteEnd(sourceQuote, 'destination');
+
   const quoteDetails = `
 ## NEW QUOTE REQUEST
 - **Route**: ${sourceQuote.origin_city || 'Unknown'}, ${sourceQuote.origin_state_province || ''} ${sourceQuote.origin_country || ''} → ${sourceQuote.destination_city || 'Unknown'}, ${sourceQuote.destination_state_province || ''} ${sourceQuote.destination_country || ''}${distanceInfo}
 - **Origin Address**: ${sourceQuote.origin_full_address || 'Not specified'}
 - **Origin Postal Code**: ${sourceQuote.origin_postal_code || 'Not specified'}
 - **Origin Facility Type**: ${sourceQuote.origin_facility_type || 'Not specified'}
+- **Origin Terminal**: ${describeTerminal(originTerminal)}
 - **Destination Address**: ${sourceQuote.destination_full_address || 'Not specified'}
 - **Destination Postal Code**: ${sourceQuote.destination_postal_code || 'Not specified'}
 - **Destination Facility Type**: ${sourceQuote.destination_facility_type || 'Not specified'}
+- **Destination Terminal**: ${describeTerminal(destinationTerminal)}
 - **Requested Pickup Date**: ${sourceQuote.requested_pickup_date || 'Not specified'}
 - **Pickup Time Window**: ${sourceQuote.pickup_time_window || 'Not specified'}
 - **Pickup Special Requirements**: ${sourceQuote.pickup_special_requirements || 'Not specified'}
@@ -0,0 +1,236 @@
+/**
+ * Follow-up Service
+ * Builds the follow-up worklist for unanswered or expiring quotes, records rep snooze/dismiss
+ * actions, and drafts follow-up emails for due quotes with the QUOTE_FOLLOWUP_PROMPT
+ */
+
+import * as db from '../config/db.js';
+import jobProcessor from './jobProcessor.js';
+import quoteDraftService from './quoteDraftService.js';
+import type {
+  FollowUpCandidate,
+  FollowUpDraftingResult,
+  FollowUpItem,
+  FollowUpReason,
+} from '../types/index.js';
+
+// Business days without a customer reply before a quote is due for follow-up
+const FOLLOWUP_BUSINESS_DAYS = parseInt(process.env.FOLLOWUP_BUSINESS_DAYS || '3');
+// Days before quote_valid_until at which an expiry reminder is raised
+const EXPIRY_WARNING_DAYS = parseInt(process.env.FOLLOWUP_EXPIRY_WARNING_DAYS || '2');
+// Maximum follow-up drafts generated per drafting run
+const AUTO_DRAFT_LIMIT = parseInt(process.env.FOLLOWUP_AUTO_DRAFT_LIMIT || '25');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface WorklistOptions {
+  reasons?: FollowUpReason[];
+  includeSnoozed?: boolean;
+  includeDismissed?: boolean;
+  limit?: number;
+}
+
+interface FollowUpActionOptions {
+  note?: string | null;
+  updatedBy?: string | null;
+}
+
+/**
+ * Count weekdays elapsed between two dates (the start day is not counted)
+ */
+export function businessDaysBetween(from: Date, to: Date): number {
+  const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  let days = 0;
+
+  while (cursor < end) {
+    cursor.setDate(cursor.getDate() + 1);
+    const weekday = cursor.getDay();
+    if (weekday !== 0 && weekday !== 6) days++;
+  }
+
+  return days;
+}
+
+/**
+ * Add business days to a date, skipping weekends
+ */
+export function addBusinessDays(from: Date, days: number): Date {
+  const result = new Date(from);
+  let added = 0;
+
+  while (added < days) {
+    result.setDate(result.getDate() + 1);
+    const weekday = result.getDay();
+    if (weekday !== 0 && weekday !== 6) added++;
+  }
+
+  return result;
+}
+
+class FollowUpService {
+  /**
+   * Work out why (if at all) a candidate needs a follow-up right now
+   */
+  evaluate(candidate: FollowUpCandidate, now: Date = new Date()): FollowUpItem {
+    const reasons: FollowUpReason[] = [];
+
+    const lastContact = candidate.lastContactAt ? new Date(candidate.lastContactAt) : null;
+    const lastReply = candidate.lastCustomerReplyAt
+      ? new Date(candidate.lastCustomerReplyAt)
+      : null;
+    const awaitingReply =
+      candidate.quotedAt !== null &&
+      lastContact !== null &&
+      (!lastReply || lastReply < lastContact);
+    const businessDaysWaiting = awaitingReply ? businessDaysBetween(lastContact!, now) : null;
+
+    if (businessDaysWaiting !== null && businessDaysWaiting >= FOLLOWUP_BUSINESS_DAYS) {
+      reasons.push('no_reply');
+    }
+
+    let daysUntilExpiry: number | null = null;
+    if (candidate.validUntil) {
+      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      const expiry = new Date(`${String(candidate.validUntil).slice(0, 10)}T00:00:00`);
+      daysUntilExpiry = Math.round((expiry.getTime() - today.getTime()) / DAY_MS);
+
+      if (daysUntilExpiry >= 0 && daysUntilExpiry <= EXPIRY_WARNING_DAYS) {
+        reasons.push('expiring');
+      }
+    }
+
+    if (candidate.followUpRequired) {
+      reasons.push('flagged');
+    }
+
+    return { ...candidate, reasons, businessDaysWaiting, daysUntilExpiry };
+  }
+
+  /**
+   * Get quotes that need a follow-up, longest-waiting first
+   */
+  async getWorklist(options: WorklistOptions = {}): Promise<FollowUpItem[]> {
+    const { reasons, includeSnoozed = false, includeDismissed = false, limit = 100 } = options;
+
+    const candidates = await db.getFollowUpCandidates({
+      minIdleDays: FOLLOWUP_BUSINESS_DAYS,
+      expiryWithinDays: EXPIRY_WARNING_DAYS,
+      includeSnoozed,
+      includeDismissed,
+      limit: Math.max(limit * 2, 200),
+    });
+
+    const now = new Date();
+    return candidates
+      .map((candidate) => this.evaluate(candidate, now))
+      .filter((item) => item.reasons.length > 0)
+      .filter((item) => !reasons || item.reasons.some((reason) => reasons.includes(reason)))
+      .slice(0, limit);
+  }
+
+  /**
+   * Hide a quote from the worklist until the given time
+   */
+  async snooze(quoteId: number, until: Date, options: FollowUpActionOptions = {}): Promise<void> {
+    await db.setQuoteFollowUpStatus(quoteId, 'snoozed', { snoozedUntil: until, ...options });
+  }
+
+  /**
+   * Remove a quote from the worklist until staff send something new in the conversation
+   */
+  async dismiss(quoteId: number, options: FollowUpActionOptions = {}): Promise<void> {
+    await db.setQuoteFollowUpStatus(quoteId, 'dismissed', options);
+  }
+
+  /**
+   * Undo a snooze or dismissal
+   */
+  async reopen(quoteId: number): Promise<boolean> {
+    return db.clearQuoteFollowUpStatus(quoteId);
+  }
+
+  /**
+   * Whether a worklist item should get a new follow-up draft
+   * Only quotes that were actually sent qualify, and only once per period of silence
+   */
+  private needsDraft(item: FollowUpItem): boolean {
+    if (!item.reasons.includes('no_reply') && !item.reasons.includes('expiring')) return false;
+    if (!item.quotedAt) return false;
+
+    const draft = item.currentDraft;
+    if (!draft || draft.draftType !== 'followup') return true;
+    return item.lastContactAt !== null && new Date(draft.createdAt) < new Date(item.lastContactAt);
+  }
+
+  /**
+   * Generate follow-up drafts for due quotes that do not have one yet
+   */
+  async draftDueFollowUps(
+    options: { quoteIds?: number[]; limit?: number } = {}
+  ): Promise<FollowUpDraftingResult> {
+    const { quoteIds, limit = AUTO_DRAFT_LIMIT } = options;
+    const worklist = await this.getWorklist({ limit: 500 });
+    const due = worklist
+      .filter((item) => !quoteIds || quoteIds.includes(item.quoteId))
+      .filter((item) => this.needsDraft(item));
+
+    const result: FollowUpDraftingResult = {
+      due: due.length,
+      drafted: [],
+      skipped: Math.max(due.length - limit, 0),
+      failed: [],
+    };
+
+    for (const item of due.slice(0, limit)) {
+      try {
+        const quote = await db.getQuoteById(item.quoteId);
+        if (!quote) continue;
+
+        const pricing = await db.getAIPricingRecommendation(item.quoteId);
+        const instructions = item.reasons.includes('expiring')
+          ? `The quote is valid until ${String(item.validUntil).slice(0, 10)}. Mention that it expires soon.`
+          : undefined;
+
+        const drafted = await quoteDraftService.createDraft(quote, pricing, {
+          draftType: 'followup',
+          quotedPrice: item.quotedPrice ?? pricing?.ai_recommended_price ?? null,
+          followupNumber: item.followupsSent + 1,
+          instructions,
+          createdBy: 'follow-up engine',
+        });
+
+        if (!drafted) {
+          result.failed.push({ quoteId: item.quoteId, error: 'AI provider returned no draft' });
+          continue;
+        }
+
+        result.drafted.push(item.quoteId);
+        for (const warning of drafted.warnings) {
+          console.warn(`  Follow-up draft for quote ${item.quoteId}: ${warning}`);
+        }
+      } catch (error) {
+        result.failed.push({ quoteId: item.quoteId, error: (error as Error).message });
+      }
+    }
+
+    console.log(
+      `Follow-ups: ${result.due} due, ${result.drafted.length} drafted, ${result.failed.length} failed, ${result.skipped} deferred`
+    );
+    return result;
+  }
+}
+
+const followUpService = new FollowUpService();
+
+jobProcessor.registerHandler(
+  'follow_up_drafting',
+  async (job) => {
+    const followUps = await followUpService.draftDueFollowUps({ quoteIds: job.data.quoteIds });
+    return { result: { followUps } };
+  },
+  { usesAI: true }
+);
+
+export default followUpService;
+export const getWorklist = followUpService.getWorklist.bind(followUpService);
+export const draftDueFollowUps = followUpService.draftDueFollowUps.bind(followUpService);
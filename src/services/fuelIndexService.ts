@@ -0,0 +1,197 @@
+/**
+ * Fuel Index Service
+ * Loads weekly diesel averages and scales historical prices to current fuel levels,
+ * so a two-year-old price is compared at today's diesel cost
+ */
+
+import * as db from '../config/db.js';
+import type {
+  FuelAdjustment,
+  FuelAdjustmentSummary,
+  FuelIndexEntry,
+  FuelIndexImportResult,
+} from '../types/index.js';
+
+// Share of a freight price that moves with diesel (fuel is roughly a third of trucking cost)
+const FUEL_PRICE_SHARE = parseFloat(process.env.FUEL_PRICE_SHARE || '0.3');
+// Weekly averages outside this range are treated as bad rows (USD per gallon)
+const MIN_DIESEL_PRICE = 0.5;
+const MAX_DIESEL_PRICE = 15;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Split a CSV line, honouring double-quoted fields ("Jan 06, 2025")
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (const ch of line) {
+    if (ch === '"') {
+      quoted = !quoted;
+    } else if (ch === ',' && !quoted) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Parse a date cell (2024-01-08, 01/08/2024, Jan 08, 2024) to YYYY-MM-DD
+ */
+function parseWeek(value: string): string | null {
+  if (/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/.test(value)) {
+    return isNaN(new Date(value).getTime()) ? null : value;
+  }
+  if (!/[0-9]{4}/.test(value)) return null;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+class FuelIndexService {
+  /**
+   * Parse a CSV of weekly diesel averages: first column the week, second the price
+   * Header and note lines (no date in the first column) are skipped
+   */
+  parseCsv(csv: string): {
+    entries: FuelIndexEntry[];
+    skipped: number;
+    errors: FuelIndexImportResult['errors'];
+  } {
+    const entries = new Map<string, FuelIndexEntry>();
+    const errors: FuelIndexImportResult['errors'] = [];
+    let skipped = 0;
+
+    csv.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      const [weekCell = '', priceCell = ''] = splitCsvLine(line);
+      const weekOf = parseWeek(weekCell);
+      if (!weekOf) {
+        skipped++;
+        return;
+      }
+
+      const dieselPrice = parseFloat(priceCell.replace(/[$\s]/g, ''));
+      if (isNaN(dieselPrice) || dieselPrice < MIN_DIESEL_PRICE || dieselPrice > MAX_DIESEL_PRICE) {
+        errors.push({ line: index + 1, error: `Invalid diesel price "${priceCell}"` });
+        return;
+      }
+
+      entries.set(weekOf, { weekOf, dieselPrice });
+    });
+
+    return {
+      entries: Array.from(entries.values()).sort((a, b) => a.weekOf.localeCompare(b.weekOf)),
+      skipped,
+      errors,
+    };
+  }
+
+  /**
+   * Load a CSV of weekly diesel averages into the index
+   */
+  async importCsv(csv: string, source: string | null = null): Promise<FuelIndexImportResult> {
+    const { entries, skipped, errors } = this.parseCsv(csv);
+    const imported = entries.length > 0 ? await db.upsertFuelIndexEntries(entries, source) : 0;
+
+    console.log(`Fuel index: ${imported} week(s) imported, ${errors.length} invalid row(s)`);
+    return {
+      imported,
+      skipped,
+      errors,
+      firstWeek: entries[0]?.weekOf ?? null,
+      lastWeek: entries[entries.length - 1]?.weekOf ?? null,
+    };
+  }
+
+  /**
+   * Full index, oldest week first
+   * An unavailable index is logged and returned empty, which disables normalization
+   */
+  async getIndex(): Promise<FuelIndexEntry[]> {
+    try {
+      return await db.getFuelIndex();
+    } catch (error) {
+      console.warn('Fuel index unavailable:', (error as Error).message);
+      return [];
+    }
+  }
+
+  /**
+   * Index entry covering a date (the latest week starting on or before it)
+   */
+  dieselOn(index: FuelIndexEntry[], date: string | Date): FuelIndexEntry | null {
+    const day = date instanceof Date ? date.toISOString().slice(0, 10) : String(date).slice(0, 10);
+    if (index.length === 0 || day < index[0]!.weekOf) return null;
+
+    let low = 0;
+    let high = index.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (index[mid]!.weekOf <= day) low = mid;
+      else high = mid - 1;
+    }
+    return index[low]!;
+  }
+
+  /**
+   * Scale a historical price by the change in diesel since it was quoted
+   * Returns null when the index does not cover the quote date
+   */
+  adjustPrice(
+    index: FuelIndexEntry[],
+    price: number,
+    quoteDate: string | Date | null | undefined
+  ): FuelAdjustment | null {
+    if (!quoteDate || index.length === 0 || isNaN(new Date(quoteDate).getTime())) return null;
+
+    const historical = this.dieselOn(index, quoteDate);
+    const current = index[index.length - 1]!;
+    if (!historical) return null;
+
+    const factor = 1 + FUEL_PRICE_SHARE * (current.dieselPrice / historical.dieselPrice - 1);
+
+    return {
+      originalPrice: price,
+      adjustedPrice: Math.round(price * factor),
+      historicalWeekOf: historical.weekOf,
+      historicalDiesel: historical.dieselPrice,
+      currentWeekOf: current.weekOf,
+      currentDiesel: current.dieselPrice,
+      factor: Math.round(factor * 10000) / 10000,
+    };
+  }
+
+  /**
+   * Summary of the adjustments applied to a set of prices
+   */
+  summarize(adjustments: (FuelAdjustment | null | undefined)[]): FuelAdjustmentSummary | null {
+    const applied = adjustments.filter((a): a is FuelAdjustment => !!a);
+    if (applied.length === 0) return null;
+
+    return {
+      currentDiesel: applied[0]!.currentDiesel,
+      currentWeekOf: applied[0]!.currentWeekOf,
+      fuelShare: FUEL_PRICE_SHARE,
+      adjustedMatches: applied.length,
+      averageFactor:
+        Math.round((applied.reduce((sum, a) => sum + a.factor, 0) / applied.length) * 10000) /
+        10000,
+    };
+  }
+}
+
+const fuelIndexService = new FuelIndexService();
+
+export default fuelIndexService;
+export const importCsv = fuelIndexService.importCsv.bind(fuelIndexService);
+export const adjustPrice = fuelIndexService.adjustPrice.bind(fuelIndexService);
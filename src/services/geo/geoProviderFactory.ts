@@ -0,0 +1,55 @@
+/**
+ * Geo Provider Factory
+ * Selects the geocoding and routing backend (Google Maps or the offline gazetteer)
+ */
+
+import googleGeoProvider from './googleGeoProvider.js';
+import offlineGeoProvider from './offlineGeoProvider.js';
+import type { GeoProvider, GeoProviderName } from '../../types/index.js';
+
+/**
+ * Available geo providers
+ */
+export const GEO_PROVIDERS = {
+  GOOGLE: 'google',
+  OFFLINE: 'offline',
+} as const;
+
+/**
+ * Get a geo provider by name (defaults to GEO_PROVIDER, then Google when configured)
+ */
+export function getGeoProvider(name: string | null = null): GeoProvider {
+  const selected = (
+    name ||
+    process.env.GEO_PROVIDER ||
+    (googleGeoProvider.isConfigured() ? GEO_PROVIDERS.GOOGLE : GEO_PROVIDERS.OFFLINE)
+  ).toLowerCase();
+
+  switch (selected) {
+    case GEO_PROVIDERS.GOOGLE:
+      if (!googleGeoProvider.isConfigured()) {
+        throw new Error('GOOGLE_MAPS_API_KEY not configured in environment variables');
+      }
+      return googleGeoProvider;
+
+    case GEO_PROVIDERS.OFFLINE:
+      return offlineGeoProvider;
+
+    default:
+      throw new Error(`Unknown geo provider: ${selected}. Valid options: google, offline`);
+  }
+}
+
+/**
+ * Get list of configured geo providers
+ */
+export function getAvailableGeoProviders(): GeoProviderName[] {
+  const available: GeoProviderName[] = [];
+
+  if (googleGeoProvider.isConfigured()) {
+    available.push(GEO_PROVIDERS.GOOGLE);
+  }
+  available.push(GEO_PROVIDERS.OFFLINE);
+
+  return available;
+}
@@ -0,0 +1,145 @@
+/**
+ * Google Geo Provider
+ * Geocoding and driving distances from the Google Maps Geocoding and Distance Matrix APIs
+ */
+
+import axios from 'axios';
+import type { GeoLocation, GeoProvider, LocationInput, RouteDistance } from '../../types/index.js';
+
+class GoogleGeoProvider implements GeoProvider {
+  readonly name = 'google' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_MAPS_API_KEY;
+  }
+
+  /**
+   * Geocode a location using the Geocoding API
+   */
+  async geocode(location: LocationInput): Promise<GeoLocation | null> {
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+    if (!apiKey) return null;
+
+    // Build address string for geocoding
+    const addressParts: string[] = [];
+
+    if (location.fullAddress) {
+      addressParts.push(location.fullAddress);
+    } else {
+      if (location.city) addressParts.push(location.city);
+      if (location.state) addressParts.push(location.state);
+      if (location.postalCode) addressParts.push(location.postalCode);
+      if (location.country) addressParts.push(location.country);
+    }
+
+    if (addressParts.length === 0) {
+      return null;
+    }
+
+    const address = addressParts.join(', ');
+
+    try {
+      console.log(`[GoogleMaps] Geocoding API CALL: "${address}"`);
+      const startTime = Date.now();
+
+      const response = await axios.get('https://maps.googleapis.com/maps/api/geocode/json', {
+        params: {
+          address,
+          key: apiKey,
+        },
+      });
+
+      const duration = Date.now() - startTime;
+
+      if (response.data.status === 'OK' && response.data.results.length > 0) {
+        const result = response.data.results[0];
+        console.log(
+          `[GoogleMaps] Geocoding API SUCCESS (${duration}ms): "${address}" -> (${result.geometry.location.lat}, ${result.geometry.location.lng})`
+        );
+        return {
+          lat: result.geometry.location.lat,
+          lng: result.geometry.location.lng,
+          formattedAddress: result.formatted_address,
+          precision: location.fullAddress ? 'address' : location.postalCode ? 'postal' : 'city',
+        };
+      }
+
+      console.warn(
+        `[GoogleMaps] Geocoding API FAILED (${duration}ms): "${address}" - Status: ${response.data.status}`
+      );
+      return null;
+    } catch (error) {
+      console.error('[GoogleMaps] Geocoding API ERROR:', (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Driving distance between two points using the Distance Matrix API
+   */
+  async route(origin: GeoLocation, destination: GeoLocation): Promise<RouteDistance | null> {
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+    if (!apiKey) return null;
+
+    try {
+      console.log(
+        `[GoogleMaps] Distance Matrix API CALL: (${origin.lat}, ${origin.lng}) -> (${destination.lat}, ${destination.lng})`
+      );
+      const startTime = Date.now();
+
+      const response = await axios.get('https://maps.googleapis.com/maps/api/distancematrix/json', {
+        params: {
+          origins: `${origin.lat},${origin.lng}`,
+          destinations: `${destination.lat},${destination.lng}`,
+          mode: 'driving',
+          units: 'imperial',
+          key: apiKey,
+        },
+      });
+
+      const duration = Date.now() - startTime;
+
+      if (response.data.status !== 'OK' || response.data.rows.length === 0) {
+        console.warn(
+          `[GoogleMaps] Distance Matrix API FAILED (${duration}ms): Response status: ${response.data.status}`
+        );
+        return null;
+      }
+
+      const element = response.data.rows[0].elements[0];
+      if (element.status !== 'OK') {
+        console.warn(
+          `[GoogleMaps] Distance Matrix API FAILED (${duration}ms): Element status: ${element.status}`
+        );
+        return null;
+      }
+
+      const distanceMeters = element.distance.value;
+      const durationSeconds = element.duration.value;
+      const distanceMiles = Math.round((distanceMeters / 1609.344) * 10) / 10;
+
+      console.log(
+        `[GoogleMaps] Distance Matrix API SUCCESS (${duration}ms): ${distanceMiles} miles, ${element.duration.text}`
+      );
+
+      return {
+        distanceMiles,
+        distanceKm: Math.round((distanceMeters / 1000) * 10) / 10,
+        durationMinutes: Math.round(durationSeconds / 60),
+        durationText: element.duration.text,
+        distanceText: element.distance.text,
+        origin,
+        destination,
+        source: 'api',
+        provider: this.name,
+      };
+    } catch (error) {
+      console.error('[GoogleMaps] Distance Matrix API ERROR:', (error as Error).message);
+      return null;
+    }
+  }
+}
+
+const googleGeoProvider = new GoogleGeoProvider();
+
+export default googleGeoProvider;
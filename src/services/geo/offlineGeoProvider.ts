@@ -0,0 +1,293 @@
+/**
+ * Offline Geo Provider
+ * Geocodes cities and postal codes from a local gazetteer: the bundled seed of common
+ * shipping locations plus optional GeoNames city and postal-code (ZIP centroid) files
+ */
+
+import fs from 'fs';
+import readline from 'readline';
+import gazetteerData from '../../config/gazetteer.json' with { type: 'json' };
+import type { GeoLocation, GeoProvider, LocationInput } from '../../types/index.js';
+
+// GeoNames cities dump (e.g. cities500.txt), tab-separated
+const GAZETTEER_FILE = process.env.GEO_GAZETTEER_FILE;
+// GeoNames postal-code dump (e.g. US.txt) or a CSV with postal/zip, lat and lng columns
+const POSTAL_FILE = process.env.GEO_POSTAL_FILE;
+
+interface GazetteerSeed {
+  countries: Record<string, string>;
+  usStates: Record<string, string>;
+  places: { name: string; admin1?: string; country: string; lat: number; lng: number }[];
+  regions: { admin1: string; country: string; lat: number; lng: number }[];
+}
+
+interface Place {
+  lat: number;
+  lng: number;
+  label: string;
+  population: number;
+}
+
+const seed = gazetteerData as GazetteerSeed;
+const US_STATE_CODES = new Map(Object.entries(seed.usStates).map(([code, name]) => [name, code]));
+
+/**
+ * Lowercase, strip accents and punctuation ("St. Louis" -> "st louis", "Montréal" -> "montreal")
+ */
+function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,']/g, '')
+    .replace(/^saint\s+/, 'st ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+class OfflineGeoProvider implements GeoProvider {
+  readonly name = 'offline' as const;
+  private places = new Map<string, Place>();
+  private postalCodes = new Map<string, GeoLocation>();
+  private regions = new Map<string, GeoLocation>();
+  private loading: Promise<void> | null = null;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * ISO 3166 alpha-2 code for a country as extracted ("USA", "United States", "us")
+   */
+  countryCode(country: string | null | undefined): string | null {
+    if (!country) return null;
+    const value = country.trim().toLowerCase();
+    if (seed.countries[value]) return seed.countries[value]!;
+    return /^[a-z]{2}$/.test(value) ? value.toUpperCase() : null;
+  }
+
+  /**
+   * First-level admin code as GeoNames uses it (US state abbreviations)
+   */
+  private admin1Code(state: string | null | undefined, country: string | null): string | null {
+    if (!state) return null;
+    const value = state.trim().toLowerCase();
+    if (country === 'US' || country === null) {
+      if (seed.usStates[value.toUpperCase()]) return value.toUpperCase();
+      if (US_STATE_CODES.has(value)) return US_STATE_CODES.get(value)!;
+    }
+    return value.toUpperCase();
+  }
+
+  /**
+   * Index a place by name+admin1+country, by name+country and by name alone, keeping the most
+   * populous
+   */
+  private addPlace(
+    name: string,
+    admin1: string | null,
+    country: string,
+    place: Omit<Place, 'label'>
+  ): void {
+    const normalized = normalizeName(name);
+    const label = [name, admin1, country].filter(Boolean).join(', ');
+    const keys = [
+      `${normalized}|${admin1 ?? ''}|${country}`,
+      `${normalized}||${country}`,
+      `${normalized}||`,
+    ];
+
+    for (const key of keys) {
+      const existing = this.places.get(key);
+      if (!existing || place.population > existing.population) {
+        this.places.set(key, { ...place, label });
+      }
+    }
+  }
+
+  /**
+   * Normalized postal-code keys to try, most specific first
+   * (ZIP+4 falls back to the ZIP, Canadian codes to their forward sortation area)
+   */
+  private postalKeys(postalCode: string, country: string): string[] {
+    const compact = postalCode.toUpperCase().replace(/\s+/g, '');
+    const keys = [`${country}|${compact}`];
+    if (country === 'US') keys.push(`US|${compact.slice(0, 5)}`);
+    if (country === 'CA') keys.push(`CA|${compact.slice(0, 3)}`);
+    if (country === 'GB') keys.push(`GB|${postalCode.toUpperCase().trim().split(/\s+/)[0]}`);
+    return keys;
+  }
+
+  private async readLines(file: string, onLine: (line: string) => void): Promise<number> {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(file, 'utf8'),
+      crlfDelay: Infinity,
+    });
+
+    let count = 0;
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      onLine(line);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * GeoNames cities: geonameid, name, asciiname, alternatenames, latitude, longitude,
+   * feature class, feature code, country code, cc2, admin1 code, ..., population (col 14)
+   */
+  private async loadGazetteerFile(file: string): Promise<void> {
+    const count = await this.readLines(file, (line) => {
+      const cols = line.split('\t');
+      const lat = parseFloat(cols[4] ?? '');
+      const lng = parseFloat(cols[5] ?? '');
+      const country = cols[8];
+      if (isNaN(lat) || isNaN(lng) || !country) return;
+
+      const place = { lat, lng, population: parseInt(cols[14] ?? '0', 10) || 0 };
+      const admin1 = cols[10] || null;
+      this.addPlace(cols[1]!, admin1, country, place);
+      if (cols[2] && cols[2] !== cols[1]) this.addPlace(cols[2], admin1, country, place);
+    });
+    console.log(`[Geo] Loaded ${count} gazetteer places from ${file}`);
+  }
+
+  /**
+   * GeoNames postal codes (country code, postal code, place name, ..., latitude col 9,
+   * longitude col 10) or a CSV with a postal/zip, lat and lng header
+   */
+  private async loadPostalFile(file: string): Promise<void> {
+    let csvColumns: { postal: number; lat: number; lng: number; country: number } | null = null;
+
+    await this.readLines(file, (line) => {
+      let country: string | undefined;
+      let postal: string | undefined;
+      let lat: number;
+      let lng: number;
+
+      if (line.includes('\t')) {
+        const cols = line.split('\t');
+        [country, postal] = cols;
+        lat = parseFloat(cols[9] ?? '');
+        lng = parseFloat(cols[10] ?? '');
+      } else {
+        const cols = line.split(',').map((c) => c.trim().replace(/^"|"$/g, ''));
+        if (!csvColumns) {
+          const header = cols.map((c) => c.toLowerCase());
+          csvColumns = {
+            postal: header.findIndex((c) => /zip|postal/.test(c)),
+            lat: header.findIndex((c) => /^lat/.test(c)),
+            lng: header.findIndex((c) => /^(lng|lon)/.test(c)),
+            country: header.findIndex((c) => /country/.test(c)),
+          };
+          return;
+        }
+        postal = cols[csvColumns.postal];
+        country = csvColumns.country >= 0 ? cols[csvColumns.country] : 'US';
+        lat = parseFloat(cols[csvColumns.lat] ?? '');
+        lng = parseFloat(cols[csvColumns.lng] ?? '');
+      }
+
+      if (!postal || !country || isNaN(lat) || isNaN(lng)) return;
+      const key = `${country.toUpperCase()}|${postal.toUpperCase().replace(/\s+/g, '')}`;
+      this.postalCodes.set(key, {
+        lat,
+        lng,
+        formattedAddress: `${postal}, ${country.toUpperCase()}`,
+        precision: 'postal',
+      });
+    });
+    console.log(`[Geo] Loaded ${this.postalCodes.size} postal codes from ${file}`);
+  }
+
+  /**
+   * Load the seed and any configured gazetteer files (once)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        for (const place of seed.places) {
+          this.addPlace(place.name, place.admin1 ?? null, place.country, {
+            lat: place.lat,
+            lng: place.lng,
+            population: 0,
+          });
+        }
+        for (const region of seed.regions) {
+          this.regions.set(`${region.admin1}|${region.country}`, {
+            lat: region.lat,
+            lng: region.lng,
+            formattedAddress: `${region.admin1}, ${region.country}`,
+            precision: 'region',
+          });
+        }
+
+        const files: [string | undefined, (file: string) => Promise<void>][] = [
+          [GAZETTEER_FILE, (file) => this.loadGazetteerFile(file)],
+          [POSTAL_FILE, (file) => this.loadPostalFile(file)],
+        ];
+        for (const [file, loader] of files) {
+          if (!file) continue;
+          try {
+            await loader(file);
+          } catch (error) {
+            console.warn(`[Geo] Could not load ${file}:`, (error as Error).message);
+          }
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Resolve a location to postal, city or (as a last resort) state centroid precision
+   */
+  async geocode(location: LocationInput): Promise<GeoLocation | null> {
+    await this.load();
+
+    // A US state without a country is assumed to be in the US
+    const usState = this.admin1Code(location.state, 'US');
+    const country =
+      this.countryCode(location.country) ?? (usState && seed.usStates[usState] ? 'US' : null);
+    const admin1 = this.admin1Code(location.state, country);
+
+    const postalCode =
+      location.postalCode ||
+      (country === 'US' ? location.fullAddress?.match(/\b[0-9]{5}(?:-[0-9]{4})?\b/)?.[0] : null);
+    if (postalCode && country) {
+      for (const key of this.postalKeys(postalCode, country)) {
+        const found = this.postalCodes.get(key);
+        if (found) return found;
+      }
+    }
+
+    if (location.city) {
+      const city = normalizeName(location.city);
+      // Without a country ("Houston") the most populous place of that name is used
+      const keys = country
+        ? [`${city}|${admin1 ?? ''}|${country}`, `${city}||${country}`]
+        : [`${city}||`];
+      for (const key of keys) {
+        const place = this.places.get(key);
+        if (place) {
+          return {
+            lat: place.lat,
+            lng: place.lng,
+            formattedAddress: place.label,
+            precision: 'city',
+          };
+        }
+      }
+    }
+
+    if (admin1 && country) {
+      return this.regions.get(`${admin1}|${country}`) ?? null;
+    }
+    return null;
+  }
+}
+
+const offlineGeoProvider = new OfflineGeoProvider();
+
+export default offlineGeoProvider;
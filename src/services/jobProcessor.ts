@@ -1,12 +1,47 @@
 /**
  * Job Processor Service
- * Handles asynchronous email processing with status tracking
+ * Postgres-backed job queue with leased workers, heartbeats and retry with backoff
  */
 
+import os from 'os';
 import { v4 as uuidv4 } from 'uuid';
 import * as emailExtractor from './mail/emailExtractor.js';
 import * as db from '../config/db.js';
-import type { Job, JobData, JobStatus, JobProgress, JobResult, JobStatistics } from '../types/index.js';
+import aiUsageService, { AIBudgetExceededError } from './aiUsageService.js';
+import type {
+  Job,
+  JobData,
+  JobStatus,
+  JobType,
+  JobProgress,
+  JobResult,
+  JobStatistics,
+} from '../types/index.js';
+
+const WORKER_CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '2');
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000');
+const LEASE_MS = parseInt(process.env.JOB_LEASE_MS || '60000');
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3');
+const RETRY_BASE_DELAY_MS = parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '30000');
+const RETRY_MAX_DELAY_MS = parseInt(process.env.JOB_RETRY_MAX_DELAY_MS || '900000');
+
+/** Outcome returned by a job handler; the processor marks the job completed with it */
+export interface JobHandlerResult {
+  result: JobResult;
+  progress?: JobProgress;
+}
+
+export type JobHandler = (job: Job) => Promise<JobHandlerResult>;
+
+interface RegisterHandlerOptions {
+  /** Jobs of this type call AI providers and are paused while the monthly AI budget is exceeded */
+  usesAI?: boolean;
+}
+
+interface CreateJobOptions {
+  type?: JobType;
+  maxAttempts?: number;
+}
 
 interface JobFilters {
   status?: JobStatus;
@@ -26,19 +61,72 @@ interface DatabaseJobRow {
   error: { message: string; stack?: string } | null;
   progress: JobProgress;
   last_received_datetime: string | null;
+  job_type: JobType;
+  attempts: number;
+  max_attempts: number;
+  run_at: string | null;
+  locked_by: string | null;
+  locked_until: string | null;
+  heartbeat_at: string | null;
 }
 
 class JobProcessor {
   private jobs: Map<string, Job>;
+  private handlers: Map<JobType, JobHandler>;
+  private aiJobTypes: Set<JobType>;
+  private activeJobs: Set<string>;
+  private pollTimer: NodeJS.Timeout | null;
+  private polling: boolean;
+  private budgetPaused: boolean;
+  readonly workerId: string;
 
   constructor() {
     this.jobs = new Map();
+    this.handlers = new Map();
+    this.aiJobTypes = new Set();
+    this.activeJobs = new Set();
+    this.pollTimer = null;
+    this.polling = false;
+    this.budgetPaused = false;
+    this.workerId = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+    this.registerHandler('email_processing', (job) => this.runEmailProcessing(job), { usesAI: true });
+  }
+
+  /**
+   * Register the handler that runs jobs of a given type
+   */
+  registerHandler(type: JobType, handler: JobHandler, options: RegisterHandlerOptions = {}): void {
+    this.handlers.set(type, handler);
+    if (options.usesAI) {
+      this.aiJobTypes.add(type);
+    } else {
+      this.aiJobTypes.delete(type);
+    }
+  }
+
+  /**
+   * Job types to leave in the queue: the AI job types while the monthly AI budget is exceeded
+   */
+  private async getPausedJobTypes(): Promise<JobType[]> {
+    const budget = await aiUsageService.getBudgetStatus();
+
+    if (budget.exceeded !== this.budgetPaused) {
+      this.budgetPaused = budget.exceeded;
+      console.log(
+        budget.exceeded
+          ? `Job queue: monthly AI budget exceeded ($${budget.monthToDateUsd.toFixed(2)} of $${budget.monthlyBudgetUsd!.toFixed(2)}), pausing ${Array.from(this.aiJobTypes).join(', ')} jobs`
+          : 'Job queue: AI budget available again, resuming AI jobs'
+      );
+    }
+
+    return budget.exceeded ? Array.from(this.aiJobTypes) : [];
   }
 
   /**
-   * Create a new job
+   * Create a new job (queued as pending until a worker claims it)
    */
-  async createJob(jobData: JobData): Promise<string> {
+  async createJob(jobData: JobData, options: CreateJobOptions = {}): Promise<string> {
     const jobId = uuidv4();
     const job: Job = {
       id: jobId,
@@ -56,6 +144,9 @@ class JobProcessor {
         percentage: 0,
       },
       lastReceivedDateTime: undefined,
+      type: options.type || 'email_processing',
+      attempts: 0,
+      maxAttempts: options.maxAttempts || MAX_ATTEMPTS,
     };
 
     await db.saveJobToDatabase(job);
@@ -68,10 +159,6 @@ class JobProcessor {
    * Get job status
    */
   async getJob(jobId: string): Promise<Job | null> {
-    if (this.jobs.has(jobId)) {
-      return this.jobs.get(jobId) || null;
-    }
-
     try {
       const job = await db.getJobFromDatabase(jobId);
       if (job) {
@@ -80,7 +167,7 @@ class JobProcessor {
       return job;
     } catch (error) {
       console.error('Error retrieving job from database:', error);
-      return null;
+      return this.jobs.get(jobId) || null;
     }
   }
 
@@ -106,60 +193,212 @@ class JobProcessor {
   }
 
   /**
-   * Process a job asynchronously
+   * Complete or fail a job this worker holds the lease on
+   * Returns false (and leaves the job alone) if the lease was lost in the meantime
    */
-  async processJob(jobId: string): Promise<void> {
+  private async finishJob(jobId: string, updates: Partial<Job>): Promise<boolean> {
     const job = await this.getJob(jobId);
     if (!job) {
       throw new Error(`Job ${jobId} not found`);
     }
 
+    const finished: Job = { ...job, ...updates, updatedAt: new Date().toISOString() };
+    if (updates.result && updates.result.lastReceivedDateTime) {
+      finished.lastReceivedDateTime = updates.result.lastReceivedDateTime;
+    }
+
+    const owned = await db.finishJobInDatabase(finished, this.workerId);
+    if (owned) {
+      this.jobs.set(jobId, finished);
+    }
+    return owned;
+  }
+
+  /**
+   * Run an email processing job
+   */
+  private async runEmailProcessing(job: Job): Promise<JobHandlerResult> {
+    const result = await emailExtractor.processEmails(job.data);
+
+    return {
+      result: {
+        ...result,
+        preview: undefined,
+      },
+      progress: {
+        current: result.fetched,
+        total: result.fetched,
+        percentage: 100,
+      },
+    };
+  }
+
+  /**
+   * Process a claimed job, keeping its lease alive until the handler finishes
+   */
+  async processJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type || 'email_processing');
+    this.jobs.set(job.id, job);
+    this.activeJobs.add(job.id);
+
+    const heartbeat = setInterval(() => {
+      db.heartbeatJob(job.id, this.workerId, LEASE_MS)
+        .then((owned) => {
+          if (!owned) {
+            console.warn(`Job ${job.id}: lease lost (cancelled or reclaimed by another worker)`);
+          }
+        })
+        .catch((err) => console.error(`Job ${job.id}: heartbeat failed:`, err.message));
+    }, Math.max(1000, Math.floor(LEASE_MS / 3)));
+
     try {
-      await this.updateJob(jobId, {
-        status: 'processing',
-        startedAt: new Date().toISOString(),
-      });
+      if (!handler) {
+        throw new Error(`No handler registered for job type '${job.type}'`);
+      }
 
-      console.log(`\nStarting job ${jobId}...`);
+      console.log(`\nStarting job ${job.id} (${job.type}, attempt ${job.attempts}/${job.maxAttempts})...`);
 
-      const result = await emailExtractor.processEmails(job.data);
+      const {
+        result: { result, progress },
+        usage,
+      } = await aiUsageService.measure({ jobId: job.id }, () => handler(job));
+      if (usage.calls > 0) {
+        result.aiUsage = usage;
+      }
 
-      await this.updateJob(jobId, {
+      const owned = await this.finishJob(job.id, {
         status: 'completed',
         completedAt: new Date().toISOString(),
-        result: {
-          ...result,
-          preview: undefined,
-        },
-        progress: {
-          current: result.fetched,
-          total: result.fetched,
-          percentage: 100,
-        },
+        error: null,
+        result,
+        ...(progress && { progress }),
       });
+      if (!owned) {
+        console.warn(`Job ${job.id} finished after losing its lease, result discarded`);
+        return;
+      }
 
-      console.log(`Job ${jobId} completed successfully`);
+      console.log(`Job ${job.id} completed successfully`);
     } catch (error) {
       const err = error as Error;
-      console.error(`Job ${jobId} failed:`, err);
+      const attempts = job.attempts || 1;
+      const maxAttempts = job.maxAttempts || MAX_ATTEMPTS;
+
+      if (err instanceof AIBudgetExceededError) {
+        // Back to the queue without using up an attempt; claimed again once the budget allows
+        console.warn(`Job ${job.id} paused: ${err.message}`);
+        await db.requeueJob(job.id, err.message);
+        this.jobs.delete(job.id);
+      } else if (handler && attempts < maxAttempts) {
+        const delayMs = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+        console.error(
+          `Job ${job.id} failed (attempt ${attempts}/${maxAttempts}), retrying in ${Math.round(delayMs / 1000)}s:`,
+          err.message
+        );
+        const owned = await db.scheduleJobRetry(
+          job.id,
+          this.workerId,
+          { message: err.message, stack: err.stack },
+          delayMs
+        );
+        if (!owned) {
+          console.warn(`Job ${job.id} failed after losing its lease, retry left to the new owner`);
+        }
+        this.jobs.delete(job.id);
+      } else {
+        console.error(`Job ${job.id} failed:`, err);
+        const owned = await this.finishJob(job.id, {
+          status: 'failed',
+          completedAt: new Date().toISOString(),
+          error: {
+            message: err.message,
+            stack: err.stack,
+          },
+        });
+        if (!owned) {
+          console.warn(`Job ${job.id} failed after losing its lease, failure discarded`);
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.activeJobs.delete(job.id);
+    }
+  }
 
-      await this.updateJob(jobId, {
-        status: 'failed',
-        completedAt: new Date().toISOString(),
-        error: {
-          message: err.message,
-          stack: err.stack,
-        },
-      });
+  /**
+   * Claim jobs until the worker pool is full or the queue is empty
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const pausedTypes = await this.getPausedJobTypes();
+
+      while (this.activeJobs.size < WORKER_CONCURRENCY) {
+        const job = await db.claimNextJob(this.workerId, LEASE_MS, pausedTypes);
+        if (!job) break;
+
+        this.processJob(job)
+          .catch((err) => console.error(`Unhandled error in job ${job.id}:`, err))
+          .finally(() => {
+            this.poll().catch((err) => console.error('Error polling job queue:', err.message));
+          });
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Start the worker pool: reclaim orphaned jobs, then poll the queue
+   */
+  async start(): Promise<void> {
+    if (this.pollTimer) return;
+
+    try {
+      const { requeued, failed } = await db.reclaimOrphanedJobs();
+      if (requeued.length > 0 || failed.length > 0) {
+        console.log(
+          `Job queue: reclaimed ${requeued.length} orphaned jobs, failed ${failed.length} out of attempts`
+        );
+      }
+    } catch (error) {
+      console.error('Error reclaiming orphaned jobs:', (error as Error).message);
+    }
+
+    console.log(`Job queue: worker ${this.workerId} started (concurrency ${WORKER_CONCURRENCY})`);
+
+    this.pollTimer = setInterval(() => {
+      db.reclaimOrphanedJobs()
+        .then(() => this.poll())
+        .catch((err) => console.error('Error polling job queue:', err.message));
+    }, POLL_INTERVAL_MS);
+
+    await this.poll().catch((err) => console.error('Error polling job queue:', err.message));
+  }
+
+  /**
+   * Stop polling and hand in-flight jobs back to the queue
+   */
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (this.activeJobs.size > 0) {
+      const released = await db.releaseWorkerJobs(this.workerId);
+      console.log(`Job queue: released ${released} in-flight jobs`);
     }
   }
 
   /**
-   * Start processing a job (non-blocking)
+   * Wake the worker pool so a newly created job is picked up immediately
    */
   startJob(jobId: string): void {
-    this.processJob(jobId).catch((err) => {
-      console.error(`Unhandled error in job ${jobId}:`, err);
+    this.poll().catch((err) => {
+      console.error(`Error starting job ${jobId}:`, err);
     });
   }
 
@@ -194,6 +433,13 @@ class JobProcessor {
           error: row.error,
           progress: row.progress,
           lastReceivedDateTime: row.last_received_datetime ?? undefined,
+          type: row.job_type,
+          attempts: row.attempts,
+          maxAttempts: row.max_attempts,
+          runAt: row.run_at,
+          lockedBy: row.locked_by,
+          lockedUntil: row.locked_until,
+          heartbeatAt: row.heartbeat_at,
         }));
       } finally {
         client.release();
@@ -0,0 +1,248 @@
+/**
+ * Job Scheduler Service
+ * Cron-like recurring jobs: new email ingestion, staff reply extraction, run-all matching,
+ * Graph subscription renewal, follow-up drafting, quote lifecycle inference and distance backfill.
+ * Runs are claimed through job_schedules so only one instance enqueues each run,
+ * and a run is skipped while a job of the same type is still pending or processing.
+ */
+
+import * as db from '../config/db.js';
+import jobProcessor from './jobProcessor.js';
+import { getNextRun, parseCron } from '../utils/cron.js';
+import type { JobData, JobSchedule, JobScheduleClaim, JobType } from '../types/index.js';
+
+const SCHEDULER_ENABLED = process.env.SCHEDULER_ENABLED === 'true';
+const TICK_INTERVAL_MS = parseInt(process.env.SCHEDULER_TICK_MS || '30000');
+const DEFAULT_LOOKBACK_MS = 3 * 24 * 60 * 60 * 1000;
+// When set, new-email runs use Graph delta sync on this folder instead of a date search
+const DELTA_FOLDER = process.env.MS_GRAPH_DELTA_FOLDER || '';
+
+interface ScheduleDefinition {
+  name: string;
+  jobType: JobType;
+  cronExpression: string;
+  /**
+   * Build job data for a run from the start of its window; returning null skips the run
+   * (nothing to do)
+   */
+  buildJobData: (windowStart: string | null) => Promise<JobData | null>;
+}
+
+/**
+ * Job data for incremental new-email processing
+ * Resumes from the latest completed job, or the last 3 days if none exists
+ * (with delta sync the start date only bounds the initial sync)
+ */
+export async function buildNewEmailsJobData(): Promise<JobData> {
+  const startDate = await db.getLatestLastReceivedDateTime();
+
+  return {
+    maxEmails: 500,
+    startDate: startDate ?? new Date(Date.now() - DEFAULT_LOOKBACK_MS).toISOString(),
+    scoreThreshold: 30,
+    previewMode: false,
+    ...(DELTA_FOLDER && { mailFolder: DELTA_FOLDER }),
+  };
+}
+
+const SCHEDULE_DEFINITIONS: ScheduleDefinition[] = [
+  {
+    name: 'new_emails',
+    jobType: 'email_processing',
+    cronExpression: process.env.SCHEDULE_NEW_EMAILS || '*/15 * * * *',
+    buildJobData: () => buildNewEmailsJobData(),
+  },
+  {
+    name: 'staff_replies',
+    jobType: 'staff_reply_extraction',
+    cronExpression: process.env.SCHEDULE_STAFF_REPLIES || '0 * * * *',
+    buildJobData: async (windowStart) => ({
+      startDate: windowStart
+        ? new Date(windowStart).toISOString()
+        : new Date(Date.now() - DEFAULT_LOOKBACK_MS).toISOString(),
+    }),
+  },
+  {
+    name: 'run_all_matching',
+    jobType: 'run_all_matching',
+    cronExpression: process.env.SCHEDULE_RUN_ALL_MATCHING || '0 3 * * *',
+    buildJobData: async (windowStart) => {
+      const startDate = windowStart
+        ? new Date(windowStart).toISOString()
+        : new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const quoteIds = await db.getQuoteIdsByStartDate(startDate, 1000);
+
+      if (quoteIds.length === 0) return null;
+
+      return {
+        startDate,
+        quoteIds,
+        matchingOptions: { minScore: 0.5, maxMatches: 10, useAI: true },
+      };
+    },
+  },
+  {
+    name: 'graph_subscription_renewal',
+    jobType: 'graph_subscription_renewal',
+    cronExpression:
+      process.env.SCHEDULE_GRAPH_SUBSCRIPTIONS ||
+      (process.env.MS_GRAPH_NOTIFICATION_URL ? '0 */6 * * *' : 'off'),
+    buildJobData: async () => ({}),
+  },
+  {
+    name: 'follow_up_drafting',
+    jobType: 'follow_up_drafting',
+    cronExpression: process.env.SCHEDULE_FOLLOW_UPS || '0 8 * * 1-5',
+    buildJobData: async () => ({}),
+  },
+  {
+    name: 'quote_lifecycle_inference',
+    jobType: 'quote_lifecycle_inference',
+    cronExpression: process.env.SCHEDULE_QUOTE_LIFECYCLE || '20,50 * * * *',
+    buildJobData: async () => ({}),
+  },
+  {
+    name: 'distance_backfill',
+    jobType: 'distance_backfill',
+    cronExpression: process.env.SCHEDULE_DISTANCE_BACKFILL || '40 2 * * *',
+    buildJobData: async () => ({}),
+  },
+];
+
+class JobScheduler {
+  private timer: NodeJS.Timeout | null;
+  private ticking: boolean;
+
+  constructor() {
+    this.timer = null;
+    this.ticking = false;
+  }
+
+  /**
+   * Whether a definition is active (an expression of "off" disables it)
+   */
+  private isEnabled(definition: ScheduleDefinition): boolean {
+    return definition.cronExpression.trim().toLowerCase() !== 'off';
+  }
+
+  /**
+   * Register schedule definitions and start ticking
+   */
+  async start(): Promise<void> {
+    if (!SCHEDULER_ENABLED || this.timer) return;
+
+    for (const definition of SCHEDULE_DEFINITIONS) {
+      const enabled = this.isEnabled(definition);
+      try {
+        const nextRunAt = enabled ? getNextRun(definition.cronExpression) : new Date();
+        await db.upsertJobSchedule(
+          definition.name,
+          definition.jobType,
+          definition.cronExpression,
+          enabled,
+          nextRunAt
+        );
+      } catch (error) {
+        console.error(
+          `Scheduler: invalid schedule '${definition.name}':`,
+          (error as Error).message
+        );
+      }
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((err) => console.error('Scheduler tick failed:', err.message));
+    }, TICK_INTERVAL_MS);
+
+    console.log(`Scheduler: started with ${SCHEDULE_DEFINITIONS.length} schedules`);
+    await this.tick().catch((err) => console.error('Scheduler tick failed:', err.message));
+  }
+
+  /**
+   * Stop ticking
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every due schedule once
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const definition of SCHEDULE_DEFINITIONS) {
+        if (this.isEnabled(definition)) {
+          await this.runIfDue(definition);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Claim and enqueue a single schedule run if it is due
+   */
+  private async runIfDue(definition: ScheduleDefinition): Promise<void> {
+    let claim: JobScheduleClaim | null;
+    try {
+      const schedule = parseCron(definition.cronExpression);
+      claim = await db.claimDueSchedule(definition.name, getNextRun(schedule));
+    } catch (error) {
+      console.error(`Scheduler: could not claim '${definition.name}':`, (error as Error).message);
+      return;
+    }
+
+    if (!claim) return;
+
+    try {
+      if (await db.hasActiveJobOfType(definition.jobType)) {
+        console.log(
+          `Scheduler: '${definition.name}' skipped, previous ${definition.jobType} job still active`
+        );
+        await db.recordScheduleRun(definition.name, 'skipped_overlap');
+        return;
+      }
+
+      const jobData = await definition.buildJobData(claim.windowStart);
+      if (!jobData) {
+        await db.recordScheduleRun(definition.name, 'skipped_empty');
+        return;
+      }
+
+      const jobId = await jobProcessor.createJob(jobData, { type: definition.jobType });
+      jobProcessor.startJob(jobId);
+      await db.recordScheduleRun(definition.name, 'enqueued', jobId, null, claim.windowEnd);
+
+      console.log(`Scheduler: '${definition.name}' enqueued job ${jobId}`);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Scheduler: '${definition.name}' failed:`, err.message);
+      await db.recordScheduleRun(definition.name, 'error', null, err.message).catch(() => {});
+    }
+  }
+
+  /**
+   * Get schedules with last and next run times
+   */
+  async getSchedules(): Promise<JobSchedule[]> {
+    return db.getJobSchedules();
+  }
+
+  /**
+   * Whether the scheduler is enabled for this instance
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+}
+
+const jobScheduler = new JobScheduler();
+
+export default jobScheduler;
@@ -3,12 +3,18 @@
  * Main business logic for processing shipping quote emails
  */
 
-import * as microsoftGraphService from './microsoftGraphService.js';
+import { getMailSource } from './mailSourceFactory.js';
 import * as emailFilter from './emailFilter.js';
 import * as db from '../../config/db.js';
-import { getAIService, getProviderInfo } from '../ai/aiServiceFactory.js';
+import { AI_PROVIDERS, getAIService, getProviderInfo } from '../ai/aiServiceFactory.js';
+import terminalRegistryService from '../terminalRegistryService.js';
+import quoteCorrectionService from '../quoteCorrectionService.js';
+import promptRegistryService from '../promptRegistryService.js';
+import aiUsageService from '../aiUsageService.js';
 import type {
+  AIUsageTotals,
   Email,
+  MailSourceName,
   ProcessingSummary,
   ProcessingError,
   FilterPreview,
@@ -23,6 +29,12 @@ interface ProcessEmailsOptions {
   scoreThreshold?: number;
   previewMode?: boolean;
   aiProvider?: string | null;
+  /** Process exactly these Graph message IDs (e.g. from change notifications) */
+  messageIds?: string[];
+  /** Read this folder incrementally (Graph delta, IMAP UID cursor, import subdirectory) */
+  mailFolder?: string;
+  /** Mail source to read from (defaults to MAIL_SOURCE, then Graph) */
+  mailSource?: MailSourceName | null;
 }
 
 interface ProcessEmailsResult {
@@ -31,6 +43,8 @@ interface ProcessEmailsResult {
   processed: ProcessedResults;
   estimatedCost: number;
   estimatedSavings: number;
+  actualCost: number;
+  aiUsage: AIUsageTotals;
   errors: ProcessingError[];
   lastReceivedDateTime: string | null;
   newQuoteIds: number[];
@@ -43,6 +57,7 @@ interface PreviewEmailsOptions {
   maxEmails?: number;
   startDate?: string | null;
   scoreThreshold?: number;
+  mailSource?: MailSourceName | null;
 }
 
 interface PreviewEmailsResult {
@@ -50,6 +65,7 @@ interface PreviewEmailsResult {
   preview: FilterPreview | null;
 }
 
+
 class EmailExtractorService {
   /**
    * Process emails with pre-filtering
@@ -57,21 +73,28 @@ class EmailExtractorService {
   async processEmails(options: ProcessEmailsOptions = {}): Promise<ProcessEmailsResult> {
     const {
       searchQuery = '',
-      maxEmails = 100,
-      startDate = null,
       scoreThreshold = 30,
       previewMode = false,
       aiProvider = null,
+      mailSource = null,
     } = options;
 
     const aiService = getAIService(aiProvider);
+    const source = getMailSource(mailSource);
     const providerInfo = getProviderInfo();
 
+    // Reviewed extractions are shown to the model as few-shot examples (EXTRACTION_FEW_SHOT_EXAMPLES)
+    const examples = await quoteCorrectionService.getFewShotExamples();
+
     console.log('\n' + '='.repeat(60));
     console.log('EMAIL EXTRACTION WITH PRE-FILTERING');
     console.log('='.repeat(60));
     console.log(`AI Provider: ${providerInfo.current.toUpperCase()}`);
     console.log(`Model: ${providerInfo.models[providerInfo.current as keyof typeof providerInfo.models]}`);
+    if (aiService.provider === AI_PROVIDERS.FALLBACK) {
+      console.log(`Fallback Chain: ${providerInfo.fallbackChain.join(' -> ').toUpperCase()}`);
+    }
+    console.log(`Mail Source: ${source.name.toUpperCase()}`);
     console.log('='.repeat(60) + '\n');
 
     const results: ProcessEmailsResult = {
@@ -80,23 +103,21 @@ class EmailExtractorService {
       processed: { successful: 0, skipped: 0, failed: 0 },
       estimatedCost: 0,
       estimatedSavings: 0,
+      actualCost: 0,
+      aiUsage: aiUsageService.sumTotals([]),
       errors: [],
       lastReceivedDateTime: null,
       newQuoteIds: [],
     };
 
     try {
-      console.log(`Fetching emails with search: '${searchQuery}'`);
-      const emails = await microsoftGraphService.default.fetchEmails({
-        searchQuery,
-        top: maxEmails,
-        startDate,
-      });
+      const { emails, attachments, commit } = await source.fetchEmails(options);
 
       results.fetched = emails.length;
 
       if (emails.length === 0) {
         console.log('No emails found.');
+        if (!previewMode) await commit?.();
         return results;
       }
 
@@ -104,7 +125,10 @@ class EmailExtractorService {
       console.log('STEP 1: PRE-FILTERING EMAILS');
       console.log(`${'='.repeat(60)}\n`);
 
-      const { toProcess, toSkip, summary } = await emailFilter.filterEmails(emails, scoreThreshold);
+      const { toProcess, toSkip, summary } = await emailFilter.filterEmails(emails, scoreThreshold, {
+        source,
+        attachments,
+      });
 
       results.filtered.toProcess = toProcess.length;
       results.filtered.toSkip = toSkip.length;
@@ -137,6 +161,7 @@ class EmailExtractorService {
         console.log(
           '\nNo emails passed the filter. Try lowering the threshold or adjusting search terms.'
         );
+        await commit?.();
         return results;
       }
 
@@ -155,6 +180,9 @@ class EmailExtractorService {
 
         console.log(`[${emailNum}/${toProcess.length}] Processing: ${subject}...`);
 
+        // Stops the run (and pauses its job) once the monthly AI budget is used up
+        await aiUsageService.assertWithinBudget();
+
         try {
           const exists = await db.checkEmailExists(email.id);
           if (exists) {
@@ -162,7 +190,21 @@ class EmailExtractorService {
             results.processed.skipped++;
             continue;
           }
-          const parsedData = await aiService.parseEmail(email, 3, email.attachmentText || '');
+          // Each email is extracted with the prompt version its traffic split assigns
+          const extractionPrompt = await promptRegistryService.assign('extraction', email.id);
+          const { result: parsedData, usage } = await aiUsageService.measure(
+            { emailId: email.id, operation: 'extraction' },
+            () =>
+              aiService.parseEmail(
+                email,
+                3,
+                email.attachmentText || '',
+                extractionPrompt.template,
+                extractionPrompt.version,
+                examples
+              )
+          );
+          results.aiUsage = aiUsageService.sumTotals([results.aiUsage, usage]);
 
           if (!parsedData) {
             results.processed.failed++;
@@ -185,6 +227,11 @@ class EmailExtractorService {
             continue;
           }
 
+          parsedData.prompt_version = extractionPrompt.version;
+
+          // Resolve pickup/delivery addresses to known ports and rail ramps
+          parsedData.quotes.forEach((quote) => terminalRegistryService.annotateQuote(quote));
+
           const saveResult = await db.saveQuoteToDatabase(email, parsedData);
           console.log(`  Saved ${saveResult.quotes_count} quote(s) to database`);
           results.processed.successful++;
@@ -214,9 +261,11 @@ class EmailExtractorService {
       console.log(`Skipped (already in DB): ${results.processed.skipped}`);
       console.log(`Failed: ${results.processed.failed}`);
       console.log(`New quote IDs: ${results.newQuoteIds.length}`);
-      const requestPrice = parseFloat(process.env.REQUEST_PRICE || '') || 0.015;
-      const actualCost = results.processed.successful * requestPrice;
-      console.log(`Actual cost: $${actualCost.toFixed(2)}`);
+      results.actualCost = results.aiUsage.costUsd;
+      console.log(
+        `AI usage: ${results.aiUsage.calls} calls, ${results.aiUsage.inputTokens} input / ${results.aiUsage.outputTokens} output tokens`
+      );
+      console.log(`Actual cost: $${results.actualCost.toFixed(4)}`);
       console.log(`Money saved: $${results.estimatedSavings.toFixed(2)}`);
       console.log('='.repeat(60) + '\n');
 
@@ -227,7 +276,8 @@ class EmailExtractorService {
         newQuoteIds: results.newQuoteIds,
         estimatedCost: results.estimatedCost,
         estimatedSavings: results.estimatedSavings,
-        actualCost: actualCost,
+        actualCost: results.actualCost,
+        aiUsage: results.aiUsage,
         aiProvider: providerInfo.current,
         model: providerInfo.models[providerInfo.current as keyof typeof providerInfo.models],
         searchQuery: searchQuery,
@@ -236,6 +286,8 @@ class EmailExtractorService {
         lastReceivedDateTime: results.lastReceivedDateTime,
       };
 
+      await commit?.();
+
       return results;
     } catch (error) {
       const err = error as Error;
@@ -257,19 +309,20 @@ class EmailExtractorService {
       maxEmails = 100,
       startDate = null,
       scoreThreshold = 30,
+      mailSource = null,
     } = options;
 
-    const emails = await microsoftGraphService.default.fetchEmails({
-      searchQuery,
-      top: maxEmails,
-      startDate,
-    });
+    const source = getMailSource(mailSource);
+    const { emails, attachments } = await source.fetchEmails({ searchQuery, maxEmails, startDate });
 
     if (emails.length === 0) {
       return { emails: [], preview: null };
     }
 
-    const preview = await emailFilter.generatePreview(emails, scoreThreshold);
+    const preview = await emailFilter.generatePreview(emails, scoreThreshold, {
+      source,
+      attachments,
+    });
 
     return {
       emails,
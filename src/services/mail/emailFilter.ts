@@ -5,7 +5,15 @@
 
 import { checkEmailExists, isSpammer } from '../../config/db.js';
 import { processEmailAttachments } from '../attachmentProcessor.js';
-import type { Email, FilterPreview, FilteredEmailPreview, FilterSummary, AttachmentMeta } from '../../types/index.js';
+import type {
+  Email,
+  FilterPreview,
+  FilteredEmailPreview,
+  FilterSummary,
+  Attachment,
+  AttachmentMeta,
+  MailSource,
+} from '../../types/index.js';
 
 interface FilterResult {
   score: number;
@@ -42,6 +50,10 @@ interface FilterEmailsResult {
 
 interface FilterOptions {
   processAttachments?: boolean;
+  /** Source the emails came from; attachments are loaded through it */
+  source?: MailSource;
+  /** Attachments that came with the fetched batch, by email ID */
+  attachments?: Map<string, Attachment[]>;
 }
 
 class EmailFilter {
@@ -290,7 +302,7 @@ class EmailFilter {
     threshold = 30,
     options: FilterOptions = {}
   ): Promise<FilterEmailsResult> {
-    const { processAttachments = true } = options;
+    const { processAttachments = true, source, attachments } = options;
     const toProcess: EmailWithScore[] = [];
     const toSkip: EmailWithScore[] = [];
 
@@ -336,7 +348,10 @@ class EmailFilter {
           console.log(
             `  Fetching attachments for: ${(email.subject || 'No Subject').substring(0, 40)}...`
           );
-          const attachmentResults = await processEmailAttachments(email.id);
+          const attachmentResults = await processEmailAttachments(
+            email.id,
+            attachments?.get(email.id) ?? (await source?.fetchAttachments?.(email.id))
+          );
           if (attachmentResults.extractedText) {
             emailWithAttachmentText = {
               ...email,
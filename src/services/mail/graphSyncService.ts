@@ -0,0 +1,249 @@
+/**
+ * Microsoft Graph Sync Service
+ * Change-notification subscriptions for the mailbox; notified messages are enqueued for processing
+ */
+
+import microsoftGraphService from './microsoftGraphService.js';
+import jobProcessor from '../jobProcessor.js';
+import * as db from '../../config/db.js';
+import type {
+  GraphChangeNotification,
+  GraphSubscription,
+  GraphSubscriptionRenewalResult,
+} from '../../types/index.js';
+
+const NOTIFICATION_URL = process.env.MS_GRAPH_NOTIFICATION_URL || '';
+const CLIENT_STATE = process.env.MS_GRAPH_CLIENT_STATE || '';
+const SUBSCRIPTION_FOLDER = process.env.MS_GRAPH_SUBSCRIPTION_FOLDER || 'inbox';
+// Graph caps message subscriptions at 4230 minutes (just under 3 days)
+const SUBSCRIPTION_LIFETIME_MINUTES = parseInt(process.env.MS_GRAPH_SUBSCRIPTION_MINUTES || '4200');
+const RENEW_WITHIN_MS = parseInt(process.env.MS_GRAPH_RENEW_WITHIN_HOURS || '24') * 60 * 60 * 1000;
+
+interface NotificationResult {
+  accepted: number;
+  rejected: number;
+  lifecycleEvents: number;
+  jobId: string | null;
+}
+
+class GraphSyncService {
+  /**
+   * Whether webhook subscriptions are configured for this deployment
+   */
+  isSubscriptionConfigured(): boolean {
+    return Boolean(NOTIFICATION_URL && CLIENT_STATE);
+  }
+
+  /**
+   * Validate change notifications and enqueue the new message IDs as one processing job
+   */
+  async handleNotifications(notifications: GraphChangeNotification[]): Promise<NotificationResult> {
+    const result: NotificationResult = {
+      accepted: 0,
+      rejected: 0,
+      lifecycleEvents: 0,
+      jobId: null,
+    };
+    const messageIds: string[] = [];
+
+    for (const notification of notifications) {
+      const subscription = notification.subscriptionId
+        ? await db.getGraphSubscription(notification.subscriptionId)
+        : null;
+      const expectedState = subscription?.clientState || CLIENT_STATE;
+
+      if (!expectedState || notification.clientState !== expectedState) {
+        console.warn(
+          `Graph webhook: rejected notification for subscription ${notification.subscriptionId} (clientState mismatch)`
+        );
+        result.rejected++;
+        continue;
+      }
+
+      if (notification.lifecycleEvent) {
+        result.lifecycleEvents++;
+        await this.handleLifecycleEvent(notification).catch((err) => {
+          console.error(
+            `Graph webhook: lifecycle event '${notification.lifecycleEvent}' failed:`,
+            err.message
+          );
+        });
+        continue;
+      }
+
+      const messageId = notification.resourceData?.id;
+      if (!messageId) {
+        result.rejected++;
+        continue;
+      }
+
+      messageIds.push(messageId);
+      result.accepted++;
+
+      if (subscription) {
+        await db.touchGraphSubscription(subscription.id);
+      }
+    }
+
+    if (messageIds.length > 0) {
+      result.jobId = await jobProcessor.createJob({
+        messageIds: Array.from(new Set(messageIds)),
+        // The IDs are Graph message IDs whatever MAIL_SOURCE is set to
+        mailSource: 'graph',
+        scoreThreshold: 30,
+        previewMode: false,
+      });
+      jobProcessor.startJob(result.jobId);
+      console.log(`Graph webhook: enqueued ${messageIds.length} message(s) as job ${result.jobId}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * React to subscription lifecycle notifications
+   */
+  private async handleLifecycleEvent(notification: GraphChangeNotification): Promise<void> {
+    switch (notification.lifecycleEvent) {
+      case 'reauthorizationRequired':
+        await this.renewSubscription(notification.subscriptionId);
+        break;
+      case 'subscriptionRemoved':
+        await db.deleteGraphSubscription(notification.subscriptionId);
+        await this.ensureSubscription();
+        break;
+      case 'missed':
+        // Notifications were dropped; the next delta sync picks up the gap
+        console.warn(`Graph webhook: notifications missed for ${notification.subscriptionId}`);
+        break;
+    }
+  }
+
+  /**
+   * Expiration timestamp for a new or renewed subscription
+   */
+  private nextExpiration(): string {
+    return new Date(Date.now() + SUBSCRIPTION_LIFETIME_MINUTES * 60 * 1000).toISOString();
+  }
+
+  /**
+   * Create a subscription for the configured folder unless a live one exists
+   */
+  async ensureSubscription(): Promise<GraphSubscription> {
+    if (!this.isSubscriptionConfigured()) {
+      throw new Error('MS_GRAPH_NOTIFICATION_URL and MS_GRAPH_CLIENT_STATE must be set');
+    }
+
+    const resource = `users/${process.env.MS_USER_EMAIL}/mailFolders('${SUBSCRIPTION_FOLDER}')/messages`;
+    const existing = (await db.getGraphSubscriptions()).find(
+      (s) => s.resource === resource && new Date(s.expirationDateTime).getTime() > Date.now()
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const created = await microsoftGraphService.createSubscription({
+      resource,
+      notificationUrl: NOTIFICATION_URL,
+      lifecycleNotificationUrl: NOTIFICATION_URL,
+      clientState: CLIENT_STATE,
+      expirationDateTime: this.nextExpiration(),
+      changeType: 'created',
+    });
+
+    const subscription: GraphSubscription = {
+      ...created,
+      resource,
+      changeType: 'created',
+      notificationUrl: NOTIFICATION_URL,
+      clientState: CLIENT_STATE,
+    };
+    await db.saveGraphSubscription(subscription);
+
+    console.log(
+      `Graph subscription ${subscription.id} created (expires ${subscription.expirationDateTime})`
+    );
+    return subscription;
+  }
+
+  /**
+   * Extend a single subscription
+   */
+  async renewSubscription(subscriptionId: string): Promise<GraphSubscription> {
+    const stored = await db.getGraphSubscription(subscriptionId);
+    if (!stored) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+
+    const renewed = await microsoftGraphService.renewSubscription(
+      subscriptionId,
+      this.nextExpiration()
+    );
+    const subscription: GraphSubscription = {
+      ...stored,
+      expirationDateTime: renewed.expirationDateTime,
+    };
+    await db.saveGraphSubscription(subscription);
+
+    return subscription;
+  }
+
+  /**
+   * Renew subscriptions close to expiry and recreate any Graph no longer knows about
+   */
+  async renewSubscriptions(): Promise<GraphSubscriptionRenewalResult> {
+    const result: GraphSubscriptionRenewalResult = { renewed: [], recreated: [], failed: [] };
+    const subscriptions = await db.getGraphSubscriptions();
+
+    for (const subscription of subscriptions) {
+      const expiresIn = new Date(subscription.expirationDateTime).getTime() - Date.now();
+      if (expiresIn > RENEW_WITHIN_MS) continue;
+
+      try {
+        await this.renewSubscription(subscription.id);
+        result.renewed.push(subscription.id);
+      } catch (error) {
+        const err = error as { response?: { status?: number }; message?: string };
+        // Expired or deleted on the Graph side: drop the record and subscribe again
+        if (err.response?.status === 404 || expiresIn <= 0) {
+          await db.deleteGraphSubscription(subscription.id);
+          result.recreated.push(subscription.id);
+        } else {
+          result.failed.push({
+            subscriptionId: subscription.id,
+            error: err.message || 'Unknown error',
+          });
+        }
+      }
+    }
+
+    if (this.isSubscriptionConfigured()) {
+      const ensured = await this.ensureSubscription();
+      if (subscriptions.length === 0) {
+        result.recreated.push(ensured.id);
+      }
+    }
+
+    console.log(
+      `Graph subscriptions: ${result.renewed.length} renewed, ${result.recreated.length} recreated, ${result.failed.length} failed`
+    );
+    return result;
+  }
+}
+
+const graphSyncService = new GraphSyncService();
+
+jobProcessor.registerHandler('graph_subscription_renewal', async () => {
+  const renewal = await graphSyncService.renewSubscriptions();
+  if (renewal.failed.length > 0) {
+    throw new Error(
+      `Failed to renew ${renewal.failed.length} subscription(s): ${renewal.failed[0]!.error}`
+    );
+  }
+  return { result: { subscriptions: renewal } };
+});
+
+export default graphSyncService;
+export const handleNotifications = graphSyncService.handleNotifications.bind(graphSyncService);
+export const ensureSubscription = graphSyncService.ensureSubscription.bind(graphSyncService);
+export const renewSubscriptions = graphSyncService.renewSubscriptions.bind(graphSyncService);
@@ -0,0 +1,67 @@
+/**
+ * Mail Source Factory
+ * Selects where ingested emails come from (Microsoft 365, IMAP, local .eml/.mbox files)
+ */
+
+import graphMailSource from './sources/graphMailSource.js';
+import imapMailSource from './sources/imapMailSource.js';
+import fileMailSource from './sources/fileMailSource.js';
+import type { MailSource, MailSourceName } from '../../types/index.js';
+
+/**
+ * Available mail sources
+ */
+export const MAIL_SOURCES = {
+  GRAPH: 'graph',
+  IMAP: 'imap',
+  FILE: 'file',
+} as const;
+
+/**
+ * Get a mail source by name (defaults to MAIL_SOURCE, then Microsoft Graph)
+ */
+export function getMailSource(name: string | null = null): MailSource {
+  const selected = (name || process.env.MAIL_SOURCE || MAIL_SOURCES.GRAPH).toLowerCase();
+
+  switch (selected) {
+    case MAIL_SOURCES.GRAPH:
+      return graphMailSource;
+
+    case MAIL_SOURCES.IMAP:
+      if (!imapMailSource.isConfigured()) {
+        throw new Error(
+          'IMAP_HOST, IMAP_USER and IMAP_PASSWORD not configured in environment variables'
+        );
+      }
+      return imapMailSource;
+
+    case MAIL_SOURCES.FILE:
+      return fileMailSource;
+
+    default:
+      throw new Error(`Unknown mail source: ${selected}. Valid options: graph, imap, file`);
+  }
+}
+
+/**
+ * Get list of configured mail sources
+ */
+export function getAvailableMailSources(): MailSourceName[] {
+  const available: MailSourceName[] = [];
+
+  if (process.env.MS_CLIENT_ID && process.env.MS_USER_EMAIL) {
+    available.push(MAIL_SOURCES.GRAPH);
+  }
+  if (imapMailSource.isConfigured()) {
+    available.push(MAIL_SOURCES.IMAP);
+  }
+  available.push(MAIL_SOURCES.FILE);
+
+  return available;
+}
+
+export default {
+  MAIL_SOURCES,
+  getMailSource,
+  getAvailableMailSources,
+};
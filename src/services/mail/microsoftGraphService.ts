@@ -4,10 +4,16 @@
  */
 
 import axios from 'axios';
-import type { Email, Attachment } from '../../types/index.js';
+import type { Email, Attachment, GraphSubscription } from '../../types/index.js';
 import dotenv from 'dotenv';
 dotenv.config();
 
+// Base URLs are configurable so the service can run against a local Graph stub
+const GRAPH_BASE_URL = (process.env.MS_GRAPH_BASE_URL || 'https://graph.microsoft.com/v1.0').replace(/\/$/, '');
+const AUTH_BASE_URL = (process.env.MS_AUTH_BASE_URL || 'https://login.microsoftonline.com').replace(/\/$/, '');
+
+const MESSAGE_SELECT = 'id,conversationId,subject,from,receivedDateTime,bodyPreview,hasAttachments';
+
 let accessToken: string | null = null;
 let tokenExpiry: number | null = null;
 
@@ -40,7 +46,50 @@ interface FetchByConversationOptions {
   senderNames?: string[];
 }
 
+interface DeltaPage {
+  value: (Email & { '@removed'?: { reason: string } })[];
+  '@odata.nextLink'?: string;
+  '@odata.deltaLink'?: string;
+}
+
+interface FetchFolderDeltaOptions {
+  folderId?: string;
+  resumeLink?: string | null;
+  startDate?: string | null;
+  maxEmails?: number;
+}
+
+export interface FolderDeltaResult {
+  emails: Email[];
+  removedIds: string[];
+  /** Link to resume from: a deltaLink when the round completed, a nextLink when capped by maxEmails */
+  resumeLink: string | null;
+  complete: boolean;
+}
+
+interface ReplyDraft {
+  id: string;
+  webLink?: string;
+  body?: { contentType: string; content: string };
+}
+
+interface CreateSubscriptionOptions {
+  resource: string;
+  notificationUrl: string;
+  lifecycleNotificationUrl?: string;
+  clientState: string;
+  expirationDateTime: string;
+  changeType?: string;
+}
+
 class MicrosoftGraphService {
+  /**
+   * Get the base URL for the configured mailbox
+   */
+  getMailboxUrl(): string {
+    return `${GRAPH_BASE_URL}/users/${process.env.MS_USER_EMAIL}`;
+  }
+
   /**
    * Get Microsoft Graph API access token using client credentials flow
    */
@@ -49,7 +98,7 @@ class MicrosoftGraphService {
       return accessToken;
     }
 
-    const tokenUrl = `https://login.microsoftonline.com/${process.env.MS_TENANT_ID}/oauth2/v2.0/token`;
+    const tokenUrl = `${AUTH_BASE_URL}/${process.env.MS_TENANT_ID}/oauth2/v2.0/token`;
 
     const params = new URLSearchParams({
       grant_type: 'client_credentials',
@@ -92,11 +141,11 @@ class MicrosoftGraphService {
       ConsistencyLevel: 'eventual',
     };
 
-    const baseUrl = `https://graph.microsoft.com/v1.0/users/${process.env.MS_USER_EMAIL}/messages`;
+    const baseUrl = `${this.getMailboxUrl()}/messages`;
 
     const params: Record<string, string | number> = {
       $top: top,
-      $select: 'id,conversationId,subject,from,receivedDateTime,bodyPreview,hasAttachments',
+      $select: MESSAGE_SELECT,
       '?$orderby': 'receivedDateTime',
     };
 
@@ -135,7 +184,7 @@ class MicrosoftGraphService {
       Authorization: `Bearer ${token}`,
     };
 
-    const url = `https://graph.microsoft.com/v1.0/users/${process.env.MS_USER_EMAIL}/messages/${messageId}/attachments`;
+    const url = `${this.getMailboxUrl()}/messages/${messageId}/attachments`;
 
     try {
       const response = await axios.get<GraphApiResponse<Attachment>>(url, { headers });
@@ -157,7 +206,7 @@ class MicrosoftGraphService {
       Authorization: `Bearer ${token}`,
     };
 
-    const url = `https://graph.microsoft.com/v1.0/users/${process.env.MS_USER_EMAIL}/messages/${messageId}/attachments/${attachmentId}`;
+    const url = `${this.getMailboxUrl()}/messages/${messageId}/attachments/${attachmentId}`;
 
     try {
       const response = await axios.get<Attachment>(url, { headers });
@@ -180,7 +229,7 @@ class MicrosoftGraphService {
       ConsistencyLevel: 'eventual',
     };
 
-    const baseUrl = `https://graph.microsoft.com/v1.0/users/${process.env.MS_USER_EMAIL}/messages`;
+    const baseUrl = `${this.getMailboxUrl()}/messages`;
 
     const filterQuery: string[] = [];
 
@@ -202,7 +251,7 @@ class MicrosoftGraphService {
 
     const params: Record<string, string | number> = {
       $top: filters.top || 100,
-      $select: 'id,conversationId,subject,from,receivedDateTime,bodyPreview,hasAttachments',
+      $select: MESSAGE_SELECT,
       $orderby: 'receivedDateTime',
     };
 
@@ -241,7 +290,7 @@ class MicrosoftGraphService {
       ConsistencyLevel: 'eventual',
     };
 
-    const baseUrl = `https://graph.microsoft.com/v1.0/users/${process.env.MS_USER_EMAIL}/messages`;
+    const baseUrl = `${this.getMailboxUrl()}/messages`;
     const conversationIdSet = new Set(conversationIds);
     const allEmails: Email[] = [];
 
@@ -250,7 +299,7 @@ class MicrosoftGraphService {
       for (const conversationId of conversationIdSet) {
         const params: Record<string, string | number> = {
           $top: 1000,
-          $select: 'id,conversationId,subject,from,receivedDateTime,bodyPreview,hasAttachments',
+          $select: MESSAGE_SELECT,
           $filter: `conversationid eq '${conversationId}' and contains(from/emailAddress/name, '${senderName}')`,
         };
 
@@ -282,6 +331,214 @@ class MicrosoftGraphService {
     );
     return uniqueEmails;
   }
+
+  /**
+   * Fetch specific messages by ID (e.g. from change notifications)
+   * Messages that no longer exist are skipped
+   */
+  async fetchEmailsByIds(messageIds: string[]): Promise<Email[]> {
+    const token = await this.getAccessToken();
+    const headers = { Authorization: `Bearer ${token}` };
+    const emails: Email[] = [];
+
+    for (const messageId of new Set(messageIds)) {
+      try {
+        const response = await axios.get<Email>(`${this.getMailboxUrl()}/messages/${messageId}`, {
+          headers,
+          params: { $select: MESSAGE_SELECT },
+        });
+        emails.push(response.data);
+      } catch (error) {
+        const err = error as { response?: { status?: number; data?: unknown }; message?: string };
+        if (err.response?.status === 404) {
+          console.log(`Message ${messageId} no longer exists, skipping`);
+          continue;
+        }
+        console.error(`Error: Failed to fetch message ${messageId}:`, err.response?.data || err.message);
+        throw new Error('Failed to fetch emails from Microsoft Graph API');
+      }
+    }
+
+    console.log(`Success: Fetched ${emails.length} of ${messageIds.length} notified messages`);
+    return emails;
+  }
+
+  /**
+   * Run a delta query round on a mail folder
+   * Starts from resumeLink when given, otherwise begins a new sync (optionally from startDate)
+   */
+  async fetchFolderDelta({
+    folderId = 'inbox',
+    resumeLink = null,
+    startDate = null,
+    maxEmails = 500,
+  }: FetchFolderDeltaOptions = {}): Promise<FolderDeltaResult> {
+    const token = await this.getAccessToken();
+    const headers = {
+      Authorization: `Bearer ${token}`,
+      Prefer: 'odata.maxpagesize=50',
+    };
+
+    const emails: Email[] = [];
+    const removedIds: string[] = [];
+
+    let url: string | null = resumeLink || `${this.getMailboxUrl()}/mailFolders/${folderId}/messages/delta`;
+    let params: Record<string, string> | undefined = resumeLink
+      ? undefined
+      : {
+          $select: MESSAGE_SELECT,
+          ...(startDate && { $filter: `receivedDateTime ge ${startDate}` }),
+        };
+
+    try {
+      while (url) {
+        const response = await axios.get<DeltaPage>(url, { headers, params });
+        params = undefined;
+
+        for (const item of response.data.value || []) {
+          if (item['@removed']) {
+            removedIds.push(item.id);
+          } else {
+            emails.push(item);
+          }
+        }
+
+        if (response.data['@odata.deltaLink']) {
+          console.log(`Success: Delta sync of '${folderId}' returned ${emails.length} changed messages`);
+          return { emails, removedIds, resumeLink: response.data['@odata.deltaLink'], complete: true };
+        }
+
+        url = response.data['@odata.nextLink'] || null;
+
+        if (url && emails.length >= maxEmails) {
+          console.log(`Delta sync of '${folderId}' capped at ${emails.length} messages, will resume next run`);
+          return { emails, removedIds, resumeLink: url, complete: false };
+        }
+      }
+
+      return { emails, removedIds, resumeLink: null, complete: true };
+    } catch (error) {
+      const err = error as { response?: { status?: number; data?: unknown }; message?: string };
+      // 410 Gone: the delta token expired and a full resync is required
+      if (err.response?.status === 410 && resumeLink) {
+        console.warn(`Delta token for '${folderId}' expired, restarting sync`);
+        return this.fetchFolderDelta({ folderId, resumeLink: null, startDate, maxEmails });
+      }
+      console.error('Error: Delta query failed:', err.response?.data || err.message);
+      throw new Error('Failed to run delta query against Microsoft Graph API');
+    }
+  }
+
+  /**
+   * Create a reply draft in the message's conversation, with htmlContent above the quoted thread
+   */
+  async createReplyDraft(messageId: string, htmlContent: string): Promise<ReplyDraft> {
+    const token = await this.getAccessToken();
+    const headers = { Authorization: `Bearer ${token}` };
+    const messageUrl = `${this.getMailboxUrl()}/messages`;
+
+    try {
+      const created = await axios.post<ReplyDraft>(`${messageUrl}/${messageId}/createReply`, {}, { headers });
+      const draft = created.data;
+      const quoted = draft.body?.contentType?.toLowerCase() === 'html' ? draft.body.content : '';
+
+      const updated = await axios.patch<ReplyDraft>(
+        `${messageUrl}/${draft.id}`,
+        { body: { contentType: 'HTML', content: `${htmlContent}${quoted}` } },
+        { headers }
+      );
+
+      console.log(`Success: Saved reply draft ${draft.id} for message ${messageId}`);
+      return { id: draft.id, webLink: updated.data.webLink ?? draft.webLink };
+    } catch (error) {
+      const err = error as { response?: { data?: unknown }; message?: string };
+      console.error('Error: Failed to create reply draft:', err.response?.data || err.message);
+      throw new Error('Failed to create reply draft in Microsoft 365');
+    }
+  }
+
+  /**
+   * Delete a message (e.g. a superseded draft); already deleted messages are ignored
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    const token = await this.getAccessToken();
+
+    try {
+      await axios.delete(`${this.getMailboxUrl()}/messages/${messageId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } catch (error) {
+      const err = error as { response?: { status?: number; data?: unknown }; message?: string };
+      if (err.response?.status === 404) return;
+      console.error(`Error: Failed to delete message ${messageId}:`, err.response?.data || err.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a change-notification subscription
+   */
+  async createSubscription(options: CreateSubscriptionOptions): Promise<GraphSubscription> {
+    const token = await this.getAccessToken();
+
+    try {
+      const response = await axios.post<GraphSubscription>(
+        `${GRAPH_BASE_URL}/subscriptions`,
+        {
+          changeType: options.changeType || 'created',
+          notificationUrl: options.notificationUrl,
+          lifecycleNotificationUrl: options.lifecycleNotificationUrl,
+          resource: options.resource,
+          expirationDateTime: options.expirationDateTime,
+          clientState: options.clientState,
+        },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      return response.data;
+    } catch (error) {
+      const err = error as { response?: { data?: unknown }; message?: string };
+      console.error('Error: Failed to create subscription:', err.response?.data || err.message);
+      throw new Error('Failed to create Microsoft Graph subscription');
+    }
+  }
+
+  /**
+   * Extend a subscription's expiration
+   */
+  async renewSubscription(subscriptionId: string, expirationDateTime: string): Promise<GraphSubscription> {
+    const token = await this.getAccessToken();
+
+    try {
+      const response = await axios.patch<GraphSubscription>(
+        `${GRAPH_BASE_URL}/subscriptions/${subscriptionId}`,
+        { expirationDateTime },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      return response.data;
+    } catch (error) {
+      const err = error as { response?: { status?: number; data?: unknown }; message?: string };
+      console.error(`Error: Failed to renew subscription ${subscriptionId}:`, err.response?.data || err.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a subscription
+   */
+  async deleteSubscription(subscriptionId: string): Promise<void> {
+    const token = await this.getAccessToken();
+
+    try {
+      await axios.delete(`${GRAPH_BASE_URL}/subscriptions/${subscriptionId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } catch (error) {
+      const err = error as { response?: { status?: number; data?: unknown }; message?: string };
+      if (err.response?.status === 404) return;
+      console.error(`Error: Failed to delete subscription ${subscriptionId}:`, err.response?.data || err.message);
+      throw error;
+    }
+  }
 }
 
 const microsoftGraphService = new MicrosoftGraphService();
@@ -291,3 +548,6 @@ export const fetchEmails = microsoftGraphService.fetchEmails.bind(microsoftGraph
 export const advancedEmailSearch = microsoftGraphService.advancedSearch.bind(microsoftGraphService);
 export const fetchEmailsByConversationIds =
   microsoftGraphService.fetchEmailsByConversationIds.bind(microsoftGraphService);
+export const getMailboxUrl = microsoftGraphService.getMailboxUrl.bind(microsoftGraphService);
+export const fetchEmailsByIds = microsoftGraphService.fetchEmailsByIds.bind(microsoftGraphService);
+export const fetchFolderDelta = microsoftGraphService.fetchFolderDelta.bind(microsoftGraphService);
@@ -0,0 +1,134 @@
+/**
+ * File Mail Source
+ * Imports forwarded RFQs saved as .eml files or .mbox archives from a local directory.
+ * Files whose messages were all selected are moved to a processed/ subdirectory once the batch
+ * is committed.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { matchesSearchQuery, parseRawEmail, splitMbox } from './mimeEmail.js';
+import type {
+  Attachment,
+  Email,
+  MailSource,
+  MailSourceBatch,
+  MailSourceFetchOptions,
+} from '../../../types/index.js';
+
+const IMPORT_DIR = process.env.MAIL_IMPORT_DIR || 'imports/mail';
+const ARCHIVE_PROCESSED = process.env.MAIL_IMPORT_ARCHIVE !== 'false';
+const PROCESSED_DIR = 'processed';
+
+interface FileEmail {
+  email: Email;
+  attachments: Attachment[];
+  file: string;
+}
+
+class FileMailSource implements MailSource {
+  readonly name = 'file' as const;
+
+  /**
+   * Resolve the directory to read (mailFolder may name a subdirectory or absolute path)
+   */
+  private resolveDirectory(mailFolder?: string): string {
+    return path.resolve(IMPORT_DIR, mailFolder || '');
+  }
+
+  /**
+   * Parse every .eml and .mbox file in a directory
+   */
+  private async readDirectory(directory: string): Promise<FileEmail[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.log(`Mail import directory ${directory} does not exist`);
+        return [];
+      }
+      throw error;
+    }
+
+    const results: FileEmail[] = [];
+
+    for (const entry of entries.sort()) {
+      const file = path.join(directory, entry);
+      const extension = path.extname(entry).toLowerCase();
+      if (extension !== '.eml' && extension !== '.mbox') continue;
+
+      try {
+        const content = await fs.readFile(file);
+        const raws = extension === '.mbox' ? splitMbox(content.toString('utf8')) : [content];
+
+        // Messages without a Message-ID get a content hash, so re-imports stay deduplicated
+        for (const raw of raws) {
+          const { email, attachments } = await parseRawEmail(raw);
+          results.push({ email, attachments, file });
+        }
+      } catch (error) {
+        console.error(`Mail import: failed to parse ${entry}:`, (error as Error).message);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Load messages from the import directory, oldest first
+   */
+  async fetchEmails(options: MailSourceFetchOptions = {}): Promise<MailSourceBatch> {
+    const { searchQuery = '', maxEmails = 100, startDate = null, messageIds, mailFolder } = options;
+    const directory = this.resolveDirectory(mailFolder);
+
+    const all = await this.readDirectory(directory);
+    const wanted = messageIds && messageIds.length > 0 ? new Set(messageIds) : null;
+    const since = startDate ? new Date(startDate).getTime() : null;
+
+    const matching = all
+      .filter(({ email }) => {
+        if (wanted) return wanted.has(email.id);
+        if (since !== null && new Date(email.receivedDateTime || 0).getTime() < since) return false;
+        return matchesSearchQuery(email, searchQuery);
+      })
+      .sort(
+        (a, b) =>
+          new Date(a.email.receivedDateTime || 0).getTime() -
+          new Date(b.email.receivedDateTime || 0).getTime()
+      );
+
+    const selected = matching.slice(0, maxEmails);
+
+    console.log(
+      `Mail import: ${selected.length} of ${all.length} message(s) selected from ${directory}`
+    );
+
+    // Only files whose messages were all selected are archived; messages left out by the
+    // maxEmails cap, startDate or searchQuery keep their file in place for a later run
+    const selectedSet = new Set(selected);
+    const skipped = new Set(all.filter((m) => !selectedSet.has(m)).map((m) => m.file));
+    const consumed = Array.from(new Set(selected.map((m) => m.file))).filter(
+      (f) => !skipped.has(f)
+    );
+
+    return {
+      emails: selected.map((m) => m.email),
+      attachments: new Map(selected.map((m) => [m.email.id, m.attachments])),
+      commit: async () => {
+        if (!ARCHIVE_PROCESSED || wanted || consumed.length === 0) return;
+
+        const archiveDir = path.join(directory, PROCESSED_DIR);
+        await fs.mkdir(archiveDir, { recursive: true });
+        for (const file of consumed) {
+          await fs.rename(file, path.join(archiveDir, path.basename(file)));
+        }
+        console.log(`Mail import: archived ${consumed.length} file(s) to ${archiveDir}`);
+      },
+    };
+  }
+}
+
+const fileMailSource = new FileMailSource();
+
+export default fileMailSource;
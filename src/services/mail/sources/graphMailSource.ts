@@ -0,0 +1,71 @@
+/**
+ * Microsoft Graph Mail Source
+ * Search, notified message IDs, or per-folder delta sync against Microsoft 365
+ */
+
+import microsoftGraphService from '../microsoftGraphService.js';
+import * as db from '../../../config/db.js';
+import type {
+  Attachment,
+  MailSource,
+  MailSourceBatch,
+  MailSourceFetchOptions,
+} from '../../../types/index.js';
+
+class GraphMailSource implements MailSource {
+  readonly name = 'graph' as const;
+
+  /**
+   * Fetch emails: explicit message IDs, a folder delta round, or a search
+   */
+  async fetchEmails(options: MailSourceFetchOptions = {}): Promise<MailSourceBatch> {
+    const { searchQuery = '', maxEmails = 100, startDate = null, messageIds, mailFolder } = options;
+
+    if (messageIds && messageIds.length > 0) {
+      console.log(`Fetching ${messageIds.length} notified messages`);
+      const emails = await microsoftGraphService.fetchEmailsByIds(messageIds);
+      return { emails };
+    }
+
+    if (mailFolder) {
+      const state = await db.getMailDeltaState(mailFolder);
+      console.log(
+        `Delta sync of '${mailFolder}' (${state?.deltaLink ? 'resuming' : 'initial sync'})`
+      );
+      const delta = await microsoftGraphService.fetchFolderDelta({
+        folderId: mailFolder,
+        resumeLink: state?.deltaLink ?? null,
+        startDate,
+        maxEmails,
+      });
+
+      return {
+        emails: delta.emails,
+        commit: async () => {
+          if (delta.resumeLink) {
+            await db.saveMailDeltaLink(mailFolder, delta.resumeLink, delta.emails.length);
+          }
+        },
+      };
+    }
+
+    console.log(`Fetching emails with search: '${searchQuery}'`);
+    const emails = await microsoftGraphService.fetchEmails({
+      searchQuery,
+      top: maxEmails,
+      startDate,
+    });
+    return { emails };
+  }
+
+  /**
+   * Fetch attachments for a message
+   */
+  async fetchAttachments(emailId: string): Promise<Attachment[]> {
+    return microsoftGraphService.fetchAttachments(emailId);
+  }
+}
+
+const graphMailSource = new GraphMailSource();
+
+export default graphMailSource;
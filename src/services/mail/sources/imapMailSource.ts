@@ -0,0 +1,169 @@
+/**
+ * IMAP Mail Source
+ * Reads messages from an IMAP mailbox (Gmail, Exchange IMAP, Dovecot, ...)
+ * With a mailFolder, reads incrementally from the last seen UID, stored like a delta token.
+ */
+
+import { ImapFlow, type SearchObject } from 'imapflow';
+import * as db from '../../../config/db.js';
+import { parseRawEmail } from './mimeEmail.js';
+import type {
+  Attachment,
+  Email,
+  MailSource,
+  MailSourceBatch,
+  MailSourceFetchOptions,
+} from '../../../types/index.js';
+
+const IMAP_MAILBOX = process.env.IMAP_MAILBOX || 'INBOX';
+
+class ImapMailSource implements MailSource {
+  readonly name = 'imap' as const;
+
+  /**
+   * Whether IMAP credentials are configured
+   */
+  isConfigured(): boolean {
+    return Boolean(process.env.IMAP_HOST && process.env.IMAP_USER && process.env.IMAP_PASSWORD);
+  }
+
+  /**
+   * Create a client for the configured server
+   */
+  private createClient(): ImapFlow {
+    if (!this.isConfigured()) {
+      throw new Error('IMAP_HOST, IMAP_USER and IMAP_PASSWORD must be configured');
+    }
+
+    return new ImapFlow({
+      host: process.env.IMAP_HOST!,
+      port: parseInt(process.env.IMAP_PORT || '993'),
+      secure: process.env.IMAP_SECURE !== 'false',
+      auth: {
+        user: process.env.IMAP_USER!,
+        pass: process.env.IMAP_PASSWORD!,
+      },
+      logger: false,
+    });
+  }
+
+  /**
+   * Translate fetch options into an IMAP SEARCH
+   */
+  private buildSearch(options: MailSourceFetchOptions, sinceUid: number | null): SearchObject {
+    const { searchQuery = '', startDate = null, messageIds } = options;
+
+    if (messageIds && messageIds.length > 0) {
+      const byId = messageIds.map((id) => ({ header: { 'message-id': id } }));
+      return byId.length === 1 ? byId[0]! : { or: byId };
+    }
+
+    const search: SearchObject = {};
+
+    if (sinceUid !== null) {
+      search.uid = `${sinceUid + 1}:*`;
+    } else if (startDate) {
+      search.since = new Date(startDate);
+    }
+
+    const terms = searchQuery
+      .split(/\s+OR\s+/i)
+      .map((t) => t.replace(/"/g, '').trim())
+      .filter(Boolean);
+    if (terms.length === 1) {
+      search.text = terms[0];
+    } else if (terms.length > 1) {
+      search.or = terms.map((text) => ({ text }));
+    }
+
+    if (Object.keys(search).length === 0) {
+      search.all = true;
+    }
+
+    return search;
+  }
+
+  /**
+   * Fetch and parse matching messages, oldest first
+   */
+  async fetchEmails(options: MailSourceFetchOptions = {}): Promise<MailSourceBatch> {
+    const { maxEmails = 100, mailFolder } = options;
+    const mailbox = mailFolder || IMAP_MAILBOX;
+    const stateKey = `imap:${process.env.IMAP_USER}/${mailbox}`;
+
+    const client = this.createClient();
+    await client.connect();
+
+    try {
+      const lock = await client.getMailboxLock(mailbox);
+
+      try {
+        const uidValidity = client.mailbox ? String(client.mailbox.uidValidity) : '0';
+
+        // Cursor format "<uidValidity>:<lastUid>"; a UIDVALIDITY change invalidates it
+        let sinceUid: number | null = null;
+        if (mailFolder && !options.messageIds?.length) {
+          const state = await db.getMailDeltaState(stateKey);
+          const [validity, lastUid] = (state?.deltaLink || '').split(':');
+          if (validity === uidValidity && lastUid) {
+            sinceUid = parseInt(lastUid, 10);
+          }
+        }
+
+        const uids = (
+          (await client.search(this.buildSearch(options, sinceUid), { uid: true })) || []
+        )
+          .filter((uid) => sinceUid === null || uid > sinceUid)
+          .sort((a, b) => a - b)
+          .slice(0, maxEmails);
+
+        console.log(`IMAP: ${uids.length} message(s) matched in ${mailbox}`);
+
+        const emails: Email[] = [];
+        const attachmentsById = new Map<string, Attachment[]>();
+        if (uids.length > 0) {
+          for await (const message of client.fetch(
+            uids,
+            { uid: true, source: true },
+            { uid: true }
+          )) {
+            if (!message.source) continue;
+            try {
+              const { email, attachments } = await parseRawEmail(
+                message.source,
+                `imap-${uidValidity}-${message.uid}`
+              );
+              emails.push(email);
+              attachmentsById.set(email.id, attachments);
+            } catch (error) {
+              console.error(
+                `IMAP: failed to parse message ${message.uid}:`,
+                (error as Error).message
+              );
+            }
+          }
+        }
+
+        const lastUid = uids.length > 0 ? uids[uids.length - 1]! : sinceUid;
+
+        return {
+          emails,
+          attachments: attachmentsById,
+          commit: async () => {
+            if (mailFolder && lastUid !== null) {
+              await db.saveMailDeltaLink(stateKey, `${uidValidity}:${lastUid}`, emails.length);
+            }
+          },
+        };
+      } finally {
+        lock.release();
+      }
+    } finally {
+      await client.logout().catch(() => {});
+    }
+  }
+}
+
+const imapMailSource = new ImapMailSource();
+
+export default imapMailSource;
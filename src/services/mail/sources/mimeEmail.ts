@@ -0,0 +1,118 @@
+/**
+ * MIME Email Helpers
+ * Converts raw RFC 822 messages (IMAP, .eml, .mbox) into the Graph-shaped Email used by the pipeline
+ */
+
+import { createHash } from 'crypto';
+import { simpleParser, type AddressObject } from 'mailparser';
+import type { Attachment, Email } from '../../../types/index.js';
+
+const PREVIEW_LENGTH = 255;
+
+export interface ParsedRawEmail {
+  email: Email;
+  attachments: Attachment[];
+}
+
+/**
+ * First address of a From header
+ */
+function firstAddress(from: AddressObject | AddressObject[] | undefined) {
+  const header = Array.isArray(from) ? from[0] : from;
+  return header?.value[0];
+}
+
+/**
+ * Parse a raw message; fallbackId is used when it has no Message-ID header
+ */
+export async function parseRawEmail(
+  raw: Buffer | string,
+  fallbackId?: string
+): Promise<ParsedRawEmail> {
+  const parsed = await simpleParser(raw);
+
+  const id =
+    parsed.messageId || fallbackId || `sha1-${createHash('sha1').update(raw).digest('hex')}`;
+
+  // Thread root: first References entry, else the message being replied to
+  const references = Array.isArray(parsed.references)
+    ? parsed.references
+    : parsed.references
+      ? [parsed.references]
+      : [];
+  const conversationId = references[0] || parsed.inReplyTo || id;
+
+  const text = parsed.text || '';
+  const sender = firstAddress(parsed.from);
+
+  const attachments: Attachment[] = parsed.attachments
+    .filter((a) => a.contentDisposition !== 'inline' || a.filename)
+    .map((a, index) => ({
+      id: a.checksum || `${id}-${index}`,
+      name: a.filename || `attachment-${index + 1}`,
+      contentType: a.contentType,
+      size: a.size,
+      contentBytes: a.content.toString('base64'),
+    }));
+
+  const email: Email = {
+    id,
+    conversationId,
+    subject: parsed.subject || '',
+    from: {
+      emailAddress: {
+        name: sender?.name || sender?.address || '',
+        address: sender?.address || '',
+      },
+    },
+    receivedDateTime: (parsed.date || new Date()).toISOString(),
+    bodyPreview: text.replace(/\s+/g, ' ').trim().substring(0, PREVIEW_LENGTH),
+    body: parsed.html
+      ? { contentType: 'html', content: parsed.html }
+      : { contentType: 'text', content: text },
+    hasAttachments: attachments.length > 0,
+  };
+
+  return { email, attachments };
+}
+
+/**
+ * Split an mbox file into raw messages (mboxrd: ">From " lines are unescaped)
+ */
+export function splitMbox(content: string): string[] {
+  const messages: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith('From ')) {
+      if (current) messages.push(current.join('\n'));
+      current = [];
+      continue;
+    }
+    if (current) {
+      current.push(/^>+From /.test(line) ? line.substring(1) : line);
+    }
+  }
+
+  if (current && current.some((l) => l.trim())) {
+    messages.push(current.join('\n'));
+  }
+
+  return messages;
+}
+
+/**
+ * Match an email against a Graph-style search query ("quote OR shipping OR freight")
+ */
+export function matchesSearchQuery(email: Email, searchQuery: string): boolean {
+  const terms = searchQuery
+    .split(/\s+OR\s+/i)
+    .map((t) => t.replace(/"/g, '').trim().toLowerCase())
+    .filter(Boolean);
+
+  if (terms.length === 0) return true;
+
+  const haystack =
+    `${email.subject || ''}\n${email.body?.content || email.bodyPreview || ''}`.toLowerCase();
+  return terms.some((term) => haystack.includes(term));
+}
@@ -0,0 +1,258 @@
+/**
+ * Price Builder Service
+ * Attaches accessorial charges from the catalog to a quote based on its flags, request text
+ * and out-of-gauge analysis, and returns an itemized, totaled price
+ */
+
+import * as db from '../config/db.js';
+import { getConfigValue } from '../config/configurationService.js';
+import { analyzeOOGCargo, normalizeServiceType } from './enhancedQuoteMatchingService.js';
+import quoteDistanceService from './quoteDistanceService.js';
+import accessorialCatalogData from '../config/accessorialCatalog.json' with { type: 'json' };
+import type {
+  AccessorialCode,
+  AccessorialDefinition,
+  AccessorialLineItem,
+  ItemizedQuote,
+  PriceBuilderOptions,
+  Quote,
+} from '../types/index.js';
+
+interface AccessorialCatalogFile {
+  accessorials: AccessorialDefinition[];
+}
+
+// Per-code overrides of the default catalog (e.g. { "storage": { "rate": 55 } })
+const CATALOG_CONFIG_KEY = 'Accessorial_Catalog';
+const DEFAULT_CATALOG = (accessorialCatalogData as AccessorialCatalogFile).accessorials;
+const CONTAINER_SERVICES = ['DRAYAGE', 'INTERMODAL', 'TRANSLOAD'];
+
+interface AttachedAccessorial {
+  code: AccessorialCode;
+  quantity?: number;
+  reason: string;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+class PriceBuilderService {
+  /**
+   * Accessorial catalog with configured overrides applied
+   */
+  async getCatalog(): Promise<AccessorialDefinition[]> {
+    const overrides =
+      (await getConfigValue<Partial<Record<AccessorialCode, Partial<AccessorialDefinition>>>>(
+        CATALOG_CONFIG_KEY
+      ).catch((error) => {
+        console.warn('Could not load accessorial overrides:', (error as Error).message);
+        return null;
+      })) || {};
+
+    return DEFAULT_CATALOG.map((definition) => ({
+      ...definition,
+      ...overrides[definition.code],
+      code: definition.code,
+    }));
+  }
+
+  /**
+   * Accessorials a quote needs, with the reason each was attached
+   */
+  detectAccessorials(quote: Quote, oog: ReturnType<typeof analyzeOOGCargo>): AttachedAccessorial[] {
+    const attached: AttachedAccessorial[] = [];
+    const text = [
+      quote.cargo_description,
+      quote.pickup_special_requirements,
+      quote.delivery_special_requirements,
+      quote.special_requirements,
+      quote.additional_charges,
+    ]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    const facilities = [quote.origin_facility_type, quote.destination_facility_type]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    const isContainerMove = CONTAINER_SERVICES.includes(normalizeServiceType(quote.service_type));
+
+    if (isContainerMove && /chassis split|split chassis/.test(text)) {
+      attached.push({ code: 'chassis_split', reason: 'Chassis split requested' });
+    }
+    if (isContainerMove && /pre-?pull/.test(text)) {
+      attached.push({ code: 'pre_pull', reason: 'Pre-pull requested' });
+      attached.push({ code: 'storage', reason: 'Pre-pulled container is held in the yard' });
+    } else if (isContainerMove && /\bstorage\b/.test(text)) {
+      attached.push({ code: 'storage', reason: 'Storage requested' });
+    }
+    if (/\bdetention\b/.test(text)) {
+      attached.push({ code: 'detention', reason: 'Detention mentioned in request' });
+    }
+    if (quote.requires_tarping) {
+      attached.push({ code: 'tarping', reason: 'Quote requires tarping' });
+    }
+    if (quote.requires_pilot_car || oog.requiresPilotCar) {
+      attached.push({
+        code: 'pilot_car',
+        reason: quote.requires_pilot_car
+          ? 'Quote requires pilot car'
+          : 'Cargo width requires an escort',
+      });
+    }
+    if (quote.requires_permits || quote.is_overweight || oog.requiresPermits) {
+      const reasons = [
+        quote.requires_permits && 'quote requires permits',
+        quote.is_overweight && 'overweight',
+        oog.requiresPermits && 'exceeds legal dimensions',
+      ].filter(Boolean);
+      attached.push({ code: 'permits', reason: `Permits: ${reasons.join(', ')}` });
+    }
+    if (/lift ?gate/.test(text) || /residential/.test(facilities)) {
+      attached.push({ code: 'liftgate', reason: 'Liftgate or residential delivery' });
+    }
+    if (quote.hazardous_material) {
+      const hazmatClass = quote.hazmat_class ? ` (class ${quote.hazmat_class})` : '';
+      attached.push({ code: 'hazmat', reason: `Hazardous material${hazmatClass}` });
+    }
+
+    return attached;
+  }
+
+  /**
+   * Price one accessorial
+   * Per-mile charges without a known distance fall back to the minimum
+   */
+  priceAccessorial(
+    definition: AccessorialDefinition,
+    attached: AttachedAccessorial,
+    linehaul: number,
+    distanceMiles: number | null
+  ): AccessorialLineItem {
+    let quantity: number | null;
+    let amount: number;
+
+    switch (definition.chargeType) {
+      case 'per_mile':
+        quantity = attached.quantity ?? distanceMiles;
+        amount = quantity !== null ? quantity * definition.rate : 0;
+        break;
+      case 'percent_of_linehaul':
+        quantity = null;
+        amount = (linehaul * definition.rate) / 100;
+        break;
+      case 'per_day':
+      case 'per_hour':
+        quantity = attached.quantity ?? definition.defaultQuantity ?? 1;
+        amount = Math.max(0, quantity - (definition.freeQuantity ?? 0)) * definition.rate;
+        break;
+      default:
+        quantity = attached.quantity ?? 1;
+        amount = quantity * definition.rate;
+    }
+
+    const minimumApplied = definition.minimum !== undefined && amount < definition.minimum;
+
+    return {
+      code: definition.code,
+      name: definition.name,
+      chargeType: definition.chargeType,
+      quantity,
+      rate: definition.rate,
+      amount: round2(minimumApplied ? definition.minimum! : amount),
+      minimumApplied,
+      reason: attached.reason,
+    };
+  }
+
+  /**
+   * Itemized, totaled price for a quote
+   * Returns null if the quote does not exist
+   */
+  async buildItemizedQuote(
+    quoteId: number,
+    options: PriceBuilderOptions = {}
+  ): Promise<ItemizedQuote | null> {
+    const quote = await db.getQuoteById(quoteId);
+    if (!quote) return null;
+
+    let linehaul = options.linehaul ?? 0;
+    let linehaulSource: ItemizedQuote['linehaulSource'] =
+      options.linehaul !== undefined ? 'request' : 'none';
+    if (options.linehaul === undefined) {
+      const pricing = await db.getAIPricingRecommendation(quoteId);
+      const recommended = Number(pricing?.ai_recommended_price ?? 0);
+      if (recommended > 0) {
+        linehaul = recommended;
+        linehaulSource = 'ai_recommendation';
+      }
+    }
+
+    const oog = analyzeOOGCargo(
+      quote.cargo_description,
+      quote.cargo_height,
+      quote.cargo_width,
+      quote.cargo_length,
+      quote.cargo_weight,
+      quote.dimension_unit,
+      quote.weight_unit
+    );
+
+    // Caller-requested charges replace detected ones with the same code
+    const exclude = new Set(options.exclude ?? []);
+    const attached = new Map<AccessorialCode, AttachedAccessorial>();
+    for (const item of this.detectAccessorials(quote, oog)) {
+      attached.set(item.code, item);
+    }
+    for (const request of options.include ?? []) {
+      attached.set(request.code, {
+        code: request.code,
+        quantity: request.quantity,
+        reason: attached.get(request.code)?.reason ?? 'Requested',
+      });
+    }
+    for (const code of exclude) {
+      attached.delete(code);
+    }
+
+    let distanceMiles =
+      options.distanceMiles ??
+      (quote.total_distance_miles != null ? Number(quote.total_distance_miles) : null);
+    const needsDistance = Array.from(attached.values()).some(
+      (item) => item.code === 'pilot_car' && item.quantity === undefined
+    );
+    if (distanceMiles === null && needsDistance) {
+      distanceMiles = (await quoteDistanceService.getQuoteDistance(quote))?.distanceMiles ?? null;
+    }
+
+    const catalog = await this.getCatalog();
+    const accessorials = catalog
+      .filter((definition) => attached.has(definition.code))
+      .map((definition) =>
+        this.priceAccessorial(definition, attached.get(definition.code)!, linehaul, distanceMiles)
+      );
+    const accessorialsTotal = round2(accessorials.reduce((sum, item) => sum + item.amount, 0));
+
+    return {
+      quoteId,
+      currency: quote.initial_quote_currency || 'USD',
+      linehaul: round2(linehaul),
+      linehaulSource,
+      accessorials,
+      accessorialsTotal,
+      total: round2(linehaul + accessorialsTotal),
+      distanceMiles,
+      oog: {
+        isOOG: oog.isOOG,
+        requiresPermits: oog.requiresPermits,
+        requiresPilotCar: oog.requiresPilotCar,
+        reasons: oog.reasons,
+      },
+    };
+  }
+}
+
+const priceBuilderService = new PriceBuilderService();
+
+export default priceBuilderService;
+export const getCatalog = priceBuilderService.getCatalog.bind(priceBuilderService);
+export const buildItemizedQuote = priceBuilderService.buildItemizedQuote.bind(priceBuilderService);
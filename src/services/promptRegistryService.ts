@@ -0,0 +1,197 @@
+/**
+ * Prompt Registry Service
+ * Versions of the extraction and pricing prompts stored in the database, assigned per request
+ * by traffic weight for A/B experiments, and compared by the outcomes of the quotes they produced
+ */
+
+import { createHash } from 'crypto';
+import * as db from '../config/db.js';
+import type {
+  PromptAssignment,
+  PromptVersion,
+  PromptVersionComparison,
+  PromptVersionData,
+  PromptVersionStats,
+  PromptVersionTask,
+  PromptVersionUpdate,
+} from '../types/index.js';
+
+// How long active versions and traffic weights are cached before re-reading the registry
+const REGISTRY_TTL_MS = parseInt(process.env.PROMPT_REGISTRY_TTL_MS || '60000');
+
+export const BUILTIN_PROMPT_VERSION = 'builtin';
+export const PROMPT_VERSION_TASKS: PromptVersionTask[] = ['extraction', 'pricing'];
+
+// Placeholders an extraction template must contain to see the email
+const REQUIRED_PLACEHOLDERS: Record<PromptVersionTask, string[]> = {
+  extraction: ['{{EMAIL_CONTENT}}'],
+  pricing: [],
+};
+
+const round = (value: number, places = 4): number =>
+  Math.round(value * 10 ** places) / 10 ** places;
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+class PromptRegistryService {
+  private cache = new Map<PromptVersionTask, { versions: PromptVersion[]; expiresAt: number }>();
+
+  /**
+   * Active versions of a task, cached for PROMPT_REGISTRY_TTL_MS
+   * Returns an empty list when the registry cannot be read, so callers fall back to the builtin prompt
+   */
+  async getActiveVersions(task: PromptVersionTask): Promise<PromptVersion[]> {
+    const cached = this.cache.get(task);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.versions;
+    }
+
+    const versions = await db.getPromptVersions({ task, activeOnly: true }).catch((error) => {
+      console.warn(`Could not load ${task} prompt versions:`, (error as Error).message);
+      return [] as PromptVersion[];
+    });
+    this.cache.set(task, { versions, expiresAt: Date.now() + REGISTRY_TTL_MS });
+    return versions;
+  }
+
+  /**
+   * Pick the prompt version for one request, in proportion to the active versions' traffic weights
+   * With a key (email or quote ID) the pick is stable, so re-processing keeps the same version
+   */
+  async assign(task: PromptVersionTask, key?: string | number | null): Promise<PromptAssignment> {
+    const versions = (await this.getActiveVersions(task)).filter((v) => v.trafficWeight > 0);
+    const totalWeight = versions.reduce((sum, v) => sum + v.trafficWeight, 0);
+    if (totalWeight === 0) {
+      return { task, version: BUILTIN_PROMPT_VERSION, template: null };
+    }
+
+    const fraction =
+      key !== undefined && key !== null && key !== ''
+        ? parseInt(createHash('sha256').update(`${task}:${key}`).digest('hex').slice(0, 8), 16) /
+          0x100000000
+        : Math.random();
+
+    let remaining = fraction * totalWeight;
+    const chosen =
+      versions.find((v) => (remaining -= v.trafficWeight) < 0) ?? versions[versions.length - 1]!;
+    return { task, version: chosen.version, template: chosen.template };
+  }
+
+  /**
+   * Problems with a template for a task; an empty array means it can be registered
+   */
+  validateTemplate(task: PromptVersionTask, template: string): string[] {
+    if (!template.trim()) return ['template must not be empty'];
+    return REQUIRED_PLACEHOLDERS[task]
+      .filter((placeholder) => !template.includes(placeholder))
+      .map((placeholder) => `${task} templates must contain ${placeholder}`);
+  }
+
+  /**
+   * All registered versions, optionally for one task
+   */
+  async list(task?: PromptVersionTask): Promise<PromptVersion[]> {
+    return db.getPromptVersions({ task });
+  }
+
+  /**
+   * A registered version by ID
+   */
+  async getById(id: number): Promise<PromptVersion | null> {
+    return db.getPromptVersionById(id);
+  }
+
+  /**
+   * Register a new version; it takes traffic from the next assignment after the cache expires
+   */
+  async create(data: PromptVersionData): Promise<PromptVersion> {
+    const version = await db.createPromptVersion(data);
+    this.cache.delete(data.task);
+    console.log(
+      `Registered ${data.task} prompt version "${version.version}" (weight ${version.trafficWeight})`
+    );
+    return version;
+  }
+
+  /**
+   * Change the traffic split of a version; returns null when it does not exist
+   */
+  async update(id: number, data: PromptVersionUpdate): Promise<PromptVersion | null> {
+    const version = await db.updatePromptVersion(id, data);
+    if (version) this.cache.delete(version.task);
+    return version;
+  }
+
+  /**
+   * Acceptance rate, price error and correction rate of the quotes handled by each version of a task
+   * Price error compares the AI recommendation with the agreed price, else the price quoted by staff
+   */
+  async compare(
+    task: PromptVersionTask,
+    filters: db.PromptVersionOutcomeFilters = {}
+  ): Promise<PromptVersionComparison> {
+    const [rows, registered] = await Promise.all([
+      db.getPromptVersionOutcomes(task, filters),
+      db.getPromptVersions({ task }),
+    ]);
+
+    const groups = new Map<string, db.PromptVersionOutcomeRow[]>();
+    for (const version of registered) groups.set(version.version, []);
+    for (const row of rows) {
+      groups.set(row.prompt_version, [...(groups.get(row.prompt_version) || []), row]);
+    }
+
+    const versions = Array.from(groups).map(([version, group]): PromptVersionStats => {
+      const registration = registered.find((v) => v.version === version);
+      const decided = group.filter((row) => row.job_won !== null);
+      const won = decided.filter((row) => row.job_won).length;
+      const errors = group
+        .map((row) => {
+          const reference = row.reference_price !== null ? parseFloat(row.reference_price) : 0;
+          const recommended =
+            row.recommended_price !== null ? parseFloat(row.recommended_price) : 0;
+          return reference > 0 && recommended > 0
+            ? ((recommended - reference) / reference) * 100
+            : null;
+        })
+        .filter((error): error is number => error !== null);
+      const absErrors = errors.map(Math.abs);
+      const corrected = group.filter((row) => row.correction_count > 0).length;
+      const meanAbsError = mean(absErrors);
+      const medianAbsError = median(absErrors);
+      const meanError = mean(errors);
+
+      return {
+        version,
+        trafficWeight: registration?.trafficWeight ?? null,
+        isActive: registration?.isActive ?? false,
+        quotes: group.length,
+        decided: decided.length,
+        won,
+        acceptanceRate: decided.length > 0 ? round(won / decided.length) : null,
+        pricedQuotes: errors.length,
+        meanAbsErrorPct: meanAbsError !== null ? round(meanAbsError, 2) : null,
+        medianAbsErrorPct: medianAbsError !== null ? round(medianAbsError, 2) : null,
+        meanErrorPct: meanError !== null ? round(meanError, 2) : null,
+        correctedQuotes: corrected,
+        correctionRate: group.length > 0 ? round(corrected / group.length) : null,
+      };
+    });
+
+    return {
+      task,
+      versions: versions.sort((a, b) => b.quotes - a.quotes),
+    };
+  }
+}
+
+const promptRegistryService = new PromptRegistryService();
+
+export default promptRegistryService;
@@ -0,0 +1,250 @@
+/**
+ * Quote Correction Service
+ * Applies reviewer corrections to AI-extracted quote fields with a per-field diff log, and
+ * turns corrected quotes into an (email, extraction) dataset used for evaluation and as
+ * few-shot examples in the extraction prompt
+ */
+
+import * as db from '../config/db.js';
+import terminalRegistryService from './terminalRegistryService.js';
+import aiCacheService from './aiCacheService.js';
+import { EXTRACTED_QUOTE_SCHEMA } from '../prompts/outputSchemas.js';
+import { validateJsonSchema } from '../utils/jsonSchema.js';
+import type {
+  CorrectionValue,
+  ExtractionExample,
+  Quote,
+  QuoteFieldChange,
+  QuoteFieldCorrection,
+  QuoteWithEmail,
+} from '../types/index.js';
+
+// Corrected examples added to the extraction prompt (0 disables few-shot prompting)
+const FEW_SHOT_EXAMPLES = parseInt(process.env.EXTRACTION_FEW_SHOT_EXAMPLES || '0');
+// Email body characters kept per few-shot example
+const FEW_SHOT_BODY_CHARS = parseInt(process.env.EXTRACTION_FEW_SHOT_BODY_CHARS || '2000');
+const FEW_SHOT_TTL_MS = 10 * 60 * 1000;
+
+const ORIGIN_FIELDS = [
+  'origin_full_address',
+  'origin_city',
+  'origin_state_province',
+  'origin_country',
+  'origin_postal_code',
+];
+const DESTINATION_FIELDS = [
+  'destination_full_address',
+  'destination_city',
+  'destination_state_province',
+  'destination_country',
+  'destination_postal_code',
+];
+
+interface CorrectionOptions {
+  correctedBy: string;
+  reason?: string | null;
+}
+
+interface CorrectionOutcome {
+  corrections: QuoteFieldCorrection[];
+  unchanged: string[];
+}
+
+/**
+ * Whether a field holds a number (DECIMAL columns are read back from pg as strings)
+ */
+function isNumericField(field: string): boolean {
+  const type = EXTRACTED_QUOTE_SCHEMA.properties?.[field]?.type;
+  const types = Array.isArray(type) ? type : [type];
+  return types.includes('number') || types.includes('integer');
+}
+
+class QuoteCorrectionService {
+  private fewShotCache: { examples: ExtractionExample[]; expiresAt: number } | null = null;
+
+  /**
+   * Fields a reviewer may correct
+   */
+  getCorrectableFields(): string[] {
+    return db.CORRECTABLE_QUOTE_COLUMNS;
+  }
+
+  /**
+   * Stored or submitted value in comparable form: numbers as numbers, blank strings as null
+   */
+  normalizeValue(field: string, value: unknown): CorrectionValue {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (!trimmed) return null;
+      return isNumericField(field) && !isNaN(Number(trimmed)) ? Number(trimmed) : trimmed;
+    }
+    return value as CorrectionValue;
+  }
+
+  /**
+   * Validate corrected values against the extraction output schema
+   * Returns one message per invalid field; an empty array means every value is valid
+   */
+  validate(values: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    for (const [field, value] of Object.entries(values)) {
+      const schema = EXTRACTED_QUOTE_SCHEMA.properties?.[field];
+      if (!schema || !this.getCorrectableFields().includes(field)) {
+        errors.push(`${field} cannot be corrected`);
+        continue;
+      }
+      const normalized = typeof value === 'string' && !value.trim() ? null : value;
+      for (const error of validateJsonSchema(normalized, schema, field)) {
+        errors.push(`${error.path} ${error.message}`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Apply corrected values to a quote, logging one correction per changed field
+   * Location changes re-resolve terminals and clear the stored route; returns null when the
+   * quote no longer exists
+   */
+  async correct(
+    quote: QuoteWithEmail,
+    values: Record<string, unknown>,
+    options: CorrectionOptions
+  ): Promise<CorrectionOutcome | null> {
+    const changes: QuoteFieldChange[] = [];
+    const unchanged: string[] = [];
+
+    for (const [field, value] of Object.entries(values)) {
+      const oldValue = this.normalizeValue(field, quote[field as keyof Quote]);
+      const newValue = this.normalizeValue(field, value);
+      if (oldValue === newValue) {
+        unchanged.push(field);
+        continue;
+      }
+      changes.push({
+        field,
+        oldValue,
+        newValue,
+        oldConfidence: quote.field_confidence?.[field]?.confidence ?? null,
+      });
+    }
+
+    if (changes.length === 0) {
+      return { corrections: [], unchanged };
+    }
+
+    const changedFields = changes.map((change) => change.field);
+    const locationChanged = changedFields.some(
+      (field) => ORIGIN_FIELDS.includes(field) || DESTINATION_FIELDS.includes(field)
+    );
+
+    let terminalIds: { origin: string | null; destination: string | null } | undefined;
+    if (locationChanged) {
+      const corrected: Quote = {
+        ...quote,
+        ...Object.fromEntries(changes.map((change) => [change.field, change.newValue])),
+        origin_terminal_id: null,
+        destination_terminal_id: null,
+      };
+      terminalRegistryService.annotateQuote(corrected);
+      terminalIds = {
+        origin: corrected.origin_terminal_id ?? null,
+        destination: corrected.destination_terminal_id ?? null,
+      };
+    }
+
+    const corrections = await db.applyQuoteCorrections(quote.quote_id!, {
+      emailId: quote.email_id ?? null,
+      changes,
+      correctedBy: options.correctedBy,
+      reason: options.reason,
+      terminalIds,
+      clearRoute: locationChanged,
+    });
+    if (!corrections) return null;
+
+    console.log(
+      `Quote ${quote.quote_id}: ${corrections.length} field(s) corrected by ${options.correctedBy} (${changedFields.join(', ')})`
+    );
+    this.fewShotCache = null;
+    // The cached extraction this email produced or reused was wrong; identical content is
+    // extracted again
+    if (quote.email_message_id) {
+      await aiCacheService
+        .invalidate({ kind: 'extraction', emailId: quote.email_message_id })
+        .catch((error) => console.warn('AI cache: invalidation failed:', (error as Error).message));
+    }
+    return { corrections, unchanged };
+  }
+
+  /**
+   * Rebuild the AI extraction and the reviewed extraction of a corrected quote
+   * The first correction of a field holds the value the model extracted
+   */
+  toExample(row: db.ExtractionDatasetRow): ExtractionExample {
+    const fields = this.getCorrectableFields();
+    const corrected = Object.fromEntries(
+      fields.map((field) => [field, this.normalizeValue(field, row[field as keyof Quote])])
+    );
+    const extracted = { ...corrected };
+    const correctedFields: string[] = [];
+
+    for (const correction of row.corrections) {
+      if (correctedFields.includes(correction.field)) continue;
+      correctedFields.push(correction.field);
+      extracted[correction.field] = this.normalizeValue(correction.field, correction.oldValue);
+    }
+
+    return {
+      quoteId: row.quote_id!,
+      emailId: row.email_id!,
+      email: {
+        subject: row.email_subject,
+        body: row.email_body,
+        receivedDate: row.email_received_date,
+      },
+      extracted,
+      corrected,
+      correctedFields,
+      lastCorrectedAt: row.last_corrected_at,
+    };
+  }
+
+  /**
+   * Corrected (email, extraction) pairs, most recently corrected first
+   */
+  async getDataset(options: db.ExtractionDatasetOptions = {}): Promise<ExtractionExample[]> {
+    const rows = await db.getExtractionDataset(options);
+    return rows.map((row) => this.toExample(row));
+  }
+
+  /**
+   * Recent corrected examples for the extraction prompt, with email bodies shortened
+   * Returns an empty list when few-shot prompting is disabled or the dataset is unavailable
+   */
+  async getFewShotExamples(): Promise<ExtractionExample[]> {
+    if (FEW_SHOT_EXAMPLES <= 0) return [];
+    if (this.fewShotCache && this.fewShotCache.expiresAt > Date.now()) {
+      return this.fewShotCache.examples;
+    }
+
+    const examples = await this.getDataset({ limit: FEW_SHOT_EXAMPLES }).catch((error) => {
+      console.warn('Could not load few-shot extraction examples:', (error as Error).message);
+      return [] as ExtractionExample[];
+    });
+    for (const example of examples) {
+      const body = example.email.body;
+      if (body && body.length > FEW_SHOT_BODY_CHARS) {
+        example.email.body = `${body.slice(0, FEW_SHOT_BODY_CHARS)}\n[... truncated ...]`;
+      }
+    }
+
+    this.fewShotCache = { examples, expiresAt: Date.now() + FEW_SHOT_TTL_MS };
+    return examples;
+  }
+}
+
+const quoteCorrectionService = new QuoteCorrectionService();
+
+export default quoteCorrectionService;
@@ -0,0 +1,149 @@
+/**
+ * Quote Distance Service
+ * Stores each quote's computed route (distance, duration, source, coordinates) so matching,
+ * pricing and the dashboard read it back instead of recomputing it
+ */
+
+import * as db from '../config/db.js';
+import jobProcessor from './jobProcessor.js';
+import { calculateQuoteDistance, formatDuration } from './googleMapsService.js';
+import type {
+  DistanceBackfillResult,
+  DistanceSource,
+  Quote,
+  RouteDistance,
+} from '../types/index.js';
+
+const DEFAULT_BACKFILL_LIMIT = 200;
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+class QuoteDistanceService {
+  /**
+   * Stored distance source for a computed route
+   */
+  toDistanceSource(route: RouteDistance): DistanceSource {
+    if (route.source === 'cache') return 'cache';
+    if (route.source === 'estimate') return 'straight_line';
+    return 'google';
+  }
+
+  /**
+   * Route previously stored on a quote, or null if it has not been computed
+   */
+  storedRoute(quote: Quote): RouteDistance | null {
+    const distanceMiles = toNumber(quote.total_distance_miles);
+    const coordinates = [
+      quote.origin_latitude,
+      quote.origin_longitude,
+      quote.destination_latitude,
+      quote.destination_longitude,
+    ].map(toNumber);
+    if (!quote.distance_calculated_at || distanceMiles === null || coordinates.includes(null)) {
+      return null;
+    }
+
+    const [originLat, originLng, destLat, destLng] = coordinates as number[];
+    const durationMinutes =
+      toNumber(quote.estimated_duration_minutes) ?? Math.round((distanceMiles / 55) * 60);
+    const estimated = quote.distance_source === 'straight_line';
+
+    return {
+      distanceMiles,
+      distanceKm: Math.round(distanceMiles * 1.60934 * 10) / 10,
+      durationMinutes,
+      durationText: formatDuration(durationMinutes),
+      distanceText: estimated
+        ? `~${Math.round(distanceMiles)} mi (estimated)`
+        : `${Math.round(distanceMiles)} mi`,
+      origin: { lat: originLat!, lng: originLng! },
+      destination: { lat: destLat!, lng: destLng! },
+      source: estimated ? 'estimate' : 'cache',
+      ...(quote.distance_source === 'google' && { provider: 'google' as const }),
+    };
+  }
+
+  /**
+   * Compute a quote's route and store it on the quote
+   * Storage failures are logged; the computed route is still returned
+   */
+  async computeAndStore(quote: Quote): Promise<RouteDistance | null> {
+    const route = await calculateQuoteDistance(quote);
+
+    if (quote.quote_id && quote.quote_id > 0) {
+      await db
+        .saveQuoteRoute(quote.quote_id, route, route ? this.toDistanceSource(route) : null)
+        .catch((error) => {
+          console.warn(
+            `Could not store distance for quote ${quote.quote_id}:`,
+            (error as Error).message
+          );
+        });
+    }
+    return route;
+  }
+
+  /**
+   * Distance for a quote: the stored route when present, otherwise computed and written through
+   */
+  async getQuoteDistance(quote: Quote, refresh: boolean = false): Promise<RouteDistance | null> {
+    const stored = refresh ? null : this.storedRoute(quote);
+    if (stored) return stored;
+    return this.computeAndStore(quote);
+  }
+
+  /**
+   * Compute and store distances for quotes that have none (or for the given quotes)
+   */
+  async backfill(
+    options: { quoteIds?: number[]; limit?: number } = {}
+  ): Promise<DistanceBackfillResult> {
+    const { quoteIds, limit = DEFAULT_BACKFILL_LIMIT } = options;
+    const quotes = await db.getQuotesMissingDistance(
+      quoteIds?.length ? quoteIds.length : limit,
+      quoteIds
+    );
+    const result: DistanceBackfillResult = {
+      processed: 0,
+      resolved: 0,
+      unresolved: [],
+      failed: [],
+    };
+
+    for (const quote of quotes) {
+      result.processed++;
+      try {
+        const route = await calculateQuoteDistance(quote);
+        await db.saveQuoteRoute(
+          quote.quote_id!,
+          route,
+          route ? this.toDistanceSource(route) : null
+        );
+        if (route) result.resolved++;
+        else result.unresolved.push(quote.quote_id!);
+      } catch (error) {
+        result.failed.push({ quoteId: quote.quote_id!, error: (error as Error).message });
+      }
+    }
+
+    console.log(
+      `Distance backfill: ${result.processed} processed, ${result.resolved} resolved, ${result.unresolved.length} unresolved, ${result.failed.length} failed`
+    );
+    return result;
+  }
+}
+
+const quoteDistanceService = new QuoteDistanceService();
+
+jobProcessor.registerHandler('distance_backfill', async (job) => {
+  const distanceBackfill = await quoteDistanceService.backfill({
+    quoteIds: job.data.quoteIds,
+    limit: job.data.limit,
+  });
+  return { result: { distanceBackfill } };
+});
+
+export default quoteDistanceService;
+export const getQuoteDistance = quoteDistanceService.getQuoteDistance.bind(quoteDistanceService);
+export const backfill = quoteDistanceService.backfill.bind(quoteDistanceService);
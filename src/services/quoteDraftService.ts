@@ -0,0 +1,245 @@
+/**
+ * Quote Draft Service
+ * Drafts quote response and follow-up emails from the extracted quote and AI pricing,
+ * versions them, and saves each version as a reply draft in the original conversation
+ */
+
+import * as db from '../config/db.js';
+import microsoftGraphService from './mail/microsoftGraphService.js';
+import { getAIService, getProviderInfo } from './ai/aiServiceFactory.js';
+import aiUsageService from './aiUsageService.js';
+import type {
+  AIPricingRecommendation,
+  QuoteDraftType,
+  QuoteResponseDraft,
+  QuoteWithEmail,
+} from '../types/index.js';
+
+interface CreateDraftOptions {
+  draftType?: QuoteDraftType;
+  quotedPrice?: number | null;
+  followupNumber?: number;
+  instructions?: string;
+  aiProvider?: string | null;
+  saveToMailbox?: boolean;
+  createdBy?: string | null;
+}
+
+interface ReviseDraftOptions {
+  subject?: string;
+  body?: string;
+  saveToMailbox?: boolean;
+  createdBy?: string | null;
+}
+
+interface DraftResult {
+  draft: QuoteResponseDraft;
+  warnings: string[];
+}
+
+interface MailboxDraft {
+  graphDraftId: string | null;
+  graphWebLink: string | null;
+  warning?: string;
+}
+
+/**
+ * Drop empty values so the prompt only carries known facts
+ */
+function compact(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, v]) => v !== null && v !== undefined && v !== '')
+  );
+}
+
+class QuoteDraftService {
+  /**
+   * Collect client, shipment and pricing details for the drafting prompt
+   */
+  buildQuoteDetails(
+    quote: QuoteWithEmail,
+    pricing: AIPricingRecommendation | null,
+    quotedPrice: number | null
+  ): Record<string, unknown> {
+    return {
+      client: compact({
+        company: quote.client_company_name,
+        contact_name: quote.contact_person_name || quote.email_sender_name,
+        email: quote.email_address || quote.email_sender_email,
+      }),
+      request: compact({
+        subject: quote.email_subject,
+        received: quote.email_received_date,
+      }),
+      shipment: compact({
+        origin:
+          quote.origin_full_address ||
+          [quote.origin_city, quote.origin_state_province, quote.origin_country]
+            .filter(Boolean)
+            .join(', '),
+        destination:
+          quote.destination_full_address ||
+          [quote.destination_city, quote.destination_state_province, quote.destination_country]
+            .filter(Boolean)
+            .join(', '),
+        pickup_date: quote.requested_pickup_date,
+        delivery_date: quote.requested_delivery_date,
+        cargo: quote.cargo_description,
+        weight: quote.cargo_weight
+          ? `${quote.cargo_weight} ${quote.weight_unit || ''}`.trim()
+          : null,
+        pieces: quote.number_of_pieces,
+        dimensions:
+          quote.cargo_length && quote.cargo_width && quote.cargo_height
+            ? `${quote.cargo_length} x ${quote.cargo_width} x ${quote.cargo_height} ${quote.dimension_unit || ''}`.trim()
+            : null,
+        service_type: quote.service_type,
+        equipment: quote.equipment_type_requested,
+        hazardous: quote.hazardous_material || null,
+        special_requirements: quote.special_requirements,
+      }),
+      pricing: compact({
+        total_price: quotedPrice,
+        currency: quote.initial_quote_currency || 'USD',
+        price_range:
+          pricing?.floor_price && pricing?.ceiling_price
+            ? `${pricing.floor_price} - ${pricing.ceiling_price}`
+            : null,
+      }),
+    };
+  }
+
+  /**
+   * Convert a plain-text draft into simple HTML paragraphs
+   */
+  textToHtml(text: string): string {
+    const escape = (value: string) =>
+      value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    return text
+      .split(/\n{2,}/)
+      .map((paragraph) => `<p>${escape(paragraph).replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+  }
+
+  /**
+   * Save a draft as a reply in the original conversation, replacing the previous version's draft
+   * Emails ingested from IMAP or files carry RFC 822 Message-IDs and cannot be replied to via Graph
+   */
+  private async saveToMailbox(
+    quote: QuoteWithEmail,
+    body: string,
+    previous: QuoteResponseDraft | null
+  ): Promise<MailboxDraft> {
+    const messageId = quote.email_message_id;
+    if (!messageId || messageId.includes('@')) {
+      return {
+        graphDraftId: null,
+        graphWebLink: null,
+        warning: 'Original email is not in the Microsoft 365 mailbox; draft stored only',
+      };
+    }
+
+    try {
+      const reply = await microsoftGraphService.createReplyDraft(messageId, this.textToHtml(body));
+
+      if (previous?.graphDraftId) {
+        await microsoftGraphService.deleteMessage(previous.graphDraftId).catch((err) => {
+          console.warn(`Could not delete superseded draft ${previous.graphDraftId}:`, err.message);
+        });
+      }
+
+      return { graphDraftId: reply.id, graphWebLink: reply.webLink ?? null };
+    } catch (error) {
+      return {
+        graphDraftId: null,
+        graphWebLink: null,
+        warning: `Draft stored but not saved to mailbox: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Generate a new draft version with AI
+   * Returns null when the AI provider could not produce a draft
+   */
+  async createDraft(
+    quote: QuoteWithEmail,
+    pricing: AIPricingRecommendation | null,
+    options: CreateDraftOptions = {}
+  ): Promise<DraftResult | null> {
+    const {
+      draftType = 'response',
+      quotedPrice = null,
+      followupNumber,
+      instructions,
+      aiProvider = null,
+      saveToMailbox = true,
+      createdBy = null,
+    } = options;
+
+    const aiService = getAIService(aiProvider);
+    const details = this.buildQuoteDetails(quote, pricing, quotedPrice);
+
+    const generated = await aiUsageService.run({ quoteId: quote.quote_id ?? null }, () =>
+      aiService.draftQuoteEmail(draftType, details, { followupNumber, instructions })
+    );
+    if (!generated) {
+      return null;
+    }
+
+    const previous = await db.getCurrentQuoteDraft(quote.quote_id!);
+    const mailbox = saveToMailbox
+      ? await this.saveToMailbox(quote, generated.body, previous)
+      : { graphDraftId: null, graphWebLink: null };
+
+    const draft = await db.saveQuoteDraft({
+      quoteId: quote.quote_id!,
+      draftType,
+      subject: generated.subject,
+      body: generated.body,
+      quotedPrice,
+      aiProvider: aiProvider || getProviderInfo().current,
+      graphDraftId: mailbox.graphDraftId,
+      graphWebLink: mailbox.graphWebLink,
+      createdBy,
+    });
+
+    return { draft, warnings: mailbox.warning ? [mailbox.warning] : [] };
+  }
+
+  /**
+   * Save a rep's edits as a new version of the current draft
+   */
+  async reviseDraft(
+    quote: QuoteWithEmail,
+    current: QuoteResponseDraft,
+    options: ReviseDraftOptions
+  ): Promise<DraftResult> {
+    const { saveToMailbox = true, createdBy = null } = options;
+    const subject = options.subject ?? current.subject;
+    const body = options.body ?? current.body;
+
+    const mailbox = saveToMailbox
+      ? await this.saveToMailbox(quote, body, current)
+      : { graphDraftId: current.graphDraftId, graphWebLink: current.graphWebLink };
+
+    const draft = await db.saveQuoteDraft({
+      quoteId: current.quoteId,
+      draftType: current.draftType,
+      subject,
+      body,
+      quotedPrice: current.quotedPrice,
+      aiProvider: current.aiProvider,
+      graphDraftId: mailbox.graphDraftId,
+      graphWebLink: mailbox.graphWebLink,
+      createdBy,
+    });
+
+    return { draft, warnings: mailbox.warning ? [mailbox.warning] : [] };
+  }
+}
+
+const quoteDraftService = new QuoteDraftService();
+
+export default quoteDraftService;
@@ -0,0 +1,236 @@
+/**
+ * Quote Lifecycle Service
+ * Enforces the quote lifecycle (requested -> priced -> sent -> revised -> won/lost/expired)
+ * and infers transitions from AI pricing, staff pricing replies, customer responses in the
+ * same conversation, and quote validity dates
+ */
+
+import * as db from '../config/db.js';
+import jobProcessor from './jobProcessor.js';
+import type {
+  LifecycleInferenceResult,
+  QuoteLifecycleStatus,
+  QuoteStatusSource,
+  QuoteStatusTransition,
+} from '../types/index.js';
+
+const SYSTEM_ACTOR = 'system';
+
+/**
+ * Allowed transitions per state (won and lost are final; an expired quote can be re-quoted)
+ */
+export const QUOTE_TRANSITIONS: Record<QuoteLifecycleStatus, QuoteLifecycleStatus[]> = {
+  requested: ['priced', 'sent', 'lost', 'expired'],
+  priced: ['sent', 'lost', 'expired'],
+  sent: ['revised', 'won', 'lost', 'expired'],
+  revised: ['revised', 'won', 'lost', 'expired'],
+  won: [],
+  lost: [],
+  expired: ['revised'],
+};
+
+export const QUOTE_LIFECYCLE_STATUSES = Object.keys(QUOTE_TRANSITIONS) as QuoteLifecycleStatus[];
+
+// Customer phrases that accept or decline a quote
+const ACCEPTANCE_PATTERNS = [
+  /\b(please|pls|go ahead and|let'?s) (book|proceed|schedule)\b/i,
+  /\bwe (accept|approve|agree to)\b/i,
+  /\b(quote|rate|price|pricing) (is )?(accepted|approved)\b/i,
+  /\b(you'?ve|you have) (got|won) the (job|load|business)\b/i,
+  /\bpo (number )?(is )?attached\b/i,
+];
+const REJECTION_PATTERNS = [
+  /\b(went|going|gone) with (another|a different|someone else)\b/i,
+  /\b(not|won'?t be) (moving|going) forward\b/i,
+  /\b(decline|pass on) (your|the|this) (quote|offer|rate)\b/i,
+  /\b(too (high|expensive)|over (our|the) budget)\b/i,
+  /\bno longer (need|require)\b/i,
+  /\b(awarded|given) (it|the (job|load|business)) to\b/i,
+  /\b(shipment|order|project) (was |has been )?cancell?ed\b/i,
+];
+
+interface TransitionOptions {
+  source?: QuoteStatusSource;
+  actor?: string;
+  reason?: string | null;
+  staffReplyId?: number | null;
+  emailId?: number | null;
+  occurredAt?: Date | string;
+  rejectionReason?: string | null;
+  finalAgreedPrice?: number | null;
+}
+
+/**
+ * Strip quoted history so only the customer's new text is classified
+ */
+function newMessageText(body: string): string {
+  const cutoff = body.search(/^(>|On .+wrote:|-{2,}\s*Original Message|From:\s.+|_{5,})/im);
+  return cutoff > 0 ? body.slice(0, cutoff) : body;
+}
+
+class QuoteLifecycleService {
+  /**
+   * Whether a quote may move from one state to another
+   */
+  canTransition(from: QuoteLifecycleStatus, to: QuoteLifecycleStatus): boolean {
+    return QUOTE_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * States a quote can move to from its current state
+   */
+  getAllowedTransitions(from: QuoteLifecycleStatus): QuoteLifecycleStatus[] {
+    return QUOTE_TRANSITIONS[from] ?? [];
+  }
+
+  /**
+   * States from which the given state can be reached
+   */
+  getAllowedFrom(to: QuoteLifecycleStatus): QuoteLifecycleStatus[] {
+    return QUOTE_LIFECYCLE_STATUSES.filter((from) => this.canTransition(from, to));
+  }
+
+  /**
+   * Move a quote to a new state, recording the transition
+   * Returns null when the quote is (no longer) in a state that allows it
+   */
+  async transition(
+    quoteId: number,
+    toStatus: QuoteLifecycleStatus,
+    options: TransitionOptions = {}
+  ): Promise<QuoteStatusTransition | null> {
+    const { source = 'api', actor = SYSTEM_ACTOR, ...details } = options;
+
+    return db.applyQuoteTransition(quoteId, {
+      toStatus,
+      allowedFrom: this.getAllowedFrom(toStatus),
+      source,
+      actor,
+      ...details,
+      jobWon: toStatus === 'won' ? true : toStatus === 'lost' ? false : null,
+    });
+  }
+
+  /**
+   * Classify a customer's reply to a quote as an acceptance or a rejection
+   */
+  classifyCustomerResponse(body: string | null): 'won' | 'lost' | null {
+    if (!body) return null;
+
+    const text = newMessageText(body);
+    const accepted = ACCEPTANCE_PATTERNS.some((pattern) => pattern.test(text));
+    const rejected = REJECTION_PATTERNS.some((pattern) => pattern.test(text));
+
+    // Mixed signals ("too high, but go ahead if you can match X") are left for a rep
+    if (accepted === rejected) return null;
+    return accepted ? 'won' : 'lost';
+  }
+
+  /**
+   * Apply every transition that can be inferred from data already in the database
+   */
+  async inferTransitions(): Promise<LifecycleInferenceResult> {
+    const result: LifecycleInferenceResult = {
+      priced: 0,
+      sent: 0,
+      revised: 0,
+      won: 0,
+      lost: 0,
+      expired: 0,
+      failed: [],
+    };
+
+    const record = async (quoteId: number, apply: () => Promise<QuoteStatusTransition | null>) => {
+      try {
+        const transition = await apply();
+        if (transition)
+          result[transition.toStatus as keyof Omit<LifecycleInferenceResult, 'failed'>]++;
+      } catch (error) {
+        result.failed.push({ quoteId, error: (error as Error).message });
+      }
+    };
+
+    // Several events for one quote can arrive in a run, so track states applied so far
+    const statuses = new Map<number, QuoteLifecycleStatus>();
+
+    // AI pricing recommendation saved
+    for (const row of await db.getPricedRequestedQuotes()) {
+      await record(row.quote_id, async () => {
+        const transition = await this.transition(row.quote_id, 'priced', {
+          source: 'pricing',
+          reason: 'AI pricing recommendation generated',
+          occurredAt: row.priced_at,
+        });
+        if (transition) statuses.set(row.quote_id, transition.toStatus);
+        return transition;
+      });
+    }
+
+    // Staff sent a price: the first one sends the quote, later ones revise it
+    const seen = new Set<string>();
+    for (const event of await db.getPendingStaffPricingEvents()) {
+      const key = `${event.quote_id}:${event.staff_reply_id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      await record(event.quote_id, async () => {
+        const current = statuses.get(event.quote_id) ?? event.lifecycle_status;
+        const toStatus: QuoteLifecycleStatus =
+          current === 'requested' || current === 'priced' ? 'sent' : 'revised';
+        const price = event.quoted_price !== null ? ` (${event.quoted_price})` : '';
+
+        const transition = await this.transition(event.quote_id, toStatus, {
+          source: 'staff_reply',
+          reason: `Staff pricing reply${price}`,
+          staffReplyId: event.staff_reply_id,
+          occurredAt: event.received_date,
+        });
+        if (transition) statuses.set(event.quote_id, transition.toStatus);
+        return transition;
+      });
+    }
+
+    // Customer accepted or declined in the same conversation
+    for (const reply of await db.getPendingCustomerReplies()) {
+      const outcome = this.classifyCustomerResponse(reply.body);
+      if (!outcome) continue;
+
+      await record(reply.quote_id, () =>
+        this.transition(reply.quote_id, outcome, {
+          source: 'customer_reply',
+          reason: `Customer reply: ${reply.email_subject || '(no subject)'}`,
+          emailId: reply.email_id,
+          occurredAt: reply.email_received_date,
+          rejectionReason: outcome === 'lost' ? 'Declined by customer (inferred from reply)' : null,
+        })
+      );
+    }
+
+    // Validity date passed without an outcome
+    for (const quote of await db.getExpiredOpenQuotes()) {
+      await record(quote.quote_id, () =>
+        this.transition(quote.quote_id, 'expired', {
+          source: 'expiry',
+          reason: `Quote valid until ${quote.valid_until}`,
+        })
+      );
+    }
+
+    console.log(
+      `Quote lifecycle: ${result.priced} priced, ${result.sent} sent, ${result.revised} revised, ` +
+        `${result.won} won, ${result.lost} lost, ${result.expired} expired, ${result.failed.length} failed`
+    );
+    return result;
+  }
+}
+
+const quoteLifecycleService = new QuoteLifecycleService();
+
+jobProcessor.registerHandler('quote_lifecycle_inference', async () => {
+  const lifecycle = await quoteLifecycleService.inferTransitions();
+  return { result: { lifecycle } };
+});
+
+export default quoteLifecycleService;
+export const canTransition = quoteLifecycleService.canTransition.bind(quoteLifecycleService);
+export const inferTransitions = quoteLifecycleService.inferTransitions.bind(quoteLifecycleService);
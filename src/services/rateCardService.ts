@@ -0,0 +1,281 @@
+/**
+ * Rate Card Service
+ * Manages negotiated lane rates (per customer or global) and selects the rate card that
+ * applies to a quote, so contract pricing takes precedence over similarity-based pricing
+ */
+
+import * as db from '../config/db.js';
+import currencyService from './currencyService.js';
+import {
+  detectEquipmentType,
+  getIntlRegion,
+  getUSRegion,
+  normalizeServiceType,
+} from './enhancedQuoteMatchingService.js';
+import type {
+  AIPricingDetails,
+  ClientInfo,
+  LaneRateCard,
+  Quote,
+  RateCardMatch,
+} from '../types/index.js';
+
+type RateCardQuote = Quote & Pick<ClientInfo, 'client_company_name'>;
+type LaneSide = 'origin' | 'destination';
+
+// A customer's own rate always beats a global one, whatever the lane detail
+const CUSTOMER_SPECIFICITY = 10;
+const US_COUNTRY_NAMES = ['us', 'usa', 'united states', 'united states of america'];
+
+const normalize = (value: string | null | undefined): string => (value || '').trim().toLowerCase();
+const normalizeCountry = (value: string | null | undefined): string =>
+  US_COUNTRY_NAMES.includes(normalize(value)) ? 'us' : normalize(value);
+
+class RateCardService {
+  /**
+   * Specificity of a card's lane side for a quote, or null when the side does not match
+   * City beats state, state beats region or country
+   */
+  private matchLaneSide(card: LaneRateCard, quote: RateCardQuote, side: LaneSide): number | null {
+    const city = quote[`${side}_city`];
+    const state = quote[`${side}_state_province`];
+    const country = quote[`${side}_country`];
+    let specificity = 0;
+
+    const cardCity = card[`${side}_city`];
+    if (cardCity) {
+      if (normalize(cardCity) !== normalize(city)) return null;
+      specificity = Math.max(specificity, 3);
+    }
+
+    const cardState = card[`${side}_state_province`];
+    if (cardState) {
+      if (normalize(cardState) !== normalize(state)) return null;
+      specificity = Math.max(specificity, 2);
+    }
+
+    const cardCountry = card[`${side}_country`];
+    if (cardCountry) {
+      if (normalizeCountry(cardCountry) !== normalizeCountry(country)) return null;
+      specificity = Math.max(specificity, 1);
+    }
+
+    const cardRegion = card[`${side}_region`];
+    if (cardRegion) {
+      const region = getUSRegion(city, state) || getIntlRegion(country);
+      if (!region || region !== cardRegion.toUpperCase()) return null;
+      specificity = Math.max(specificity, 1);
+    }
+
+    return specificity;
+  }
+
+  /**
+   * Price a card produces for a route, or null when a per-mile card has no distance
+   */
+  private priceFor(
+    card: LaneRateCard,
+    distanceMiles: number | null
+  ): { price: number; minimumApplied: boolean } | null {
+    let price: number;
+    if (card.rate_type === 'per_mile') {
+      if (!distanceMiles || distanceMiles <= 0) return null;
+      price = card.rate_amount * distanceMiles;
+    } else {
+      price = card.rate_amount;
+    }
+
+    const minimumApplied = card.minimum_charge !== null && price < card.minimum_charge;
+    return { price: Math.round(minimumApplied ? card.minimum_charge! : price), minimumApplied };
+  }
+
+  /**
+   * Most specific card among candidates that applies to a quote
+   * Ties go to the most recently started card
+   */
+  selectRateCard(
+    quote: RateCardQuote,
+    cards: LaneRateCard[],
+    distanceMiles: number | null = null
+  ): RateCardMatch | null {
+    const serviceType = normalizeServiceType(quote.service_type);
+    const equipmentType = detectEquipmentType(
+      quote.cargo_description,
+      quote.service_type,
+      quote.equipment_type_requested
+    );
+    let best: { card: LaneRateCard; match: RateCardMatch } | null = null;
+
+    for (const card of cards) {
+      if (
+        card.client_company_name &&
+        normalize(card.client_company_name) !== normalize(quote.client_company_name)
+      ) {
+        continue;
+      }
+      if (card.service_type && card.service_type.toUpperCase() !== serviceType) continue;
+      if (card.equipment_type && card.equipment_type.toUpperCase() !== equipmentType) continue;
+
+      const origin = this.matchLaneSide(card, quote, 'origin');
+      const destination = this.matchLaneSide(card, quote, 'destination');
+      if (origin === null || destination === null) continue;
+
+      const priced = this.priceFor(card, distanceMiles);
+      if (!priced) continue;
+
+      const specificity =
+        (card.client_company_name ? CUSTOMER_SPECIFICITY : 0) +
+        origin +
+        destination +
+        (card.service_type ? 1 : 0) +
+        (card.equipment_type ? 1 : 0);
+
+      if (
+        best &&
+        (specificity < best.match.specificity ||
+          (specificity === best.match.specificity && card.valid_from <= best.card.valid_from))
+      ) {
+        continue;
+      }
+
+      best = {
+        card,
+        match: {
+          rateCardId: card.rate_card_id,
+          name: card.name,
+          clientCompanyName: card.client_company_name,
+          rateType: card.rate_type,
+          rateAmount: card.rate_amount,
+          minimumCharge: card.minimum_charge,
+          currency: card.currency,
+          distanceMiles: card.rate_type === 'per_mile' ? distanceMiles : null,
+          price: priced.price,
+          minimumApplied: priced.minimumApplied,
+          specificity,
+          validUntil: card.valid_until,
+        },
+      };
+    }
+
+    return best?.match ?? null;
+  }
+
+  /**
+   * Rate card that applies to a quote today
+   * Lookup failures are logged and treated as "no rate card" so pricing can continue
+   */
+  async findForQuote(
+    quote: RateCardQuote,
+    distanceMiles: number | null = null
+  ): Promise<RateCardMatch | null> {
+    try {
+      const cards = await db.getRateCards({
+        clientCompanyName: quote.client_company_name || undefined,
+        activeOn: new Date().toISOString().slice(0, 10),
+      });
+      return this.selectRateCard(quote, cards, distanceMiles);
+    } catch (error) {
+      console.error('Error looking up rate cards:', (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Pricing recommendation taken from a rate card
+   * Contract rates are fixed, so floor, target and ceiling all equal the card price, converted to
+   * the currency of the match statistics
+   */
+  toPricingDetails(
+    match: RateCardMatch,
+    currency: string = currencyService.baseCurrency
+  ): AIPricingDetails {
+    const rate =
+      match.rateType === 'per_mile'
+        ? `${match.currency} ${match.rateAmount}/mile x ${match.distanceMiles} miles`
+        : `${match.currency} ${match.rateAmount} flat`;
+    const scope = match.clientCompanyName ? `${match.clientCompanyName} contract` : 'global';
+    const minimum = match.minimumApplied ? ` (minimum charge ${match.minimumCharge} applied)` : '';
+    const validity = match.validUntil ? ` Valid until ${match.validUntil}.` : '';
+    const conversion = currencyService.convert(match.price, match.currency, currency);
+    const price = conversion?.convertedAmount ?? match.price;
+    const converted =
+      conversion && conversion.fromCurrency !== conversion.toCurrency
+        ? ` Converted to ${conversion.toCurrency} ${price} at ${conversion.rate}.`
+        : '';
+
+    return {
+      recommended_price: price,
+      floor_price: price,
+      target_price: price,
+      ceiling_price: price,
+      confidence_percentage: 95,
+      reasoning: `[RATE CARD] ${scope} rate "${match.name}" (#${match.rateCardId}): ${rate}${minimum}.${validity}${converted}`,
+      price_breakdown: { linehaul: price },
+      negotiation_room_percent: 0,
+      rate_card: match,
+    };
+  }
+
+  /**
+   * List rate cards
+   */
+  async list(filters: db.RateCardFilters = {}): Promise<LaneRateCard[]> {
+    return db.getRateCards(filters);
+  }
+
+  /**
+   * Get a rate card by ID
+   */
+  async get(rateCardId: number): Promise<LaneRateCard | null> {
+    return db.getRateCardById(rateCardId);
+  }
+
+  /**
+   * Create a rate card
+   */
+  async create(data: db.RateCardData): Promise<LaneRateCard> {
+    return db.createRateCard(this.normalizeCodes(data));
+  }
+
+  /**
+   * Update a rate card
+   */
+  async update(rateCardId: number, data: db.RateCardData): Promise<LaneRateCard | null> {
+    return db.updateRateCard(rateCardId, this.normalizeCodes(data));
+  }
+
+  /**
+   * Delete a rate card
+   */
+  async remove(rateCardId: number): Promise<boolean> {
+    return db.deleteRateCard(rateCardId);
+  }
+
+  /**
+   * Region, service and equipment codes are stored upper-case like the matching service uses them
+   */
+  private normalizeCodes(data: db.RateCardData): db.RateCardData {
+    const codes = [
+      'origin_region',
+      'destination_region',
+      'service_type',
+      'equipment_type',
+    ] as const;
+    const normalized = { ...data };
+    for (const field of codes) {
+      if (typeof normalized[field] === 'string') {
+        normalized[field] = normalized[field]!.trim().toUpperCase() || null;
+      }
+    }
+    if (typeof normalized.currency === 'string') {
+      normalized.currency = normalized.currency.trim().toUpperCase();
+    }
+    return normalized;
+  }
+}
+
+const rateCardService = new RateCardService();
+
+export default rateCardService;
+export const findForQuote = rateCardService.findForQuote.bind(rateCardService);
+export const selectRateCard = rateCardService.selectRateCard.bind(rateCardService);
@@ -0,0 +1,173 @@
+/**
+ * Terminal Registry Service
+ * Resolves free-text pickup/delivery addresses to known ports, rail ramps and CFS
+ * facilities, grouped into port complexes, so drayage quotes can be compared by terminal
+ */
+
+import fs from 'fs';
+import terminalsData from '../config/terminals.json' with { type: 'json' };
+import type {
+  Quote,
+  Terminal,
+  TerminalComplex,
+  TerminalMatch,
+  TerminalRegistryFile,
+} from '../types/index.js';
+
+// Optional path to a JSON registry with the same shape as config/terminals.json
+const TERMINALS_FILE = process.env.TERMINALS_FILE;
+
+const RESOLVE_CACHE_LIMIT = 5000;
+
+interface AliasEntry {
+  alias: string;
+  terminal: Terminal | null;
+  complex: TerminalComplex;
+}
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+function normalizeText(value: string | null | undefined): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Load the registry, preferring TERMINALS_FILE over the bundled seed
+ */
+function loadRegistry(): TerminalRegistryFile {
+  if (TERMINALS_FILE) {
+    try {
+      return JSON.parse(fs.readFileSync(TERMINALS_FILE, 'utf8')) as TerminalRegistryFile;
+    } catch (error) {
+      console.warn(`Could not load terminals from ${TERMINALS_FILE}:`, (error as Error).message);
+    }
+  }
+  return terminalsData as TerminalRegistryFile;
+}
+
+class TerminalRegistryService {
+  private complexes = new Map<string, TerminalComplex>();
+  private terminals = new Map<string, Terminal>();
+  private aliases: AliasEntry[] = [];
+  private resolveCache = new Map<string, TerminalMatch | null>();
+
+  constructor() {
+    const registry = loadRegistry();
+
+    for (const complex of registry.complexes) {
+      this.complexes.set(complex.id, complex);
+      this.addAliases([complex.name, ...complex.aliases], null, complex);
+    }
+
+    for (const terminal of registry.terminals) {
+      const complex = this.complexes.get(terminal.complex);
+      if (!complex) {
+        console.warn(`Terminal ${terminal.id} references unknown complex ${terminal.complex}`);
+        continue;
+      }
+      this.terminals.set(terminal.id, terminal);
+      this.addAliases([terminal.name, ...terminal.aliases], terminal, complex);
+    }
+
+    // Longest alias first so "port newark container terminal" wins over "port newark";
+    // on equal length a terminal wins over its complex
+    this.aliases.sort(
+      (a, b) => b.alias.length - a.alias.length || Number(!!b.terminal) - Number(!!a.terminal)
+    );
+  }
+
+  private addAliases(names: string[], terminal: Terminal | null, complex: TerminalComplex): void {
+    for (const name of new Set(names.map(normalizeText))) {
+      if (name) this.aliases.push({ alias: name, terminal, complex });
+    }
+  }
+
+  /**
+   * Resolve free text (address, facility name) to the most specific terminal or complex it names
+   */
+  resolve(text: string | null | undefined): TerminalMatch | null {
+    const normalized = normalizeText(text);
+    if (!normalized) return null;
+
+    const cached = this.resolveCache.get(normalized);
+    if (cached !== undefined) return cached;
+
+    const padded = ` ${normalized} `;
+    const entry = this.aliases.find((a) => padded.includes(` ${a.alias} `));
+    const match = entry
+      ? { terminal: entry.terminal, complex: entry.complex, matchedAlias: entry.alias }
+      : null;
+
+    if (this.resolveCache.size >= RESOLVE_CACHE_LIMIT) this.resolveCache.clear();
+    this.resolveCache.set(normalized, match);
+    return match;
+  }
+
+  /**
+   * Look up a stored terminal or complex id
+   */
+  getById(id: string | null | undefined): TerminalMatch | null {
+    if (!id) return null;
+
+    const terminal = this.terminals.get(id);
+    if (terminal) {
+      return { terminal, complex: this.complexes.get(terminal.complex)!, matchedAlias: id };
+    }
+    const complex = this.complexes.get(id);
+    return complex ? { terminal: null, complex, matchedAlias: id } : null;
+  }
+
+  /**
+   * Id to store for a match: the terminal when one was named, otherwise the complex
+   */
+  toId(match: TerminalMatch): string {
+    return match.terminal?.id ?? match.complex.id;
+  }
+
+  /**
+   * Terminal for one end of a quote: the stored id, or resolved from the address
+   */
+  resolveQuoteEnd(quote: Quote, end: 'origin' | 'destination'): TerminalMatch | null {
+    const stored = this.getById(
+      end === 'origin' ? quote.origin_terminal_id : quote.destination_terminal_id
+    );
+    if (stored) return stored;
+
+    const text =
+      end === 'origin'
+        ? [quote.origin_full_address, quote.origin_city]
+        : [quote.destination_full_address, quote.destination_city];
+    return this.resolve(text.filter(Boolean).join(' '));
+  }
+
+  /**
+   * Set origin/destination terminal ids on an extracted quote (before it is saved)
+   */
+  annotateQuote(quote: Quote): Quote {
+    const origin = this.resolveQuoteEnd(quote, 'origin');
+    const destination = this.resolveQuoteEnd(quote, 'destination');
+    quote.origin_terminal_id = origin ? this.toId(origin) : null;
+    quote.destination_terminal_id = destination ? this.toId(destination) : null;
+    return quote;
+  }
+
+  getComplexes(): TerminalComplex[] {
+    return [...this.complexes.values()];
+  }
+
+  getTerminals(): Terminal[] {
+    return [...this.terminals.values()];
+  }
+}
+
+const terminalRegistryService = new TerminalRegistryService();
+
+export default terminalRegistryService;
+export const resolveTerminal = terminalRegistryService.resolve.bind(terminalRegistryService);
+export const annotateQuote = terminalRegistryService.annotateQuote.bind(terminalRegistryService);
@@ -0,0 +1,351 @@
+/**
+ * Win-Rate Analytics Service
+ * Breaks quote win rates down by lane, service type, cargo category and price-vs-recommendation
+ * delta, and fits a logistic win-probability curve per segment over that delta
+ */
+
+import * as db from '../config/db.js';
+import {
+  classifyCargo,
+  getIntlRegion,
+  getUSRegion,
+  normalizeServiceType,
+} from './enhancedQuoteMatchingService.js';
+import type { PricingOutcomeRow } from '../config/db.js';
+import type {
+  PricingOutcomeRecord,
+  WinProbabilityCurve,
+  WinProbabilityEstimate,
+  WinRateDimension,
+  WinRateSegment,
+  WinRateSummary,
+} from '../types/index.js';
+
+// Minimum priced outcomes (with both wins and losses) before a segment gets its own curve
+const MIN_CURVE_SAMPLES = parseInt(process.env.WIN_CURVE_MIN_SAMPLES || '15');
+// Ridge penalty on the slope keeps small segments from producing step functions
+const SLOPE_PENALTY = 1;
+// Deltas are fitted in units of 10 percentage points
+const DELTA_SCALE = 10;
+const CURVE_POINTS = [-30, -20, -15, -10, -5, 0, 5, 10, 15, 20, 30];
+
+const PRICE_DELTA_BUCKETS: { label: string; max: number }[] = [
+  { label: 'under -15%', max: -15 },
+  { label: '-15% to -5%', max: -5 },
+  { label: '-5% to +5%', max: 5 },
+  { label: '+5% to +15%', max: 15 },
+  { label: 'over +15%', max: Infinity },
+];
+const NO_RECOMMENDATION = 'no recommendation';
+
+interface Segmentation {
+  lane: string;
+  serviceType: string;
+  cargoCategory: string;
+}
+
+interface QuoteLocation {
+  origin_city?: string | null;
+  origin_state_province?: string | null;
+  origin_country?: string | null;
+  destination_city?: string | null;
+  destination_state_province?: string | null;
+  destination_country?: string | null;
+  service_type?: string | null;
+  cargo_description?: string | null;
+}
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+const round = (value: number, places = 4): number =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Fit p(win) = sigmoid(a + b * x) by Newton-Raphson with a ridge penalty on b
+ */
+function fitLogistic(xs: number[], ys: number[]): { intercept: number; slope: number } {
+  let a = 0;
+  let b = 0;
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    let ga = 0;
+    let gb = -SLOPE_PENALTY * b;
+    let haa = 1e-6;
+    let hab = 0;
+    let hbb = SLOPE_PENALTY;
+
+    for (let i = 0; i < xs.length; i++) {
+      const p = sigmoid(a + b * xs[i]!);
+      const w = p * (1 - p);
+      ga += ys[i]! - p;
+      gb += (ys[i]! - p) * xs[i]!;
+      haa += w;
+      hab += w * xs[i]!;
+      hbb += w * xs[i]! * xs[i]!;
+    }
+
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) break;
+
+    const da = (hbb * ga - hab * gb) / det;
+    const db_ = (haa * gb - hab * ga) / det;
+    a += da;
+    b += db_;
+
+    if (Math.abs(da) < 1e-8 && Math.abs(db_) < 1e-8) break;
+  }
+
+  return { intercept: a, slope: b };
+}
+
+class WinRateAnalyticsService {
+  /**
+   * Lane, service type and cargo category for a quote
+   * Uses the values stored by recordPricingOutcome when present
+   */
+  segment(quote: QuoteLocation, stored: Partial<PricingOutcomeRow> = {}): Segmentation {
+    const origin =
+      stored.origin_region ||
+      getUSRegion(quote.origin_city, quote.origin_state_province) ||
+      getIntlRegion(quote.origin_country) ||
+      'UNKNOWN';
+    const destination =
+      stored.destination_region ||
+      getUSRegion(quote.destination_city, quote.destination_state_province) ||
+      getIntlRegion(quote.destination_country) ||
+      'UNKNOWN';
+
+    return {
+      lane: `${origin} -> ${destination}`,
+      serviceType: stored.normalized_service_type || normalizeServiceType(quote.service_type),
+      cargoCategory: stored.cargo_category || classifyCargo(quote.cargo_description),
+    };
+  }
+
+  /**
+   * Load quotes with known outcomes as normalized records
+   */
+  async getOutcomes(filters: db.PricingOutcomeFilters = {}): Promise<PricingOutcomeRecord[]> {
+    const rows = await db.getPricingOutcomes(filters);
+
+    return rows.map((row) => {
+      const quotedPrice = row.quoted_price !== null ? parseFloat(row.quoted_price) : null;
+      const recommendedPrice =
+        row.recommended_price !== null ? parseFloat(row.recommended_price) : null;
+      const deltaPct =
+        quotedPrice && recommendedPrice
+          ? round(((quotedPrice - recommendedPrice) / recommendedPrice) * 100, 2)
+          : null;
+
+      return {
+        quoteId: row.quote_id,
+        won: row.job_won,
+        quotedPrice,
+        recommendedPrice,
+        deltaPct,
+        ...this.segment(row, row),
+        quotedAt: row.quoted_at,
+      };
+    });
+  }
+
+  /**
+   * Segment label for a record along a dimension
+   */
+  private segmentOf(record: PricingOutcomeRecord, dimension: WinRateDimension): string {
+    switch (dimension) {
+      case 'lane':
+        return record.lane;
+      case 'service_type':
+        return record.serviceType;
+      case 'cargo_category':
+        return record.cargoCategory;
+      case 'price_delta':
+        if (record.deltaPct === null) return NO_RECOMMENDATION;
+        return PRICE_DELTA_BUCKETS.find((bucket) => record.deltaPct! < bucket.max)!.label;
+    }
+  }
+
+  /**
+   * Win/loss counts for a group of records
+   */
+  private summarize(segment: string, records: PricingOutcomeRecord[]): WinRateSegment {
+    const won = records.filter((r) => r.won).length;
+    const deltas = records.filter((r) => r.deltaPct !== null).map((r) => r.deltaPct!);
+
+    return {
+      segment,
+      quotes: records.length,
+      won,
+      lost: records.length - won,
+      winRate: records.length > 0 ? round(won / records.length) : 0,
+      avgDeltaPct:
+        deltas.length > 0 ? round(deltas.reduce((sum, d) => sum + d, 0) / deltas.length, 2) : null,
+    };
+  }
+
+  /**
+   * Group records by their segment along a dimension
+   */
+  private group(
+    records: PricingOutcomeRecord[],
+    dimension: WinRateDimension
+  ): Map<string, PricingOutcomeRecord[]> {
+    const groups = new Map<string, PricingOutcomeRecord[]>();
+    for (const record of records) {
+      const key = this.segmentOf(record, dimension);
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+    return groups;
+  }
+
+  /**
+   * Win-rate breakdown along one dimension
+   */
+  breakdown(records: PricingOutcomeRecord[], dimension: WinRateDimension): WinRateSegment[] {
+    const segments = Array.from(this.group(records, dimension)).map(([segment, group]) =>
+      this.summarize(segment, group)
+    );
+
+    if (dimension === 'price_delta') {
+      const order = [...PRICE_DELTA_BUCKETS.map((b) => b.label), NO_RECOMMENDATION];
+      return segments.sort((a, b) => order.indexOf(a.segment) - order.indexOf(b.segment));
+    }
+    return segments.sort((a, b) => b.quotes - a.quotes);
+  }
+
+  /**
+   * Fit a win-probability curve, or return null when the records cannot support one
+   */
+  fitCurve(
+    records: PricingOutcomeRecord[],
+    dimension: WinRateDimension | 'overall',
+    segment: string
+  ): WinProbabilityCurve | null {
+    const priced = records.filter((r) => r.deltaPct !== null);
+    const wins = priced.filter((r) => r.won).length;
+
+    if (priced.length < MIN_CURVE_SAMPLES || wins === 0 || wins === priced.length) {
+      return null;
+    }
+
+    const { intercept, slope } = fitLogistic(
+      priced.map((r) => r.deltaPct! / DELTA_SCALE),
+      priced.map((r) => (r.won ? 1 : 0))
+    );
+
+    return {
+      dimension,
+      segment,
+      samples: priced.length,
+      intercept: round(intercept),
+      slope: round(slope),
+      breakEvenDeltaPct:
+        Math.abs(slope) > 1e-3 ? round((-intercept / slope) * DELTA_SCALE, 1) : null,
+      fallback: false,
+      points: CURVE_POINTS.map((deltaPct) => ({
+        deltaPct,
+        probability: round(sigmoid(intercept + (slope * deltaPct) / DELTA_SCALE)),
+      })),
+    };
+  }
+
+  /**
+   * Per-segment curves along a dimension; thin segments fall back to the overall curve
+   */
+  curves(records: PricingOutcomeRecord[], dimension: WinRateDimension): WinProbabilityCurve[] {
+    const overall = this.fitCurve(records, 'overall', 'all');
+
+    return Array.from(this.group(records, dimension))
+      .map(([segment, group]) => {
+        const curve = this.fitCurve(group, dimension, segment);
+        if (curve) return curve;
+        if (!overall) return null;
+
+        return {
+          ...overall,
+          dimension,
+          segment,
+          samples: group.filter((r) => r.deltaPct !== null).length,
+          fallback: true,
+        };
+      })
+      .filter((curve): curve is WinProbabilityCurve => curve !== null)
+      .sort((a, b) => b.samples - a.samples);
+  }
+
+  /**
+   * Overall win rate with every breakdown and the overall curve
+   */
+  async getSummary(filters: db.PricingOutcomeFilters = {}): Promise<WinRateSummary> {
+    const records = await this.getOutcomes(filters);
+
+    return {
+      overall: this.summarize('all', records),
+      byLane: this.breakdown(records, 'lane'),
+      byServiceType: this.breakdown(records, 'service_type'),
+      byCargoCategory: this.breakdown(records, 'cargo_category'),
+      byPriceDelta: this.breakdown(records, 'price_delta'),
+      curve: this.fitCurve(records, 'overall', 'all'),
+    };
+  }
+
+  /**
+   * Win probability of quoting a given price for a quote
+   * Uses the most specific segment with its own curve: lane, then service type, then cargo
+   * Returns null when the quote has no AI recommendation or no curve can be fitted
+   */
+  async estimateWinProbability(
+    quoteId: number,
+    price: number
+  ): Promise<WinProbabilityEstimate | null> {
+    const quote = await db.getQuoteById(quoteId);
+    if (!quote) return null;
+
+    const pricing = await db.getAIPricingRecommendation(quoteId);
+    const recommendedPrice = Number(pricing?.ai_recommended_price ?? pricing?.target_price ?? 0);
+    if (!recommendedPrice) return null;
+
+    const records = await this.getOutcomes();
+    const segments = this.segment(quote);
+    const candidates: [WinRateDimension, string][] = [
+      ['lane', segments.lane],
+      ['service_type', segments.serviceType],
+      ['cargo_category', segments.cargoCategory],
+    ];
+
+    let curve: WinProbabilityCurve | null = null;
+    for (const [dimension, segment] of candidates) {
+      const group = records.filter((r) => this.segmentOf(r, dimension) === segment);
+      curve = this.fitCurve(group, dimension, segment);
+      if (curve) break;
+    }
+    if (!curve) {
+      curve = this.fitCurve(records, 'overall', 'all');
+      if (!curve) return null;
+      curve.fallback = true;
+    }
+
+    const deltaPct = ((price - recommendedPrice) / recommendedPrice) * 100;
+
+    return {
+      quoteId,
+      price,
+      recommendedPrice,
+      deltaPct: round(deltaPct, 2),
+      probability: round(sigmoid(curve.intercept + (curve.slope * deltaPct) / DELTA_SCALE)),
+      curve: {
+        dimension: curve.dimension,
+        segment: curve.segment,
+        samples: curve.samples,
+        fallback: curve.fallback,
+      },
+    };
+  }
+}
+
+const winRateAnalyticsService = new WinRateAnalyticsService();
+
+export default winRateAnalyticsService;
+export const getSummary = winRateAnalyticsService.getSummary.bind(winRateAnalyticsService);
+export const estimateWinProbability =
+  winRateAnalyticsService.estimateWinProbability.bind(winRateAnalyticsService);
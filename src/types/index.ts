@@ -55,6 +55,78 @@ export interface Attachment {
   size?: number;
 }
 
+// =============================================================================
+// MICROSOFT GRAPH SYNC TYPES
+// =============================================================================
+
+export interface GraphSubscription {
+  id: string;
+  resource: string;
+  changeType: string;
+  notificationUrl: string;
+  expirationDateTime: string;
+  clientState?: string;
+}
+
+export interface GraphChangeNotification {
+  subscriptionId: string;
+  clientState?: string;
+  changeType?: string;
+  resource?: string;
+  resourceData?: {
+    id?: string;
+    '@odata.type'?: string;
+  };
+  lifecycleEvent?: 'reauthorizationRequired' | 'subscriptionRemoved' | 'missed';
+}
+
+export interface MailDeltaState {
+  folderId: string;
+  deltaLink: string | null;
+  lastSyncedAt: string | null;
+  messagesSynced: number;
+}
+
+export interface GraphSubscriptionRenewalResult {
+  renewed: string[];
+  recreated: string[];
+  failed: { subscriptionId: string; error: string }[];
+}
+
+// =============================================================================
+// MAIL SOURCE TYPES
+// =============================================================================
+
+export type MailSourceName = 'graph' | 'imap' | 'file';
+
+export interface MailSourceFetchOptions {
+  searchQuery?: string;
+  maxEmails?: number;
+  startDate?: string | null;
+  /** Fetch exactly these message IDs */
+  messageIds?: string[];
+  /** Folder or mailbox to read incrementally (Graph delta, IMAP mailbox) */
+  mailFolder?: string;
+}
+
+export interface MailSourceBatch {
+  emails: Email[];
+  /** Attachments parsed with the messages (IMAP, file), by email ID */
+  attachments?: Map<string, Attachment[]>;
+  /** Persist the source's sync position once the batch has been processed */
+  commit?: () => Promise<void>;
+}
+
+/**
+ * Origin of ingested emails (Microsoft 365, IMAP mailbox, local .eml/.mbox files)
+ */
+export interface MailSource {
+  readonly name: MailSourceName;
+  fetchEmails(options: MailSourceFetchOptions): Promise<MailSourceBatch>;
+  /** Load a message's attachments on demand (sources whose batches do not include them) */
+  fetchAttachments?(emailId: string): Promise<Attachment[]>;
+}
+
 // =============================================================================
 // QUOTE TYPES
 // =============================================================================
@@ -78,6 +150,32 @@ export interface EmailThreadSummary {
   conversation_summary?: string;
 }
 
+/** Where an extracted field's value was read from */
+export type FieldSourceType = 'subject' | 'body' | 'attachment' | 'inferred';
+
+/** Per-field confidence and source as returned by the extraction model */
+export interface ExtractedFieldProvenance {
+  field: string;
+  confidence: number;
+  source: FieldSourceType;
+  /** Verbatim text the value was read from */
+  excerpt?: string | null;
+}
+
+/** Stored confidence and source span of one extracted field */
+export interface FieldConfidence {
+  /** 0-1 */
+  confidence: number;
+  source: FieldSourceType;
+  /** File name when the value came from an attachment */
+  attachmentName?: string | null;
+  /** Character offset of the excerpt in the email body or attachment text (null if not located) */
+  offset?: number | null;
+  excerpt?: string | null;
+}
+
+export type FieldConfidenceMap = Record<string, FieldConfidence>;
+
 export interface Quote {
   quote_id?: number;
   email_id?: number;
@@ -91,6 +189,7 @@ export interface Quote {
   origin_country?: string | null;
   origin_postal_code?: string | null;
   origin_facility_type?: string | null;
+  origin_terminal_id?: string | null;
   requested_pickup_date?: string | null;
   pickup_time_window?: string | null;
   pickup_special_requirements?: string | null;
@@ -102,12 +201,20 @@ export interface Quote {
   destination_country?: string | null;
   destination_postal_code?: string | null;
   destination_facility_type?: string | null;
+  destination_terminal_id?: string | null;
   requested_delivery_date?: string | null;
   delivery_time_window?: string | null;
   delivery_special_requirements?: string | null;
 
   // Distance/Transit
   total_distance_miles?: number | null;
+  estimated_duration_minutes?: number | null;
+  distance_source?: DistanceSource | null;
+  distance_calculated_at?: string | null;
+  origin_latitude?: number | null;
+  origin_longitude?: number | null;
+  destination_latitude?: number | null;
+  destination_longitude?: number | null;
   estimated_transit_days?: number | null;
   transit_time_quoted?: string | null;
 
@@ -183,6 +290,8 @@ export interface Quote {
   client_response_sentiment?: string | null;
   follow_up_required?: boolean;
   follow_up_reason?: string | null;
+  lifecycle_status?: QuoteLifecycleStatus;
+  lifecycle_updated_at?: string | null;
 
   // Meta
   sales_representative?: string | null;
@@ -192,6 +301,12 @@ export interface Quote {
   special_requirements?: string | null;
   internal_notes?: string | null;
 
+  // Extraction provenance
+  field_provenance?: ExtractedFieldProvenance[];
+  field_confidence?: FieldConfidenceMap | null;
+  extraction_prompt_version?: string | null;
+  extraction_provider?: string | null;
+
   // Database timestamps
   created_at?: string;
 }
@@ -201,9 +316,13 @@ export interface ParsedEmailData {
   client_info?: ClientInfo;
   quotes: Quote[];
   ai_confidence_score?: number;
+  /** Extraction prompt version the email was parsed with */
+  prompt_version?: string | null;
+  /** AI provider that produced the extraction */
+  ai_provider?: string | null;
 }
 
-export interface QuoteWithEmail extends Quote {
+export interface QuoteWithEmail extends Quote, ClientInfo {
   email_message_id?: string;
   email_subject?: string;
   email_received_date?: string;
@@ -218,12 +337,277 @@ export interface QuoteWithEmail extends Quote {
   job_id?: string;
 }
 
+// =============================================================================
+// QUOTE LIFECYCLE TYPES
+// =============================================================================
+
+export type QuoteLifecycleStatus =
+  | 'requested'
+  | 'priced'
+  | 'sent'
+  | 'revised'
+  | 'won'
+  | 'lost'
+  | 'expired';
+
+/** What caused a transition: a user via the API, or an event inferred from the mailbox */
+export type QuoteStatusSource = 'api' | 'pricing' | 'staff_reply' | 'customer_reply' | 'expiry';
+
+export interface QuoteStatusTransition {
+  id: number;
+  quoteId: number;
+  fromStatus: QuoteLifecycleStatus | null;
+  toStatus: QuoteLifecycleStatus;
+  source: QuoteStatusSource;
+  actor: string;
+  reason: string | null;
+  staffReplyId: number | null;
+  emailId: number | null;
+  occurredAt: string;
+  createdAt: string;
+}
+
+export interface LifecycleInferenceResult {
+  priced: number;
+  sent: number;
+  revised: number;
+  won: number;
+  lost: number;
+  expired: number;
+  failed: { quoteId: number; error: string }[];
+}
+
+// =============================================================================
+// QUOTE CORRECTION TYPES
+// =============================================================================
+
+export type CorrectionValue = string | number | boolean | null;
+
+/** One corrected field of an extracted quote (a row of quote_field_corrections) */
+export interface QuoteFieldCorrection {
+  id: number;
+  quoteId: number;
+  emailId: number | null;
+  field: string;
+  oldValue: CorrectionValue;
+  newValue: CorrectionValue;
+  oldConfidence: number | null;
+  correctedBy: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+/** A field whose corrected value differs from the stored one */
+export interface QuoteFieldChange {
+  field: string;
+  oldValue: CorrectionValue;
+  newValue: CorrectionValue;
+  oldConfidence: number | null;
+}
+
+export interface QuoteCorrectionData {
+  emailId: number | null;
+  changes: QuoteFieldChange[];
+  correctedBy: string;
+  reason?: string | null;
+  /** Re-resolved terminals, set when a location field changed */
+  terminalIds?: { origin: string | null; destination: string | null };
+  /** Clear the stored route so it is recomputed from the corrected locations */
+  clearRoute?: boolean;
+}
+
+export interface QuoteCorrectionResult {
+  quoteId: number;
+  corrections: QuoteFieldCorrection[];
+  unchanged: string[];
+  rematchJobId: string | null;
+}
+
+/** An email with the AI extraction of one of its quotes and the human-reviewed extraction */
+export interface ExtractionExample {
+  quoteId: number;
+  emailId: number;
+  email: {
+    subject: string | null;
+    body: string | null;
+    receivedDate: string | null;
+  };
+  extracted: Record<string, CorrectionValue>;
+  corrected: Record<string, CorrectionValue>;
+  correctedFields: string[];
+  lastCorrectedAt: string;
+}
+
+// =============================================================================
+// PROMPT VERSION TYPES
+// =============================================================================
+
+export type PromptVersionTask = 'extraction' | 'pricing';
+
+/** A registered prompt version; a null template is the prompt built into the code */
+export interface PromptVersion {
+  id: number;
+  task: PromptVersionTask;
+  version: string;
+  template: string | null;
+  description: string | null;
+  /** Share of requests relative to the other active versions of the task */
+  trafficWeight: number;
+  isActive: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptVersionData {
+  task: PromptVersionTask;
+  version: string;
+  template: string;
+  description?: string | null;
+  trafficWeight?: number;
+  isActive?: boolean;
+  createdBy?: string | null;
+}
+
+/** Traffic settings of a version; templates are immutable, so a changed prompt is a new version */
+export interface PromptVersionUpdate {
+  trafficWeight?: number;
+  isActive?: boolean;
+  description?: string | null;
+}
+
+/** Prompt version assigned to one extraction or pricing request */
+export interface PromptAssignment {
+  task: PromptVersionTask;
+  version: string;
+  template: string | null;
+}
+
+/** Outcomes of the quotes extracted or priced with one prompt version */
+export interface PromptVersionStats {
+  version: string;
+  /** Current traffic weight; null when the version is no longer registered */
+  trafficWeight: number | null;
+  isActive: boolean;
+  quotes: number;
+  /** Quotes with a known win/loss outcome */
+  decided: number;
+  won: number;
+  acceptanceRate: number | null;
+  /** Quotes with both an AI recommendation and a reference price */
+  pricedQuotes: number;
+  /** Mean and median of |recommended - reference| / reference, in percent */
+  meanAbsErrorPct: number | null;
+  medianAbsErrorPct: number | null;
+  /** Mean signed error in percent; positive means the AI priced above the reference */
+  meanErrorPct: number | null;
+  correctedQuotes: number;
+  correctionRate: number | null;
+}
+
+export interface PromptVersionComparison {
+  task: PromptVersionTask;
+  versions: PromptVersionStats[];
+}
+
+// =============================================================================
+// QUOTE DRAFT TYPES
+// =============================================================================
+
+export type QuoteDraftType = 'response' | 'followup';
+
+/** Only the latest version of a quote's draft is 'draft'; earlier versions are 'superseded' */
+export type QuoteDraftStatus = 'draft' | 'superseded';
+
+export interface QuoteResponseDraft {
+  id: number;
+  quoteId: number;
+  version: number;
+  draftType: QuoteDraftType;
+  status: QuoteDraftStatus;
+  subject: string;
+  body: string;
+  quotedPrice: number | null;
+  aiProvider: string | null;
+  /** Reply draft created in the original conversation (null when not saved to the mailbox) */
+  graphDraftId: string | null;
+  graphWebLink: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface GeneratedEmailDraft {
+  subject: string;
+  body: string;
+}
+
+// =============================================================================
+// FOLLOW-UP TYPES
+// =============================================================================
+
+/** Why a quote is on the follow-up worklist */
+export type FollowUpReason = 'no_reply' | 'expiring' | 'flagged';
+
+export type FollowUpStatus = 'open' | 'snoozed' | 'dismissed';
+
+/** A quote that may need a follow-up, as loaded from the database */
+export interface FollowUpCandidate {
+  quoteId: number;
+  clientCompanyName: string | null;
+  contactEmail: string | null;
+  subject: string | null;
+  origin: string | null;
+  destination: string | null;
+  quoteStatus: string | null;
+  /** Latest price sent by staff for this quote */
+  quotedPrice: number | null;
+  quotedAt: string | null;
+  /** Latest staff message in the conversation (quote or follow-up) */
+  lastContactAt: string | null;
+  lastCustomerReplyAt: string | null;
+  /** Staff messages sent in the conversation after the first quote */
+  followupsSent: number;
+  validUntil: string | null;
+  followUpRequired: boolean;
+  followUpReason: string | null;
+  status: FollowUpStatus;
+  snoozedUntil: string | null;
+  note: string | null;
+  currentDraft: Pick<
+    QuoteResponseDraft,
+    'version' | 'draftType' | 'createdAt' | 'graphWebLink'
+  > | null;
+}
+
+export interface FollowUpItem extends FollowUpCandidate {
+  reasons: FollowUpReason[];
+  businessDaysWaiting: number | null;
+  daysUntilExpiry: number | null;
+}
+
+export interface FollowUpDraftingResult {
+  due: number;
+  drafted: number[];
+  skipped: number;
+  failed: { quoteId: number; error: string }[];
+}
+
 // =============================================================================
 // JOB TYPES
 // =============================================================================
 
 export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
+export type JobType =
+  | 'email_processing'
+  | 'extract_and_match'
+  | 'run_all_matching'
+  | 'staff_reply_extraction'
+  | 'graph_subscription_renewal'
+  | 'follow_up_drafting'
+  | 'quote_lifecycle_inference'
+  | 'distance_backfill';
+
 export interface JobProgress {
   current: number;
   total: number;
@@ -237,6 +621,11 @@ export interface JobData {
   scoreThreshold?: number;
   previewMode?: boolean;
   matchingOptions?: MatchingOptions;
+  quoteIds?: number[];
+  messageIds?: string[];
+  mailFolder?: string;
+  mailSource?: MailSourceName;
+  limit?: number;
 }
 
 export interface StaffRepliesResult {
@@ -260,6 +649,8 @@ export interface JobResult {
   estimatedCost?: number;
   estimatedSavings?: number;
   actualCost?: number;
+  /** Tokens and cost of the AI calls made while the job ran */
+  aiUsage?: AIUsageTotals;
   lastReceivedDateTime?: string | null;
   newQuoteIds?: number[];
   preview?: FilterPreview;
@@ -269,6 +660,10 @@ export interface JobResult {
   staffQuotes?: StaffQuotesResult;
   matching?: MatchingResult;
   learning?: LearningResult | null;
+  subscriptions?: GraphSubscriptionRenewalResult;
+  followUps?: FollowUpDraftingResult;
+  lifecycle?: LifecycleInferenceResult;
+  distanceBackfill?: DistanceBackfillResult;
 }
 
 export interface JobError {
@@ -288,6 +683,37 @@ export interface Job {
   error: JobError | null;
   progress: JobProgress;
   lastReceivedDateTime?: string | null;
+  type?: JobType;
+  attempts?: number;
+  maxAttempts?: number;
+  runAt?: string | null;
+  lockedBy?: string | null;
+  lockedUntil?: string | null;
+  heartbeatAt?: string | null;
+}
+
+export type JobScheduleOutcome = 'enqueued' | 'skipped_overlap' | 'skipped_empty' | 'error';
+
+/** A claimed schedule run and the time window it covers */
+export interface JobScheduleClaim {
+  /** End of the last enqueued run's window; null before the first enqueued run */
+  windowStart: string | null;
+  windowEnd: string;
+}
+
+export interface JobSchedule {
+  name: string;
+  jobType: JobType;
+  cronExpression: string;
+  enabled: boolean;
+  lastRunAt: string | null;
+  /** Claim time of the last run that enqueued a job (start of the next run's window) */
+  lastEnqueuedWindowEnd: string | null;
+  nextRunAt: string | null;
+  lastJobId: string | null;
+  lastJobStatus: JobStatus | null;
+  lastOutcome: JobScheduleOutcome | null;
+  lastError: string | null;
 }
 
 export interface JobStatistics {
@@ -331,6 +757,7 @@ export interface ProcessingSummary {
   estimatedCost: number;
   estimatedSavings: number;
   actualCost: number;
+  aiUsage: AIUsageTotals;
   aiProvider: string;
   model: string;
   searchQuery: string;
@@ -400,6 +827,7 @@ export interface MatchCriteria {
   equipment_type?: number;         // Equipment type matching
   recency?: number;
   distance_similarity?: number;
+  terminal_complex?: number;       // Port/rail terminal complex match (terminal moves only)
   // Penalty flags (applied post-calculation)
   long_haul_penalty_distance?: number;
   long_haul_penalty_cargo?: number;
@@ -422,6 +850,8 @@ export interface MatchedQuoteData {
   initialPrice?: number | null;
   quoteDate?: string;
   status?: string;
+  /** Currency of finalPrice / initialPrice */
+  currency?: string;
 }
 
 export interface PriceRange {
@@ -445,6 +875,8 @@ export interface QuoteMatch {
   priceSource?: string;
   jobWon?: boolean | null;
   metadata?: MatchMetadata;
+  fuelAdjustment?: FuelAdjustment | null;
+  currencyConversion?: CurrencyConversion | null;
 }
 
 export interface MatchMetadata {
@@ -454,6 +886,10 @@ export interface MatchMetadata {
   histCargoCat?: string;
   sourceOriginRegion?: string | null;
   sourceDestRegion?: string | null;
+  sourceOriginComplex?: string | null;
+  sourceDestComplex?: string | null;
+  /** Weight multipliers applied to criteria whose source fields have low extraction confidence */
+  fieldConfidenceFactors?: Record<string, number>;
 }
 
 export interface ReasoningPercentage {
@@ -478,12 +914,22 @@ export interface AIPricingDetails {
   negotiation_room_percent?: number;
   /** Summary of how historical feedback influenced this recommendation */
   feedback_insights?: string;
+  /** Contract rate card the price was taken from, when one applied */
+  rate_card?: RateCardMatch;
+  /** Pricing prompt version of the run that produced the recommendation */
+  prompt_version?: string | null;
+  /** AI provider whose response shaped the price; null when the algorithmic price was kept */
+  ai_provider?: string | null;
 }
 
 export interface PriceBreakdown {
   linehaul?: number;
   fuel_surcharge?: number;
   accessorials?: number;
+  /** Itemized accessorials when the price was built from the catalog */
+  accessorial_items?: AccessorialLineItem[];
+  /** How historical prices were scaled to current diesel levels */
+  fuel_adjustment?: FuelAdjustmentSummary;
   margin?: number;
   port_fees?: number;
   handling?: number;
@@ -504,6 +950,9 @@ export interface AIPricingRecommendation {
   reasoning_percentage?: ReasoningPercentage | null;
   /** Summary of how historical feedback influenced this recommendation */
   feedback_insights?: string | null;
+  rate_card_id?: number | null;
+  prompt_version?: string | null;
+  ai_provider?: string | null;
   created_at?: Date;
   updated_at?: Date;
 }
@@ -526,6 +975,8 @@ export interface MatchDetail {
   suggestedPrice?: number | null;
   priceRange?: PriceRange | null;
   aiPricing?: AIPricingDetails | null;
+  fuelAdjustment?: FuelAdjustmentSummary | null;
+  currency?: string;
 }
 
 // =============================================================================
@@ -603,12 +1054,18 @@ export interface AIProviderInfo {
     gemini: boolean;
     claude: boolean;
     chatgpt: boolean;
+    local: boolean;
+    mock: boolean;
   };
   models: {
     gemini: string;
     claude: string;
     chatgpt: string;
+    local: string;
+    mock: string;
   };
+  /** Providers tried in order when no provider is requested (AI_PROVIDER_CHAIN) */
+  fallbackChain: string[];
 }
 
 export interface AIProviderValidation {
@@ -617,6 +1074,197 @@ export interface AIProviderValidation {
   message: string;
 }
 
+export type AIErrorKind =
+  | 'rate_limit'
+  | 'timeout'
+  | 'unavailable'
+  | 'auth'
+  | 'invalid_output'
+  | 'bad_request'
+  | 'unknown';
+
+/**
+ * Provider error classified for the fallback chain; retryable errors move on to the next
+ * provider, fatal ones would fail on every provider and stop the chain
+ */
+export interface AIErrorClassification {
+  kind: AIErrorKind;
+  retryable: boolean;
+  /** Whether the error counts as a provider failure for its circuit breaker */
+  tripsBreaker: boolean;
+  status: number | null;
+  message: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderCircuitStatus {
+  provider: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  lastError: AIErrorClassification | null;
+}
+
+/** One provider attempt of a fallback chain call */
+export interface AIProviderAttempt {
+  provider: string;
+  durationMs: number;
+  error: AIErrorClassification | null;
+  /** Skipped because the provider's circuit was open */
+  skipped: boolean;
+}
+
+// =============================================================================
+// AI USAGE TYPES
+// =============================================================================
+
+export type AIUsageOperation =
+  | 'extraction'
+  | 'pricing'
+  | 'reply_parsing'
+  | 'drafting'
+  | 'validation'
+  | 'generation';
+
+/**
+ * What AI calls are being made for; nested contexts inherit the fields they do not set
+ */
+export interface AIUsageContext {
+  jobId?: string | null;
+  emailId?: string | null;
+  quoteId?: number | null;
+  operation?: AIUsageOperation;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface AIUsageRecord {
+  provider: string;
+  model: string;
+  operation: AIUsageOperation;
+  jobId: string | null;
+  emailId: string | null;
+  quoteId: number | null;
+  inputTokens: number;
+  outputTokens: number;
+  /** Price table entry the call was costed with (null = model not in the price table) */
+  price: ModelPrice | null;
+  costUsd: number;
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface AIDailyCost extends AIUsageTotals {
+  date: string;
+  provider: string;
+}
+
+export interface AIBudgetStatus {
+  /** AI_MONTHLY_BUDGET_USD; null when no budget is set */
+  monthlyBudgetUsd: number | null;
+  monthToDateUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface AICostReport {
+  days: AIDailyCost[];
+  providers: (AIUsageTotals & { provider: string })[];
+  models: (AIUsageTotals & { provider: string; model: string })[];
+  operations: (AIUsageTotals & { operation: string })[];
+  totals: AIUsageTotals;
+  budget: AIBudgetStatus;
+  priceTable: Record<string, ModelPrice>;
+}
+
+// =============================================================================
+// AI RESPONSE CACHE TYPES
+// =============================================================================
+
+export type AICacheKind = 'extraction' | 'pricing';
+
+export interface AICacheEntry {
+  cacheKey: string;
+  kind: AICacheKind;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  response: unknown;
+  emailId?: string | null;
+  quoteId?: number | null;
+}
+
+/** Cached pricing response: the AI response text that parsed, and the provider that wrote it */
+export interface CachedPricingResponse {
+  text: string;
+  provider: string;
+}
+
+export interface AICacheHitRate {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses); null without lookups */
+  hitRate: number | null;
+}
+
+export interface AICacheStats {
+  enabled: boolean;
+  ttlHours: Record<AICacheKind, number>;
+  days: (AICacheHitRate & { date: string; kind: AICacheKind })[];
+  kinds: (AICacheHitRate & {
+    kind: AICacheKind;
+    entries: number;
+    /** Entries not yet expired */
+    activeEntries: number;
+  })[];
+  totals: AICacheHitRate;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * JSON Schema subset used to describe and validate structured AI output
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number | boolean | null)[];
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Named output schema sent to a provider's native structured output (Claude tool,
+ * OpenAI json_schema response format, Gemini responseSchema)
+ */
+export interface StructuredOutputSpec {
+  /** Tool / schema name; letters, digits, _ and - only */
+  name: string;
+  description: string;
+  /** Selects the model on providers with separate extraction and pricing models */
+  task: 'extraction' | 'pricing';
+  schema: JsonSchema;
+}
+
+export interface SchemaFieldError {
+  /** JSON path of the offending field, e.g. $.quotes[0].cargo_weight */
+  path: string;
+  message: string;
+}
+
 // =============================================================================
 // DATABASE TYPES
 // =============================================================================
@@ -758,6 +1406,68 @@ export interface StaffQuoteReply {
   created_at?: string;
 }
 
+// =============================================================================
+// WIN-RATE ANALYTICS TYPES
+// =============================================================================
+
+export type WinRateDimension = 'lane' | 'service_type' | 'cargo_category' | 'price_delta';
+
+/** A quote with a known outcome, normalized for win-rate analysis */
+export interface PricingOutcomeRecord {
+  quoteId: number;
+  won: boolean;
+  quotedPrice: number | null;
+  recommendedPrice: number | null;
+  /** Quoted price relative to the AI recommendation, in percent (negative = under) */
+  deltaPct: number | null;
+  lane: string;
+  serviceType: string;
+  cargoCategory: string;
+  quotedAt: string | null;
+}
+
+export interface WinRateSegment {
+  segment: string;
+  quotes: number;
+  won: number;
+  lost: number;
+  winRate: number;
+  avgDeltaPct: number | null;
+}
+
+/** Logistic win-probability curve over the price-vs-recommendation delta */
+export interface WinProbabilityCurve {
+  dimension: WinRateDimension | 'overall';
+  segment: string;
+  samples: number;
+  intercept: number;
+  /** Change in log-odds per 10 percentage points of delta */
+  slope: number;
+  /** Delta at which the win probability is 50% (null when the curve is flat) */
+  breakEvenDeltaPct: number | null;
+  /** True when the segment had too few outcomes and the overall curve is used */
+  fallback: boolean;
+  points: { deltaPct: number; probability: number }[];
+}
+
+export interface WinRateSummary {
+  overall: WinRateSegment;
+  byLane: WinRateSegment[];
+  byServiceType: WinRateSegment[];
+  byCargoCategory: WinRateSegment[];
+  byPriceDelta: WinRateSegment[];
+  curve: WinProbabilityCurve | null;
+}
+
+export interface WinProbabilityEstimate {
+  quoteId: number;
+  price: number;
+  recommendedPrice: number;
+  deltaPct: number;
+  probability: number;
+  curve: Pick<WinProbabilityCurve, 'dimension' | 'segment' | 'samples' | 'fallback'>;
+}
+
 // =============================================================================
 // WEIGHT RANGE TYPES
 // =============================================================================
@@ -797,6 +1507,334 @@ export interface SmartPricing {
   adjustments: string[];
 }
 
+// =============================================================================
+// GEO TYPES
+// =============================================================================
+
+export type GeoProviderName = 'google' | 'offline';
+
+/** How precisely a location was resolved */
+export type GeoPrecision = 'address' | 'postal' | 'city' | 'region';
+
+export interface GeoLocation {
+  lat: number;
+  lng: number;
+  formattedAddress?: string;
+  precision?: GeoPrecision;
+}
+
+export interface LocationInput {
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  region?: string | null;
+  fullAddress?: string | null;
+  postalCode?: string | null;
+}
+
+export interface RouteDistance {
+  distanceMiles: number;
+  distanceKm: number;
+  durationMinutes: number;
+  durationText: string;
+  distanceText: string;
+  origin: GeoLocation;
+  destination: GeoLocation;
+  /** api = provider routing, cache = stored provider result, estimate = straight line x road factor */
+  source?: 'api' | 'cache' | 'estimate';
+  provider?: GeoProviderName;
+  /** Road-distance factor applied to the straight-line distance of an estimate */
+  roadFactor?: number;
+}
+
+/**
+ * Geocoding and routing backend (Google Maps, offline gazetteer)
+ */
+export interface GeoProvider {
+  readonly name: GeoProviderName;
+  isConfigured(): boolean;
+  geocode(location: LocationInput): Promise<GeoLocation | null>;
+  /** Driving route between two points; providers without road routing leave this out */
+  route?(origin: GeoLocation, destination: GeoLocation): Promise<RouteDistance | null>;
+}
+
+/** How a quote's stored distance was computed */
+export type DistanceSource = 'google' | 'cache' | 'straight_line';
+
+export interface DistanceBackfillResult {
+  processed: number;
+  resolved: number;
+  /** Quotes whose locations could not be geocoded */
+  unresolved: number[];
+  failed: { quoteId: number; error: string }[];
+}
+
+export interface CachedRouteDistance {
+  distanceMiles: number;
+  durationMinutes: number | null;
+  straightLineMiles: number | null;
+  provider: GeoProviderName;
+}
+
+export interface RoadFactorCalibration {
+  factor: number;
+  /** Cached provider routes the factor was calibrated from (0 = default factor) */
+  samples: number;
+}
+
+// =============================================================================
+// TERMINAL TYPES
+// =============================================================================
+
+export type TerminalType = 'port' | 'rail_ramp' | 'cfs';
+
+/** Port complex or rail hub that groups nearby terminals with shared drayage pricing */
+export interface TerminalComplex {
+  id: string;
+  name: string;
+  city: string;
+  state?: string | null;
+  country: string;
+  aliases: string[];
+}
+
+export interface Terminal {
+  id: string;
+  name: string;
+  type: TerminalType;
+  /** Id of the TerminalComplex this terminal belongs to */
+  complex: string;
+  lat: number;
+  lng: number;
+  aliases: string[];
+}
+
+export interface TerminalRegistryFile {
+  complexes: TerminalComplex[];
+  terminals: Terminal[];
+}
+
+/**
+ * A location resolved against the registry; terminal is null when only the
+ * complex was named (e.g. "Port Newark")
+ */
+export interface TerminalMatch {
+  terminal: Terminal | null;
+  complex: TerminalComplex;
+  matchedAlias: string;
+}
+
+// =============================================================================
+// RATE CARD TYPES
+// =============================================================================
+
+export type RateCardRateType = 'flat' | 'per_mile';
+
+/**
+ * Negotiated lane rate; a null client applies to every customer and a null lane,
+ * service or equipment field matches anything
+ */
+export interface LaneRateCard {
+  rate_card_id: number;
+  name: string;
+  client_company_name: string | null;
+  origin_region: string | null;
+  origin_city: string | null;
+  origin_state_province: string | null;
+  origin_country: string | null;
+  destination_region: string | null;
+  destination_city: string | null;
+  destination_state_province: string | null;
+  destination_country: string | null;
+  service_type: string | null;
+  equipment_type: string | null;
+  rate_type: RateCardRateType;
+  rate_amount: number;
+  minimum_charge: number | null;
+  currency: string;
+  valid_from: string;
+  valid_until: string | null;
+  is_active: boolean;
+  notes: string | null;
+  created_by: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Rate card selected for a quote and the price it produces
+ */
+export interface RateCardMatch {
+  rateCardId: number;
+  name: string;
+  clientCompanyName: string | null;
+  rateType: RateCardRateType;
+  rateAmount: number;
+  minimumCharge: number | null;
+  currency: string;
+  distanceMiles: number | null;
+  price: number;
+  minimumApplied: boolean;
+  /** Higher is more specific (customer, city, service and equipment matches) */
+  specificity: number;
+  validUntil: string | null;
+}
+
+// =============================================================================
+// FUEL INDEX TYPES
+// =============================================================================
+
+export interface FuelIndexEntry {
+  /** Start of the week (YYYY-MM-DD) */
+  weekOf: string;
+  /** Average diesel price in USD per gallon */
+  dieselPrice: number;
+}
+
+/**
+ * Fuel normalization of one historical price
+ */
+export interface FuelAdjustment {
+  originalPrice: number;
+  adjustedPrice: number;
+  historicalWeekOf: string;
+  historicalDiesel: number;
+  currentWeekOf: string;
+  currentDiesel: number;
+  /** adjustedPrice / originalPrice */
+  factor: number;
+}
+
+export interface FuelAdjustmentSummary {
+  currentDiesel: number;
+  currentWeekOf: string;
+  /** Share of a price assumed to move with diesel */
+  fuelShare: number;
+  adjustedMatches: number;
+  averageFactor: number;
+}
+
+export interface FuelIndexImportResult {
+  imported: number;
+  skipped: number;
+  errors: { line: number; error: string }[];
+  firstWeek: string | null;
+  lastWeek: string | null;
+}
+
+// =============================================================================
+// CURRENCY TYPES
+// =============================================================================
+
+/**
+ * FX rates in effect from a date, as units of each currency per one unit of the base
+ */
+export interface FxRateSnapshot {
+  /** YYYY-MM-DD */
+  date: string;
+  rates: Record<string, number>;
+}
+
+export interface FxRateTable {
+  baseCurrency: string;
+  snapshots: FxRateSnapshot[];
+}
+
+/**
+ * Conversion of one amount between currencies
+ */
+export interface CurrencyConversion {
+  fromCurrency: string;
+  toCurrency: string;
+  originalAmount: number;
+  convertedAmount: number;
+  /** convertedAmount / originalAmount */
+  rate: number;
+  /** Date of the rate snapshot used */
+  rateDate: string;
+}
+
+// =============================================================================
+// ACCESSORIAL TYPES
+// =============================================================================
+
+export type AccessorialCode =
+  | 'chassis_split'
+  | 'pre_pull'
+  | 'storage'
+  | 'detention'
+  | 'tarping'
+  | 'pilot_car'
+  | 'permits'
+  | 'liftgate'
+  | 'hazmat';
+
+export type AccessorialChargeType =
+  | 'flat'
+  | 'per_day'
+  | 'per_hour'
+  | 'per_mile'
+  | 'percent_of_linehaul';
+
+/**
+ * Catalog entry with its default rate
+ */
+export interface AccessorialDefinition {
+  code: AccessorialCode;
+  name: string;
+  description: string;
+  chargeType: AccessorialChargeType;
+  /** Amount per unit, or a percentage for percent_of_linehaul */
+  rate: number;
+  minimum?: number;
+  /** Units charged when none are given (days, hours) */
+  defaultQuantity?: number;
+  /** Units included before charging starts (e.g. detention free time) */
+  freeQuantity?: number;
+}
+
+export interface AccessorialLineItem {
+  code: AccessorialCode;
+  name: string;
+  chargeType: AccessorialChargeType;
+  quantity: number | null;
+  rate: number;
+  amount: number;
+  minimumApplied: boolean;
+  /** Why the charge was attached (quote flag, OOG analysis, request text or caller) */
+  reason: string;
+}
+
+export interface AccessorialRequest {
+  code: AccessorialCode;
+  quantity?: number;
+}
+
+export interface PriceBuilderOptions {
+  /** Linehaul to build on; defaults to the quote's AI pricing recommendation */
+  linehaul?: number;
+  include?: AccessorialRequest[];
+  exclude?: AccessorialCode[];
+  distanceMiles?: number;
+}
+
+export interface ItemizedQuote {
+  quoteId: number;
+  currency: string;
+  linehaul: number;
+  linehaulSource: 'request' | 'ai_recommendation' | 'none';
+  accessorials: AccessorialLineItem[];
+  accessorialsTotal: number;
+  total: number;
+  distanceMiles: number | null;
+  oog: {
+    isOOG: boolean;
+    requiresPermits: boolean;
+    requiresPilotCar: boolean;
+    reasons: string[];
+  };
+}
+
 // =============================================================================
 // EXPRESS TYPES
 // =============================================================================
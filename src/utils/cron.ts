@@ -0,0 +1,152 @@
+/**
+ * Cron Expression Utility
+ * Minimal 5-field cron parser (minute hour day-of-month month day-of-week)
+ * Supports *, lists (1,5), ranges (1-5) and steps (*\/15, 0-30/5). Evaluated in server local time.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week (0 and 7 are Sunday)
+];
+
+/**
+ * Parse a single cron field into the set of allowed values
+ */
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart ? parseInt(stepPart, 10) : 1;
+
+    if (!rangePart || isNaN(step) || step < 1) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      start = parseInt(a || '', 10);
+      end = parseInt(b || '', 10);
+    } else {
+      start = parseInt(rangePart, 10);
+      end = stepPart ? max : start;
+    }
+
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}" (allowed ${min}-${max})`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}" (expected 5 fields)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i]![0], FIELD_RANGES[i]![1])
+  ) as Set<number>[];
+
+  // Normalize Sunday
+  if (daysOfWeek!.has(7)) {
+    daysOfWeek!.delete(7);
+    daysOfWeek!.add(0);
+  }
+
+  return {
+    expression,
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: daysOfWeek!,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+/**
+ * Check whether a date's day matches (standard cron: OR when both day fields are restricted)
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+/**
+ * Get the next run time strictly after `from`
+ */
+export function getNextRun(expression: string | CronSchedule, from: Date = new Date()): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const next = new Date(from.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  // Bounded search: five years covers any valid expression (e.g. Feb 29)
+  const limit = from.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
+
+export default {
+  parseCron,
+  getNextRun,
+};
@@ -0,0 +1,87 @@
+/**
+ * JSON Schema Validation Utility
+ * Validates parsed AI output against the JSON Schema subset in JsonSchema
+ * (type, properties, required, items, enum, minimum, maximum), reporting every failing field
+ */
+
+import type { JsonSchema, JsonSchemaType, SchemaFieldError } from '../types/index.js';
+
+/**
+ * JSON Schema type of a parsed JSON value
+ */
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a schema
+ * Returns one error per failing field; an empty array means the value is valid
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = '$'
+): SchemaFieldError[] {
+  const errors: SchemaFieldError[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push({ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    errors.push({
+      path,
+      message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      errors.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) {
+        errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * One line per field error, for logs and repair prompts
+ */
+export function formatSchemaErrors(errors: SchemaFieldError[]): string {
+  return errors.map((e) => `- ${e.path}: ${e.message}`).join('\n');
+}
@@ -16,6 +16,7 @@ export const logStartup = (port: number | string): void => {
   console.log('Available endpoints:');
   console.log('  GET  /                              - API information');
   console.log('  GET  /api/health                    - Health check');
+  console.log('  GET  /api/health/ai-providers       - AI fallback chain and circuit states');
   console.log('  POST /api/emails/process            - Process emails (async, rate limited)');
   console.log('  POST /api/emails/preview            - Preview emails to be processed');
   console.log('  POST /api/emails/fetch              - Fetch emails from Microsoft 365');
@@ -24,12 +25,53 @@ export const logStartup = (port: number | string): void => {
   console.log('  GET  /api/jobs/:id/result           - Get job result');
   console.log('  GET  /api/jobs/statistics           - Get job statistics');
   console.log('  GET  /api/jobs                      - Get all jobs');
+  console.log('  GET  /api/jobs/schedules            - Get recurring job schedules');
   console.log('  DELETE /api/jobs/:id                - Cancel a job');
   console.log('  GET  /api/stats                     - Get processing statistics');
   console.log('  GET  /api/quotes                    - Get all quotes');
   console.log('  GET  /api/quotes/:id                - Get quote by ID');
   console.log('  POST /api/quotes/search             - Search quotes');
   console.log('  DELETE /api/quotes/:id              - Delete quote');
+  console.log('  PATCH /api/quotes/:id               - Correct extracted fields');
+  console.log('  GET  /api/quotes/:id/corrections    - Field correction log');
+  console.log('  GET  /api/quotes/corrections/export - Corrected extraction dataset');
+  console.log('  POST /api/quotes/:id/draft-response - Draft quote response email');
+  console.log('  GET  /api/quotes/:id/drafts         - List draft versions');
+  console.log('  PATCH /api/quotes/:id/drafts/:version - Edit current draft');
+  console.log('  GET  /api/quotes/follow-ups         - Follow-up worklist');
+  console.log('  POST /api/quotes/follow-ups/draft   - Draft follow-ups for due quotes');
+  console.log('  POST /api/quotes/follow-ups/:id/snooze  - Snooze follow-up');
+  console.log('  POST /api/quotes/follow-ups/:id/dismiss - Dismiss follow-up');
+  console.log('  DELETE /api/quotes/follow-ups/:id   - Reopen follow-up');
+  console.log('  POST /api/quotes/distances/backfill - Store route distances on quotes');
+  console.log('  PATCH /api/quotes/:id/status        - Change quote lifecycle status');
+  console.log('  GET  /api/quotes/:id/status-history - Quote lifecycle history');
+  console.log('  GET  /api/quotes/accessorials       - Accessorial charge catalog');
+  console.log('  POST /api/quotes/:id/itemized-price - Itemized price with accessorials');
+  console.log('  POST /api/webhooks/graph            - Graph change notifications');
+  console.log('  GET  /api/webhooks/graph/subscriptions - List Graph subscriptions');
+  console.log('  POST /api/webhooks/graph/subscriptions - Create/renew Graph subscription');
+  console.log('  DELETE /api/webhooks/graph/subscriptions/:id - Delete Graph subscription');
+  console.log('  GET  /api/analytics/win-rate        - Win rate with breakdowns');
+  console.log('  GET  /api/analytics/win-rate/probability - Win probability for a price');
+  console.log('  GET  /api/analytics/win-rate/:dimension  - Win rate and curves by segment');
+  console.log('  GET  /api/analytics/prompt-versions - Compare prompt versions');
+  console.log('  GET  /api/analytics/ai-costs       - AI token usage and daily spend');
+  console.log('  GET  /api/analytics/ai-cache       - AI response cache hit rate');
+  console.log('  GET  /api/rate-cards                - List lane rate cards');
+  console.log('  GET  /api/rate-cards/quote/:quoteId - Rate card applying to a quote');
+  console.log('  POST /api/rate-cards                - Create lane rate card');
+  console.log('  GET  /api/rate-cards/:id            - Get rate card by ID');
+  console.log('  PATCH /api/rate-cards/:id           - Update rate card');
+  console.log('  DELETE /api/rate-cards/:id          - Delete rate card');
+  console.log('  GET  /api/fuel-index                - Weekly diesel index');
+  console.log('  POST /api/fuel-index/import         - Import diesel prices from CSV');
+  console.log('  GET  /api/prompts                   - List prompt versions');
+  console.log('  POST /api/prompts                   - Register prompt version');
+  console.log('  GET  /api/prompts/:id               - Get prompt version by ID');
+  console.log('  PATCH /api/prompts/:id              - Update prompt traffic split');
+  console.log('  DELETE /api/ai-cache                - Invalidate cached AI responses');
+  console.log('  DELETE /api/ai-cache/:key           - Invalidate one cached AI response');
   console.log('  GET  /api/test/graph                - Test Microsoft Graph connection');
   console.log('  GET  /api/test/claude               - Test Claude API connection');
   console.log('  GET  /api/test/database             - Test database connection');
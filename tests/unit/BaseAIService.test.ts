@@ -0,0 +1,156 @@
+/**
+ * Splitting long emails into prompt-sized parts and merging the extractions of the parts
+ * (used by the local provider for small context windows)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mockAIService from '../../src/services/ai/mockAIService.js';
+import type { Email, ParsedEmailData } from '../../src/types/index.js';
+
+const service = mockAIService;
+
+const email = (content: string): Email => ({
+  id: 'chunk-test',
+  subject: 'Quote request - several lanes',
+  from: { emailAddress: { name: 'Dana Whitfield', address: 'dana@example.com' } },
+  receivedDateTime: '2024-05-01T12:00:00Z',
+  body: { contentType: 'text', content },
+});
+
+describe('prepareEmailContentChunks', () => {
+  it('keeps content that fits as a single part', () => {
+    const short = email('Flatbed from Houston, TX to Dallas, TX.');
+
+    assert.deepEqual(service.prepareEmailContentChunks(short, '', 5000), [
+      service.prepareEmailContent(short),
+    ]);
+  });
+
+  it('splits long content into parts within the limit, each with the email headers', () => {
+    const paragraphs = Array.from(
+      { length: 40 },
+      (_, i) =>
+        `Lane ${i + 1}: 24 pallets of canned goods from Chicago, IL to city number ${i + 1}.`
+    );
+    const long = email(paragraphs.join('\n\n'));
+    const attachment = '\n\n--- Content from lanes.xlsx ---\n' + 'Row of rate data\n'.repeat(150);
+
+    const chunks = service.prepareEmailContentChunks(long, attachment, 2500);
+
+    assert.ok(chunks.length > 1);
+    chunks.forEach((chunk, i) => {
+      assert.ok(chunk.length <= 2500, `part ${i + 1} has ${chunk.length} chars`);
+      assert.ok(chunk.startsWith(service.formatEmailHeader(long)));
+      assert.ok(chunk.includes(`[Part ${i + 1} of ${chunks.length}]`));
+    });
+    for (const paragraph of paragraphs) {
+      assert.ok(
+        chunks.some((chunk) => chunk.includes(paragraph)),
+        paragraph
+      );
+    }
+    assert.ok(chunks.at(-1)!.includes('Row of rate data'));
+  });
+});
+
+describe('mergeChunkExtractions', () => {
+  it('returns no quotes without results', () => {
+    assert.deepEqual(service.mergeChunkExtractions([]), { quotes: [] });
+  });
+
+  it('fills missing fields of the same lane and adds new lanes', () => {
+    const parts: ParsedEmailData[] = [
+      {
+        client_info: { client_company_name: 'Great Lakes Foods', phone_number: null },
+        quotes: [{ origin_city: 'Chicago', destination_city: 'Atlanta', cargo_weight: null }],
+      },
+      {
+        client_info: { client_company_name: 'Other', phone_number: '555-0100' },
+        quotes: [
+          { origin_city: 'chicago', destination_city: 'atlanta', cargo_weight: 18000 },
+          { origin_city: 'Chicago', destination_city: 'Memphis', cargo_weight: 22000 },
+        ],
+      },
+    ];
+
+    const merged = service.mergeChunkExtractions(parts);
+
+    assert.deepEqual(merged.client_info, {
+      client_company_name: 'Great Lakes Foods',
+      phone_number: '555-0100',
+    });
+    assert.deepEqual(
+      merged.quotes.map((q) => [q.destination_city, q.cargo_weight, q.quote_sequence_number]),
+      [
+        ['Atlanta', 18000, 1],
+        ['Memphis', 22000, 2],
+      ]
+    );
+    // The first part's values win
+    assert.equal(merged.quotes[0]!.origin_city, 'Chicago');
+  });
+
+  it('completes a single quote from later parts that name no lane', () => {
+    const merged = service.mergeChunkExtractions([
+      { quotes: [{ origin_city: 'Houston', destination_city: 'Dallas' }] },
+      { quotes: [{ origin_city: null, destination_city: null, number_of_pieces: 3 }] },
+    ]);
+
+    assert.equal(merged.quotes.length, 1);
+    assert.equal(merged.quotes[0]!.number_of_pieces, 3);
+  });
+
+  it('ignores lane-less quotes when several lanes could own them', () => {
+    const merged = service.mergeChunkExtractions([
+      {
+        quotes: [
+          { origin_city: 'Chicago', destination_city: 'Atlanta' },
+          { origin_city: 'Chicago', destination_city: 'Memphis' },
+        ],
+      },
+      { quotes: [{ origin_city: null, destination_city: null, number_of_pieces: 3 }] },
+    ]);
+
+    assert.equal(merged.quotes.length, 2);
+    assert.ok(merged.quotes.every((q) => q.number_of_pieces === undefined));
+  });
+
+  it('keeps the provenance of every part', () => {
+    const merged = service.mergeChunkExtractions([
+      {
+        quotes: [
+          {
+            origin_city: 'Houston',
+            destination_city: 'Dallas',
+            field_provenance: [
+              { field: 'origin_city', confidence: 0.9, source: 'body', excerpt: 'Houston' },
+            ],
+          },
+        ],
+      },
+      {
+        quotes: [
+          {
+            origin_city: 'Houston',
+            destination_city: 'Dallas',
+            cargo_weight: 1000,
+            field_provenance: [
+              {
+                field: 'cargo_weight',
+                confidence: 0.8,
+                source: 'attachment',
+                excerpt: '1,000 lbs',
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    assert.deepEqual(
+      merged.quotes[0]!.field_provenance?.map((p) => p.field),
+      ['origin_city', 'cargo_weight']
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Cache keys of AI extraction and pricing responses
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import aiCacheService from '../../src/services/aiCacheService.js';
+import mockAIService from '../../src/services/ai/mockAIService.js';
+import type { ExtractionExample } from '../../src/types/index.js';
+
+const attachments = (...files: [string, string][]): string =>
+  files.map(([name, text]) => `\n\n--- Content from ${name} ---\n${text}`).join('');
+
+const extractionParts = {
+  senderAddress: 'dana@example.com',
+  receivedDateTime: '2024-05-01T12:00:00Z',
+  subject: 'Quote request: Houston to Dallas',
+  bodyText: 'Please quote a flatbed from Houston, TX to Dallas, TX.\nWeight 42,000 lbs.',
+  attachmentHashes: aiCacheService.hashAttachments(
+    attachments(['specs.pdf', 'Steel coils, 4 pieces'], ['lanes.xlsx', 'Houston | Dallas'])
+  ),
+  promptVersion: 'builtin',
+  prompt: 'Extract the shipping quote fields.',
+  provider: 'mock',
+  model: 'mock-extractor',
+};
+
+const key = (changes: Partial<typeof extractionParts> = {}) =>
+  aiCacheService.getExtractionKey({ ...extractionParts, ...changes });
+
+const example: ExtractionExample = {
+  quoteId: 1,
+  emailId: 1,
+  email: { subject: 'Flatbed quote', body: 'Houston to Dallas, 4 coils', receivedDate: null },
+  extracted: { cargo_weight: null },
+  corrected: { cargo_weight: 42000 },
+  correctedFields: ['cargo_weight'],
+  lastCorrectedAt: '2024-05-01T12:00:00Z',
+};
+
+describe('hashAttachments', () => {
+  it('hashes each attachment separately, ignoring order and file names', () => {
+    const hashes = aiCacheService.hashAttachments(
+      attachments(['specs.pdf', 'Steel coils, 4 pieces'], ['lanes.xlsx', 'Houston | Dallas'])
+    );
+
+    assert.equal(hashes.length, 2);
+    assert.deepEqual(
+      aiCacheService.hashAttachments(
+        attachments(['lanes-copy.xlsx', 'Houston | Dallas'], ['scan.pdf', 'Steel coils, 4 pieces'])
+      ),
+      hashes
+    );
+  });
+
+  it('returns no hashes without attachment text', () => {
+    assert.deepEqual(aiCacheService.hashAttachments(''), []);
+  });
+});
+
+describe('getExtractionKey', () => {
+  it('matches reformatted copies of the same email from the same sender and day', () => {
+    assert.equal(
+      key({
+        senderAddress: 'Dana@Example.com',
+        receivedDateTime: '2024-05-01T16:30:00Z',
+        subject: 'FW: RE: QUOTE REQUEST:   Houston to Dallas',
+        bodyText:
+          '---------- Forwarded message ----------\n> Please quote a flatbed from Houston, TX\n> to Dallas, TX.  Weight 42,000 lbs.',
+        attachmentHashes: [...extractionParts.attachmentHashes].reverse(),
+      }),
+      key()
+    );
+  });
+
+  it('changes with the sender, day, content, prompt, provider and model', () => {
+    const changed = [
+      key({ senderAddress: 'ops@other-shipper.com' }),
+      key({ receivedDateTime: '2024-05-02T12:00:00Z' }),
+      key({ bodyText: 'Please quote a flatbed from Houston, TX to Austin, TX.' }),
+      key({
+        attachmentHashes: aiCacheService.hashAttachments(
+          attachments(['specs.pdf', 'Steel coils, 5 pieces'])
+        ),
+      }),
+      key({ attachmentHashes: [] }),
+      key({ promptVersion: 'v2' }),
+      key({ prompt: 'Extract the shipping quote fields. Dates are ISO 8601.' }),
+      key({ provider: 'claude' }),
+      key({ model: 'mock-extractor-2' }),
+    ];
+
+    assert.equal(new Set([key(), ...changed]).size, changed.length + 1);
+  });
+
+  it('changes when the few-shot examples in the prompt change', () => {
+    const withoutExamples = key({ prompt: mockAIService.getExtractionPrompt('', []) });
+    const withExamples = key({ prompt: mockAIService.getExtractionPrompt('', [example]) });
+
+    assert.notEqual(withExamples, withoutExamples);
+  });
+});
+
+describe('getPricingKey', () => {
+  const pricingParts = {
+    prompt: 'Price this quote.\nOrigin: Houston, TX\nDestination: Dallas, TX',
+    promptVersion: 'builtin',
+    provider: 'mock',
+    model: 'mock-pricer',
+  };
+
+  it('ignores whitespace and case in the prompt', () => {
+    assert.equal(
+      aiCacheService.getPricingKey({
+        ...pricingParts,
+        prompt: '  PRICE this quote.\n\nOrigin:   Houston, TX\nDestination: Dallas, TX ',
+      }),
+      aiCacheService.getPricingKey(pricingParts)
+    );
+  });
+
+  it('changes with the prompt, prompt version and model, and never matches an extraction key', () => {
+    const keys = [
+      aiCacheService.getPricingKey(pricingParts),
+      aiCacheService.getPricingKey({
+        ...pricingParts,
+        prompt: pricingParts.prompt + '\nWeight: 42,000 lbs',
+      }),
+      aiCacheService.getPricingKey({ ...pricingParts, promptVersion: 'v2' }),
+      aiCacheService.getPricingKey({ ...pricingParts, model: 'mock-pricer-2' }),
+      key(),
+    ];
+
+    assert.equal(new Set(keys).size, keys.length);
+  });
+});
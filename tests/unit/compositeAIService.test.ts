@@ -0,0 +1,156 @@
+/**
+ * AI error classification, circuit breakers and the provider fallback chain
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import CompositeAIService, {
+  AIProviderChainError,
+  AITimeoutError,
+  CircuitBreaker,
+  classifyAIError,
+} from '../../src/services/ai/compositeAIService.js';
+import { StructuredOutputError } from '../../src/services/ai/BaseAIService.js';
+import type BaseAIService from '../../src/services/ai/BaseAIService.js';
+
+const httpError = (status: number, message = `HTTP ${status}`) =>
+  Object.assign(new Error(message), { status });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('classifyAIError', () => {
+  it('classifies by HTTP status', () => {
+    assert.equal(classifyAIError(httpError(429)).kind, 'rate_limit');
+    assert.equal(classifyAIError(httpError(401)).kind, 'auth');
+    assert.equal(classifyAIError(httpError(403)).kind, 'auth');
+    assert.equal(classifyAIError(httpError(503)).kind, 'unavailable');
+    assert.equal(classifyAIError(httpError(408)).kind, 'unavailable');
+    assert.equal(classifyAIError(httpError(400)).kind, 'bad_request');
+  });
+
+  it('reads the status from Gemini error messages', () => {
+    const error = new Error(
+      '[GoogleGenerativeAI Error]: [429 Too Many Requests] Resource exhausted'
+    );
+    assert.equal(classifyAIError(error).status, 429);
+    assert.equal(classifyAIError(error).kind, 'rate_limit');
+  });
+
+  it('treats timeouts and network failures as retryable provider failures', () => {
+    for (const error of [
+      new AITimeoutError('Claude', 1000),
+      Object.assign(new Error('connect failed'), { code: 'ECONNREFUSED' }),
+    ]) {
+      const classification = classifyAIError(error);
+      assert.equal(classification.retryable, true);
+      assert.equal(classification.tripsBreaker, true);
+    }
+  });
+
+  it('does not trip the breaker for invalid output, and stops the chain for bad requests', () => {
+    const invalid = classifyAIError(new StructuredOutputError('parsed_email', []));
+    assert.deepEqual(
+      [invalid.kind, invalid.retryable, invalid.tripsBreaker],
+      ['invalid_output', true, false]
+    );
+
+    const rejected = classifyAIError(httpError(400));
+    assert.deepEqual([rejected.retryable, rejected.tripsBreaker], [false, false]);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const unavailable = classifyAIError(httpError(503));
+
+  it('opens after the failure threshold and skips requests during the cooldown', () => {
+    const breaker = new CircuitBreaker('test', 2, 60000);
+
+    breaker.recordFailure(unavailable);
+    assert.equal(breaker.state, 'closed');
+    breaker.recordFailure(unavailable);
+    assert.equal(breaker.state, 'open');
+    assert.equal(breaker.allowRequest(), false);
+  });
+
+  it('lets one trial request through after the cooldown and closes on its success', async () => {
+    const breaker = new CircuitBreaker('test', 1, 20);
+    breaker.recordFailure(unavailable);
+    await sleep(30);
+
+    assert.equal(breaker.allowRequest(), true);
+    assert.equal(breaker.state, 'half_open');
+    assert.equal(breaker.allowRequest(), false);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.state, 'closed');
+    assert.equal(breaker.getStatus().consecutiveFailures, 0);
+  });
+
+  it('re-opens when the trial request fails', async () => {
+    const breaker = new CircuitBreaker('test', 3, 20);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(unavailable);
+    await sleep(30);
+
+    assert.equal(breaker.allowRequest(), true);
+    breaker.recordFailure(unavailable);
+    assert.equal(breaker.state, 'open');
+  });
+
+  it('resets the failure count on errors that do not trip it', () => {
+    const breaker = new CircuitBreaker('test', 2, 60000);
+    breaker.recordFailure(unavailable);
+    breaker.recordFailure(classifyAIError(new SyntaxError('Unexpected end of JSON input')));
+
+    assert.equal(breaker.state, 'closed');
+    assert.equal(breaker.consecutiveFailures, 0);
+    assert.equal(breaker.lastError?.kind, 'invalid_output');
+  });
+});
+
+describe('CompositeAIService.runChain', () => {
+  // Provider names are unique per test, since breakers are shared by every chain
+  const providers = (...names: string[]) =>
+    names.map((name) => ({ provider: name, serviceName: name }) as unknown as BaseAIService);
+
+  it('falls back to the next provider and reports the failed attempts', async () => {
+    const chain = new CompositeAIService(providers('fallback-a', 'fallback-b'));
+
+    const { result, provider, attempts } = await chain.runChain(async (p) => {
+      if (p.provider === 'fallback-a') throw httpError(503);
+      return 'answer';
+    });
+
+    assert.equal(result, 'answer');
+    assert.equal(provider, 'fallback-b');
+    assert.deepEqual(
+      attempts.map((a) => [a.provider, a.error?.kind]),
+      [['fallback-a', 'unavailable']]
+    );
+  });
+
+  it('stops at a fatal error without trying the other providers', async () => {
+    const chain = new CompositeAIService(providers('fatal-a', 'fatal-b'));
+    const called: string[] = [];
+
+    await assert.rejects(
+      chain.runChain(async (p) => {
+        called.push(p.provider);
+        throw httpError(400);
+      }),
+      (error: unknown) => error instanceof AIProviderChainError && error.fatal
+    );
+    assert.deepEqual(called, ['fatal-a']);
+  });
+
+  it('fails with every attempt when all providers fail', async () => {
+    const chain = new CompositeAIService(providers('all-a', 'all-b'));
+
+    await assert.rejects(
+      chain.runChain(async () => {
+        throw httpError(503);
+      }),
+      (error: unknown) =>
+        error instanceof AIProviderChainError && !error.fatal && error.attempts.length === 2
+    );
+  });
+});
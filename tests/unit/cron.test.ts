@@ -0,0 +1,74 @@
+/**
+ * Cron parser and next-run calculation (server local time)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNextRun, parseCron } from '../../src/utils/cron.js';
+
+describe('parseCron', () => {
+  it('expands wildcards, lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 8-10 1,15 * 1-5');
+
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...schedule.hours], [8, 9, 10]);
+    assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+    assert.equal(schedule.months.size, 12);
+    assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+    assert.equal(schedule.anyDayOfMonth, false);
+    assert.equal(schedule.anyDayOfWeek, false);
+  });
+
+  it('treats day of week 7 as Sunday', () => {
+    assert.deepEqual([...parseCron('0 0 * * 7').daysOfWeek], [0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    assert.throws(() => parseCron('* * * *'), /expected 5 fields/);
+    assert.throws(() => parseCron('60 * * * *'), /allowed 0-59/);
+    assert.throws(() => parseCron('*/0 * * * *'), /Invalid cron field/);
+    assert.throws(() => parseCron('5-1 * * * *'), /Invalid cron field/);
+  });
+});
+
+describe('getNextRun', () => {
+  it('returns the next matching minute strictly after the start', () => {
+    assert.deepEqual(
+      getNextRun('*/15 * * * *', new Date(2024, 0, 1, 10, 7)),
+      new Date(2024, 0, 1, 10, 15)
+    );
+    assert.deepEqual(
+      getNextRun('*/15 * * * *', new Date(2024, 0, 1, 10, 15)),
+      new Date(2024, 0, 1, 10, 30)
+    );
+  });
+
+  it('rolls over to the next day, month and year', () => {
+    assert.deepEqual(
+      getNextRun('0 3 * * *', new Date(2024, 0, 31, 4, 0)),
+      new Date(2024, 1, 1, 3, 0)
+    );
+    assert.deepEqual(getNextRun('0 0 1 1 *', new Date(2024, 5, 1)), new Date(2025, 0, 1, 0, 0));
+  });
+
+  it('skips weekends for weekday schedules', () => {
+    // Friday 2024-03-08 09:00 -> Monday 2024-03-11 08:00
+    assert.deepEqual(
+      getNextRun('0 8 * * 1-5', new Date(2024, 2, 8, 9, 0)),
+      new Date(2024, 2, 11, 8, 0)
+    );
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th or any Friday: Friday 2024-09-06 comes before the 13th
+    assert.deepEqual(getNextRun('0 12 13 * 5', new Date(2024, 8, 1)), new Date(2024, 8, 6, 12, 0));
+  });
+
+  it('finds leap days', () => {
+    assert.deepEqual(getNextRun('0 0 29 2 *', new Date(2024, 2, 1)), new Date(2028, 1, 29, 0, 0));
+  });
+
+  it('throws for expressions that never match', () => {
+    assert.throws(() => getNextRun('0 0 31 2 *', new Date(2024, 0, 1)), /never matches/);
+  });
+});
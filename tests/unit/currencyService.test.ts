@@ -0,0 +1,51 @@
+/**
+ * Currency codes as extracted from quotes and conversion with the bundled FX rate table
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import currencyService from '../../src/services/currencyService.js';
+
+describe('normalizeCode', () => {
+  it('reads codes, symbols and spellings seen in quotes', () => {
+    const cases: [string, string][] = [
+      ['usd', 'USD'],
+      ['USD.', 'USD'],
+      [' US$ ', 'USD'],
+      ['US Dollars', 'USD'],
+      ['USD (US DOLLARS)', 'USD'],
+      ['Canadian dollars', 'CAD'],
+      ['€', 'EUR'],
+    ];
+    for (const [value, code] of cases) {
+      assert.equal(currencyService.normalizeCode(value), code, value);
+    }
+  });
+
+  it('returns null for values that name no currency', () => {
+    assert.equal(currencyService.normalizeCode('see attached'), null);
+    assert.equal(currencyService.normalizeCode(''), null);
+  });
+});
+
+describe('convert', () => {
+  it('converts at the rates in effect on the date', () => {
+    const conversion = currencyService.convert(1000, 'EUR', 'USD', '2023-01-15');
+
+    assert.equal(conversion?.fromCurrency, 'EUR');
+    assert.equal(conversion?.convertedAmount, Math.round((1000 / 0.937) * 100) / 100);
+  });
+
+  it('takes a missing or unrecognized source currency as the base currency', () => {
+    for (const from of [null, 'per load', 'USD.']) {
+      const conversion = currencyService.convert(1000, from, 'USD');
+
+      assert.equal(conversion?.fromCurrency, 'USD', String(from));
+      assert.equal(conversion?.convertedAmount, 1000);
+    }
+  });
+
+  it('returns null for a currency code without a rate', () => {
+    assert.equal(currencyService.convert(1000, 'XAF', 'USD'), null);
+  });
+});
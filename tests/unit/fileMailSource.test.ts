@@ -0,0 +1,79 @@
+/**
+ * File mail source: which imported files are archived when a batch is committed
+ */
+
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const importDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-import-'));
+process.env.MAIL_IMPORT_DIR = importDir;
+
+const { default: fileMailSource } = await import(
+  '../../src/services/mail/sources/fileMailSource.js'
+);
+
+const eml = (id: string, date: string, subject: string): string =>
+  [
+    `Message-ID: <${id}@example.com>`,
+    'From: Dana Whitfield <dana@example.com>',
+    'To: quotes@example.com',
+    `Subject: ${subject}`,
+    `Date: ${date}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    `${subject}: flatbed from Houston, TX to Dallas, TX.`,
+    '',
+  ].join('\r\n');
+
+const write = (file: string, content: string) =>
+  fs.writeFileSync(path.join(importDir, file), content);
+const remaining = () => fs.readdirSync(importDir).filter((file) => file !== 'processed');
+const archived = () => fs.readdirSync(path.join(importDir, 'processed'));
+
+describe('fileMailSource', () => {
+  beforeEach(() => {
+    fs.rmSync(importDir, { recursive: true, force: true });
+    fs.mkdirSync(importDir);
+  });
+
+  after(() => fs.rmSync(importDir, { recursive: true, force: true }));
+
+  it('archives only files whose messages were all selected', async () => {
+    write('new.eml', eml('new', 'Wed, 01 May 2024 12:00:00 +0000', 'Quote request'));
+    write('old.eml', eml('old', 'Mon, 01 Jan 2024 12:00:00 +0000', 'Quote request'));
+    write('other.eml', eml('other', 'Thu, 02 May 2024 12:00:00 +0000', 'Newsletter'));
+    write(
+      'mixed.mbox',
+      [
+        'From dana@example.com Wed May  1 12:00:00 2024',
+        eml('mbox-new', 'Wed, 01 May 2024 13:00:00 +0000', 'Quote request'),
+        'From dana@example.com Mon Jan  1 12:00:00 2024',
+        eml('mbox-old', 'Mon, 01 Jan 2024 13:00:00 +0000', 'Quote request'),
+      ].join('\n')
+    );
+
+    const batch = await fileMailSource.fetchEmails({
+      searchQuery: 'quote',
+      startDate: '2024-04-01T00:00:00Z',
+    });
+    await batch.commit?.();
+
+    assert.equal(batch.emails.length, 2);
+    assert.deepEqual(archived(), ['new.eml']);
+    assert.deepEqual(remaining().sort(), ['mixed.mbox', 'old.eml', 'other.eml']);
+  });
+
+  it('keeps files with messages deferred by the maxEmails cap', async () => {
+    write('a.eml', eml('a', 'Wed, 01 May 2024 12:00:00 +0000', 'Quote request'));
+    write('b.eml', eml('b', 'Thu, 02 May 2024 12:00:00 +0000', 'Quote request'));
+
+    const batch = await fileMailSource.fetchEmails({ maxEmails: 1 });
+    await batch.commit?.();
+
+    assert.deepEqual(archived(), ['a.eml']);
+    assert.deepEqual(remaining(), ['b.eml']);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Business-day arithmetic and follow-up reasons for the follow-up worklist
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import followUpService, {
+  addBusinessDays,
+  businessDaysBetween,
+} from '../../src/services/followUpService.js';
+import type { FollowUpCandidate } from '../../src/types/index.js';
+
+// 2024-03-08 is a Friday
+const friday = new Date(2024, 2, 8, 15, 30);
+
+const candidate = (overrides: Partial<FollowUpCandidate>): FollowUpCandidate => ({
+  quoteId: 1,
+  clientCompanyName: 'Acme',
+  contactEmail: 'buyer@acme.example.com',
+  subject: 'Quote request',
+  origin: 'Houston, TX',
+  destination: 'Dallas, TX',
+  quoteStatus: 'sent',
+  quotedPrice: 2500,
+  quotedAt: null,
+  lastContactAt: null,
+  lastCustomerReplyAt: null,
+  followupsSent: 0,
+  validUntil: null,
+  followUpRequired: false,
+  followUpReason: null,
+  status: 'open',
+  snoozedUntil: null,
+  note: null,
+  currentDraft: null,
+  ...overrides,
+});
+
+describe('businessDaysBetween', () => {
+  it('counts weekdays after the start day', () => {
+    assert.equal(businessDaysBetween(friday, new Date(2024, 2, 8, 18, 0)), 0);
+    assert.equal(businessDaysBetween(friday, new Date(2024, 2, 11)), 1);
+    assert.equal(businessDaysBetween(friday, new Date(2024, 2, 13)), 3);
+  });
+
+  it('skips weekends', () => {
+    assert.equal(businessDaysBetween(friday, new Date(2024, 2, 10)), 0);
+    assert.equal(businessDaysBetween(new Date(2024, 2, 9), new Date(2024, 2, 11)), 1);
+  });
+
+  it('is zero when the end is before the start', () => {
+    assert.equal(businessDaysBetween(friday, new Date(2024, 2, 1)), 0);
+  });
+});
+
+describe('addBusinessDays', () => {
+  it('lands on weekdays only, keeping the time of day', () => {
+    assert.deepEqual(addBusinessDays(friday, 1), new Date(2024, 2, 11, 15, 30));
+    assert.deepEqual(addBusinessDays(friday, 5), new Date(2024, 2, 15, 15, 30));
+    assert.deepEqual(addBusinessDays(new Date(2024, 2, 9), 1), new Date(2024, 2, 11));
+  });
+
+  it('returns the same date for zero days', () => {
+    assert.deepEqual(addBusinessDays(friday, 0), friday);
+  });
+
+  it('round-trips with businessDaysBetween', () => {
+    for (let days = 0; days <= 10; days++) {
+      assert.equal(businessDaysBetween(friday, addBusinessDays(friday, days)), days);
+    }
+  });
+});
+
+describe('follow-up reasons', () => {
+  const sentFriday = { quotedAt: friday.toISOString(), lastContactAt: friday.toISOString() };
+
+  it('raises no_reply after three business days without a customer reply', () => {
+    assert.deepEqual(
+      followUpService.evaluate(candidate(sentFriday), new Date(2024, 2, 12, 9)).reasons,
+      []
+    );
+
+    const due = followUpService.evaluate(candidate(sentFriday), new Date(2024, 2, 13, 9));
+    assert.deepEqual(due.reasons, ['no_reply']);
+    assert.equal(due.businessDaysWaiting, 3);
+  });
+
+  it('stops waiting once the customer replied after the last contact', () => {
+    const replied = candidate({
+      ...sentFriday,
+      lastCustomerReplyAt: new Date(2024, 2, 11).toISOString(),
+    });
+    const item = followUpService.evaluate(replied, new Date(2024, 2, 20));
+
+    assert.deepEqual(item.reasons, []);
+    assert.equal(item.businessDaysWaiting, null);
+  });
+
+  it('raises expiring within two days of the validity date, and flagged when marked', () => {
+    const item = followUpService.evaluate(
+      candidate({ validUntil: '2024-03-10', followUpRequired: true }),
+      friday
+    );
+
+    assert.deepEqual(item.reasons, ['expiring', 'flagged']);
+    assert.equal(item.daysUntilExpiry, 2);
+    assert.deepEqual(
+      followUpService.evaluate(candidate({ validUntil: '2024-03-07' }), friday).reasons,
+      []
+    );
+  });
+});
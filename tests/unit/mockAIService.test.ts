@@ -0,0 +1,195 @@
+/**
+ * Mock AI provider: fixture lookup, rule-based parsing and simulated failures
+ * Runs fully offline; fixtures are copied to a temporary directory next to per-test simulations
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Email } from '../../src/types/index.js';
+
+const FIXTURES = 'tests/fixtures/mock-ai';
+const GOLDEN = 'scripts/fixtures/extraction';
+
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-ai-'));
+process.env.MOCK_AI_FIXTURES_DIR = fixturesDir;
+process.env.AI_CACHE_ENABLED = 'false';
+
+const {
+  default: mockAIService,
+  MockAIError,
+  detectHazmat,
+  mockEmailHash,
+  parsePlace,
+} = await import('../../src/services/ai/mockAIService.js');
+const { classifyAIError } = await import('../../src/services/ai/compositeAIService.js');
+const { default: aiUsageService } = await import('../../src/services/aiUsageService.js');
+const { parseRawEmail } = await import('../../src/services/mail/sources/mimeEmail.js');
+const { PARSED_EMAIL_OUTPUT } = await import('../../src/prompts/outputSchemas.js');
+
+const goldenEmail = async (name: string): Promise<Email> =>
+  (await parseRawEmail(fs.readFileSync(path.join(GOLDEN, `${name}.eml`)))).email;
+
+const syntheticEmail = (subject: string): Email => ({
+  id: `mock-test-${subject}`,
+  subject,
+  from: { emailAddress: { name: 'Test Sender', address: 'sender@example.com' } },
+  receivedDateTime: '2024-05-01T12:00:00Z',
+  body: {
+    contentType: 'text',
+    content: 'Flatbed from Houston, TX 77020 to Dallas, TX 75247. 20,000 lbs.',
+  },
+});
+
+/**
+ * Write a fixture for an email and make the service re-read the fixtures directory
+ */
+function writeFixture(email: Email, fixture: Record<string, unknown>): void {
+  fs.writeFileSync(path.join(fixturesDir, `${mockEmailHash(email)}.json`), JSON.stringify(fixture));
+  mockAIService.reset();
+}
+
+const extractionPrompt = (email: Email): string =>
+  mockAIService.getExtractionPrompt(mockAIService.prepareEmailContent(email));
+
+before(() => {
+  aiUsageService.disablePersistence();
+  for (const file of fs.readdirSync(FIXTURES)) {
+    fs.copyFileSync(path.join(FIXTURES, file), path.join(fixturesDir, file));
+  }
+});
+
+after(() => {
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+});
+
+describe('mock AI fixtures', () => {
+  it('answers from the fixture for the email, repairing its simulated malformed first reply', async () => {
+    const email = await goldenEmail('004_two_lanes_html');
+    assert.ok(fs.existsSync(path.join(FIXTURES, `${mockEmailHash(email)}.json`)));
+
+    const parsed = await mockAIService.parseEmail(email, 1);
+
+    assert.ok(parsed);
+    assert.equal(parsed.ai_provider, 'mock');
+    assert.deepEqual(
+      parsed.quotes.map((q) => `${q.origin_city} -> ${q.destination_city}`),
+      ['Chicago -> Atlanta', 'Chicago -> Memphis']
+    );
+  });
+
+  it('returns the same extraction on every run', async () => {
+    const email = await goldenEmail('001_flatbed_machinery');
+    const first = await mockAIService.parseEmail(email, 1);
+    const second = await mockAIService.parseEmail(email, 1);
+
+    assert.deepEqual(first, second);
+  });
+});
+
+describe('mock AI rule-based parsing', () => {
+  it('extracts the route, cargo and hazmat flag of a plain-text request', async () => {
+    const parsed = await mockAIService.parseEmail(await goldenEmail('001_flatbed_machinery'), 1);
+    const quote = parsed?.quotes[0];
+
+    assert.equal(parsed?.quotes.length, 1);
+    assert.equal(quote?.origin_city, 'Houston');
+    assert.equal(quote?.origin_state_province, 'TX');
+    assert.equal(quote?.origin_postal_code, '77020');
+    assert.equal(quote?.origin_full_address, '1200 Industrial Blvd, Houston, TX 77020');
+    assert.equal(quote?.destination_city, 'Dallas');
+    assert.equal(quote?.destination_postal_code, '75247');
+    assert.equal(quote?.cargo_weight, 38500);
+    assert.equal(quote?.weight_unit, 'lbs');
+    assert.deepEqual([quote?.cargo_length, quote?.cargo_width, quote?.cargo_height], [14, 8, 9]);
+    assert.equal(quote?.number_of_pieces, 1);
+    assert.equal(quote?.hazardous_material, false);
+  });
+
+  it('flags hazmat when the email names a UN number', async () => {
+    const parsed = await mockAIService.parseEmail(await goldenEmail('005_hazmat_intermodal'), 1);
+
+    assert.equal(parsed?.quotes[0]?.hazardous_material, true);
+    assert.equal(parsed?.quotes[0]?.service_type, 'Intermodal');
+  });
+
+  it('reads the place from a phrase around it', () => {
+    assert.deepEqual(parsePlace('our customer in Dallas, TX 75247'), {
+      city: 'Dallas',
+      state: 'TX',
+      postal: '75247',
+      address: 'Dallas, TX 75247',
+    });
+    assert.equal(
+      parsePlace('our shop at 1200 Industrial Blvd, Houston, TX 77020')?.address,
+      '1200 Industrial Blvd, Houston, TX 77020'
+    );
+    assert.equal(parsePlace('the warehouse'), null);
+  });
+
+  it('only flags hazmat on an unnegated mention', () => {
+    assert.equal(detectHazmat('Not hazmat. Please include tarping.').hazardous, false);
+    assert.equal(detectHazmat('palletized canned goods, no hazmat').hazardous, false);
+    assert.equal(detectHazmat('non-hazardous resin').hazardous, false);
+    assert.equal(detectHazmat('machine parts').hazardous, false);
+    assert.equal(detectHazmat('paint in drums, UN1263, class 3').hazardous, true);
+    assert.equal(detectHazmat('Not hazmat, but the second load is hazardous').hazardous, true);
+  });
+});
+
+describe('mock AI simulated failures', () => {
+  for (const kind of ['rate_limit', 'timeout', 'unavailable', 'auth', 'bad_request'] as const) {
+    it(`fails with a ${kind} error the fallback chain classifies as ${kind}`, async () => {
+      const email = syntheticEmail(`Simulated ${kind}`);
+      writeFixture(email, { simulate: { error: kind } });
+
+      const error = await mockAIService
+        .generateStructuredResponse(extractionPrompt(email), PARSED_EMAIL_OUTPUT)
+        .then(
+          () => null,
+          (err: unknown) => err
+        );
+
+      assert.ok(error instanceof MockAIError);
+      assert.equal(classifyAIError(error).kind, kind);
+    });
+  }
+
+  it('fails only the first failCalls calls for a key', async () => {
+    const email = syntheticEmail('Simulated failCalls');
+    writeFixture(email, { simulate: { error: 'unavailable', failCalls: 1 } });
+    const prompt = extractionPrompt(email);
+
+    await assert.rejects(
+      mockAIService.generateStructuredResponse(prompt, PARSED_EMAIL_OUTPUT),
+      MockAIError
+    );
+    const text = await mockAIService.generateStructuredResponse(prompt, PARSED_EMAIL_OUTPUT);
+    assert.equal(JSON.parse(text).quotes[0].origin_city, 'Houston');
+  });
+
+  it('returns truncated JSON in malformed mode, and the extraction fails after its repair retry', async () => {
+    const email = syntheticEmail('Simulated malformed');
+    writeFixture(email, { simulate: { malformed: true } });
+
+    const text = await mockAIService.generateStructuredResponse(
+      extractionPrompt(email),
+      PARSED_EMAIL_OUTPUT
+    );
+    assert.throws(() => JSON.parse(text), SyntaxError);
+
+    mockAIService.reset();
+    assert.equal(await mockAIService.parseEmail(email, 1), null);
+  });
+
+  it('waits the simulated latency', async () => {
+    const email = syntheticEmail('Simulated latency');
+    writeFixture(email, { simulate: { latencyMs: 50 } });
+
+    const started = Date.now();
+    await mockAIService.generateStructuredResponse(extractionPrompt(email), PARSED_EMAIL_OUTPUT);
+    assert.ok(Date.now() - started >= 45);
+  });
+});
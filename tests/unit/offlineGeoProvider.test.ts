@@ -0,0 +1,61 @@
+/**
+ * Offline geocoding from the bundled seed and a GeoNames cities file
+ */
+
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const gazetteerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gazetteer-'));
+const gazetteerFile = path.join(gazetteerDir, 'cities.txt');
+
+// geonameid, name, asciiname, alternatenames, lat, lng, class, code, country, cc2, admin1, ..., population
+const geonamesLine = (
+  name: string,
+  lat: number,
+  lng: number,
+  country: string,
+  admin1: string,
+  population: number
+) =>
+  ['1', name, name, '', lat, lng, 'P', 'PPL', country, '', admin1, '', '', '', population].join(
+    '\t'
+  );
+
+fs.writeFileSync(
+  gazetteerFile,
+  [
+    geonamesLine('Lakemoor Falls', 42.1, -88.2, 'US', 'IL', 4000),
+    geonamesLine('Lakemoor Falls', 45.3, -75.7, 'CA', '08', 25000),
+  ].join('\n')
+);
+process.env.GEO_GAZETTEER_FILE = gazetteerFile;
+
+const { default: offlineGeoProvider } = await import(
+  '../../src/services/geo/offlineGeoProvider.js'
+);
+
+describe('offlineGeoProvider.geocode', () => {
+  after(() => fs.rmSync(gazetteerDir, { recursive: true, force: true }));
+
+  it('finds a city given without state or country', async () => {
+    const location = await offlineGeoProvider.geocode({ city: 'Houston' });
+
+    assert.equal(location?.precision, 'city');
+    assert.match(location?.formattedAddress ?? '', /^Houston, TX, US$/);
+  });
+
+  it('uses the most populous place of a name when no country is given', async () => {
+    const location = await offlineGeoProvider.geocode({ city: 'Lakemoor Falls' });
+
+    assert.equal(location?.formattedAddress, 'Lakemoor Falls, 08, CA');
+  });
+
+  it('keeps to the given state and country', async () => {
+    const location = await offlineGeoProvider.geocode({ city: 'Lakemoor Falls', state: 'IL' });
+
+    assert.equal(location?.formattedAddress, 'Lakemoor Falls, IL, US');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Quote lifecycle state machine and customer response classification
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import quoteLifecycleService, {
+  QUOTE_LIFECYCLE_STATUSES,
+  QUOTE_TRANSITIONS,
+} from '../../src/services/quoteLifecycleService.js';
+
+describe('QUOTE_TRANSITIONS', () => {
+  it('only targets known states', () => {
+    for (const targets of Object.values(QUOTE_TRANSITIONS)) {
+      for (const target of targets) {
+        assert.ok(QUOTE_LIFECYCLE_STATUSES.includes(target), target);
+      }
+    }
+  });
+
+  it('makes won and lost final', () => {
+    assert.deepEqual(QUOTE_TRANSITIONS.won, []);
+    assert.deepEqual(QUOTE_TRANSITIONS.lost, []);
+  });
+
+  it('lets a quote be re-quoted after it expired, but not won without a new price', () => {
+    assert.equal(quoteLifecycleService.canTransition('expired', 'revised'), true);
+    assert.equal(quoteLifecycleService.canTransition('expired', 'won'), false);
+  });
+
+  it('follows the requested -> priced -> sent -> revised -> won path', () => {
+    const path = ['requested', 'priced', 'sent', 'revised', 'revised', 'won'] as const;
+    for (let i = 1; i < path.length; i++) {
+      assert.equal(quoteLifecycleService.canTransition(path[i - 1]!, path[i]!), true);
+    }
+    assert.equal(quoteLifecycleService.canTransition('priced', 'requested'), false);
+    assert.equal(quoteLifecycleService.canTransition('requested', 'won'), false);
+  });
+
+  it('lists the states a target can be reached from', () => {
+    assert.deepEqual(quoteLifecycleService.getAllowedFrom('won'), ['sent', 'revised']);
+    assert.deepEqual(quoteLifecycleService.getAllowedFrom('priced'), ['requested']);
+  });
+});
+
+describe('classifyCustomerResponse', () => {
+  const classify = (body: string | null) => quoteLifecycleService.classifyCustomerResponse(body);
+
+  it('recognizes acceptances', () => {
+    assert.equal(classify('Thanks, please book it for Monday.'), 'won');
+    assert.equal(classify('We accept the rate. PO number is attached.'), 'won');
+  });
+
+  it('recognizes rejections', () => {
+    assert.equal(classify('Sorry, we went with another carrier.'), 'lost');
+    assert.equal(classify('Your price is too high for this lane.'), 'lost');
+    assert.equal(classify('The shipment was cancelled.'), 'lost');
+  });
+
+  it('leaves mixed, neutral and empty replies for a rep', () => {
+    assert.equal(classify('Too high, but please book it if you can do $2,000.'), null);
+    assert.equal(classify('Can you also quote a reefer?'), null);
+    assert.equal(classify(null), null);
+  });
+
+  it('ignores the quoted history below the new message', () => {
+    const reply =
+      'Can you hold the rate until Friday?\n\nOn Mon, Mar 4, Sales wrote:\n> Please book it';
+    assert.equal(classify(reply), null);
+  });
+});